@@ -6,14 +6,47 @@ type User = {
   picture?: string;
 };
 
-type JobSummary = {
+type TimelineEvent = {
+  stage: string;
+  email_id: string;
+  date: string;
+  summary: string;
+  flagged?: string;
+};
+
+type Application = {
+  id: string;
+  company_name: string;
+  company_slug: string;
+  role_title: string;
+  requisition_id?: string;
+  source?: string;
+  stage: string;
+  applied_at?: string;
+  created_at: string;
+  last_updated: string;
+  email_ids: string[];
+  timeline: TimelineEvent[];
+  needs_review: boolean;
+};
+
+type StatusCounter =
+  | 'applied'
+  | 'recruiter_outreach'
+  | 'next_steps'
+  | 'assessment'
+  | 'interview_scheduled'
+  | 'offer'
+  | 'on_hold'
+  | 'rejected'
+  | 'withdrawn';
+
+type JobSummary = Partial<Record<StatusCounter, number>> & {
   id: string;
   company_name: string;
-  applied: number;
-  rejected: number;
-  next_steps: number;
   comments: { date: string; note: string }[];
   last_updated: string;
+  applications: Application[];
 };
 
 type GmailEmail = {
@@ -37,9 +70,268 @@ type GmailEmail = {
     company_name: string;
   };
   classifiedAt?: string;
+  classificationOverride?: { updatedAt: string };
   createdAt?: string;
+  applicationId?: string;
+  attachments?: EmailAttachment[];
+};
+
+type EmailAttachment = {
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  kind: 'calendar' | 'pdf' | 'docx' | 'other';
+  title?: string;
+  cancelled?: boolean;
+  event?: { start: string } | null;
+};
+
+type GmailAccount = { email: string; lastSyncedAt: string | null };
+
+type CorrectionDraft = { status: string; company_name: string; summary: string };
+
+type Interview = {
+  uid: string;
+  emailId: string;
+  company: string;
+  role?: string;
+  subject: string;
+  start: string;
+  end: string;
+  timezone?: string;
+  meeting_link?: string;
+  location?: string;
+  interviewers: string[];
+  format?: string;
+};
+
+type InterviewConflict = { a: string; b: string; overlapMinutes: number };
+
+type ClassificationSnapshot = { status: string; company_name: string; role_title?: string };
+
+type ReclassifyScope = { company?: string; after?: string; before?: string };
+
+type ReclassifyPreview = {
+  scope: ReclassifyScope;
+  model: string;
+  promptVersion: number;
+  total: number;
+  changed: number;
+  failed: number;
+  changes: Array<{
+    emailId: string;
+    subject: string;
+    internalDate: number;
+    before: ClassificationSnapshot;
+    after: ClassificationSnapshot;
+    changed: boolean;
+  }>;
+  committedAt?: string;
+};
+
+type ReclassifyStatus = {
+  model: string;
+  promptVersion: number;
+  classified: number;
+  stale: number;
+};
+
+type FetchJob = {
+  id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  options?: { backfill?: boolean; reclassify?: ReclassifyScope };
+  cancelRequested?: boolean;
+  progress: {
+    phase: 'queued' | 'listing' | 'processing' | 'done';
+    listed: number;
+    processed: number;
+    gated: number;
+    skipped: number;
+    classified: number;
+    failed: number;
+  };
+  result?: { fetched: number; preview?: ReclassifyPreview; monthlyBudgetExceeded?: boolean };
+  error?: string;
+};
+
+type FailedMessage = {
+  id: string;
+  messageId: string;
+  threadId?: string;
+  subject?: string;
+  from?: string;
+  stage: 'fetch' | 'gate' | 'classify';
+  error: string;
+  attempts: number;
+  status: 'pending' | 'exhausted';
+  nextAttemptAt?: string;
+  lastFailedAt: string;
+};
+
+const FAILURE_STAGE_LABELS: Record<FailedMessage['stage'], string> = {
+  fetch: 'Gmail fetch',
+  gate: 'Job filter',
+  classify: 'Classification',
+};
+
+type Backfill = {
+  status: 'running' | 'paused' | 'done';
+  startDate: string;
+  cursorMs: number;
+  llmBudget: number;
+  llmCalls: number;
+  fetched: number;
+  pausedReason?: 'user' | 'budget' | 'spend' | 'error';
+  error?: string;
+};
+
+type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+type UsageOverview = {
+  month: string;
+  current: {
+    totals: UsageTotals;
+    byDay: Array<UsageTotals & { day: string }>;
+    byStage: Record<string, UsageTotals>;
+  };
+  byMonth: Array<UsageTotals & { month: string }>;
+  monthSpendUsd: number;
+  monthlyBudgetUsd: number;
+  overBudget: boolean;
+  isAdmin: boolean;
+};
+
+type AdminUsage = {
+  month: string;
+  defaultMonthlyBudgetUsd: number;
+  users: Array<UsageTotals & { owner: string; monthlyBudgetUsd: number }>;
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+
+const formatBytes = (size: number) =>
+  size >= 1024 * 1024
+    ? `${(size / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(size / 1024))} KB`;
+
+const attachmentUrl = (email: GmailEmail, attachment: EmailAttachment) =>
+  `/api/gmail/emails/${encodeURIComponent(email.id)}/attachments/${encodeURIComponent(
+    attachment.partId
+  )}`;
+
+const isoDaysAgo = (days: number) =>
+  new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+
+const describeBackfill = (backfill: Backfill): string => {
+  const reached = new Date(backfill.cursorMs).toLocaleDateString();
+  const spend = `${backfill.llmCalls} of ${backfill.llmBudget} LLM calls used`;
+  if (backfill.status === 'done') {
+    return `Backfilled to ${backfill.startDate}: ${backfill.fetched} emails, ${spend}.`;
+  }
+  const state =
+    backfill.status === 'running'
+      ? 'Running'
+      : backfill.pausedReason === 'budget'
+        ? 'Paused: LLM budget reached'
+        : backfill.pausedReason === 'spend'
+          ? 'Paused: monthly LLM spend limit reached'
+        : backfill.pausedReason === 'error'
+          ? `Paused after an error (${backfill.error || 'unknown'})`
+          : 'Paused';
+  const where = `Reached ${reached} of ${backfill.startDate}`;
+  return `${state}. ${where}; ${backfill.fetched} emails, ${spend}.`;
+};
+
+const fetchJobRunning = (job: FetchJob | null) =>
+  Boolean(job && (job.status === 'queued' || job.status === 'running'));
+
+const describeFetchJob = (job: FetchJob): string => {
+  const { phase, listed, processed, classified, failed } = job.progress;
+  if (job.options?.reclassify) {
+    const preview = job.result?.preview;
+    if (job.status === 'succeeded' && preview) {
+      return `Reclassification preview ready: ${preview.changed} of ${preview.total} would change.`;
+    }
+    if (job.status === 'succeeded' && job.result?.monthlyBudgetExceeded) {
+      return 'Reclassification stopped: your monthly LLM budget is used up.';
+    }
+    if (phase === 'processing' && fetchJobRunning(job)) {
+      return `Reclassified ${processed} of ${listed} stored emails…`;
+    }
+  }
+  if (job.status === 'succeeded') {
+    const failures = failed ? ` ${failed} failed and will be retried.` : '';
+    const budget = job.result?.monthlyBudgetExceeded
+      ? ' Stopped early: your monthly LLM budget is used up.'
+      : '';
+    return `Fetched ${job.result?.fetched || 0} emails.${failures}${budget}`;
+  }
+  if (job.status === 'cancelled') return `Fetch cancelled after ${processed} of ${listed} emails.`;
+  if (job.status === 'failed') return `Gmail fetch failed: ${job.error || 'unknown error'}.`;
+  if (job.cancelRequested) return 'Cancelling…';
+  if (phase === 'queued') return 'Waiting for the fetch to start…';
+  if (phase === 'listing') return 'Listing new Gmail messages…';
+  return `Processed ${processed} of ${listed} emails (${classified} classified).`;
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  applied: 'Applied',
+  screen: 'Screen',
+  assessment: 'Assessment',
+  interview: 'Interview',
+  offer: 'Offer',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+  ghosted: 'Ghosted',
+  note: 'Note',
+};
+
+const STAGE_PILL_CLASS: Record<string, string> = {
+  applied: 'neutral',
+  screen: 'success',
+  assessment: 'success',
+  interview: 'success',
+  offer: 'success',
+  accepted: 'success',
+  rejected: 'danger',
+  withdrawn: 'danger',
+  ghosted: 'warning',
 };
 
+// Company card pills, in pipeline order. The first three always show, the rest only when non-zero.
+const STATUS_PILLS: Array<{ key: StatusCounter; label: string; className: string }> = [
+  { key: 'applied', label: 'Applied', className: 'neutral' },
+  { key: 'rejected', label: 'Rejected', className: 'danger' },
+  { key: 'next_steps', label: 'Next steps', className: 'success' },
+  { key: 'recruiter_outreach', label: 'Outreach', className: 'neutral' },
+  { key: 'assessment', label: 'Assessment', className: 'success' },
+  { key: 'interview_scheduled', label: 'Interviews', className: 'success' },
+  { key: 'offer', label: 'Offer', className: 'success' },
+  { key: 'on_hold', label: 'On hold', className: 'warning' },
+  { key: 'withdrawn', label: 'Withdrawn', className: 'danger' },
+];
+
+// Every classification status, for correcting an email by hand.
+const CLASSIFICATION_OPTIONS: Array<{ key: string; label: string }> = [
+  ...STATUS_PILLS.map(({ key, label }) => ({
+    key,
+    label: key === 'interview_scheduled' ? 'Interview scheduled' : label,
+  })),
+  { key: 'comment_only', label: 'Comment only' },
+  { key: 'not_job_related', label: 'Not job related' },
+];
+
+const stageLabel = (stage: string) => STAGE_LABELS[stage] || stage;
+const stagePillClass = (stage: string) => `pill ${STAGE_PILL_CLASS[stage] || 'neutral'}`;
+
 declare global {
   interface Window {
     google?: any;
@@ -67,6 +359,7 @@ export default function App() {
   const [loadingUser, setLoadingUser] = useState(true);
   const [googleClientId, setGoogleClientId] = useState<string | null>(null);
   const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
   const [jobsLoading, setJobsLoading] = useState(false);
   const [jobsError, setJobsError] = useState<string | null>(null);
   const [sort, setSort] = useState<'company' | 'updated'>('company');
@@ -74,12 +367,45 @@ export default function App() {
   const [actionLoading, setActionLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [gmailConnected, setGmailConnected] = useState<boolean | null>(null);
+  const [gmailAccounts, setGmailAccounts] = useState<GmailAccount[]>([]);
+  const [accountFilter, setAccountFilter] = useState('');
   const [gmailStatusError, setGmailStatusError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards');
   const [companyEmails, setCompanyEmails] = useState<GmailEmail[]>([]);
+  const [companyApplications, setCompanyApplications] = useState<Application[]>([]);
   const [companyEmailsLoading, setCompanyEmailsLoading] = useState(false);
   const [companyEmailsError, setCompanyEmailsError] = useState<string | null>(null);
   const [openEmailIds, setOpenEmailIds] = useState<Set<string>>(new Set());
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeSelection, setMergeSelection] = useState<Set<string>>(new Set());
+  const [mergeInto, setMergeInto] = useState('');
+  const [companyAliases, setCompanyAliases] = useState<Record<string, string>>({});
+  const [splitSelection, setSplitSelection] = useState<Set<string>>(new Set());
+  const [splitInto, setSplitInto] = useState('');
+  const [correctingEmailId, setCorrectingEmailId] = useState<string | null>(null);
+  const [correctionDraft, setCorrectionDraft] = useState<CorrectionDraft | null>(null);
+  const [correctionError, setCorrectionError] = useState<string | null>(null);
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [interviewConflicts, setInterviewConflicts] = useState<InterviewConflict[]>([]);
+  const [calendarFeedEnabled, setCalendarFeedEnabled] = useState(false);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  const [calendarStatus, setCalendarStatus] = useState<string | null>(null);
+  const [fetchJob, setFetchJob] = useState<FetchJob | null>(null);
+  const fetchEventsRef = useRef<EventSource | null>(null);
+  const [failures, setFailures] = useState<FailedMessage[]>([]);
+  const [failuresError, setFailuresError] = useState<string | null>(null);
+  const [reclassifyStatus, setReclassifyStatus] = useState<ReclassifyStatus | null>(null);
+  const [reclassifyScope, setReclassifyScope] = useState<ReclassifyScope>({});
+  const [reclassifyJob, setReclassifyJob] = useState<FetchJob | null>(null);
+  const [reclassifyMessage, setReclassifyMessage] = useState<string | null>(null);
+  const [backfill, setBackfill] = useState<Backfill | null>(null);
+  const [backfillStartDate, setBackfillStartDate] = useState(isoDaysAgo(180));
+  const [backfillBudget, setBackfillBudget] = useState('');
+  const [backfillStatus, setBackfillStatus] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageOverview | null>(null);
+  const [adminUsage, setAdminUsage] = useState<AdminUsage | null>(null);
+  const [budgetDrafts, setBudgetDrafts] = useState<Record<string, string>>({});
+  const [usageError, setUsageError] = useState<string | null>(null);
   const signInButtonRef = useRef<HTMLDivElement>(null);
 
   const checkingGmailConnection = user && gmailConnected === null;
@@ -89,9 +415,11 @@ export default function App() {
   const isHowItWorks = route.startsWith('/how-it-works');
   const isPricing = route.startsWith('/pricing');
   const isSupport = route.startsWith('/support');
+  const isFailures = route.startsWith('/failed-messages');
+  const isUsage = route.startsWith('/usage');
   const currentCompanySlug = isCompany ? route.replace('/company/', '') : '';
   const currentCompanyName = currentCompanySlug ? decodeURIComponent(currentCompanySlug) : '';
-  const needsAuthPage = isProfile || isCompany;
+  const needsAuthPage = isProfile || isCompany || isFailures || isUsage;
 
   const navigate = (path: string) => {
     if (path === route) return;
@@ -201,6 +529,7 @@ export default function App() {
         throw new Error(data.error || 'Failed to check Gmail connection');
       }
       setGmailConnected(Boolean(data.connected));
+      setGmailAccounts(data.accounts || []);
     } catch (err: any) {
       setGmailConnected(false);
       setGmailStatusError(err.message || 'Failed to check Gmail connection');
@@ -211,15 +540,18 @@ export default function App() {
     setJobsLoading(true);
     setJobsError(null);
     try {
-      const res = await fetch(`/api/jobs?sort=${encodeURIComponent(sortOrder)}`);
+      const account = accountFilter ? `&account=${encodeURIComponent(accountFilter)}` : '';
+      const res = await fetch(`/api/jobs?sort=${encodeURIComponent(sortOrder)}${account}`);
       const data = await res.json();
       if (!res.ok) {
         throw new Error(data.error || 'Failed to load jobs');
       }
-      setJobs(data.jobs || []);
+      setJobs(data.companies || []);
+      setApplications(data.applications || []);
     } catch (err: any) {
       setJobsError(err.message || 'Failed to load jobs');
       setJobs([]);
+      setApplications([]);
     } finally {
       setJobsLoading(false);
     }
@@ -229,7 +561,312 @@ export default function App() {
     if (user && isProfile) {
       loadJobs(sort);
     }
-  }, [user, sort, isProfile]);
+  }, [user, sort, accountFilter, isProfile]);
+
+  const loadInterviews = async () => {
+    try {
+      const res = await fetch('/api/calendar/interviews');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load interviews');
+      }
+      setInterviews(data.interviews || []);
+      setInterviewConflicts(data.conflicts || []);
+      setCalendarFeedEnabled(Boolean(data.feed?.enabled));
+    } catch (err: any) {
+      setCalendarStatus(err.message || 'Failed to load interviews');
+      setInterviews([]);
+      setInterviewConflicts([]);
+    }
+  };
+
+  useEffect(() => {
+    if (user && isProfile) {
+      loadInterviews();
+    } else {
+      setCalendarFeedUrl(null);
+      setCalendarStatus(null);
+    }
+  }, [user, isProfile]);
+
+  const createCalendarLink = async () => {
+    setCalendarStatus(null);
+    try {
+      const res = await fetch('/api/calendar/token', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create calendar link');
+      }
+      setCalendarFeedUrl(data.url);
+      setCalendarFeedEnabled(true);
+      setCalendarStatus('Copy this link into your calendar app. It will not be shown again.');
+    } catch (err: any) {
+      setCalendarStatus(err.message || 'Failed to create calendar link');
+    }
+  };
+
+  const revokeCalendarLink = async () => {
+    setCalendarStatus(null);
+    try {
+      const res = await fetch('/api/calendar/token', { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to revoke calendar link');
+      }
+      setCalendarFeedUrl(null);
+      setCalendarFeedEnabled(false);
+      setCalendarStatus('Calendar link revoked. Subscribed calendars will stop updating.');
+    } catch (err: any) {
+      setCalendarStatus(err.message || 'Failed to revoke calendar link');
+    }
+  };
+
+  const loadFailures = async () => {
+    try {
+      const res = await fetch('/api/gmail/failures');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load failed messages');
+      }
+      setFailures(data.failures || []);
+      setFailuresError(null);
+    } catch (err: any) {
+      setFailuresError(err.message || 'Failed to load failed messages');
+    }
+  };
+
+  useEffect(() => {
+    if (user && (isProfile || isFailures)) {
+      loadFailures();
+    }
+  }, [user, isProfile, isFailures]);
+
+  const loadUsage = async () => {
+    try {
+      const res = await fetch('/api/usage');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load usage');
+      }
+      setUsage(data);
+      if (data.isAdmin) {
+        const adminRes = await fetch('/api/admin/usage');
+        const adminData = await adminRes.json();
+        if (!adminRes.ok) {
+          throw new Error(adminData.error || 'Failed to load usage for all users');
+        }
+        setAdminUsage(adminData);
+      }
+      setUsageError(null);
+    } catch (err: any) {
+      setUsageError(err.message || 'Failed to load usage');
+    }
+  };
+
+  useEffect(() => {
+    if (user && isUsage) {
+      loadUsage();
+    }
+  }, [user, isUsage]);
+
+  // An empty value clears the user's own budget so the server default applies again.
+  const saveBudget = async (owner: string) => {
+    const draft = (budgetDrafts[owner] ?? '').trim();
+    try {
+      const res = await fetch(`/api/admin/usage/${encodeURIComponent(owner)}/budget`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monthlyBudgetUsd: draft === '' ? null : Number(draft) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save budget');
+      }
+      setBudgetDrafts((current) => {
+        const next = { ...current };
+        delete next[owner];
+        return next;
+      });
+      await loadUsage();
+    } catch (err: any) {
+      setUsageError(err.message || 'Failed to save budget');
+    }
+  };
+
+  const retryFailure = async (failure: FailedMessage) => {
+    try {
+      const res = await fetch(`/api/gmail/failures/${encodeURIComponent(failure.id)}/retry`, {
+        method: 'POST',
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to retry message');
+      }
+      setFailures((current) =>
+        current.map((item) => (item.id === failure.id ? data.failure : item))
+      );
+      if (data.job) followFetchJob(data.job);
+    } catch (err: any) {
+      setFailuresError(err.message || 'Failed to retry message');
+    }
+  };
+
+  const dismissFailure = async (failure: FailedMessage) => {
+    try {
+      const res = await fetch(`/api/gmail/failures/${encodeURIComponent(failure.id)}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to dismiss message');
+      }
+      setFailures((current) => current.filter((item) => item.id !== failure.id));
+    } catch (err: any) {
+      setFailuresError(err.message || 'Failed to dismiss message');
+    }
+  };
+
+  const loadReclassifyStatus = async () => {
+    try {
+      const res = await fetch('/api/reclassify/status');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load reclassification status');
+      }
+      setReclassifyStatus(data);
+    } catch (err: any) {
+      setReclassifyMessage(err.message || 'Failed to load reclassification status');
+    }
+  };
+
+  useEffect(() => {
+    if (user && isProfile) {
+      loadReclassifyStatus();
+    } else {
+      setReclassifyMessage(null);
+    }
+  }, [user, isProfile]);
+
+  const startReclassify = async () => {
+    setReclassifyMessage(null);
+    setReclassifyJob(null);
+    try {
+      const res = await fetch('/api/reclassify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(reclassifyScope),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start reclassification');
+      }
+      followFetchJob(data.job);
+    } catch (err: any) {
+      setReclassifyMessage(err.message || 'Failed to start reclassification');
+    }
+  };
+
+  const commitReclassify = async () => {
+    if (!reclassifyJob) return;
+    setReclassifyMessage(null);
+    try {
+      const res = await fetch(`/api/reclassify/${reclassifyJob.id}/commit`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to apply reclassification');
+      }
+      setReclassifyJob(null);
+      setReclassifyMessage(
+        `Updated ${data.updated} emails` +
+          (data.skipped ? ` (${data.skipped} changed since the preview were left alone).` : '.')
+      );
+      await Promise.all([loadJobs(sort), loadReclassifyStatus()]);
+    } catch (err: any) {
+      setReclassifyMessage(err.message || 'Failed to apply reclassification');
+    }
+  };
+
+  const reclassifyPreview = reclassifyJob?.result?.preview;
+  const changedReclassifications = (reclassifyPreview?.changes || []).filter((c) => c.changed);
+  const describeSnapshot = (snapshot: ClassificationSnapshot) =>
+    `${snapshot.status.replace(/_/g, ' ')} · ${snapshot.company_name || 'unknown'}${
+      snapshot.role_title ? ` · ${snapshot.role_title}` : ''
+    }`;
+
+  const loadBackfill = async () => {
+    try {
+      const res = await fetch('/api/gmail/backfill');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load backfill');
+      }
+      setBackfill(data.backfill);
+      setBackfillBudget((current) => current || String(data.defaultLlmBudget || ''));
+      if (data.job && !fetchEventsRef.current) {
+        followFetchJob(data.job);
+      }
+    } catch (err: any) {
+      setBackfillStatus(err.message || 'Failed to load backfill');
+    }
+  };
+
+  useEffect(() => {
+    if (user && isProfile && gmailConnected) {
+      loadBackfill();
+    } else {
+      setBackfillStatus(null);
+    }
+  }, [user, isProfile, gmailConnected]);
+
+  const sendBackfillAction = async (path: string, body?: Record<string, unknown>) => {
+    setBackfillStatus(null);
+    try {
+      const res = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Backfill request failed');
+      }
+      if (data.backfill) setBackfill(data.backfill);
+      if (data.job) followFetchJob(data.job);
+    } catch (err: any) {
+      setBackfillStatus(err.message || 'Backfill request failed');
+    }
+  };
+
+  const startBackfill = () =>
+    sendBackfillAction('/api/gmail/backfill', {
+      startDate: backfillStartDate,
+      llmBudget: Number(backfillBudget) || undefined,
+    });
+  const pauseBackfill = () => sendBackfillAction('/api/gmail/backfill/pause');
+  const resumeBackfill = () =>
+    sendBackfillAction('/api/gmail/backfill/resume', {
+      llmBudget: Number(backfillBudget) || undefined,
+    });
+
+  const conflictsFor = (uid: string) =>
+    interviewConflicts
+      .filter((conflict) => conflict.a === uid || conflict.b === uid)
+      .map((conflict) => (conflict.a === uid ? conflict.b : conflict.a))
+      .map((otherUid) => interviews.find((interview) => interview.uid === otherUid))
+      .filter((other): other is Interview => Boolean(other));
+
+  const formatInterviewTime = (interview: Interview) => {
+    const start = new Date(interview.start);
+    const end = new Date(interview.end);
+    const day = start.toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+    const time = (d: Date) =>
+      d.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+    return `${day}, ${time(start)} – ${time(end)}`;
+  };
 
   useEffect(() => {
     if (user && isProfile) {
@@ -252,9 +889,11 @@ export default function App() {
         throw new Error(data.error || 'Failed to load company emails');
       }
       setCompanyEmails(data.emails || []);
+      setCompanyApplications(data.applications || []);
     } catch (err: any) {
       setCompanyEmailsError(err.message || 'Failed to load company emails');
       setCompanyEmails([]);
+      setCompanyApplications([]);
     } finally {
       setCompanyEmailsLoading(false);
     }
@@ -265,22 +904,63 @@ export default function App() {
       loadCompanyEmails(currentCompanyName);
     } else {
       setCompanyEmails([]);
+      setCompanyApplications([]);
       setCompanyEmailsError(null);
       setCompanyEmailsLoading(false);
       setOpenEmailIds(new Set());
     }
+    setSplitSelection(new Set());
   }, [user, currentCompanyName]);
 
-  const triggerGmailFetch = async () => {
+  const followFetchJob = (job: FetchJob) => {
+    fetchEventsRef.current?.close();
+    setFetchJob(job);
+    setGmailStatus(describeFetchJob(job));
+    if (!fetchJobRunning(job)) return;
+    const events = new EventSource(`/api/gmail/fetch/${job.id}/events`);
+    fetchEventsRef.current = events;
+    events.addEventListener('progress', (event) => {
+      const next: FetchJob = JSON.parse((event as MessageEvent).data);
+      setFetchJob(next);
+      setGmailStatus(describeFetchJob(next));
+      if (!fetchJobRunning(next)) {
+        events.close();
+        fetchEventsRef.current = null;
+        if (next.options?.reclassify) {
+          setReclassifyJob(next);
+          return;
+        }
+        loadJobs(sort);
+        loadBackfill();
+        loadFailures();
+      }
+    });
+    events.onerror = () => {
+      // The browser reconnects on its own; only give up once the server has closed for good.
+      if (events.readyState === EventSource.CLOSED) {
+        fetchEventsRef.current = null;
+        setFetchJob(null);
+      }
+    };
+  };
+
+  useEffect(() => () => fetchEventsRef.current?.close(), []);
+
+  // Fetches every connected mailbox, or only `account`.
+  const triggerGmailFetch = async (account?: string) => {
     if (!gmailConnected) {
       setGmailStatus('Please connect your Gmail account first.');
       connectGmail();
       return;
     }
     setActionLoading(true);
-    setGmailStatus('Fetching Gmail...');
+    setGmailStatus('Starting Gmail fetch…');
     try {
-      const res = await fetch('/api/gmail/fetch', { method: 'POST' });
+      const res = await fetch('/api/gmail/fetch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(account ? { account } : {}),
+      });
       const data = await res.json();
       if (!res.ok) {
         if (res.status === 409 || data.code === 'NO_GMAIL_TOKENS') {
@@ -290,8 +970,7 @@ export default function App() {
         }
         throw new Error(data.error || 'Failed to fetch Gmail');
       }
-      setGmailStatus(`Fetched ${data.result?.fetched || 0} emails.`);
-      await loadJobs(sort);
+      followFetchJob(data.job);
     } catch (err: any) {
       setGmailStatus(err.message || 'Failed to fetch Gmail.');
     } finally {
@@ -299,10 +978,188 @@ export default function App() {
     }
   };
 
+  const cancelGmailFetch = async () => {
+    if (!fetchJob) return;
+    try {
+      const res = await fetch(`/api/gmail/fetch/${fetchJob.id}/cancel`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to cancel fetch');
+      }
+      if (data.job) {
+        setFetchJob(data.job);
+        setGmailStatus(describeFetchJob(data.job));
+      }
+    } catch (err: any) {
+      setGmailStatus(err.message || 'Failed to cancel fetch.');
+    }
+  };
+
+  const recomputeRollups = async () => {
+    setActionLoading(true);
+    setGmailStatus('Rebuilding company rollups…');
+    try {
+      const res = await fetch('/api/jobs/recompute', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to rebuild rollups');
+      }
+      setGmailStatus(
+        `Rebuilt ${data.companies || 0} companies and ${data.applications || 0} applications.`
+      );
+      await loadJobs(sort);
+    } catch (err: any) {
+      setGmailStatus(err.message || 'Failed to rebuild rollups.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const loadCompanyAliases = async () => {
+    try {
+      const res = await fetch('/api/companies/aliases');
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load company aliases');
+      }
+      setCompanyAliases(data.aliases || {});
+    } catch (err: any) {
+      setGmailStatus(err.message || 'Failed to load company aliases.');
+    }
+  };
+
+  const openMerge = () => {
+    setMergeOpen(true);
+    setMergeSelection(new Set());
+    setMergeInto('');
+    loadCompanyAliases();
+  };
+
+  const toggleMergeCompany = (name: string) => {
+    const next = new Set(mergeSelection);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setMergeSelection(next);
+    if (!mergeInto && next.size) setMergeInto(Array.from(next)[0]);
+  };
+
+  // Merge and unmerge both change aliases; the server rebuilds the rollups before answering.
+  const updateCompanyAliases = async (url: string, init: RequestInit, pending: string) => {
+    setActionLoading(true);
+    setGmailStatus(pending);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update companies');
+      }
+      setCompanyAliases(data.aliases || {});
+      setMergeSelection(new Set());
+      setMergeInto('');
+      setGmailStatus(`Companies updated; ${data.companies || 0} companies now.`);
+      await loadJobs(sort);
+    } catch (err: any) {
+      setGmailStatus(err.message || 'Failed to update companies.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const mergeCompanies = () =>
+    updateCompanyAliases(
+      '/api/companies/merge',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companies: Array.from(mergeSelection), into: mergeInto }),
+      },
+      `Merging ${mergeSelection.size} companies into ${mergeInto}…`
+    );
+
+  const unmergeAlias = (alias: string) =>
+    updateCompanyAliases(
+      `/api/companies/aliases/${encodeURIComponent(alias)}`,
+      { method: 'DELETE' },
+      `Splitting ${alias} back out…`
+    );
+
+  const toggleSplitEmail = (emailId: string) => {
+    setSplitSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(emailId)) {
+        next.delete(emailId);
+      } else {
+        next.add(emailId);
+      }
+      return next;
+    });
+  };
+
+  const splitCompany = async () => {
+    setCompanyEmailsError(null);
+    try {
+      const res = await fetch('/api/companies/split', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailIds: Array.from(splitSelection), into: splitInto }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to move emails');
+      }
+      setSplitSelection(new Set());
+      setSplitInto('');
+      await Promise.all([loadCompanyEmails(currentCompanyName), loadJobs(sort)]);
+    } catch (err: any) {
+      setCompanyEmailsError(err.message || 'Failed to move emails');
+    }
+  };
+
+  const migrateStatuses = async () => {
+    setActionLoading(true);
+    setGmailStatus('Upgrading stored classifications…');
+    try {
+      const res = await fetch('/api/jobs/migrate-statuses', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to upgrade classifications');
+      }
+      setGmailStatus(
+        `Upgraded ${data.migrated || 0} emails (${data.changed || 0} moved to a new status).`
+      );
+      await loadJobs(sort);
+    } catch (err: any) {
+      setGmailStatus(err.message || 'Failed to upgrade classifications.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const connectGmail = () => {
     window.location.href = '/auth/google';
   };
 
+  const disconnectGmailAccount = async (account: string) => {
+    if (!window.confirm(`Disconnect ${account}? Emails already fetched from it are kept.`)) return;
+    try {
+      const res = await fetch(`/api/gmail/accounts/${encodeURIComponent(account)}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to disconnect Gmail account');
+      }
+      if (accountFilter === account) setAccountFilter('');
+      setGmailStatus(`Disconnected ${account}.`);
+      await loadGmailConnection();
+    } catch (err: any) {
+      setGmailStatus(err.message || 'Failed to disconnect Gmail account.');
+    }
+  };
+
   const logout = async () => {
     try {
       await fetch('/api/logout', { method: 'POST' });
@@ -311,6 +1168,7 @@ export default function App() {
     } finally {
       setUser(null);
       setJobs([]);
+      setApplications([]);
       setGmailConnected(null);
       setGmailStatusError(null);
       navigate('/');
@@ -324,6 +1182,20 @@ export default function App() {
       .join('\n');
   };
 
+  const roleLabel = (app: Application) => app.role_title || 'Role not specified';
+
+  const linkedEmailIds = new Set(
+    companyApplications.flatMap((app) => (app.timeline || []).map((event) => event.email_id))
+  );
+  const unattachedEmails = companyEmails
+    .filter((email) => !linkedEmailIds.has(email.id))
+    .sort((a, b) => (a.internalDate || 0) - (b.internalDate || 0));
+
+  // Newest first, like the emails they came with.
+  const companyAttachments = companyEmails.flatMap((email) =>
+    (email.attachments || []).map((attachment) => ({ email, attachment }))
+  );
+
   const gmailLinkForEmail = (email: GmailEmail) => {
     const targetId = email.threadId || email.id;
     if (!targetId) return '';
@@ -334,16 +1206,179 @@ export default function App() {
     return `${base}#all/${encodeURIComponent(targetId)}`;
   };
 
-  const toggleEmailOpen = (emailId: string) => {
-    setOpenEmailIds((prev) => {
-      const next = new Set(prev);
-      if (next.has(emailId)) {
-        next.delete(emailId);
-      } else {
-        next.add(emailId);
-      }
-      return next;
-    });
+  const toggleEmailOpen = (emailId: string) => {
+    setOpenEmailIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(emailId)) {
+        next.delete(emailId);
+      } else {
+        next.add(emailId);
+      }
+      return next;
+    });
+  };
+
+  const startCorrection = (email: GmailEmail) => {
+    setCorrectingEmailId(email.id);
+    setCorrectionError(null);
+    setCorrectionDraft({
+      status: email.classification?.status || 'comment_only',
+      company_name: email.classification?.company_name || '',
+      summary: email.classification?.summary || '',
+    });
+  };
+
+  const cancelCorrection = () => {
+    setCorrectingEmailId(null);
+    setCorrectionDraft(null);
+    setCorrectionError(null);
+  };
+
+  // Save (or, without a draft, remove) a correction, then reload so rollups and moves show.
+  const submitCorrection = async (email: GmailEmail, draft: CorrectionDraft | null) => {
+    setCorrectionError(null);
+    try {
+      const res = await fetch(`/api/emails/${encodeURIComponent(email.id)}/classification`, {
+        method: draft ? 'PATCH' : 'DELETE',
+        headers: draft ? { 'Content-Type': 'application/json' } : undefined,
+        body: draft ? JSON.stringify(draft) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save correction');
+      }
+      cancelCorrection();
+      await Promise.all([loadCompanyEmails(currentCompanyName), loadJobs(sort)]);
+    } catch (err: any) {
+      const message = err.message || 'Failed to save correction';
+      if (draft) {
+        setCorrectionError(message);
+      } else {
+        setCompanyEmailsError(message);
+      }
+    }
+  };
+
+  const renderCorrection = (email: GmailEmail) => {
+    if (correctingEmailId !== email.id || !correctionDraft) {
+      return (
+        <div className="action-row">
+          <button className="btn ghost" onClick={() => startCorrection(email)}>
+            Correct classification
+          </button>
+          {email.classificationOverride && (
+            <button className="btn ghost" onClick={() => submitCorrection(email, null)}>
+              Undo correction
+            </button>
+          )}
+        </div>
+      );
+    }
+    return (
+      <form
+        className="correction-form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitCorrection(email, correctionDraft);
+        }}
+      >
+        <label>
+          Status
+          <select
+            value={correctionDraft.status}
+            onChange={(e) => setCorrectionDraft({ ...correctionDraft, status: e.target.value })}
+          >
+            {CLASSIFICATION_OPTIONS.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Company
+          <input
+            value={correctionDraft.company_name}
+            onChange={(e) =>
+              setCorrectionDraft({ ...correctionDraft, company_name: e.target.value })
+            }
+          />
+        </label>
+        <label className="wide">
+          Summary
+          <textarea
+            rows={2}
+            value={correctionDraft.summary}
+            onChange={(e) => setCorrectionDraft({ ...correctionDraft, summary: e.target.value })}
+          />
+        </label>
+        <div className="action-row">
+          <button className="btn primary" type="submit">
+            Save correction
+          </button>
+          <button className="btn ghost" type="button" onClick={cancelCorrection}>
+            Cancel
+          </button>
+        </div>
+        {correctionError && <p className="error small">{correctionError}</p>}
+      </form>
+    );
+  };
+
+  const renderTimelineItem = (key: string, event: TimelineEvent, email?: GmailEmail) => {
+    const isOpen = email ? openEmailIds.has(email.id) : false;
+    const gmailLink = email ? gmailLinkForEmail(email) : '';
+    const classes = ['timeline-item', `stage-${event.stage}`];
+    if (event.flagged) classes.push('flagged');
+    return (
+      <li key={key} className={classes.join(' ')}>
+        <span className="timeline-dot" />
+        <div className="timeline-content">
+          <div className="timeline-meta">
+            <span className="muted small">{event.date}</span>
+            <span className="label">{stageLabel(event.stage)}</span>
+            {event.flagged && (
+              <span className="pill warning">Check this: {event.flagged}</span>
+            )}
+            {email?.classificationOverride && <span className="pill neutral">Corrected</span>}
+            {email && (
+              <label className="muted small split-select">
+                <input
+                  type="checkbox"
+                  checked={splitSelection.has(email.id)}
+                  onChange={() => toggleSplitEmail(email.id)}
+                />
+                Move
+              </label>
+            )}
+          </div>
+          <p className="timeline-summary">{event.summary || email?.snippet || ''}</p>
+          {email && (
+            <div className="timeline-email">
+              <button className="btn link" onClick={() => toggleEmailOpen(email.id)}>
+                {isOpen ? '▲' : '▼'} {email.subject || '(No subject)'}
+              </button>
+              {gmailLink && (
+                <a href={gmailLink} className="btn ghost" target="_blank" rel="noopener noreferrer">
+                  Open in Gmail
+                </a>
+              )}
+            </div>
+          )}
+          {email && isOpen && (
+            <div className="timeline-body">
+              <p className="muted small">From {email.from || 'Unknown sender'}</p>
+              {(email.body || email.snippet) && (
+                <pre className="email-body">
+                  {(email.body || email.snippet || '').slice(0, 2000)}
+                </pre>
+              )}
+              {renderCorrection(email)}
+            </div>
+          )}
+        </div>
+      </li>
+    );
   };
 
   useEffect(() => {
@@ -517,10 +1552,10 @@ export default function App() {
                   ) : gmailConnected ? (
                     <button
                       className="btn primary"
-                      onClick={triggerGmailFetch}
-                      disabled={actionLoading}
+                      onClick={() => triggerGmailFetch()}
+                      disabled={actionLoading || fetchJobRunning(fetchJob)}
                     >
-                      {actionLoading ? 'Working…' : 'Fetch Gmail now'}
+                      {actionLoading || fetchJobRunning(fetchJob) ? 'Working…' : 'Fetch Gmail now'}
                     </button>
                   ) : (
                     <button className="btn primary" onClick={connectGmail} disabled={actionLoading}>
@@ -536,6 +1571,14 @@ export default function App() {
                       Gmail connected
                     </span>
                   )}
+                  <button className="btn link" onClick={() => navigate('/usage')}>
+                    LLM usage
+                  </button>
+                  {failures.length > 0 && (
+                    <button className="btn link" onClick={() => navigate('/failed-messages')}>
+                      {failures.length} failed {failures.length === 1 ? 'message' : 'messages'}
+                    </button>
+                  )}
                 </>
               ) : (
                 <div className="sign-in-block">
@@ -545,12 +1588,59 @@ export default function App() {
               )}
             </div>
           </div>
+          {gmailAccounts.length > 0 && (
+            <div className="sub-row tight-row gmail-accounts">
+              {gmailAccounts.map((account) => (
+                <span key={account.email} className="gmail-account">
+                  <span>{account.email}</span>
+                  <span className="muted small">
+                    {account.lastSyncedAt
+                      ? `synced to ${new Date(account.lastSyncedAt).toLocaleDateString()}`
+                      : 'not fetched yet'}
+                  </span>
+                  <button
+                    className="btn link"
+                    onClick={() => triggerGmailFetch(account.email)}
+                    disabled={actionLoading || fetchJobRunning(fetchJob)}
+                  >
+                    Fetch
+                  </button>
+                  <button
+                    className="btn link"
+                    onClick={() => disconnectGmailAccount(account.email)}
+                  >
+                    Disconnect
+                  </button>
+                </span>
+              ))}
+              <button className="btn link" onClick={connectGmail}>
+                Connect another Gmail account
+              </button>
+            </div>
+          )}
           {(gmailStatus || gmailStatusError) && (
             <div className="sub-row tight-row hero-status">
               {gmailStatus && <p className="status">{gmailStatus}</p>}
               {gmailStatusError && <p className="error">{gmailStatusError}</p>}
             </div>
           )}
+          {fetchJob && fetchJobRunning(fetchJob) && (
+            <div className="sub-row tight-row fetch-progress">
+              <progress
+                max={Math.max(fetchJob.progress.listed, 1)}
+                value={
+                  fetchJob.progress.phase === 'processing' ? fetchJob.progress.processed : undefined
+                }
+              />
+              <button
+                className="btn ghost"
+                onClick={cancelGmailFetch}
+                disabled={fetchJob.cancelRequested}
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
       </header>
 
@@ -579,6 +1669,28 @@ export default function App() {
                     Last updated
                   </button>
                 </div>
+                {gmailAccounts.length > 1 && (
+                  <div className="menu-section">
+                    <p className="muted small">Account</p>
+                    <button
+                      className={accountFilter === '' ? 'menu-item active' : 'menu-item'}
+                      onClick={() => setAccountFilter('')}
+                    >
+                      All accounts
+                    </button>
+                    {gmailAccounts.map((account) => (
+                      <button
+                        key={account.email}
+                        className={
+                          accountFilter === account.email ? 'menu-item active' : 'menu-item'
+                        }
+                        onClick={() => setAccountFilter(account.email)}
+                      >
+                        {account.email}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div className="menu-section">
                   <p className="muted small">View</p>
                   <button
@@ -594,6 +1706,26 @@ export default function App() {
                     Table
                   </button>
                 </div>
+                <div className="menu-section">
+                  <p className="muted small">Maintenance</p>
+                  <button
+                    className="menu-item"
+                    onClick={recomputeRollups}
+                    disabled={actionLoading}
+                  >
+                    Rebuild counts from emails
+                  </button>
+                  <button
+                    className="menu-item"
+                    onClick={migrateStatuses}
+                    disabled={actionLoading}
+                  >
+                    Upgrade old statuses
+                  </button>
+                  <button className="menu-item" onClick={openMerge} disabled={actionLoading}>
+                    Merge companies…
+                  </button>
+                </div>
               </div>
             </div>
           </div>
@@ -613,6 +1745,68 @@ export default function App() {
           </div>
         )}
 
+        {user && mergeOpen && (
+          <section className="merge-panel">
+            <div className="panel-header">
+              <div>
+                <p className="label">Merge companies</p>
+                <p className="muted small">
+                  Pick the cards that are the same employer. Their emails are counted under one
+                  name from now on, including future emails.
+                </p>
+              </div>
+              <button className="btn ghost" onClick={() => setMergeOpen(false)}>
+                Close
+              </button>
+            </div>
+            <div className="merge-options">
+              {jobs.map((job) => (
+                <label key={job.id}>
+                  <input
+                    type="checkbox"
+                    checked={mergeSelection.has(job.company_name)}
+                    onChange={() => toggleMergeCompany(job.company_name)}
+                  />
+                  {job.company_name}
+                </label>
+              ))}
+            </div>
+            <div className="action-row">
+              <input
+                className="merge-into"
+                placeholder="Merge into"
+                value={mergeInto}
+                onChange={(e) => setMergeInto(e.target.value)}
+              />
+              <button
+                className="btn primary"
+                onClick={mergeCompanies}
+                disabled={actionLoading || mergeSelection.size < 1 || !mergeInto.trim()}
+              >
+                Merge
+              </button>
+            </div>
+            {Object.keys(companyAliases).length > 0 && (
+              <ul className="alias-list">
+                {Object.entries(companyAliases).map(([alias, target]) => (
+                  <li key={alias}>
+                    <span>
+                      {alias} → {target}
+                    </span>
+                    <button
+                      className="btn link"
+                      onClick={() => unmergeAlias(alias)}
+                      disabled={actionLoading}
+                    >
+                      Unmerge
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
         {user && hasJobs && viewMode === 'cards' && (
           <div className="card-grid">
             {jobs.map((job) => (
@@ -640,10 +1834,31 @@ export default function App() {
                   </div>
                 </div>
                 <div className="pill-row">
-                  <span className="pill neutral">Applied {job.applied || 0}</span>
-                  <span className="pill danger">Rejected {job.rejected || 0}</span>
-                  <span className="pill success">Next steps {job.next_steps || 0}</span>
+                  {STATUS_PILLS.filter((pill, idx) => idx < 3 || (job[pill.key] || 0) > 0).map(
+                    (pill) => (
+                      <span key={pill.key} className={`pill ${pill.className}`}>
+                        {pill.label} {job[pill.key] || 0}
+                      </span>
+                    )
+                  )}
                 </div>
+                {job.applications && job.applications.length > 0 && (
+                  <div className="application-list">
+                    <p className="label">
+                      {job.applications.length === 1
+                        ? '1 application'
+                        : `${job.applications.length} applications`}
+                    </p>
+                    <ul>
+                      {job.applications.map((app) => (
+                        <li key={app.id}>
+                          <span>{roleLabel(app)}</span>
+                          <span className={stagePillClass(app.stage)}>{stageLabel(app.stage)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <div className="notes">
                   <p className="label">Notes</p>
                   {job.comments && job.comments.length > 0 ? (
@@ -673,41 +1888,281 @@ export default function App() {
               <thead>
                 <tr>
                   <th>Company</th>
+                  <th>Role</th>
+                  <th>Stage</th>
+                  <th>Requisition</th>
+                  <th>Source</th>
                   <th>Applied</th>
-                  <th>Rejected</th>
-                  <th>Next steps</th>
                   <th>Last updated</th>
-                  <th>Comments</th>
                 </tr>
               </thead>
               <tbody>
-                {jobs.map((job) => (
+                {applications.map((app) => (
                   <tr
-                    key={job.id}
+                    key={app.id}
                     className="clickable-row"
-                    onClick={() => navigateToCompany(job.company_name)}
+                    onClick={() => navigateToCompany(app.company_name)}
                   >
-                    <td>{job.company_name || ''}</td>
+                    <td>{app.company_name || ''}</td>
+                    <td>{roleLabel(app)}</td>
                     <td>
-                      <span className="pill neutral">{job.applied || 0}</span>
-                    </td>
-                    <td>
-                      <span className="pill danger">{job.rejected || 0}</span>
-                    </td>
-                    <td>
-                      <span className="pill success">{job.next_steps || 0}</span>
-                    </td>
-                    <td>{job.last_updated || ''}</td>
-                    <td>
-                      <div className="comment-text">{renderComments(job.comments || [])}</div>
+                      <span className={stagePillClass(app.stage)}>{stageLabel(app.stage)}</span>
                     </td>
+                    <td>{app.requisition_id || '—'}</td>
+                    <td>{app.source || '—'}</td>
+                    <td>{app.applied_at || '—'}</td>
+                    <td>{app.last_updated || ''}</td>
                   </tr>
                 ))}
+                {jobs
+                  .filter((job) => !job.applications || job.applications.length === 0)
+                  .map((job) => (
+                    <tr
+                      key={job.id}
+                      className="clickable-row"
+                      onClick={() => navigateToCompany(job.company_name)}
+                    >
+                      <td>{job.company_name || ''}</td>
+                      <td>—</td>
+                      <td>
+                        <div className="comment-text">{renderComments(job.comments || [])}</div>
+                      </td>
+                      <td>—</td>
+                      <td>—</td>
+                      <td>{job.applied || 0}</td>
+                      <td>{job.last_updated || ''}</td>
+                    </tr>
+                  ))}
               </tbody>
             </table>
           </div>
         )}
       </main>
+
+      {user && (
+        <section className="panel fade-in interviews-panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Calendar</p>
+              <h2>Upcoming interviews</h2>
+            </div>
+            <div className="controls-row">
+              <button className="btn ghost" onClick={createCalendarLink}>
+                {calendarFeedEnabled ? 'New calendar link' : 'Create calendar link'}
+              </button>
+              {calendarFeedEnabled && (
+                <button className="btn ghost" onClick={revokeCalendarLink}>
+                  Revoke link
+                </button>
+              )}
+            </div>
+          </div>
+          {calendarFeedUrl && (
+            <input
+              className="feed-url"
+              readOnly
+              value={calendarFeedUrl}
+              onFocus={(e) => e.currentTarget.select()}
+            />
+          )}
+          {calendarStatus && <p className="muted small">{calendarStatus}</p>}
+          {interviews.length === 0 ? (
+            <p className="muted">No upcoming interviews found in your emails.</p>
+          ) : (
+            <ul className="interview-list">
+              {interviews.map((interview) => {
+                const overlaps = conflictsFor(interview.uid);
+                return (
+                  <li key={interview.uid} className={overlaps.length ? 'conflict' : ''}>
+                    <div>
+                      <strong>{interview.company}</strong>
+                      {interview.role && <span className="muted"> · {interview.role}</span>}
+                      <div className="muted small">
+                        {formatInterviewTime(interview)}
+                        {interview.format && ` · ${interview.format}`}
+                        {interview.interviewers.length > 0 &&
+                          ` · with ${interview.interviewers.join(', ')}`}
+                      </div>
+                      {overlaps.length > 0 && (
+                        <span className="pill warning">
+                          Overlaps {overlaps.map((other) => other.company).join(', ')}
+                        </span>
+                      )}
+                    </div>
+                    {interview.meeting_link && (
+                      <a href={interview.meeting_link} target="_blank" rel="noreferrer">
+                        Join
+                      </a>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {user && (
+        <section className="panel fade-in reclassify-panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Classifications</p>
+              <h2>Reclassify stored emails</h2>
+            </div>
+            <div className="controls-row">
+              <button
+                className="btn primary"
+                onClick={startReclassify}
+                disabled={fetchJobRunning(fetchJob)}
+              >
+                Preview changes
+              </button>
+            </div>
+          </div>
+          {reclassifyStatus && (
+            <p className="muted small">
+              Current classifier: {reclassifyStatus.model || 'disabled'} (prompt v
+              {reclassifyStatus.promptVersion}). {reclassifyStatus.stale} of{' '}
+              {reclassifyStatus.classified} stored classifications came from an older model or
+              prompt.
+            </p>
+          )}
+          <div className="backfill-form">
+            <label>
+              Company
+              <select
+                value={reclassifyScope.company || ''}
+                onChange={(e) =>
+                  setReclassifyScope({ ...reclassifyScope, company: e.target.value || undefined })
+                }
+              >
+                <option value="">All companies</option>
+                {jobs.map((job) => (
+                  <option key={job.id} value={job.company_name}>
+                    {job.company_name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              From
+              <input
+                type="date"
+                value={reclassifyScope.after || ''}
+                onChange={(e) =>
+                  setReclassifyScope({ ...reclassifyScope, after: e.target.value || undefined })
+                }
+              />
+            </label>
+            <label>
+              To
+              <input
+                type="date"
+                value={reclassifyScope.before || ''}
+                onChange={(e) =>
+                  setReclassifyScope({ ...reclassifyScope, before: e.target.value || undefined })
+                }
+              />
+            </label>
+          </div>
+          {reclassifyPreview && (
+            <>
+              <p className="status">
+                {reclassifyPreview.changed} of {reclassifyPreview.total} emails would change
+                {reclassifyPreview.failed ? ` (${reclassifyPreview.failed} failed to classify)` : ''}.
+                Applying also stamps the rest with the current model and prompt.
+              </p>
+              {changedReclassifications.length > 0 && (
+                <ul className="reclassify-diff">
+                  {changedReclassifications.map((change) => (
+                    <li key={change.emailId}>
+                      <strong>{change.subject}</strong>
+                      <div className="muted small">
+                        {new Date(change.internalDate).toLocaleDateString()}
+                      </div>
+                      <div className="diff-row">
+                        <span className="pill danger">{describeSnapshot(change.before)}</span>
+                        <span aria-hidden>→</span>
+                        <span className="pill success">{describeSnapshot(change.after)}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="action-row">
+                <button
+                  className="btn primary"
+                  onClick={commitReclassify}
+                  disabled={Boolean(reclassifyPreview.committedAt)}
+                >
+                  Apply {reclassifyPreview.total} results
+                </button>
+                <button className="btn ghost" onClick={() => setReclassifyJob(null)}>
+                  Discard
+                </button>
+              </div>
+            </>
+          )}
+          {reclassifyMessage && <p className="muted small">{reclassifyMessage}</p>}
+        </section>
+      )}
+
+      {user && gmailConnected && (
+        <section className="panel fade-in backfill-panel">
+          <div className="panel-header">
+            <div>
+              <p className="eyebrow">Gmail history</p>
+              <h2>Backfill older emails</h2>
+            </div>
+            <div className="controls-row">
+              {backfill?.status === 'running' ? (
+                <button className="btn ghost" onClick={pauseBackfill}>
+                  Pause
+                </button>
+              ) : (
+                backfill?.status === 'paused' && (
+                  <button className="btn ghost" onClick={resumeBackfill}>
+                    Resume
+                  </button>
+                )
+              )}
+              <button
+                className="btn primary"
+                onClick={startBackfill}
+                disabled={backfill?.status === 'running'}
+              >
+                {backfill ? 'Start over' : 'Start backfill'}
+              </button>
+            </div>
+          </div>
+          <p className="muted small">
+            Walks your mailbox from today back to the start date in two-week windows. Progress is
+            saved after each window; the run pauses once it reaches the LLM call budget.
+          </p>
+          <div className="backfill-form">
+            <label>
+              Start date
+              <input
+                type="date"
+                value={backfillStartDate}
+                max={isoDaysAgo(1)}
+                onChange={(e) => setBackfillStartDate(e.target.value)}
+              />
+            </label>
+            <label>
+              LLM call budget
+              <input
+                type="number"
+                min={1}
+                value={backfillBudget}
+                onChange={(e) => setBackfillBudget(e.target.value)}
+              />
+            </label>
+          </div>
+          {backfill && <p className="status">{describeBackfill(backfill)}</p>}
+          {backfillStatus && <p className="error">{backfillStatus}</p>}
+        </section>
+      )}
     </>
   );
 
@@ -739,6 +2194,23 @@ export default function App() {
             </div>
           </div>
           {companyEmailsError && <p className="error">{companyEmailsError}</p>}
+          {splitSelection.size > 0 && (
+            <div className="action-row">
+              <span className="muted small">
+                Move {splitSelection.size} selected {splitSelection.size === 1 ? 'email' : 'emails'}{' '}
+                to
+              </span>
+              <input
+                className="merge-into"
+                placeholder="Company name"
+                value={splitInto}
+                onChange={(e) => setSplitInto(e.target.value)}
+              />
+              <button className="btn primary" onClick={splitCompany} disabled={!splitInto.trim()}>
+                Move
+              </button>
+            </div>
+          )}
           {!user && !loadingUser && (
             <div className="sign-in-block">
               <div ref={signInButtonRef} />
@@ -754,54 +2226,325 @@ export default function App() {
         {user && !companyEmailsLoading && !companyEmails.length && !companyEmailsError && (
           <div className="empty">No classified emails for this company yet.</div>
         )}
-        {user && !companyEmailsLoading && companyEmails.length > 0 && (
-          <div className="accordion">
-            {companyEmails.map((email) => {
-              const isOpen = openEmailIds.has(email.id);
-              const gmailLink = gmailLinkForEmail(email);
-              return (
-                <article key={email.id} className={isOpen ? 'accordion-item open' : 'accordion-item'}>
-                  <button className="accordion-toggle" onClick={() => toggleEmailOpen(email.id)}>
-                    <div className="accordion-meta">
-                      <p className="muted small">{email.date}</p>
-                      <p className="label">{email.classification?.status || 'email'}</p>
-                    </div>
-                    <div className="accordion-title">
-                      <h4>{email.subject || '(No subject)'}</h4>
-                      <p className="muted small">From {email.from || 'Unknown sender'}</p>
-                    </div>
-                    <div className="accordion-actions">
-                      {gmailLink && (
-                        <a
-                          href={gmailLink}
-                          className="btn ghost"
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          Open in Gmail
-                        </a>
-                      )}
-                      <span className="chevron">{isOpen ? '▲' : '▼'}</span>
-                    </div>
-                  </button>
-                  {isOpen && (
-                    <div className="accordion-body">
-                      <p className="muted small">
-                        {email.classification?.summary || email.snippet || 'No summary available.'}
-                      </p>
-                      {(email.body || email.snippet) && (
-                        <pre className="email-body">
-                          {(email.body || email.snippet || '').slice(0, 2000)}
-                        </pre>
-                      )}
+        {user && !companyEmailsLoading && companyAttachments.length > 0 && (
+          <section className="timeline-group">
+            <div className="timeline-header">
+              <div>
+                <p className="label">Attachments</p>
+                <h3>Offer letters, schedules and invites</h3>
+              </div>
+            </div>
+            <ul className="failure-list">
+              {companyAttachments.map(({ email, attachment }) => (
+                <li key={`${email.id}-${attachment.partId}`}>
+                  <div>
+                    <strong>{attachment.filename}</strong>
+                    <span className="muted"> · {formatBytes(attachment.size)}</span>
+                    {attachment.kind === 'calendar' && attachment.event && (
+                      <div className="pill-row">
+                        <span className={`pill ${attachment.cancelled ? 'danger' : 'neutral'}`}>
+                          {attachment.cancelled ? 'Cancelled invite' : 'Invite'} ·{' '}
+                          {new Date(attachment.event.start).toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                    <div className="muted small">
+                      {email.subject} · {new Date(email.internalDate).toLocaleDateString()}
                     </div>
+                  </div>
+                  <a className="btn link" href={attachmentUrl(email, attachment)} download>
+                    Download
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {user && !companyEmailsLoading && companyApplications.length > 0 && (
+          <div className="timeline-groups">
+            {companyApplications.map((app) => (
+              <section key={app.id} className="timeline-group">
+                <div className="timeline-header">
+                  <div>
+                    <p className="label">Application</p>
+                    <h3>
+                      {roleLabel(app)}
+                      {app.requisition_id ? ` · ${app.requisition_id}` : ''}
+                    </h3>
+                  </div>
+                  <div className="pill-row">
+                    <span className={stagePillClass(app.stage)}>{stageLabel(app.stage)}</span>
+                    {app.needs_review && <span className="pill warning">Needs review</span>}
+                  </div>
+                </div>
+                <ol className="timeline">
+                  {(app.timeline || []).map((event, idx) =>
+                    renderTimelineItem(
+                      `${app.id}-${idx}`,
+                      event,
+                      companyEmails.find((email) => email.id === event.email_id)
+                    )
                   )}
-                </article>
-              );
-            })}
+                </ol>
+              </section>
+            ))}
+          </div>
+        )}
+        {user && !companyEmailsLoading && unattachedEmails.length > 0 && (
+          <section className="timeline-group">
+            <div className="timeline-header">
+              <div>
+                <p className="label">Other emails</p>
+                <h3>Not linked to an application</h3>
+              </div>
+            </div>
+            <ol className="timeline">
+              {unattachedEmails.map((email) =>
+                renderTimelineItem(
+                  email.id,
+                  {
+                    stage: 'note',
+                    email_id: email.id,
+                    date: new Date(email.internalDate).toISOString().slice(0, 10),
+                    summary: email.classification?.summary || email.snippet || '',
+                  },
+                  email
+                )
+              )}
+            </ol>
+          </section>
+        )}
+      </main>
+    </>
+  );
+
+  const failuresPage = (
+    <>
+      <nav className="top-nav fade-in">
+        <div className="brand" onClick={() => navigate('/')}>
+          <div className="brand-mark">JT</div>
+          <span>Job Tracker</span>
+        </div>
+        <div className="nav-actions">
+          <button className="btn ghost" onClick={() => navigate('/profile')}>
+            Back to dashboard
+          </button>
+        </div>
+      </nav>
+
+      <header className="hero one-col fade-in compact-hero">
+        <div className="hero-copy">
+          <div className="eyebrow">Ingest</div>
+          <h2>Failed messages</h2>
+          <p className="muted">
+            Emails that could not be fetched, filtered or classified. They are retried automatically
+            with increasing delays; retry one now or dismiss it to stop tracking it.
+          </p>
+          {gmailStatus && <p className="status">{gmailStatus}</p>}
+          {failuresError && <p className="error">{failuresError}</p>}
+          {!user && !loadingUser && (
+            <div className="sign-in-block">
+              <div ref={signInButtonRef} />
+              {authError && <p className="error">{authError}</p>}
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="panel scrollable fade-in">
+        {user && failures.length === 0 && <div className="empty">No failed messages.</div>}
+        {failures.length > 0 && (
+          <ul className="failure-list">
+            {failures.map((failure) => (
+              <li key={failure.id}>
+                <div>
+                  <strong>{failure.subject || failure.messageId}</strong>
+                  {failure.from && <span className="muted"> · {failure.from}</span>}
+                  <div className="pill-row">
+                    <span className="pill danger">{FAILURE_STAGE_LABELS[failure.stage]}</span>
+                    <span className="pill neutral">
+                      {failure.attempts} {failure.attempts === 1 ? 'attempt' : 'attempts'}
+                    </span>
+                  </div>
+                  <div className="muted small">{failure.error}</div>
+                  <div className="muted small">
+                    Last failed {new Date(failure.lastFailedAt).toLocaleString()}
+                    {failure.status === 'exhausted'
+                      ? ' · automatic retries stopped'
+                      : failure.nextAttemptAt &&
+                        ` · next retry ${new Date(failure.nextAttemptAt).toLocaleString()}`}
+                  </div>
+                </div>
+                <div className="action-row">
+                  <a
+                    className="btn link"
+                    href={`https://mail.google.com/mail/?authuser=${encodeURIComponent(
+                      user?.email || ''
+                    )}#all/${encodeURIComponent(failure.threadId || failure.messageId)}`}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    Open in Gmail
+                  </a>
+                  <button className="btn ghost" onClick={() => retryFailure(failure)}>
+                    Retry
+                  </button>
+                  <button className="btn ghost" onClick={() => dismissFailure(failure)}>
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </>
+  );
+
+  const usagePage = (
+    <>
+      <nav className="top-nav fade-in">
+        <div className="brand" onClick={() => navigate('/')}>
+          <div className="brand-mark">JT</div>
+          <span>Job Tracker</span>
+        </div>
+        <div className="nav-actions">
+          <button className="btn ghost" onClick={() => navigate('/profile')}>
+            Back to dashboard
+          </button>
+        </div>
+      </nav>
+
+      <header className="hero one-col fade-in compact-hero">
+        <div className="hero-copy">
+          <div className="eyebrow">Usage</div>
+          <h2>LLM usage</h2>
+          <p className="muted">
+            Tokens and estimated cost of the model calls made for your mailbox. Cached answers are
+            free and not counted. When the monthly budget is used up, fetching pauses until next
+            month.
+          </p>
+          {usage && (
+            <p className={usage.overBudget ? 'error' : 'status'}>
+              {formatUsd(usage.monthSpendUsd)} spent in {usage.month}
+              {usage.monthlyBudgetUsd > 0
+                ? ` of a ${formatUsd(usage.monthlyBudgetUsd)} budget`
+                : ' (no budget set)'}
+              {usage.overBudget && ' · budget reached, classification is paused'}
+            </p>
+          )}
+          {usageError && <p className="error">{usageError}</p>}
+          {!user && !loadingUser && (
+            <div className="sign-in-block">
+              <div ref={signInButtonRef} />
+              {authError && <p className="error">{authError}</p>}
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="panel scrollable fade-in">
+        {usage && usage.current.byDay.length === 0 && (
+          <div className="empty">No LLM calls this month.</div>
+        )}
+        {usage && usage.current.byDay.length > 0 && (
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>Day</th>
+                  <th>Calls</th>
+                  <th>Prompt tokens</th>
+                  <th>Completion tokens</th>
+                  <th>Estimated cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usage.current.byDay.map((day) => (
+                  <tr key={day.day}>
+                    <td>{day.day}</td>
+                    <td>{day.calls}</td>
+                    <td>{day.promptTokens.toLocaleString()}</td>
+                    <td>{day.completionTokens.toLocaleString()}</td>
+                    <td>{formatUsd(day.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         )}
+        {usage && usage.byMonth.length > 1 && (
+          <section>
+            <h3>Recent months</h3>
+            <ul className="failure-list">
+              {usage.byMonth.map((month) => (
+                <li key={month.month}>
+                  <strong>{month.month}</strong>
+                  <span className="muted">
+                    {month.calls} calls · {month.totalTokens.toLocaleString()} tokens ·{' '}
+                    {formatUsd(month.costUsd)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {adminUsage && (
+          <section>
+            <h3>All users · {adminUsage.month}</h3>
+            <p className="muted small">
+              Default budget:{' '}
+              {adminUsage.defaultMonthlyBudgetUsd > 0
+                ? formatUsd(adminUsage.defaultMonthlyBudgetUsd)
+                : 'none'}
+              . Leave a budget empty to use the default; 0 means no limit.
+            </p>
+            <div className="table-wrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th>User</th>
+                    <th>Calls</th>
+                    <th>Tokens</th>
+                    <th>Estimated cost</th>
+                    <th>Monthly budget</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {adminUsage.users.map((row) => (
+                    <tr key={row.owner}>
+                      <td>{row.owner}</td>
+                      <td>{row.calls}</td>
+                      <td>{row.totalTokens.toLocaleString()}</td>
+                      <td>{formatUsd(row.costUsd)}</td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={budgetDrafts[row.owner] ?? String(row.monthlyBudgetUsd)}
+                          onChange={(e) =>
+                            setBudgetDrafts((current) => ({
+                              ...current,
+                              [row.owner]: e.target.value,
+                            }))
+                          }
+                        />
+                        <button
+                          className="btn ghost"
+                          onClick={() => saveBudget(row.owner)}
+                          disabled={budgetDrafts[row.owner] === undefined}
+                        >
+                          Save
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
       </main>
     </>
   );
@@ -1076,7 +2819,11 @@ export default function App() {
       <div className="page-inner">
         {isCompany
           ? companyPage
-          : isProfile
+          : isFailures
+            ? failuresPage
+            : isUsage
+            ? usagePage
+            : isProfile
             ? profilePage
             : isHowItWorks
               ? howItWorksPage
@@ -0,0 +1,32 @@
+// Runs every src/**/*.test.ts file with tsx, one process per file, and fails on the first error.
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const root = path.join(__dirname, '..', 'src');
+
+function findTests(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTests(full);
+    return entry.name.endsWith('.test.ts') ? [full] : [];
+  });
+}
+
+const only = process.argv[2];
+const files = findTests(root)
+  .filter((file) => !only || file.includes(only))
+  .sort();
+
+for (const file of files) {
+  const result = spawnSync('tsx', [file], {
+    stdio: 'inherit',
+    shell: process.platform === 'win32',
+    env: { ...process.env, NODE_ENV: 'test' },
+  });
+  if (result.status !== 0) {
+    console.error(`Failed: ${path.relative(process.cwd(), file)}`);
+    process.exit(result.status || 1);
+  }
+}
+console.log(`${files.length} test files passed`);
@@ -0,0 +1,141 @@
+import type { ClassificationResult } from './types';
+
+export type ApplicationStage =
+  | 'applied'
+  | 'screen'
+  | 'assessment'
+  | 'interview'
+  | 'offer'
+  | 'accepted'
+  | 'rejected'
+  | 'withdrawn'
+  | 'ghosted';
+
+export interface TimelineEvent {
+  // 'note' entries keep job-related emails that do not move the application on the timeline.
+  stage: ApplicationStage | 'note';
+  email_id: string;
+  date: string;
+  summary: string;
+  // Set when the state machine refused the transition; the stage is left unchanged.
+  flagged?: string;
+}
+
+export const TERMINAL_STAGES: ApplicationStage[] = ['accepted', 'rejected', 'withdrawn'];
+
+const ACTIVE_STAGES: ApplicationStage[] = ['applied', 'screen', 'assessment', 'interview'];
+
+// Allowed next stages. Repeating the current stage is always allowed (a second interview round).
+const TRANSITIONS: Record<ApplicationStage, ApplicationStage[]> = {
+  applied: ['screen', 'assessment', 'interview', 'offer', 'rejected', 'withdrawn', 'ghosted'],
+  screen: ['assessment', 'interview', 'offer', 'rejected', 'withdrawn', 'ghosted'],
+  assessment: ['screen', 'interview', 'offer', 'rejected', 'withdrawn', 'ghosted'],
+  interview: ['assessment', 'offer', 'rejected', 'withdrawn', 'ghosted'],
+  offer: ['accepted', 'rejected', 'withdrawn'],
+  accepted: [],
+  rejected: [],
+  withdrawn: [],
+  ghosted: ['applied', 'screen', 'assessment', 'interview', 'offer', 'rejected', 'withdrawn'],
+};
+
+export const GHOSTED_AFTER_DAYS = 30;
+
+const ASSESSMENT_HINT =
+  /assessment|take[- ]home|coding (?:challenge|exercise|test)|hackerrank|codesignal|codility/i;
+const SCREEN_HINT =
+  /phone screen|recruiter (?:call|screen|chat)|intro(?:ductory)? call|screening call/i;
+
+export function isTerminal(stage: ApplicationStage | null | undefined): boolean {
+  return Boolean(stage && TERMINAL_STAGES.includes(stage));
+}
+
+/** Map a classified email onto the stage it represents, given where the application is now. */
+export function stageForClassification(
+  classification: ClassificationResult,
+  current: ApplicationStage | null
+): ApplicationStage | null {
+  switch (classification.status) {
+    case 'applied':
+      return 'applied';
+    case 'rejected':
+      return 'rejected';
+    case 'withdrawn':
+      return 'withdrawn';
+    case 'offer':
+      return 'offer';
+    case 'assessment':
+      return 'assessment';
+    case 'interview_scheduled':
+      return 'interview';
+    case 'recruiter_outreach':
+      // Outreach starts a conversation; it only moves things along if nothing has happened yet.
+      return !current || current === 'ghosted' ? 'screen' : null;
+    case 'next_steps': {
+      const summary = classification.summary || '';
+      if (ASSESSMENT_HINT.test(summary)) return 'assessment';
+      if (SCREEN_HINT.test(summary)) return 'screen';
+      return !current || current === 'applied' || current === 'ghosted' ? 'screen' : 'interview';
+    }
+    default:
+      return null;
+  }
+}
+
+export function checkTransition(
+  from: ApplicationStage | null,
+  to: ApplicationStage
+): string | null {
+  if (!from || from === to) return null;
+  if (TRANSITIONS[from].includes(to)) return null;
+  return `"${to}" after "${from}"`;
+}
+
+/**
+ * Append one event to an application's timeline. Returns the stage the application is in
+ * afterwards; flagged events are recorded but do not move the stage.
+ */
+export function applyStageEvent(
+  timeline: TimelineEvent[],
+  current: ApplicationStage | null,
+  event: TimelineEvent
+): ApplicationStage | null {
+  if (event.stage === 'note') {
+    timeline.push(event);
+    return current;
+  }
+  const problem = checkTransition(current, event.stage);
+  if (problem) {
+    timeline.push({ ...event, flagged: problem });
+    return current;
+  }
+  timeline.push(event);
+  return event.stage;
+}
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * Mark an application ghosted when it sits in an active stage with no email for too long.
+ * Returns the synthetic event that was added, if any.
+ */
+export function applyGhosting(
+  timeline: TimelineEvent[],
+  current: ApplicationStage | null,
+  today: string,
+  afterDays = GHOSTED_AFTER_DAYS
+): TimelineEvent | null {
+  if (!current || !ACTIVE_STAGES.includes(current) || !timeline.length) return null;
+  const lastDate = timeline[timeline.length - 1].date;
+  const ghostedOn = addDays(lastDate, afterDays);
+  if (ghostedOn > today) return null;
+  const event: TimelineEvent = {
+    stage: 'ghosted',
+    email_id: '',
+    date: ghostedOn,
+    summary: `No reply for ${afterDays} days`,
+  };
+  timeline.push(event);
+  return event;
+}
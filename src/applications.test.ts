@@ -0,0 +1,96 @@
+import assert from 'node:assert';
+import { applicationId, attachEmail, newApplication, resolveApplication } from './applications';
+import type { ApplicationDoc, ClassificationResult } from './types';
+
+const owner = 'user@example.com';
+const today = '2024-03-01';
+
+function classification(partial: Partial<ClassificationResult>): ClassificationResult {
+  return {
+    is_job_related: true,
+    status: 'applied',
+    summary: '',
+    company_name: 'Acme',
+    ...partial,
+  };
+}
+
+const backend = attachEmail(
+  newApplication(owner, 'Acme', classification({ role_title: 'Backend Engineer' }), today),
+  'm1',
+  classification({ role_title: 'Backend Engineer' }),
+  today
+);
+const data: ApplicationDoc = {
+  ...newApplication(
+    owner,
+    'Acme',
+    classification({ role_title: 'Data Scientist', requisition_id: 'R-100' }),
+    '2024-03-02'
+  ),
+  stage: 'rejected',
+};
+
+assert.strictEqual(backend.id, 'user@example.com::acme::backend-engineer');
+assert.deepStrictEqual(backend.email_ids, ['m1']);
+assert.strictEqual(backend.applied_at, today);
+assert.strictEqual(
+  applicationId(owner, 'Acme', { requisition_id: 'R-100', role_title: 'Data Scientist' }),
+  'user@example.com::acme::r-100'
+);
+
+// Requisition id beats role title.
+assert.strictEqual(
+  resolveApplication([backend, data], classification({ requisition_id: 'r100', role_title: 'X' })),
+  data
+);
+// Role titles match loosely.
+assert.strictEqual(
+  resolveApplication([backend, data], classification({ role_title: 'Senior Backend Engineer' })),
+  backend
+);
+// A new role at the same company is a new application.
+assert.strictEqual(
+  resolveApplication([backend, data], classification({ role_title: 'Product Manager' })),
+  null
+);
+// No role named: join the most recent open application.
+assert.strictEqual(
+  resolveApplication([backend, data], classification({ status: 'next_steps' })),
+  backend
+);
+
+// A role-less application adopts the role once an email names it.
+const unnamed = newApplication(owner, 'Beta', classification({ company_name: 'Beta' }), today);
+const match = resolveApplication([unnamed], classification({ role_title: 'Designer' }));
+assert.strictEqual(match, unnamed);
+attachEmail(unnamed, 'm2', classification({ role_title: 'Designer', status: 'comment_only' }), today);
+assert.strictEqual(unnamed.role_title, 'Designer');
+assert.strictEqual(unnamed.stage, 'applied');
+
+// Illogical transitions are kept on the timeline but flagged, and the stage stays put.
+const gamma = newApplication(owner, 'Gamma', classification({ company_name: 'Gamma' }), today);
+attachEmail(gamma, 'g1', classification({ status: 'applied' }), '2024-03-01');
+attachEmail(gamma, 'g2', classification({ status: 'rejected' }), '2024-03-05');
+attachEmail(gamma, 'g3', classification({ status: 'applied' }), '2024-03-09');
+assert.strictEqual(gamma.stage, 'rejected');
+assert.strictEqual(gamma.needs_review, true);
+assert.strictEqual(gamma.timeline[2].flagged, '"applied" after "rejected"');
+assert.strictEqual(gamma.timeline[1].flagged, undefined);
+
+const delta = newApplication(owner, 'Delta', classification({ company_name: 'Delta' }), today);
+attachEmail(delta, 'd1', classification({ status: 'applied' }), '2024-03-01');
+attachEmail(
+  delta,
+  'd2',
+  classification({ status: 'next_steps', summary: 'Complete the HackerRank assessment' }),
+  '2024-03-02'
+);
+attachEmail(delta, 'd3', classification({ status: 'next_steps', summary: 'Onsite loop' }), '2024-03-08');
+assert.deepStrictEqual(
+  delta.timeline.map((event) => event.stage),
+  ['applied', 'assessment', 'interview']
+);
+assert.strictEqual(delta.needs_review, false);
+
+console.log('applications tests passed');
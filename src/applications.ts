@@ -0,0 +1,162 @@
+import {
+  applyStageEvent,
+  isTerminal,
+  stageForClassification,
+  type ApplicationStage,
+} from './applicationStages';
+import type { ApplicationDoc, ClassificationResult } from './types';
+
+export function companySlug(companyName: string): string {
+  return (companyName || '').trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+function keySlug(value: string): string {
+  return (value || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function normalizeRole(role?: string): string {
+  return (role || '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function normalizeRequisition(req?: string): string {
+  return (req || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function applicationId(
+  ownerEmail: string,
+  companyName: string,
+  classification: Pick<ClassificationResult, 'role_title' | 'requisition_id'>
+): string {
+  const key =
+    keySlug(classification.requisition_id || '') ||
+    keySlug(normalizeRole(classification.role_title)) ||
+    'unspecified-role';
+  return `${ownerEmail}::${companySlug(companyName)}::${key}`;
+}
+
+function byMostRecent(a: ApplicationDoc, b: ApplicationDoc): number {
+  return (b.last_updated || '').localeCompare(a.last_updated || '');
+}
+
+/**
+ * Pick which of a company's existing applications an incoming classification belongs to.
+ * Requisition ids win, then role titles; an email that names no role joins the most recently
+ * active open application. Returns null when a new application should be created.
+ */
+export function resolveApplication(
+  candidates: ApplicationDoc[],
+  classification: ClassificationResult
+): ApplicationDoc | null {
+  if (!candidates.length) return null;
+
+  const requisition = normalizeRequisition(classification.requisition_id);
+  if (requisition) {
+    const byRequisition = candidates.find(
+      (app) => normalizeRequisition(app.requisition_id) === requisition
+    );
+    if (byRequisition) return byRequisition;
+  }
+
+  const role = normalizeRole(classification.role_title);
+  if (role) {
+    const byRole = candidates.find((app) => {
+      const existing = normalizeRole(app.role_title);
+      if (!existing) return false;
+      return existing === role || existing.includes(role) || role.includes(existing);
+    });
+    if (byRole) return byRole;
+    // An unseen role may still be the application we created before the role was known.
+    const unnamed = candidates.filter((app) => !normalizeRole(app.role_title));
+    if (unnamed.length === 1 && (!requisition || !unnamed[0].requisition_id)) return unnamed[0];
+    return null;
+  }
+
+  if (requisition) return null;
+  const open = candidates.filter((app) => !isTerminal(app.stage)).sort(byMostRecent);
+  if (open.length) return open[0];
+  return [...candidates].sort(byMostRecent)[0];
+}
+
+export function newApplication(
+  ownerEmail: string,
+  companyName: string,
+  classification: ClassificationResult,
+  today: string
+): ApplicationDoc {
+  return {
+    id: applicationId(ownerEmail, companyName, classification),
+    docType: 'application',
+    owner: ownerEmail,
+    company_name: companyName,
+    company_slug: companySlug(companyName),
+    role_title: (classification.role_title || '').trim(),
+    requisition_id: (classification.requisition_id || '').trim() || undefined,
+    source: (classification.source || '').trim() || undefined,
+    stage: 'applied',
+    created_at: today,
+    last_updated: today,
+    email_ids: [],
+    timeline: [],
+    needs_review: false,
+  };
+}
+
+/**
+ * Fold one classified email into an application (mutates and returns it). With `asNote` the
+ * email is kept on the timeline without moving the stage.
+ */
+export function attachEmail(
+  app: ApplicationDoc,
+  emailId: string,
+  classification: ClassificationResult,
+  today: string,
+  asNote = false
+): ApplicationDoc {
+  if (!Array.isArray(app.email_ids)) {
+    app.email_ids = [];
+  }
+  if (emailId && !app.email_ids.includes(emailId)) {
+    app.email_ids.push(emailId);
+  }
+  if (!app.role_title && classification.role_title) {
+    app.role_title = classification.role_title.trim();
+  }
+  if (!app.requisition_id && classification.requisition_id) {
+    app.requisition_id = classification.requisition_id.trim();
+  }
+  if (!app.source && classification.source) {
+    app.source = classification.source.trim();
+  }
+  if (!Array.isArray(app.timeline)) {
+    app.timeline = [];
+  }
+  // A fresh application has no stage yet; its first event decides where it starts.
+  const started = app.timeline.some((event) => event.stage !== 'note' && !event.flagged);
+  const current: ApplicationStage | null = started ? app.stage : null;
+  const stage = asNote ? null : stageForClassification(classification, current);
+  const next = applyStageEvent(app.timeline, current, {
+    stage: stage || 'note',
+    email_id: emailId,
+    date: today,
+    summary: (classification.summary || '').slice(0, 280),
+  });
+  if (next) {
+    app.stage = next;
+  }
+  if (app.timeline[app.timeline.length - 1]?.flagged) {
+    app.needs_review = true;
+  }
+  if (stage === 'applied' && !app.applied_at) {
+    app.applied_at = today;
+  }
+  app.last_updated = today;
+  return app;
+}
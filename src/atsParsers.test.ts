@@ -0,0 +1,51 @@
+import assert from 'node:assert';
+import { ATS_PARSER_VERSION, isAtsClassification, parseAtsEmail } from './atsParsers';
+import { atsEmails, type AtsFixture } from './testing/atsFixtures';
+import { recruiterEmails } from './testing/fixtures';
+import type { GmailEmailDoc } from './types';
+
+function toDoc({ message }: Pick<AtsFixture, 'message'>): GmailEmailDoc {
+  return {
+    id: message.id,
+    owner: 'sam@example.com',
+    from: message.from,
+    to: 'sam@example.com',
+    subject: message.subject,
+    date: '',
+    snippet: '',
+    body: message.body,
+    labelIds: [],
+    fetchedAt: '2024-05-01T00:00:00Z',
+    internalDate: Date.parse('2024-05-01T00:00:00Z'),
+  };
+}
+
+for (const [name, fixture] of Object.entries(atsEmails)) {
+  const parsed = parseAtsEmail(toDoc(fixture));
+  if (!fixture.expected) {
+    assert.strictEqual(parsed, null, `${name} should fall back to the LLM`);
+    continue;
+  }
+  assert.ok(parsed, `${name} should match a template`);
+  const { status, company_name, role_title, requisition_id, model } = parsed;
+  assert.deepStrictEqual(
+    { status, company_name, role_title, requisition_id, model },
+    fixture.expected,
+    name
+  );
+  assert.strictEqual(parsed.is_job_related, true);
+  assert.strictEqual(parsed.prompt_version, ATS_PARSER_VERSION);
+  assert.ok(parsed.summary.includes(company_name), `${name} summary names the company`);
+  assert.ok(isAtsClassification(parsed));
+}
+
+// The recruiter fixture sent through Greenhouse is parsed; direct recruiter mail is not.
+const acme = parseAtsEmail(toDoc(recruiterEmails.acmeApplied));
+assert.deepStrictEqual(
+  [acme?.status, acme?.company_name, acme?.role_title, acme?.requisition_id, acme?.source],
+  ['applied', 'Acme', 'Senior Backend Engineer', 'R-10492', 'Greenhouse']
+);
+assert.strictEqual(parseAtsEmail(toDoc(recruiterEmails.globexOutreach)), null);
+assert.strictEqual(parseAtsEmail(toDoc(recruiterEmails.initechRejection)), null);
+
+console.log('atsParsers tests passed');
@@ -0,0 +1,192 @@
+import { TAXONOMY_VERSION } from './classificationStatuses';
+import { cleanCompanyName, senderDisplayCompany, senderDomain } from './companyNames';
+import type { ClassificationResult, ClassificationStatus, GmailEmailDoc } from './types';
+
+// Bump whenever a template changes so stored parser results can be found and re-run.
+export const ATS_PARSER_VERSION = 1;
+
+export type AtsName = 'greenhouse' | 'lever' | 'workday' | 'ashby' | 'icims';
+
+interface AtsTemplate {
+  ats: AtsName;
+  source: string;
+  domains: string[];
+  // Company named in the subject or body, tried before the sender name.
+  company: RegExp[];
+  role: RegExp[];
+}
+
+interface StatusTemplate {
+  status: ClassificationStatus;
+  patterns: RegExp[];
+  summary: (role: string, company: string) => string;
+}
+
+// A company name as written in a template: capitalized words, no sentence punctuation.
+const NAME = "([A-Z0-9][\\w&'’.\\-]*(?: [A-Z0-9&][\\w&'’.\\-]*){0,5})";
+
+const COMMON_ROLE = [
+  /for the\s+(.+?)\s+(?:role|position|opening)\b/i,
+  /interest(?:ed)? in the\s+(.+?)\s+(?:role|position|opening)\b/i,
+  /(?:role|position) of\s+(.+?)(?:\s+at\s|[.,\n])/i,
+];
+
+const TEMPLATES: AtsTemplate[] = [
+  {
+    ats: 'greenhouse',
+    source: 'Greenhouse',
+    domains: ['greenhouse.io', 'greenhouse-mail.io'],
+    company: [
+      new RegExp(`(?:applying|application) to ${NAME}`),
+      new RegExp(`interest in ${NAME}`),
+    ],
+    role: COMMON_ROLE,
+  },
+  {
+    ats: 'lever',
+    source: 'Lever',
+    domains: ['lever.co'],
+    company: [
+      new RegExp(`(?:applying|application) to ${NAME}(?:’s|'s)?`),
+      new RegExp(`interest in ${NAME}(?:’s|'s)`),
+    ],
+    role: [/(?:’s|'s)\s+(.+?)\s+(?:role|position|opening)\b/, ...COMMON_ROLE],
+  },
+  {
+    ats: 'workday',
+    source: 'Workday',
+    domains: ['myworkday.com', 'myworkdayjobs.com', 'workday.com'],
+    company: [new RegExp(`(?:position|role|opportunity) at ${NAME}`)],
+    role: [/applying (?:to|for) the\s+(.+?)\s+(?:role|position)\b/i, ...COMMON_ROLE],
+  },
+  {
+    ats: 'ashby',
+    source: 'Ashby',
+    domains: ['ashbyhq.com'],
+    company: [
+      new RegExp(`(?:role|position) at ${NAME}`),
+      new RegExp(`(?:applying|application) to ${NAME}`),
+    ],
+    role: [/applying for the\s+(.+?)\s+(?:role|position)\b/i, ...COMMON_ROLE],
+  },
+  {
+    ats: 'icims',
+    source: 'iCIMS',
+    domains: ['icims.com'],
+    company: [new RegExp(`(?:position|role|opportunity) (?:at|with) ${NAME}`)],
+    role: [/applying:\s*(.+?)\s*\(/i, ...COMMON_ROLE],
+  },
+];
+
+// Checked in order, so a rejection that thanks you for applying is still a rejection.
+const STATUS_TEMPLATES: StatusTemplate[] = [
+  {
+    status: 'rejected',
+    patterns: [
+      /decided (?:not to move forward|to (?:move|proceed) forward with other candidates)/i,
+      /(?:will not|won't) be (?:moving|proceeding) forward with your (?:application|candidacy)/i,
+      /(?:position|role) has (?:now )?been filled/i,
+      /pursue other candidates/i,
+    ],
+    summary: (role, company) => `${company} rejected the ${role || 'application'}.`,
+  },
+  {
+    status: 'assessment',
+    patterns: [
+      /(?:complete|take) (?:a|an|the|our) (?:\d+ minute )?(?:online |technical |coding )?assessment/i,
+      /(?:complete|take) (?:a|an|the|our) (?:online |technical )?(?:coding )?(?:challenge|test)/i,
+      /\b(?:hackerrank|codesignal|codility)\b/i,
+    ],
+    summary: (role, company) => `${company} sent an assessment${role ? ` for ${role}` : ''}.`,
+  },
+  {
+    status: 'interview_scheduled',
+    patterns: [/interview (?:is )?(?:confirmed|scheduled)/i, /confirm(?:ing|ed)? your interview/i],
+    summary: (role, company) =>
+      `Interview confirmed with ${company}${role ? ` for ${role}` : ''}.`,
+  },
+  {
+    status: 'next_steps',
+    patterns: [
+      /(?:please|click (?:here|below) to|use this link to) (?:schedule|book) (?:your|an) interview/i,
+      /select a time (?:for|that works)/i,
+    ],
+    summary: (role, company) =>
+      `${company} asked to schedule an interview${role ? ` for ${role}` : ''}.`,
+  },
+  {
+    status: 'applied',
+    patterns: [
+      /thanks? (?:you )?for (?:applying|your application|submitting your application)/i,
+      /(?:we(?:'ve| have)|has been) received your application/i,
+      /your application (?:has been|was) (?:received|submitted)/i,
+    ],
+    summary: (role, company) =>
+      `Application received${role ? ` for ${role}` : ''} at ${company}.`,
+  },
+];
+
+const REQUISITION_PATTERNS = [
+  /\b(?:req(?:uisition)?|job)[ .]*(?:id|#|number)\s*[:#]?\s*([A-Z]{0,4}-?\d[\w-]{2,})/i,
+  /\((R-?\d{3,}|JR-?\d{3,}|REQ-?\d{3,})\)/i,
+];
+
+function templateFor(email: GmailEmailDoc): AtsTemplate | undefined {
+  const domain = senderDomain(email.from);
+  if (!domain) return undefined;
+  return TEMPLATES.find((template) =>
+    template.domains.some((known) => domain === known || domain.endsWith(`.${known}`))
+  );
+}
+
+function firstMatch(patterns: RegExp[], text: string): string {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match?.[1]) return match[1].replace(/\s+/g, ' ').trim();
+  }
+  return '';
+}
+
+// Strip a trailing requisition id the role was quoted with ("Engineer (R-10492)").
+function cleanRole(role: string): string {
+  return role.replace(/\s*\([^)]*\)\s*$/, '').trim();
+}
+
+/**
+ * Recognize a known applicant-tracking-system template and read the classification straight
+ * from it. Returns null (so the LLM runs) unless the sender is a known ATS, a status template
+ * matches and a company could be found.
+ */
+export function parseAtsEmail(email: GmailEmailDoc): ClassificationResult | null {
+  const template = templateFor(email);
+  if (!template) return null;
+  const text = `${email.subject || ''}\n${email.body || email.snippet || ''}`;
+  const statusTemplate = STATUS_TEMPLATES.find(({ patterns }) =>
+    patterns.some((pattern) => pattern.test(text))
+  );
+  if (!statusTemplate) return null;
+  // NAME allows dots for "Inc." and "Co.", so cut where the next sentence starts.
+  const named = firstMatch(template.company, text)
+    .split(/[.!?]\s+/)[0]
+    .replace(/(?:['’]s)?[.,!]*$/, '');
+  const company = cleanCompanyName(named || senderDisplayCompany(email.from));
+  if (!company) return null;
+  const role = cleanRole(firstMatch(template.role, text));
+  return {
+    is_job_related: true,
+    status: statusTemplate.status,
+    summary: statusTemplate.summary(role, company),
+    company_name: company,
+    role_title: role,
+    requisition_id: firstMatch(REQUISITION_PATTERNS, text),
+    source: template.source,
+    taxonomy_version: TAXONOMY_VERSION,
+    model: `ats:${template.ats}`,
+    prompt_version: ATS_PARSER_VERSION,
+  };
+}
+
+/** True when a stored classification came from an ATS template rather than a model. */
+export function isAtsClassification(classification?: ClassificationResult): boolean {
+  return Boolean(classification?.model?.startsWith('ats:'));
+}
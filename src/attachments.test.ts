@@ -0,0 +1,261 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import {
+  MAX_ATTACHMENT_TEXT,
+  attachmentsPrompt,
+  extractDocxText,
+  extractPdfText,
+  listAttachments,
+  parseCalendarInvite,
+} from './attachments';
+import { ingestGmailMessages, type IngestDeps } from './gmailIngest';
+import { loadStageProviders } from './llmProviders';
+import { createLocalRepositories } from './localRepositories';
+import { extractMessageBody } from './mimeBody';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { createFakeGmail } from './testing/fakeGmail';
+
+const owner = 'sam@example.com';
+
+// A single-file ZIP archive, the way Word stores word/document.xml.
+function zip(name: string, content: string): Buffer {
+  const data = zlib.deflateRawSync(Buffer.from(content, 'utf8'));
+  const nameBytes = Buffer.from(name, 'utf8');
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(Buffer.byteLength(content), 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(Buffer.byteLength(content), 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  central.writeUInt32LE(0, 42);
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+// One content stream object per entry of `contents`.
+function pdf(contents: string | string[], compressed: boolean): Buffer {
+  const objects = [contents].flat().map((content, i) => {
+    const raw = Buffer.from(content, 'latin1');
+    const stream = compressed ? zlib.deflateSync(raw) : raw;
+    const filter = compressed ? ' /Filter /FlateDecode' : '';
+    return Buffer.concat([
+      Buffer.from(`${i + 4} 0 obj\n<< /Length ${stream.length}${filter} >>\nstream\n`),
+      stream,
+      Buffer.from('\nendstream\nendobj\n'),
+    ]);
+  });
+  return Buffer.concat([Buffer.from('%PDF-1.4\n'), ...objects, Buffer.from('%%EOF\n')]);
+}
+
+const offerContent = [
+  'BT /F1 12 Tf 72 720 Td (Dear Sam,) Tj 0 -24 Td',
+  '[(We are pleased to) -250 (offer you the position of ) (Staff Engineer)] TJ',
+  "(Base salary: \\(USD\\) 180,000) ' ET",
+].join('\n');
+
+const invite = [
+  'BEGIN:VCALENDAR',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  'SUMMARY:Initech onsite interview',
+  'DTSTART;TZID=America/Los_Angeles:20240321T100000',
+  'DURATION:PT1H30M',
+  'LOCATION:1 Initech Way\\, Austin',
+  'ORGANIZER;CN="Lumbergh, Bill":mailto:bill@initech.example',
+  'ATTENDEE;CN=Sam:mailto:sam@example.com',
+  'ATTENDEE;CN=Milton Waddams;ROLE=REQ-PARTICIPANT:mailto:milton@',
+  ' initech.example',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+// Calendar invites: zone, duration, folded lines and quoted parameters.
+const parsed = parseCalendarInvite(invite, owner);
+assert.strictEqual(parsed.title, 'Initech onsite interview');
+assert.strictEqual(parsed.cancelled, false);
+assert.deepStrictEqual(parsed.event, {
+  start: '2024-03-21T17:00:00.000Z',
+  end: '2024-03-21T18:30:00.000Z',
+  timezone: 'America/Los_Angeles',
+  meeting_link: undefined,
+  location: '1 Initech Way, Austin',
+  interviewers: ['Lumbergh, Bill', 'Milton Waddams'],
+  format: 'onsite',
+});
+const video = parseCalendarInvite(
+  [
+    'METHOD:CANCEL',
+    'BEGIN:VEVENT',
+    'DTSTART:20240322T150000Z',
+    'DTEND:20240322T153000Z',
+    'LOCATION:https://meet.example/abc-defg',
+    'END:VEVENT',
+  ].join('\n')
+);
+assert.strictEqual(video.cancelled, true);
+assert.strictEqual(video.event?.format, 'video');
+assert.strictEqual(video.event?.meeting_link, 'https://meet.example/abc-defg');
+assert.strictEqual(video.event?.location, undefined);
+assert.strictEqual(
+  parseCalendarInvite('BEGIN:VEVENT\nDTSTART;VALUE=DATE:20240321\nEND:VEVENT').event,
+  null
+);
+
+// PDF and DOCX text.
+const offerText =
+  'Dear Sam,\nWe are pleased to offer you the position of Staff Engineer\n' +
+  'Base salary: (USD) 180,000';
+assert.strictEqual(extractPdfText(pdf(offerContent, true)), offerText);
+assert.strictEqual(extractPdfText(pdf(offerContent, false)), offerText);
+assert.strictEqual(extractPdfText(Buffer.from('not a pdf')), '');
+const docx = zip(
+  'word/document.xml',
+  '<w:document><w:body><w:p><w:r><w:t>Interview schedule</w:t></w:r></w:p>' +
+    '<w:p><w:r><w:t>10:00</w:t><w:tab/><w:t>System design &amp; coding</w:t></w:r></w:p>' +
+    '</w:body></w:document>'
+);
+assert.strictEqual(extractDocxText(docx), 'Interview schedule\n10:00\tSystem design & coding');
+assert.strictEqual(extractDocxText(Buffer.from('plain')), '');
+assert.strictEqual(
+  extractDocxText(zip('word/document.xml', '<w:t>&#x1F4C5; &#x110000; &#99999999999;</w:t>')),
+  '\u{1F4C5} &#x110000; &#99999999999;'
+);
+
+// Decompression bombs inflate to nothing rather than to memory; long text stops at the cap.
+const padding = ' '.repeat(8 * 1024 * 1024);
+assert.strictEqual(extractPdfText(pdf(`BT (Hi) Tj ET${padding}`, true)), '');
+assert.strictEqual(extractDocxText(zip('word/document.xml', `<w:t>Hi</w:t>${padding}`)), '');
+// The inflate budget covers the whole attachment, not each stream on its own.
+const paddedPage = `BT (Hi) Tj ET${' '.repeat(200 * 1024)}`;
+assert.strictEqual(extractPdfText(pdf(Array(40).fill(paddedPage), true)), 'Hi');
+const page = `BT (${'x'.repeat(1000)}) Tj ET`;
+const longText = extractPdfText(pdf(Array(40).fill(page), true));
+assert.strictEqual(longText.length, MAX_ATTACHMENT_TEXT);
+
+// Parts: files and invites are attachments, never the body.
+const payload = {
+  mimeType: 'multipart/mixed',
+  parts: [
+    {
+      partId: '0',
+      mimeType: 'multipart/alternative',
+      parts: [
+        { partId: '0.0', mimeType: 'text/calendar', body: { data: 'QkVHSU4', size: 5 } },
+        {
+          partId: '0.1',
+          mimeType: 'text/plain',
+          body: { data: Buffer.from('See the invite.').toString('base64url') },
+        },
+      ],
+    },
+    {
+      partId: '1',
+      mimeType: 'application/octet-stream',
+      filename: 'Offer.PDF',
+      body: { attachmentId: 'x', size: 2048 },
+    },
+  ],
+};
+assert.strictEqual(extractMessageBody(payload), 'See the invite.');
+assert.deepStrictEqual(
+  listAttachments(payload).map(({ partId, filename, kind }) => [partId, filename, kind]),
+  [
+    ['0.0', 'invite.ics', 'calendar'],
+    ['1', 'Offer.PDF', 'pdf'],
+  ]
+);
+assert.strictEqual(attachmentsPrompt([]), '');
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-attachments-'));
+  // The model reads the time from the text wrongly; the attached invite wins.
+  const chat = await startFakeChatServer((request) =>
+    request.system.includes('"job_related"')
+      ? { job_related: true }
+      : {
+          is_job_related: true,
+          status: 'interview_scheduled',
+          summary: 'Onsite interview scheduled.',
+          company_name: 'Initech',
+          interview: {
+            start: '2024-03-21T09:00',
+            end: '',
+            timezone: '',
+            meeting_link: '',
+            location: '',
+            interviewers: [],
+            format: 'onsite',
+          },
+        }
+  );
+  try {
+    const repos = createLocalRepositories(dir);
+    const gmail = createFakeGmail({ emailAddress: owner });
+    const deps: IngestDeps = {
+      repos,
+      gmail: gmail.client,
+      cache: { set: async () => undefined, del: async () => undefined },
+      state: { loadState: async () => null, saveState: async () => ({}) },
+      providers: loadStageProviders({
+        EMAIL_GATE_PROVIDER: 'openai-compatible',
+        EMAIL_CLASS_PROVIDER: 'openai-compatible',
+        LLM_BASE_URL: chat.url,
+      }),
+      gmailRetryDelayMs: 5,
+    };
+    gmail.add({
+      id: 'initech-onsite',
+      from: 'Bill Lumbergh <bill@initech.example>',
+      subject: 'Your onsite at Initech',
+      body: 'Hi Sam, the invite and your offer packet are attached.',
+      internalDate: Date.now() - 86400000,
+      attachments: [
+        { filename: 'invite.ics', mimeType: 'text/calendar', data: invite, inline: true },
+        { filename: 'offer.pdf', mimeType: 'application/pdf', data: pdf(offerContent, true) },
+        { filename: 'schedule.docx', mimeType: 'application/octet-stream', data: docx },
+        { filename: 'logo.png', mimeType: 'image/png', data: 'png' },
+      ],
+    });
+    await ingestGmailMessages(deps, owner);
+
+    // Only the PDF and DOCX are downloaded; the invite came inline and images are skipped.
+    assert.strictEqual(gmail.callCount('messages.attachments.get'), 2);
+    const stored = await repos.emails.get(owner, 'initech-onsite');
+    assert.deepStrictEqual(
+      stored?.attachments?.map(({ filename, kind }) => `${filename}:${kind}`),
+      ['invite.ics:calendar', 'offer.pdf:pdf', 'schedule.docx:docx', 'logo.png:other']
+    );
+    assert.strictEqual(stored?.attachments?.[1].text, offerText);
+    assert.strictEqual(stored?.interview?.start, '2024-03-21T17:00:00.000Z');
+    assert.deepStrictEqual(stored?.interview?.interviewers, ['Lumbergh, Bill', 'Milton Waddams']);
+
+    const sent = chat.requests[chat.requests.length - 1].user;
+    assert.ok(sent.includes('Attachments: invite.ics, offer.pdf, schedule.docx, logo.png'));
+    assert.ok(sent.includes('Calendar invite: "Initech onsite interview" from 2024-03-21T17:00'));
+    assert.ok(sent.includes('Staff Engineer') && sent.includes('System design & coding'));
+  } finally {
+    await chat.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  console.log('attachments tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
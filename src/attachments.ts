@@ -0,0 +1,465 @@
+import type { gmail_v1 } from 'googleapis';
+import zlib from 'zlib';
+import { normalizeInterviewEvent } from './calendarFeed';
+import type { AttachmentKind, EmailAttachment, GmailEmailDoc, InterviewEvent } from './types';
+
+/*
+ * Attachments of a Gmail message: calendar invites are read into interview events, and PDF and
+ * DOCX files (offer letters, interview schedules) into plain text for the classifier. Both
+ * readers are deliberately small: they cover what mail clients and ATS exports produce, not every
+ * file a user could attach.
+ */
+
+// Larger files are listed but never downloaded during ingest.
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+// Extracted text kept per attachment; the classifier trims further to LLM_MAX_BODY_CHARS.
+export const MAX_ATTACHMENT_TEXT = 20000;
+// Deflate expands up to ~1000x, so a small attachment could inflate to gigabytes. Content streams
+// and document XML spend a few bytes of markup per character of text; this leaves room for
+// MAX_ATTACHMENT_TEXT and no more. The budget is per attachment, shared by all of its streams.
+const MAX_INFLATED_BYTES = 16 * MAX_ATTACHMENT_TEXT;
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export function attachmentKind(mimeType: string, filename = ''): AttachmentKind {
+  const type = mimeType.toLowerCase();
+  const name = filename.toLowerCase();
+  if (type === 'text/calendar' || type === 'application/ics' || name.endsWith('.ics')) {
+    return 'calendar';
+  }
+  if (type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (type === DOCX_MIME || name.endsWith('.docx')) return 'docx';
+  return 'other';
+}
+
+/** Parts that are files rather than the message text: named parts and calendar invites. */
+export function isAttachmentPart(part: gmail_v1.Schema$MessagePart): boolean {
+  if ((part.mimeType || '').startsWith('multipart/')) return false;
+  return Boolean(
+    part.filename || part.body?.attachmentId || attachmentKind(part.mimeType || '') === 'calendar'
+  );
+}
+
+function attachmentParts(part: gmail_v1.Schema$MessagePart = {}): gmail_v1.Schema$MessagePart[] {
+  if (part.parts?.length) return part.parts.flatMap((subpart) => attachmentParts(subpart));
+  return isAttachmentPart(part) ? [part] : [];
+}
+
+/** Attachment metadata of a message payload, in part order. */
+export function listAttachments(payload?: gmail_v1.Schema$MessagePart): EmailAttachment[] {
+  return attachmentParts(payload).map((part) => {
+    const mimeType = (part.mimeType || 'application/octet-stream').toLowerCase();
+    const kind = attachmentKind(mimeType, part.filename || '');
+    return {
+      partId: part.partId || '',
+      filename: part.filename || (kind === 'calendar' ? 'invite.ics' : 'attachment'),
+      mimeType,
+      size: Number(part.body?.size) || 0,
+      kind,
+    };
+  });
+}
+
+export function findPart(
+  payload: gmail_v1.Schema$MessagePart | undefined,
+  partId: string
+): gmail_v1.Schema$MessagePart | undefined {
+  if (!payload) return undefined;
+  if ((payload.partId || '') === partId && !payload.parts?.length) return payload;
+  for (const part of payload.parts || []) {
+    const found = findPart(part, partId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Read the content of calendar, PDF and DOCX attachments into `attachments`. Small parts carry
+ * their data inline; the rest is fetched by attachment id. An attachment that cannot be read is
+ * logged and left as metadata only.
+ */
+export async function readAttachments(
+  attachments: EmailAttachment[],
+  payload: gmail_v1.Schema$MessagePart | undefined,
+  fetchData: (attachmentId: string) => Promise<string | null | undefined>,
+  ownerEmail = ''
+): Promise<void> {
+  for (const attachment of attachments) {
+    if (attachment.kind === 'other' || attachment.size > MAX_ATTACHMENT_BYTES) continue;
+    const part = findPart(payload, attachment.partId);
+    try {
+      const encoded =
+        part?.body?.data || (part?.body?.attachmentId && (await fetchData(part.body.attachmentId)));
+      if (!encoded) continue;
+      const data = Buffer.from(encoded, 'base64url');
+      if (attachment.kind === 'calendar') {
+        const invite = parseCalendarInvite(data.toString('utf8'), ownerEmail);
+        attachment.event = invite.event;
+        attachment.title = invite.title || undefined;
+        if (invite.cancelled) attachment.cancelled = true;
+      } else {
+        const text = attachment.kind === 'pdf' ? extractPdfText(data) : extractDocxText(data);
+        if (text) attachment.text = text.slice(0, MAX_ATTACHMENT_TEXT);
+      }
+    } catch (err: any) {
+      console.error(`Failed to read attachment ${attachment.filename}`, err?.message || err);
+    }
+  }
+}
+
+/** The interview of the first calendar invite that was not cancelled. */
+export function inviteEvent(emailDoc: GmailEmailDoc): InterviewEvent | null {
+  const invite = (emailDoc.attachments || []).find(
+    (attachment) => attachment.kind === 'calendar' && attachment.event && !attachment.cancelled
+  );
+  return invite?.event || null;
+}
+
+/** Attachment names, invites and extracted text, appended to the body the model reads. */
+export function attachmentsPrompt(attachments: EmailAttachment[] = []): string {
+  if (!attachments.length) return '';
+  const sections = [`Attachments: ${attachments.map((a) => a.filename).join(', ')}`];
+  for (const attachment of attachments) {
+    const { event } = attachment;
+    if (attachment.kind === 'calendar' && event) {
+      const where = [event.location, event.meeting_link].filter(Boolean).join(', ');
+      sections.push(
+        `Calendar invite${attachment.cancelled ? ' (cancelled)' : ''}: ` +
+          `"${attachment.title || 'untitled'}" from ${event.start} to ${event.end}` +
+          (where ? ` at ${where}` : '')
+      );
+    } else if (attachment.text) {
+      sections.push(`Attachment ${attachment.filename}:\n${attachment.text}`);
+    }
+  }
+  return `\n\n${sections.join('\n\n')}`;
+}
+
+// ---- Calendar invites (RFC 5545) ----
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseIcsLine(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter ("CN=\"Doe: J\"").
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/"/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeIcs(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, char) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// "20240321T100000Z" -> "2024-03-21T10:00:00Z"; date-only values are not interview times.
+function icsDateTime(property?: IcsProperty): { local: string; timezone?: string } | null {
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!property || !match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  return {
+    local: `${y}-${mo}-${d}T${h}:${mi}:${s}${utc}`,
+    timezone: utc ? undefined : property.params.TZID,
+  };
+}
+
+// "PT45M", "PT1H30M", "P1D" -> milliseconds.
+function icsDurationMs(value = ''): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, w, d, h, m, s] = match.map((part) => Number(part) || 0);
+  return ((((w * 7 + d) * 24 + h) * 60 + m) * 60 + s) * 1000;
+}
+
+const URL_IN_TEXT = /https?:\/\/[^\s<>"]+/;
+
+export interface CalendarInvite {
+  title: string;
+  event: InterviewEvent | null;
+  cancelled: boolean;
+}
+
+/**
+ * Read the first event of an iCalendar invite. Attendees other than the mailbox owner become
+ * interviewers; a conference link or a URL in the location makes it a video interview.
+ */
+export function parseCalendarInvite(ics: string, ownerEmail = ''): CalendarInvite {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let method = '';
+  let inEvent = false;
+  const props: IcsProperty[] = [];
+  for (const line of lines) {
+    const property = parseIcsLine(line.trim());
+    if (!property) continue;
+    if (property.name === 'METHOD' && !inEvent) method = property.value.trim().toUpperCase();
+    if (property.name === 'BEGIN' && property.value === 'VEVENT') inEvent = true;
+    else if (property.name === 'END' && property.value === 'VEVENT') break;
+    else if (inEvent) props.push(property);
+  }
+  const get = (name: string) => props.find((property) => property.name === name);
+  const text = (name: string) => unescapeIcs(get(name)?.value || '').trim();
+  const title = text('SUMMARY');
+  const cancelled = method === 'CANCEL' || text('STATUS').toUpperCase() === 'CANCELLED';
+
+  const start = icsDateTime(get('DTSTART'));
+  if (!start) return { title, event: null, cancelled };
+  let end = icsDateTime(get('DTEND'))?.local;
+  const duration = icsDurationMs(get('DURATION')?.value);
+  if (!end && duration) {
+    // Both ends share the zone, so the wall-clock arithmetic can be done as if in UTC.
+    const utc = start.local.endsWith('Z');
+    const endMs = Date.parse(utc ? start.local : `${start.local}Z`) + duration;
+    end = new Date(endMs).toISOString().slice(0, 19) + (utc ? 'Z' : '');
+  }
+
+  let location = text('LOCATION');
+  let link = text('X-GOOGLE-CONFERENCE') || text('URL');
+  if (!link && URL_IN_TEXT.test(location)) link = location.match(URL_IN_TEXT)![0];
+  if (!link) link = text('DESCRIPTION').match(URL_IN_TEXT)?.[0] || '';
+  if (location === link) location = '';
+
+  const owner = ownerEmail.toLowerCase();
+  const interviewers: string[] = [];
+  for (const property of props) {
+    if (property.name !== 'ATTENDEE' && property.name !== 'ORGANIZER') continue;
+    const email = property.value.replace(/^mailto:/i, '').trim().toLowerCase();
+    const name = property.params.CN || email;
+    if (email && email !== owner && !interviewers.includes(name)) interviewers.push(name);
+  }
+  const phone = /\bphone\b|\bcall\b/i.test(title) && !link;
+  const event = normalizeInterviewEvent({
+    start: start.local,
+    end,
+    timezone: start.timezone,
+    location,
+    meeting_link: link,
+    interviewers,
+    format: link ? 'video' : phone ? 'phone' : location ? 'onsite' : 'other',
+  });
+  return { title, event, cancelled };
+}
+
+// ---- PDF ----
+
+function readPdfString(content: string, start: number): [string, number] {
+  let depth = 0;
+  let out = '';
+  let i = start;
+  for (; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[++i];
+      if (next === undefined) break;
+      if (next >= '0' && next <= '7') {
+        let digits = next;
+        while (digits.length < 3 && /[0-7]/.test(content[i + 1] || '')) digits += content[++i];
+        out += String.fromCharCode(parseInt(digits, 8));
+      } else if (next === 'n') out += '\n';
+      else if (next === 't') out += '\t';
+      // \r, \b and \f draw nothing useful; a backslash before a line break continues the line.
+      else if (!'rbf\r\n'.includes(next)) out += next;
+    } else if (char === '(') {
+      if (depth++ > 0) out += char;
+    } else if (char === ')') {
+      if (--depth === 0) return [out, i + 1];
+      out += char;
+    } else {
+      out += char;
+    }
+  }
+  return [out, i];
+}
+
+function hexString(hex: string): string {
+  const bytes = Buffer.from(hex.replace(/\s+/g, ''), 'hex');
+  // Two-byte glyph ids of embedded fonts cannot be mapped without the font; skip them.
+  return bytes.every((byte) => byte >= 0x20 || byte === 0x0a) ? bytes.toString('latin1') : '';
+}
+
+const PDF_TOKEN = /\/?[^\s()<>[\]{}/%]+/y;
+
+/** The text drawn by one page content stream (Tj, TJ, ' and " inside BT/ET). */
+function contentStreamText(content: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let operands: Array<string | number> = [];
+  const newline = () => {
+    if (line.trim()) lines.push(line.trim());
+    line = '';
+  };
+  const strings = (spaced: boolean) =>
+    operands
+      .map((operand) =>
+        typeof operand === 'string' ? operand : spaced && operand < -200 ? ' ' : ''
+      )
+      .join('');
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '(') {
+      const [value, next] = readPdfString(content, i);
+      operands.push(value);
+      i = next;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      if (end < 0) break;
+      operands.push(hexString(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (/[\s[\]<>{}]/.test(char)) {
+      i++;
+    } else {
+      PDF_TOKEN.lastIndex = i;
+      const token = PDF_TOKEN.exec(content)?.[0] || char;
+      i += token.length;
+      if (token.startsWith('/')) continue;
+      const number = Number(token);
+      if (Number.isFinite(number)) {
+        operands.push(number);
+        continue;
+      }
+      if (token === 'Tj' || token === 'TJ') line += strings(token === 'TJ');
+      else if (token === "'" || token === '"') {
+        newline();
+        line += strings(false);
+      } else if (token === 'T*' || token === 'ET') newline();
+      else if (token === 'Td' || token === 'TD') {
+        const ty = operands[operands.length - 1];
+        if (typeof ty === 'number' && ty !== 0) newline();
+        else if (line) line += ' ';
+      }
+      operands = [];
+    }
+  }
+  newline();
+  return lines.join('\n');
+}
+
+type Inflate = (data: Buffer, raw: boolean) => Buffer | null;
+
+// Inflates one attachment's streams until MAX_INFLATED_BYTES have come out in total. A stream that
+// would go past it, or is corrupt, counts as no text; once the budget is spent nothing inflates.
+function inflateBudget(): Inflate {
+  let left = MAX_INFLATED_BYTES;
+  return (data, raw) => {
+    if (left <= 0) return null;
+    const options = { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: left };
+    try {
+      const out = raw ? zlib.inflateRawSync(data, options) : zlib.inflateSync(data, options);
+      left -= out.length;
+      return out;
+    } catch (err: any) {
+      if (err?.code === 'ERR_BUFFER_TOO_LARGE') left = 0;
+      return null;
+    }
+  };
+}
+
+/**
+ * Text of a PDF with uncompressed or Flate-compressed content streams, up to
+ * MAX_ATTACHMENT_TEXT characters. Scanned PDFs and fonts
+ * that only map glyph ids yield nothing, which is treated the same as no attachment text.
+ */
+export function extractPdfText(pdf: Buffer): string {
+  // latin1 keeps one character per byte, so offsets in the string are offsets in the buffer.
+  const source = pdf.toString('latin1');
+  const texts: string[] = [];
+  const inflate = inflateBudget();
+  let length = 0;
+  const streamStart = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while (length < MAX_ATTACHMENT_TEXT && (match = streamStart.exec(source))) {
+    if (source.slice(match.index - 3, match.index) === 'end') continue;
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end < 0) break;
+    const dict = source.slice(source.lastIndexOf('obj', match.index), match.index);
+    streamStart.lastIndex = end;
+    if (/\/Subtype\s*\/Image|\/Length1|\/(?:DCT|JPX|CCITTFax|JBIG2)Decode/.test(dict)) continue;
+    const data = /\/FlateDecode/.test(dict)
+      ? inflate(pdf.subarray(start, end), false)
+      : pdf.subarray(start, end);
+    if (!data) continue;
+    const content = data.toString('latin1');
+    if (!/\bBT\b/.test(content)) continue;
+    const text = contentStreamText(content);
+    texts.push(text);
+    length += text.length;
+  }
+  return texts.filter(Boolean).join('\n\n').trim().slice(0, MAX_ATTACHMENT_TEXT);
+}
+
+// ---- DOCX ----
+
+/** One file of a ZIP archive, found through the central directory. */
+function readZipEntry(zip: Buffer, name: string, inflate: Inflate): Buffer | null {
+  const eocd = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (eocd < 0) return null;
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  for (let i = 0; i < count && offset + 46 <= zip.length; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) return null;
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    if (zip.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+      const dataStart =
+        localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const raw = zip.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return raw;
+      return method === 8 ? inflate(raw, true) : null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+function decodeXmlEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const hex = code[1].toLowerCase() === 'x';
+      const point = hex ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      // Past U+10FFFF there is no character; keep the entity as written.
+      return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return named[code] ?? entity;
+  });
+}
+
+/** Paragraph text of a Word document's main body, up to MAX_ATTACHMENT_TEXT characters. */
+export function extractDocxText(docx: Buffer): string {
+  const xml = readZipEntry(docx, 'word/document.xml', inflateBudget());
+  if (!xml) return '';
+  const text = xml
+    .toString('utf8')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>|<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_ATTACHMENT_TEXT);
+}
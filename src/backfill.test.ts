@@ -0,0 +1,166 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  pauseBackfill,
+  parseStartDate,
+  resumeBackfill,
+  runBackfill,
+  startBackfill,
+} from './backfill';
+import type { IngestDeps } from './gmailIngest';
+import type { GmailState } from './gmailStateStore';
+import { loadStageProviders } from './llmProviders';
+import { createLocalRepositories } from './localRepositories';
+import { createFakeGmail } from './testing/fakeGmail';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails, type EmailFixture } from './testing/fixtures';
+
+const owner = 'sam@example.com';
+const DAY = 86400000;
+const now = Date.now();
+
+function daysAgo(fixture: EmailFixture, days: number) {
+  return { ...fixture.message, internalDate: now - days * DAY };
+}
+
+async function main() {
+  assert.throws(() => parseStartDate('last spring', now), /YYYY-MM-DD/);
+  assert.throws(() => parseStartDate('2999-01-01', now), /in the past/);
+  assert.throws(() => parseStartDate('1990-01-01', now), /at most/);
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-backfill-'));
+  const chat = await startFakeChatServer(fixtureResponder());
+  try {
+    const repos = createLocalRepositories(dir);
+    const gmail = createFakeGmail({ emailAddress: owner });
+    const states = new Map<string, GmailState>();
+    const deps: IngestDeps = {
+      repos,
+      gmail: gmail.client,
+      cache: { set: async () => undefined, del: async () => undefined },
+      state: {
+        loadState: async (email) => states.get(email) || null,
+        saveState: async (email, partial) => {
+          const next = { ...(states.get(email) || {}), ...partial };
+          states.set(email, next);
+          return next;
+        },
+      },
+      providers: loadStageProviders({
+        EMAIL_GATE_PROVIDER: 'openai-compatible',
+        EMAIL_CLASS_PROVIDER: 'openai-compatible',
+        LLM_BASE_URL: chat.url,
+      }),
+      gmailRetryDelayMs: 5,
+    };
+    gmail.add(
+      daysAgo(recruiterEmails.acmeApplied, 35),
+      daysAgo(recruiterEmails.globexOutreach, 30),
+      daysAgo(recruiterEmails.weeklyDigest, 20),
+      daysAgo(recruiterEmails.initechRejection, 10),
+      daysAgo(recruiterEmails.hooliAssessment, 3)
+    );
+    states.set(owner, { historyId: '1005', lastInternalDateMs: now - 3 * DAY });
+
+    const startDate = new Date(now - 45 * DAY).toISOString().slice(0, 10);
+    const started = await startBackfill(
+      deps.state,
+      owner,
+      { startDate, llmBudget: 3, windowDays: 14 },
+      now
+    );
+    assert.strictEqual(started.status, 'running');
+    await assert.rejects(
+      startBackfill(deps.state, owner, { startDate, llmBudget: 3 }, now),
+      /already running/
+    );
+
+    // 1. The first window (two job emails, four LLM calls) finishes, then the budget stops it.
+    const first = await runBackfill(deps, owner);
+    assert.deepStrictEqual(first, { fetched: 2, llmCalls: 4 });
+    let backfill = states.get(owner)?.backfill;
+    assert.strictEqual(backfill?.status, 'paused');
+    assert.strictEqual(backfill?.pausedReason, 'budget');
+    assert.strictEqual(backfill?.cursorMs, now - 14 * DAY);
+    assert.strictEqual(backfill?.llmCalls, 4);
+    // The regular sync cursor is left alone.
+    assert.strictEqual(states.get(owner)?.historyId, '1005');
+
+    await assert.rejects(resumeBackfill(deps.state, owner), /raise it to resume/);
+    await resumeBackfill(deps.state, owner, { llmBudget: 20 });
+
+    // 2. Cancelled before the third window: the checkpoint stays at the last finished window.
+    let checks = 0;
+    const second = await runBackfill(deps, owner, { isCancelled: async () => ++checks > 1 });
+    assert.deepStrictEqual(second, { fetched: 0, llmCalls: 1, cancelled: true });
+    backfill = states.get(owner)?.backfill;
+    assert.strictEqual(backfill?.status, 'paused');
+    assert.strictEqual(backfill?.pausedReason, 'user');
+    assert.strictEqual(backfill?.cursorMs, now - 28 * DAY);
+
+    // Pausing an already paused backfill is a no-op; a paused one does not run.
+    assert.strictEqual((await pauseBackfill(deps.state, owner)).status, 'paused');
+    assert.deepStrictEqual(await runBackfill(deps, owner), { fetched: 0, llmCalls: 0 });
+
+    // 3. After a restart, a fresh run resumes from the checkpoint and reaches the start date.
+    // The Greenhouse confirmation is read by its ATS template, so only Globex needs the LLM.
+    await resumeBackfill(deps.state, owner);
+    const third = await runBackfill(deps, owner);
+    assert.deepStrictEqual(third, { fetched: 2, llmCalls: 2 });
+    backfill = states.get(owner)?.backfill;
+    assert.strictEqual(backfill?.status, 'done');
+    assert.strictEqual(backfill?.cursorMs, Date.parse(`${startDate}T00:00:00Z`));
+    assert.strictEqual(backfill?.fetched, 4);
+    assert.strictEqual(backfill?.llmCalls, 7);
+    await assert.rejects(resumeBackfill(deps.state, owner), /already finished/);
+
+    const companies = await repos.jobs.listCompanies(owner, 'company');
+    assert.deepStrictEqual(
+      companies.map((c) => c.company_name),
+      ['Acme', 'Globex', 'Hooli', 'Initech']
+    );
+    const windows = gmail.calls
+      .filter((call) => call.method === 'messages.list')
+      .map((call) => call.params.q);
+    assert.strictEqual(windows.length, 5);
+    assert.ok(windows.every((q) => /^after:\d+ before:\d+$/.test(q)));
+
+    // 4. One of two mailboxes fails mid-window: the other's emails are kept, but the checkpoint
+    // stays put so the failed mailbox's part of the window is read again on resume.
+    const lee = 'lee@example.com';
+    const personal = createFakeGmail({ emailAddress: lee });
+    const school = createFakeGmail({ emailAddress: 'lee@university.example' });
+    personal.add(daysAgo(recruiterEmails.acmeApplied, 5));
+    school.add(daysAgo(recruiterEmails.globexOutreach, 6));
+    const accounts = [
+      { ...deps, gmail: personal.client, gmailAccount: lee },
+      { ...deps, gmail: school.client, gmailAccount: 'lee@university.example' },
+    ];
+    const leeStart = await startBackfill(
+      deps.state,
+      lee,
+      { startDate, llmBudget: 20, windowDays: 14 },
+      now
+    );
+    school.failNext('messages.list', 401);
+    const partial = await runBackfill(deps, lee, {}, accounts);
+    assert.strictEqual(partial.fetched, 1);
+    backfill = states.get(lee)?.backfill;
+    assert.strictEqual(backfill?.status, 'paused');
+    assert.strictEqual(backfill?.pausedReason, 'error');
+    assert.match(backfill?.error || '', /^lee@university\.example: .*401/);
+    assert.strictEqual(backfill?.cursorMs, leeStart.cursorMs);
+    assert.ok(await repos.emails.get(lee, 'acme-applied'));
+  } finally {
+    await chat.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  console.log('backfill tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
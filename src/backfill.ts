@@ -0,0 +1,254 @@
+import {
+  ingestAccounts,
+  type IngestDeps,
+  type IngestOptions,
+  type IngestStateStore,
+} from './gmailIngest';
+import type { BackfillState } from './gmailStateStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_BACKFILL_WINDOW_DAYS = 14;
+const MAX_WINDOW_DAYS = 90;
+// Gmail search is fine going further back, but older mail is rarely worth the LLM spend.
+const MAX_BACKFILL_DAYS = 5 * 365;
+
+export interface StartBackfillRequest {
+  startDate: unknown;
+  llmBudget: unknown;
+  windowDays?: unknown;
+}
+
+export interface BackfillRunResult {
+  fetched: number;
+  llmCalls: number;
+  cancelled?: boolean;
+}
+
+function backfillError(message: string, code: string): Error {
+  const err: any = new Error(message);
+  err.code = code;
+  return err;
+}
+
+function parseBudget(value: unknown): number {
+  const budget = Number(value);
+  if (!Number.isInteger(budget) || budget < 1) {
+    throw backfillError('LLM budget must be a positive whole number', 'INVALID_BACKFILL');
+  }
+  return budget;
+}
+
+/** Validate a YYYY-MM-DD start date and return midnight UTC of that day. */
+export function parseStartDate(value: unknown, now = Date.now()): number {
+  const text = typeof value === 'string' ? value.trim() : '';
+  const startMs = /^\d{4}-\d{2}-\d{2}$/.test(text) ? Date.parse(`${text}T00:00:00Z`) : NaN;
+  if (Number.isNaN(startMs)) {
+    throw backfillError('Start date must be a YYYY-MM-DD date', 'INVALID_BACKFILL');
+  }
+  if (startMs >= now) {
+    throw backfillError('Start date must be in the past', 'INVALID_BACKFILL');
+  }
+  if (now - startMs > MAX_BACKFILL_DAYS * DAY_MS) {
+    throw backfillError(
+      `Backfill can reach at most ${MAX_BACKFILL_DAYS} days back`,
+      'INVALID_BACKFILL'
+    );
+  }
+  return startMs;
+}
+
+async function loadBackfill(
+  state: IngestStateStore,
+  ownerEmail: string
+): Promise<BackfillState | null> {
+  return (await state.loadState(ownerEmail))?.backfill || null;
+}
+
+// Merge into the stored checkpoint rather than overwriting it, so a pause that lands while a
+// window is running is kept.
+async function updateBackfill(
+  state: IngestStateStore,
+  ownerEmail: string,
+  patch: Partial<BackfillState>
+): Promise<BackfillState> {
+  const current = await loadBackfill(state, ownerEmail);
+  if (!current) {
+    throw backfillError('No backfill found', 'NO_BACKFILL');
+  }
+  const backfill = { ...current, ...patch, updatedAt: new Date().toISOString() };
+  await state.saveState(ownerEmail, { backfill });
+  return backfill;
+}
+
+export async function getBackfill(
+  state: IngestStateStore,
+  ownerEmail: string
+): Promise<BackfillState | null> {
+  return loadBackfill(state, ownerEmail);
+}
+
+/** Start a new backfill from now back to `startDate`, replacing any paused or finished one. */
+export async function startBackfill(
+  state: IngestStateStore,
+  ownerEmail: string,
+  request: StartBackfillRequest,
+  now = Date.now()
+): Promise<BackfillState> {
+  const startMs = parseStartDate(request.startDate, now);
+  const llmBudget = parseBudget(request.llmBudget);
+  const windowDays =
+    request.windowDays === undefined || request.windowDays === null
+      ? DEFAULT_BACKFILL_WINDOW_DAYS
+      : Number(request.windowDays);
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_WINDOW_DAYS) {
+    throw backfillError(
+      `Window must be between 1 and ${MAX_WINDOW_DAYS} days`,
+      'INVALID_BACKFILL'
+    );
+  }
+  const current = await loadBackfill(state, ownerEmail);
+  if (current?.status === 'running') {
+    throw backfillError('A backfill is already running', 'BACKFILL_RUNNING');
+  }
+  const startedAt = new Date(now).toISOString();
+  const backfill: BackfillState = {
+    status: 'running',
+    startDate: new Date(startMs).toISOString().slice(0, 10),
+    cursorMs: now,
+    windowDays,
+    llmBudget,
+    llmCalls: 0,
+    fetched: 0,
+    startedAt,
+    updatedAt: startedAt,
+  };
+  await state.saveState(ownerEmail, { backfill });
+  return backfill;
+}
+
+export async function pauseBackfill(
+  state: IngestStateStore,
+  ownerEmail: string
+): Promise<BackfillState> {
+  const current = await loadBackfill(state, ownerEmail);
+  if (!current) {
+    throw backfillError('No backfill found', 'NO_BACKFILL');
+  }
+  if (current.status !== 'running') return current;
+  return updateBackfill(state, ownerEmail, { status: 'paused', pausedReason: 'user' });
+}
+
+/** Resume from the checkpoint, optionally raising the total LLM budget. */
+export async function resumeBackfill(
+  state: IngestStateStore,
+  ownerEmail: string,
+  options: { llmBudget?: unknown } = {}
+): Promise<BackfillState> {
+  const current = await loadBackfill(state, ownerEmail);
+  if (!current) {
+    throw backfillError('No backfill found', 'NO_BACKFILL');
+  }
+  if (current.status === 'done') {
+    throw backfillError('Backfill already finished', 'BACKFILL_DONE');
+  }
+  const llmBudget =
+    options.llmBudget === undefined || options.llmBudget === null || options.llmBudget === ''
+      ? current.llmBudget
+      : parseBudget(options.llmBudget);
+  if (llmBudget <= current.llmCalls) {
+    throw backfillError(
+      `LLM budget is used up (${current.llmCalls} calls); raise it to resume`,
+      'BACKFILL_BUDGET_EXHAUSTED'
+    );
+  }
+  return updateBackfill(state, ownerEmail, {
+    status: 'running',
+    llmBudget,
+    pausedReason: undefined,
+    error: undefined,
+  });
+}
+
+/**
+ * Work through backfill windows, newest first, saving the checkpoint after each one. Stops when
+ * the start date is reached, the LLM budget runs out, the backfill is paused, the run is
+ * cancelled or a mailbox fails; a later run picks up from the last finished window. The
+ * checkpoint lives in `deps.state`; each window is read from every mailbox in `accounts`.
+ */
+export async function runBackfill(
+  deps: IngestDeps,
+  ownerEmail: string,
+  options: Pick<IngestOptions, 'onProgress' | 'isCancelled'> = {},
+  accounts: IngestDeps[] = [deps]
+): Promise<BackfillRunResult> {
+  let fetched = 0;
+  let llmCalls = 0;
+  for (;;) {
+    const current = await loadBackfill(deps.state, ownerEmail);
+    if (!current || current.status !== 'running') {
+      return { fetched, llmCalls };
+    }
+    const startMs = Date.parse(`${current.startDate}T00:00:00Z`);
+    if (current.cursorMs <= startMs) {
+      await updateBackfill(deps.state, ownerEmail, {
+        status: 'done',
+        finishedAt: new Date().toISOString(),
+      });
+      console.log(`[Backfill] Finished for ${ownerEmail}: ${current.fetched} emails stored.`);
+      return { fetched, llmCalls };
+    }
+    const remaining = current.llmBudget - current.llmCalls;
+    if (remaining <= 0) {
+      await updateBackfill(deps.state, ownerEmail, { status: 'paused', pausedReason: 'budget' });
+      return { fetched, llmCalls };
+    }
+
+    const windowStartMs = Math.max(startMs, current.cursorMs - current.windowDays * DAY_MS);
+    const query = `after:${Math.floor(windowStartMs / 1000)} before:${Math.floor(
+      current.cursorMs / 1000
+    )}`;
+    let result;
+    try {
+      result = await ingestAccounts(accounts, ownerEmail, {
+        ...options,
+        queryOverride: query,
+        skipStateUpdate: true,
+        llmBudget: remaining,
+      });
+    } catch (err: any) {
+      await updateBackfill(deps.state, ownerEmail, {
+        status: 'paused',
+        pausedReason: 'error',
+        error: err?.code || err?.message || 'Backfill failed',
+      });
+      throw err;
+    }
+    fetched += result.fetched;
+    llmCalls += result.llmCalls;
+
+    const patch: Partial<BackfillState> = {
+      llmCalls: current.llmCalls + result.llmCalls,
+      fetched: current.fetched + result.fetched,
+    };
+    if (result.failedAccounts?.length) {
+      // The window is incomplete for those mailboxes; moving on would skip it for good.
+      const error = result.failedAccounts.map((f) => `${f.account}: ${f.error}`).join('; ');
+      Object.assign(patch, { status: 'paused', pausedReason: 'error', error });
+    } else if (result.cancelled) {
+      Object.assign(patch, { status: 'paused', pausedReason: 'user' });
+    } else if (result.budgetExhausted) {
+      Object.assign(patch, { status: 'paused', pausedReason: 'budget' });
+    } else if (result.monthlyBudgetExceeded) {
+      Object.assign(patch, { status: 'paused', pausedReason: 'spend' });
+    } else {
+      patch.cursorMs = windowStartMs;
+    }
+    await updateBackfill(deps.state, ownerEmail, patch);
+    console.log(
+      `[Backfill] ${ownerEmail}: ${query} → ${result.fetched} stored, ${result.llmCalls} LLM calls`
+    );
+    if (result.cancelled) {
+      return { fetched, llmCalls, cancelled: true };
+    }
+  }
+}
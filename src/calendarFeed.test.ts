@@ -0,0 +1,156 @@
+import assert from 'node:assert';
+import {
+  buildIcsFeed,
+  collectInterviews,
+  findInterviewConflicts,
+  normalizeInterviewEvent,
+} from './calendarFeed';
+import type { GmailEmailDoc, InterviewEvent } from './types';
+
+// Wall-clock times are read in the quoted zone, across DST.
+const summer = normalizeInterviewEvent({
+  start: '2024-07-10T14:00',
+  timezone: 'America/New_York',
+  interviewers: ['Dana Lee', ''],
+  format: 'video',
+  meeting_link: 'https://zoom.us/j/123',
+});
+assert.strictEqual(summer?.start, '2024-07-10T18:00:00.000Z');
+assert.strictEqual(summer?.end, '2024-07-10T19:00:00.000Z');
+assert.deepStrictEqual(summer?.interviewers, ['Dana Lee']);
+const winter = normalizeInterviewEvent({
+  start: '2024-01-10T14:00',
+  end: '2024-01-10T14:30',
+  timezone: 'America/New_York',
+});
+assert.strictEqual(winter?.start, '2024-01-10T19:00:00.000Z');
+assert.strictEqual(winter?.end, '2024-01-10T19:30:00.000Z');
+assert.strictEqual(
+  normalizeInterviewEvent({ start: '2024-01-10T09:00:00+01:00' })?.start,
+  '2024-01-10T08:00:00.000Z'
+);
+assert.strictEqual(normalizeInterviewEvent({ start: 'next Tuesday' }), null);
+assert.strictEqual(normalizeInterviewEvent(null), null);
+assert.strictEqual(
+  normalizeInterviewEvent({ start: '2024-01-10T09:00Z', format: 'carrier pigeon' })?.format,
+  undefined
+);
+
+function email(
+  id: string,
+  company: string,
+  interview: InterviewEvent | null,
+  extra: Partial<GmailEmailDoc> = {}
+): GmailEmailDoc {
+  return {
+    id,
+    owner: 'user@example.com',
+    from: 'recruiter@example.com',
+    to: 'user@example.com',
+    subject: `Interview with ${company}`,
+    date: '',
+    snippet: '',
+    body: '',
+    labelIds: [],
+    fetchedAt: '2024-07-01T00:00:00.000Z',
+    internalDate: 0,
+    classification: {
+      is_job_related: true,
+      status: 'interview_scheduled',
+      summary: '',
+      company_name: company,
+      role_title: 'Backend Engineer',
+    },
+    interview,
+    ...extra,
+  };
+}
+
+const interviews = collectInterviews([
+  email('m2', 'Globex', { start: '2024-07-10T18:30:00.000Z', interviewers: [] }),
+  email('m1', 'Acme', summer),
+  email('m3', 'Initech', { start: '2024-07-10T20:00:00.000Z', interviewers: [] }),
+  email('m4', 'Hooli', null),
+]);
+assert.deepStrictEqual(
+  interviews.map((event) => event.emailId),
+  ['m1', 'm2', 'm3']
+);
+assert.strictEqual(interviews[1].end, '2024-07-10T19:30:00.000Z');
+
+// Acme 18:00–19:00 overlaps Globex 18:30–19:30; Initech at 20:00 is clear.
+assert.deepStrictEqual(findInterviewConflicts(interviews), [
+  { a: 'm1@jobtracker', b: 'm2@jobtracker', overlapMinutes: 30 },
+]);
+
+const ics = buildIcsFeed(interviews, { now: new Date('2024-07-01T00:00:00Z') });
+assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\n'));
+assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+assert.strictEqual(ics.match(/BEGIN:VEVENT/g)?.length, 3);
+assert.ok(ics.includes('DTSTART:20240710T180000Z\r\n'));
+assert.ok(ics.includes('SUMMARY:Interview – Acme (Backend Engineer)'));
+assert.ok(ics.includes('URL:https://zoom.us/j/123'));
+assert.ok(ics.replace(/\r\n /g, '').includes('Overlaps with interview at Globex'));
+for (const line of ics.split('\r\n')) {
+  assert.ok(Buffer.byteLength(line, 'utf8') <= 75, `line too long: ${line}`);
+}
+
+// Links must be plain http(s) URLs; anything else could carry extra ICS properties.
+const injected = 'https://zoom.us/j/1\r\nATTENDEE:mailto:attacker@example.com';
+assert.strictEqual(
+  normalizeInterviewEvent({ start: '2024-07-10T18:00Z', meeting_link: injected })?.meeting_link,
+  undefined
+);
+assert.strictEqual(
+  normalizeInterviewEvent({ start: '2024-07-10T18:00Z', meeting_link: 'call me' })?.meeting_link,
+  undefined
+);
+// Emails stored before links were checked are still written safely.
+const legacy = collectInterviews([
+  email('m9', 'Umbrella', {
+    start: '2024-07-11T18:00:00.000Z',
+    interviewers: [],
+    meeting_link: injected,
+  }),
+]);
+const legacyIcs = buildIcsFeed(legacy);
+assert.ok(!legacyIcs.includes('URL:'));
+assert.ok(!legacyIcs.includes('\r\nATTENDEE'));
+
+// One interview per application or thread: an invite plus its confirmation count once, a
+// reschedule replaces the old slot, and a rejected application's interview is dropped.
+const slot = { start: '2024-07-12T17:00:00.000Z', interviewers: [] };
+const deduped = collectInterviews(
+  [
+    email('invite', 'Acme', slot, { applicationId: 'app-acme', internalDate: 1 }),
+    email('confirm', 'Acme', slot, { applicationId: 'app-acme', internalDate: 2 }),
+    email('first', 'Globex', slot, { threadId: 't-globex', internalDate: 1 }),
+    email(
+      'moved',
+      'Globex',
+      { start: '2024-07-15T17:00:00.000Z', interviewers: [] },
+      { threadId: 't-globex', internalDate: 3 }
+    ),
+    email('onsite', 'Initech', slot, { applicationId: 'app-initech', internalDate: 1 }),
+  ],
+  [
+    { id: 'app-acme', stage: 'interview' },
+    { id: 'app-initech', stage: 'rejected' },
+  ]
+);
+assert.deepStrictEqual(
+  deduped.map((event) => [event.emailId, event.start]),
+  [
+    ['confirm', '2024-07-12T17:00:00.000Z'],
+    ['moved', '2024-07-15T17:00:00.000Z'],
+  ]
+);
+assert.deepStrictEqual(findInterviewConflicts(deduped), []);
+// Overlapping entries for the same application are not a conflict with each other.
+const [acmeEvent] = deduped;
+assert.deepStrictEqual(
+  findInterviewConflicts([acmeEvent, { ...acmeEvent, uid: 'other@jobtracker', emailId: 'other' }]),
+  []
+);
+
+console.log('calendarFeed tests passed');
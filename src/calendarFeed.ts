@@ -0,0 +1,242 @@
+import { isTerminal } from './applicationStages';
+import type { ApplicationDoc, GmailEmailDoc, InterviewEvent, InterviewFormat } from './types';
+
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+const FORMATS: InterviewFormat[] = ['phone', 'video', 'onsite', 'other'];
+// Links come from model output or invites and end up in the feed's URL property.
+const MEETING_LINK = /^https?:\/\/\S+$/i;
+
+export interface CalendarInterview extends InterviewEvent {
+  uid: string;
+  emailId: string;
+  applicationId?: string;
+  threadId?: string;
+  company: string;
+  role?: string;
+  subject: string;
+  end: string;
+}
+
+export interface InterviewConflict {
+  a: string;
+  b: string;
+  overlapMinutes: number;
+}
+
+function offsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const map: Record<string, string> = {};
+  for (const part of parts) map[part.type] = part.value;
+  const asUtc = Date.UTC(
+    Number(map.year),
+    Number(map.month) - 1,
+    Number(map.day),
+    Number(map.hour),
+    Number(map.minute),
+    Number(map.second)
+  );
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/** Interpret a wall-clock time ("2024-05-03T14:00") in an IANA zone and return epoch ms. */
+function zonedTimeToUtc(local: string, timeZone: string): number {
+  const naive = Date.parse(`${local.replace(' ', 'T')}Z`);
+  if (!Number.isFinite(naive)) return NaN;
+  // Two passes settle the offset on either side of a DST change.
+  let guess = naive - offsetMinutes(new Date(naive), timeZone) * 60000;
+  guess = naive - offsetMinutes(new Date(guess), timeZone) * 60000;
+  return guess;
+}
+
+function parseInstant(value: unknown, timeZone?: string): number {
+  if (typeof value !== 'string' || !value.trim()) return NaN;
+  const text = value.trim();
+  const hasOffset = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(text);
+  if (!hasOffset && timeZone) {
+    try {
+      return zonedTimeToUtc(text, timeZone);
+    } catch {
+      // Unknown zone: fall through and read the time as UTC.
+    }
+  }
+  return Date.parse(hasOffset ? text : `${text.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Validate the interview object a model extracted and turn it into UTC instants.
+ * Returns null unless there is at least a parseable start time.
+ */
+export function normalizeInterviewEvent(raw: any): InterviewEvent | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const timezone = typeof raw.timezone === 'string' ? raw.timezone.trim() : '';
+  const start = parseInstant(raw.start, timezone || undefined);
+  if (!Number.isFinite(start)) return null;
+  let end = parseInstant(raw.end, timezone || undefined);
+  if (!Number.isFinite(end) || end <= start) {
+    end = start + DEFAULT_DURATION_MS;
+  }
+  const interviewers = Array.isArray(raw.interviewers)
+    ? raw.interviewers.filter((name: unknown) => typeof name === 'string' && name.trim())
+    : [];
+  const format = FORMATS.includes(raw.format) ? raw.format : undefined;
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const link = text(raw.meeting_link);
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    timezone: timezone || undefined,
+    meeting_link: link && MEETING_LINK.test(link) ? link : undefined,
+    location: text(raw.location),
+    interviewers: interviewers.map((name: string) => name.trim()),
+    format,
+  };
+}
+
+// Emails about the same interview: the application they count towards, else their thread.
+function interviewGroup(item: { applicationId?: string; threadId?: string; emailId: string }) {
+  if (item.applicationId) return `application:${item.applicationId}`;
+  return item.threadId ? `thread:${item.threadId}` : `email:${item.emailId}`;
+}
+
+/**
+ * One interview per application (or thread without one): the one from its latest email, so an
+ * invite and its confirmation count once and a reschedule replaces the old slot. Interviews of
+ * applications that were since rejected, withdrawn or accepted are dropped.
+ */
+export function collectInterviews(
+  emails: GmailEmailDoc[],
+  applications: Array<Pick<ApplicationDoc, 'id' | 'stage'>> = []
+): CalendarInterview[] {
+  const closed = new Set(applications.filter((app) => isTerminal(app.stage)).map((app) => app.id));
+  const latest = new Map<string, GmailEmailDoc>();
+  for (const email of emails) {
+    if (!email?.interview?.start || !Number.isFinite(Date.parse(email.interview.start))) continue;
+    if (email.applicationId && closed.has(email.applicationId)) continue;
+    const group = interviewGroup({ ...email, emailId: email.id });
+    const current = latest.get(group);
+    if (!current || (email.internalDate || 0) >= (current.internalDate || 0)) {
+      latest.set(group, email);
+    }
+  }
+  const interviews: CalendarInterview[] = [];
+  for (const email of latest.values()) {
+    const event = email.interview!;
+    const start = Date.parse(event.start);
+    const end = Date.parse(event.end || '');
+    interviews.push({
+      ...event,
+      uid: `${email.id}@jobtracker`,
+      emailId: email.id,
+      applicationId: email.applicationId,
+      threadId: email.threadId,
+      company: email.classification?.company_name || 'Unknown company',
+      role: email.classification?.role_title || undefined,
+      subject: email.subject || '',
+      end: new Date(Number.isFinite(end) && end > start ? end : start + DEFAULT_DURATION_MS).toISOString(),
+    });
+  }
+  return interviews.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** Every pair of interviews whose time ranges overlap, other than two about the same one. */
+export function findInterviewConflicts(interviews: CalendarInterview[]): InterviewConflict[] {
+  const sorted = [...interviews].sort((a, b) => a.start.localeCompare(b.start));
+  const conflicts: InterviewConflict[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const endA = Date.parse(sorted[i].end);
+    for (let j = i + 1; j < sorted.length; j++) {
+      const startB = Date.parse(sorted[j].start);
+      if (startB >= endA) break;
+      if (interviewGroup(sorted[i]) === interviewGroup(sorted[j])) continue;
+      const overlap = Math.min(endA, Date.parse(sorted[j].end)) - startB;
+      conflicts.push({ a: sorted[i].uid, b: sorted[j].uid, overlapMinutes: Math.round(overlap / 60000) });
+    }
+  }
+  return conflicts;
+}
+
+function icsDate(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space.
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char, 'utf8');
+    const limit = chunks.length ? 74 : 75;
+    if (size + charSize > limit) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+export function buildIcsFeed(
+  interviews: CalendarInterview[],
+  options: { calendarName?: string; now?: Date } = {}
+): string {
+  const stamp = icsDate((options.now || new Date()).toISOString());
+  const conflicts = findInterviewConflicts(interviews);
+  const byUid = new Map(interviews.map((interview) => [interview.uid, interview]));
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Job Tracker//Interviews//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(options.calendarName || 'Job interviews')}`,
+  ];
+  for (const interview of interviews) {
+    const title = `Interview – ${interview.company}${interview.role ? ` (${interview.role})` : ''}`;
+    const details: string[] = [];
+    if (interview.format) details.push(`Format: ${interview.format}`);
+    if (interview.interviewers.length) details.push(`Interviewers: ${interview.interviewers.join(', ')}`);
+    if (interview.meeting_link) details.push(`Link: ${interview.meeting_link}`);
+    if (interview.subject) details.push(`Email: ${interview.subject}`);
+    for (const conflict of conflicts) {
+      const otherUid = conflict.a === interview.uid ? conflict.b : conflict.b === interview.uid ? conflict.a : '';
+      const other = otherUid ? byUid.get(otherUid) : undefined;
+      if (other) details.push(`Overlaps with interview at ${other.company}`);
+    }
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${interview.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(interview.start)}`,
+      `DTEND:${icsDate(interview.end)}`,
+      `SUMMARY:${icsText(title)}`
+    );
+    if (details.length) lines.push(`DESCRIPTION:${icsText(details.join('\n'))}`);
+    const location = interview.location || interview.meeting_link;
+    if (location) lines.push(`LOCATION:${icsText(location)}`);
+    // Checked again here: emails stored before links were validated may still hold any text.
+    const link = interview.meeting_link || '';
+    if (MEETING_LINK.test(link)) lines.push(`URL:${link}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
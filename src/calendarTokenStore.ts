@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { getSecretStore } from './secretStore';
+
+const FEED_PREFIX = 'calendar-feed-';
+
+function slugify(ownerEmail: string): string {
+  if (!ownerEmail) {
+    throw new Error('Owner email required for calendar feed');
+  }
+  return ownerEmail.replace(/[^a-z0-9]/gi, '-').toLowerCase();
+}
+
+function secretName(ownerEmail: string): string {
+  return `${FEED_PREFIX}${slugify(ownerEmail)}`;
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+// Only the hash is stored; revoking clears it instead of deleting the secret so the
+// name can be reused straight away (Key Vault keeps deleted secrets around).
+export interface CalendarFeedRecord {
+  ownerEmail: string;
+  secretHash?: string;
+  createdAt?: string;
+  revokedAt?: string;
+}
+
+async function loadRecord(ownerEmail: string): Promise<CalendarFeedRecord | null> {
+  const value = await getSecretStore().get(secretName(ownerEmail));
+  return value === null ? null : JSON.parse(value || '{}');
+}
+
+export async function getFeedStatus(
+  ownerEmail: string
+): Promise<{ enabled: boolean; createdAt?: string }> {
+  const record = await loadRecord(ownerEmail);
+  return record?.secretHash
+    ? { enabled: true, createdAt: record.createdAt }
+    : { enabled: false };
+}
+
+/**
+ * Issue a new feed token, replacing any earlier one. The token carries the owner so the
+ * public feed URL needs no other identifying parameter.
+ */
+export async function createFeedToken(ownerEmail: string): Promise<string> {
+  const secret = crypto.randomBytes(24).toString('base64url');
+  const record: CalendarFeedRecord = {
+    ownerEmail,
+    secretHash: hashSecret(secret),
+    createdAt: new Date().toISOString(),
+  };
+  await getSecretStore().set(secretName(ownerEmail), JSON.stringify(record));
+  return `${Buffer.from(ownerEmail).toString('base64url')}.${secret}`;
+}
+
+export async function revokeFeedToken(ownerEmail: string): Promise<void> {
+  const record: CalendarFeedRecord = { ownerEmail, revokedAt: new Date().toISOString() };
+  await getSecretStore().set(secretName(ownerEmail), JSON.stringify(record));
+}
+
+/** Resolve a feed token to its owner, or null when it is malformed, revoked or rotated. */
+export async function verifyFeedToken(token: string): Promise<string | null> {
+  const [encodedOwner, secret] = (token || '').split('.');
+  if (!encodedOwner || !secret) return null;
+  const ownerEmail = Buffer.from(encodedOwner, 'base64url').toString('utf8');
+  if (!ownerEmail.includes('@')) return null;
+  const record = await loadRecord(ownerEmail);
+  if (!record?.secretHash) return null;
+  const expected = Buffer.from(record.secretHash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return ownerEmail;
+}
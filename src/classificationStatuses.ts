@@ -0,0 +1,110 @@
+import type {
+  ClassificationOverride,
+  ClassificationResult,
+  ClassificationStatus,
+  CountedStatus,
+} from './types';
+
+export const TAXONOMY_VERSION = 2;
+
+export const COUNTED_STATUSES: CountedStatus[] = [
+  'applied',
+  'recruiter_outreach',
+  'next_steps',
+  'assessment',
+  'interview_scheduled',
+  'offer',
+  'on_hold',
+  'rejected',
+  'withdrawn',
+];
+
+// Every status that is job related and therefore belongs on a company rollup.
+export const JOB_STATUSES: ClassificationStatus[] = [...COUNTED_STATUSES, 'comment_only'];
+
+export function isJobStatus(status: unknown): status is ClassificationStatus {
+  return JOB_STATUSES.includes(status as ClassificationStatus);
+}
+
+export function emptyCounters(): Record<CountedStatus, number> {
+  const counters = {} as Record<CountedStatus, number>;
+  for (const status of COUNTED_STATUSES) counters[status] = 0;
+  return counters;
+}
+
+interface LegacyHint {
+  status: CountedStatus;
+  from: ClassificationStatus[];
+  pattern: RegExp;
+}
+
+// Summary wording that shows which new status an old next_steps/comment_only email really was.
+const LEGACY_HINTS: LegacyHint[] = [
+  { status: 'withdrawn', from: ['comment_only', 'next_steps'], pattern: /withdr[ae]w/i },
+  {
+    status: 'offer',
+    from: ['next_steps', 'comment_only'],
+    pattern: /\boffer(?: letter)?\b(?! to (?:chat|talk|discuss))|extend(?:ed|ing) an offer/i,
+  },
+  {
+    status: 'assessment',
+    from: ['next_steps', 'comment_only'],
+    pattern: /assessment|take[- ]home|coding (?:challenge|exercise|test)|hackerrank|codesignal/i,
+  },
+  {
+    status: 'interview_scheduled',
+    from: ['next_steps'],
+    pattern: /interview (?:is )?(?:scheduled|confirmed|booked)|(?:scheduled|confirmed) (?:an? |your )?interview|calendar invite/i,
+  },
+  {
+    status: 'on_hold',
+    from: ['comment_only', 'next_steps'],
+    pattern: /on hold|paused|hiring freeze/i,
+  },
+  {
+    status: 'recruiter_outreach',
+    from: ['comment_only'],
+    pattern: /recruiter (?:reached out|contacted)|reach(?:ed|ing) out about|interested in your (?:profile|background)/i,
+  },
+];
+
+function migrateStatus(status: ClassificationStatus, summary: unknown): ClassificationStatus {
+  const text = typeof summary === 'string' ? summary : '';
+  const hint = LEGACY_HINTS.find(
+    (entry) => entry.from.includes(status) && entry.pattern.test(text)
+  );
+  return hint ? hint.status : status;
+}
+
+/**
+ * Map a classification stored under the original five statuses onto the expanded set.
+ * Returns null when the classification is already current and needs no rewrite.
+ */
+export function migrateClassification(
+  classification: ClassificationResult | null | undefined
+): ClassificationResult | null {
+  if (!classification || typeof classification !== 'object') return null;
+  if ((classification.taxonomy_version || 1) >= TAXONOMY_VERSION) return null;
+  return {
+    ...classification,
+    status: migrateStatus(classification.status, classification.summary),
+    taxonomy_version: TAXONOMY_VERSION,
+  };
+}
+
+/**
+ * The same mapping for a user's correction stored alongside a legacy classification: both the
+ * corrected status and the classifier's `original` one. Migrate it in the same pass as the
+ * classification, which carries the taxonomy version for both.
+ */
+export function migrateOverride(override: ClassificationOverride): ClassificationOverride {
+  const { original } = override;
+  const next: ClassificationOverride = {
+    ...override,
+    original: { ...original, status: migrateStatus(original.status, original.summary) },
+  };
+  if (override.status) {
+    next.status = migrateStatus(override.status, override.summary ?? original.summary);
+  }
+  return next;
+}
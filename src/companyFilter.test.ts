@@ -90,4 +90,26 @@ assert.strictEqual(filteredCase[0].id, '2');
 const filteredMissing = filterEmailsByCompany(emails, 'Missing');
 assert.strictEqual(filteredMissing.length, 0);
 
+const offers = [
+  ...emails,
+  {
+    ...emails[0],
+    id: '5',
+    classification: { is_job_related: true, status: 'offer', summary: '', company_name: 'acme' },
+  },
+  {
+    ...emails[0],
+    id: '6',
+    classification: { is_job_related: true, status: 'bogus', summary: '', company_name: 'Acme' },
+  },
+] as GmailEmailDoc[];
+assert.deepStrictEqual(
+  filterEmailsByCompany(offers, 'Acme').map((email) => email.id),
+  ['1', '5']
+);
+assert.deepStrictEqual(
+  filterEmailsByCompany(offers, 'Acme', ['offer', 'withdrawn']).map((email) => email.id),
+  ['5']
+);
+
 console.log('companyFilter tests passed');
@@ -1,22 +1,21 @@
-import type { GmailEmailDoc } from './types';
-
-function normalizeCompany(name: string): string {
-  return (name || '').trim().toLowerCase();
-}
+import { isJobStatus } from './classificationStatuses';
+import { createCompanyResolver, type CompanyResolver } from './companyNames';
+import type { ClassificationStatus, GmailEmailDoc } from './types';
 
 export function filterEmailsByCompany(
   emails: GmailEmailDoc[] = [],
-  companyName: string
+  companyName: string,
+  statuses?: ClassificationStatus[],
+  companies: CompanyResolver = createCompanyResolver(emails)
 ): GmailEmailDoc[] {
-  const target = normalizeCompany(companyName);
-  if (!target) return [];
+  if (!(companyName || '').trim()) return [];
+  const target = companies.canonical(companyName).slug;
   return emails.filter((email) => {
-    const company = email?.classification?.company_name;
     const isJob = email?.classification?.is_job_related;
     const status = email?.classification?.status;
-    if (typeof company !== 'string') return false;
     if (isJob !== true) return false;
-    if (status === 'not_job_related') return false;
-    return normalizeCompany(company) === target;
+    if (!isJobStatus(status)) return false;
+    if (statuses && statuses.length && !statuses.includes(status)) return false;
+    return companies.resolve(email)?.slug === target;
   });
 }
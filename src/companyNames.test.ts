@@ -0,0 +1,102 @@
+import assert from 'node:assert';
+import { filterEmailsByCompany } from './companyFilter';
+import {
+  cleanCompanyName,
+  companyKey,
+  createCompanyResolver,
+  isAtsDomain,
+  mergeAliases,
+  removeAlias,
+} from './companyNames';
+import { buildRollups } from './rollups';
+import type { ClassificationStatus, GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+let nextId = 0;
+
+function email(
+  companyName: string,
+  from: string,
+  status: ClassificationStatus = 'applied'
+): GmailEmailDoc {
+  nextId++;
+  return {
+    id: `m${nextId}`,
+    owner,
+    from,
+    to: owner,
+    subject: `Email ${nextId}`,
+    date: '',
+    snippet: '',
+    body: '',
+    labelIds: [],
+    fetchedAt: '2024-05-01T00:00:00Z',
+    internalDate: Date.parse('2024-05-01T00:00:00Z') + nextId * 1000,
+    classification: {
+      is_job_related: status !== 'not_job_related',
+      status,
+      summary: '',
+      company_name: companyName,
+    },
+  };
+}
+
+assert.strictEqual(cleanCompanyName('  Google   LLC '), 'Google');
+assert.strictEqual(cleanCompanyName('Acme, Inc.'), 'Acme');
+assert.strictEqual(cleanCompanyName('Initech Holdings Pty Ltd'), 'Initech Holdings');
+assert.strictEqual(cleanCompanyName('Inc'), 'Inc');
+assert.strictEqual(companyKey('GOOGLE L.L.C.'), 'google');
+assert.strictEqual(companyKey('Procter & Gamble Co.'), 'procter & gamble');
+assert.ok(isAtsDomain('boards.greenhouse.io'));
+assert.ok(!isAtsDomain('google.com'));
+
+// "Google", "Google LLC", "Alphabet (Google)" and a Greenhouse email on Google's behalf are
+// one company; an agency recruiter keeps the company the model named.
+const emails = [
+  email('Google', 'Pat <pat@google.com>'),
+  email('Google LLC', 'Careers <careers@google.com>', 'next_steps'),
+  email('Alphabet (Google)', 'Lee <lee@google.com>', 'interview_scheduled'),
+  email('Greenhouse', 'Google Recruiting <no-reply@greenhouse.io>', 'rejected'),
+  email('', 'Priya <priya@globex.co.uk>'),
+  email('Initech', 'Sam Recruiter <sam@talentagency.com>'),
+  email('Acme', 'Acme <news@acme.com>', 'not_job_related'),
+];
+const resolver = createCompanyResolver(emails);
+assert.deepStrictEqual(
+  emails.map((doc) => resolver.resolve(doc)?.name ?? null),
+  ['Google', 'Google', 'Google', 'Google', 'Globex', 'Initech', null]
+);
+assert.deepStrictEqual(resolver.canonical('google inc'), { name: 'Google', slug: 'google' });
+
+const rollups = buildRollups(owner, emails, '2024-05-02', resolver);
+const google = rollups.companies.find((company) => company.company_name === 'Google');
+assert.strictEqual(rollups.companies.length, 3);
+assert.deepStrictEqual(
+  [google?.applied, google?.next_steps, google?.interview_scheduled, google?.rejected],
+  [1, 1, 1, 1]
+);
+assert.ok(rollups.applications.every((app) => app.company_slug !== 'google_llc'));
+
+// Aliases: merging Initech into Google moves its emails, and aliases that pointed at a merged
+// company follow it.
+let aliases = mergeAliases({}, ['Initech', 'Google'], 'Google');
+assert.deepStrictEqual(aliases, { initech: 'Google' });
+aliases = mergeAliases(aliases, ['Google'], 'Alphabet');
+assert.deepStrictEqual(aliases, { initech: 'Alphabet', google: 'Alphabet' });
+const merged = createCompanyResolver(emails, aliases);
+assert.deepStrictEqual(
+  filterEmailsByCompany(emails, 'alphabet', undefined, merged).map((doc) => doc.id),
+  ['m1', 'm2', 'm3', 'm4', 'm6']
+);
+assert.deepStrictEqual(
+  filterEmailsByCompany(emails, 'Initech', undefined, merged).map((doc) => doc.id),
+  ['m1', 'm2', 'm3', 'm4', 'm6']
+);
+assert.strictEqual(buildRollups(owner, emails, '2024-05-02', merged).companies.length, 2);
+
+// Splitting a name back out removes its alias.
+aliases = removeAlias(aliases, 'INITECH');
+assert.deepStrictEqual(aliases, { google: 'Alphabet' });
+assert.strictEqual(createCompanyResolver(emails, aliases).resolve(emails[5])?.name, 'Initech');
+
+console.log('companyNames tests passed');
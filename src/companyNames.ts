@@ -0,0 +1,268 @@
+import { companySlug } from './applications';
+import { isJobStatus } from './classificationStatuses';
+import type { Repositories } from './repositories';
+import type { CompanyAliases, GmailEmailDoc } from './types';
+
+// Trailing legal forms that never distinguish two employers ("Google LLC" is "Google").
+const LEGAL_SUFFIXES = [
+  'incorporated',
+  'inc',
+  'llc',
+  'llp',
+  'lp',
+  'ltd',
+  'limited',
+  'private limited',
+  'pvt',
+  'pty',
+  'corporation',
+  'corp',
+  'co',
+  'gmbh',
+  'ag',
+  'plc',
+  'sa',
+  'bv',
+  'nv',
+];
+
+// Applicant tracking systems and job boards send on behalf of many employers; their domain and
+// brand name say nothing about which company an email is from.
+const ATS_DOMAINS: Record<string, string> = {
+  'greenhouse.io': 'greenhouse',
+  'greenhouse-mail.io': 'greenhouse',
+  'lever.co': 'lever',
+  'hire.lever.co': 'lever',
+  'myworkdayjobs.com': 'workday',
+  'myworkday.com': 'workday',
+  'workday.com': 'workday',
+  'ashbyhq.com': 'ashby',
+  'smartrecruiters.com': 'smartrecruiters',
+  'icims.com': 'icims',
+  'jobvite.com': 'jobvite',
+  'taleo.net': 'taleo',
+  'successfactors.com': 'successfactors',
+  'bamboohr.com': 'bamboohr',
+  'workable.com': 'workable',
+  'linkedin.com': 'linkedin',
+  'indeed.com': 'indeed',
+};
+
+const SECOND_LEVEL_LABELS = ['co', 'com', 'org', 'net', 'ac', 'gov', 'edu'];
+
+const WEBMAIL_DOMAINS = ['gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'yahoo.com'];
+
+// Words a sender display name adds around the company ("Acme Talent", "Careers at Initech").
+const SENDER_NOISE =
+  /\b(?:talent(?: acquisition)?|recruit(?:ing|ment)|careers?|hiring|jobs|team|hr|people|at|via)\b/gi;
+
+export interface ResolvedCompany {
+  name: string;
+  slug: string;
+}
+
+export interface CompanyResolver {
+  // The company an email's classification belongs to, or null when it names none.
+  resolve(email: GmailEmailDoc): ResolvedCompany | null;
+  // The canonical company for a name typed or linked in the app.
+  canonical(name: string): ResolvedCompany;
+}
+
+function stripLegalSuffixes(name: string): string {
+  const words = name.split(/\s+/).filter(Boolean);
+  const bare = (word: string) => word.toLowerCase().replace(/[.,]/g, '');
+  for (;;) {
+    const suffix = LEGAL_SUFFIXES.find((candidate) => {
+      const parts = candidate.split(' ');
+      return (
+        words.length > parts.length &&
+        parts.every((part, i) => bare(words[words.length - parts.length + i]) === part)
+      );
+    });
+    if (!suffix) break;
+    words.splice(words.length - suffix.split(' ').length);
+  }
+  return words.join(' ').replace(/[\s,]+$/, '');
+}
+
+/** Display form of a company name: whitespace collapsed and legal suffixes dropped. */
+export function cleanCompanyName(name: string): string {
+  return stripLegalSuffixes((name || '').replace(/\s+/g, ' ').trim());
+}
+
+/** Comparison key: case, punctuation and legal suffixes ignored. */
+export function companyKey(name: string): string {
+  return cleanCompanyName(name)
+    .toLowerCase()
+    .replace(/[^a-z0-9&+]+/g, ' ')
+    .trim();
+}
+
+export function senderDomain(from: string): string {
+  const match = /<([^>]+)>/.exec(from || '');
+  const address = (match ? match[1] : from || '').trim().toLowerCase();
+  return address.includes('@') ? address.split('@').pop()! : '';
+}
+
+function atsName(domain: string): string | undefined {
+  const entry = Object.entries(ATS_DOMAINS).find(
+    ([ats]) => domain === ats || domain.endsWith(`.${ats}`)
+  );
+  return entry?.[1];
+}
+
+/** True for ATS and job-board senders that mail on behalf of many companies. */
+export function isAtsDomain(domain: string): boolean {
+  return Boolean(atsName(domain));
+}
+
+/** ATS, job-board and webmail senders, whose address says nothing about one employer. */
+export function isSharedSenderDomain(domain: string): boolean {
+  return isAtsDomain(domain) || WEBMAIL_DOMAINS.includes(domain);
+}
+
+function isAtsBrand(key: string): boolean {
+  return Object.values(ATS_DOMAINS).includes(key.replace(/\s+/g, ''));
+}
+
+// "globex.com" → "Globex", "mail.initech.co.uk" → "Initech".
+function domainCompany(domain: string): string {
+  const labels = domain.split('.').filter(Boolean);
+  labels.pop();
+  if (labels.length > 1 && SECOND_LEVEL_LABELS.includes(labels[labels.length - 1])) labels.pop();
+  const label = labels[labels.length - 1] || '';
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : '';
+}
+
+/** The company in a sender name such as "Acme Talent" or "Careers at Initech", if any. */
+export function senderDisplayCompany(from: string): string {
+  const display = /^\s*"?([^"<]*?)"?\s*</.exec(from || '')?.[1] || '';
+  if (/no-?reply|notifications?/i.test(display)) return '';
+  return display.replace(SENDER_NOISE, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Fill in a company the model left empty or gave as the ATS brand ("Greenhouse").
+function fallbackCompany(email: GmailEmailDoc): string {
+  const domain = senderDomain(email.from);
+  if (!domain || WEBMAIL_DOMAINS.includes(domain)) return '';
+  return atsName(domain) ? senderDisplayCompany(email.from) : domainCompany(domain);
+}
+
+// "Alphabet (Google)" gives two candidates; plain names give one.
+function nameCandidates(name: string): string[] {
+  const match = /^(.*?)\s*\(([^)]+)\)\s*$/.exec(name.trim());
+  return match ? [match[1], match[2]].filter((part) => part.trim()) : [name];
+}
+
+function companyNameFor(email: GmailEmailDoc): string {
+  const classification = email.classification;
+  if (!classification?.is_job_related || !isJobStatus(classification.status)) return '';
+  const name = typeof classification.company_name === 'string' ? classification.company_name : '';
+  const key = companyKey(name);
+  return key && !isAtsBrand(key) ? name.trim() : fallbackCompany(email);
+}
+
+/**
+ * Build a resolver over an owner's emails. Names are grouped by their key after legal-suffix
+ * stripping, user aliases map one key onto another company, and "Parent (Brand)" names join
+ * whichever part the owner already has a company for (or the sender's domain names).
+ * Each group is shown under the first name it was seen with.
+ */
+export function createCompanyResolver(
+  emails: GmailEmailDoc[],
+  aliases: CompanyAliases = {}
+): CompanyResolver {
+  const ordered = [...emails].sort((a, b) => (a.internalDate || 0) - (b.internalDate || 0));
+  const known = new Set<string>();
+  for (const email of ordered) {
+    const name = companyNameFor(email);
+    if (name && nameCandidates(name).length === 1) known.add(companyKey(name));
+  }
+  const aliasTargets = new Map(
+    Object.entries(aliases).map(([alias, target]) => [companyKey(alias), cleanCompanyName(target)])
+  );
+
+  const pick = (name: string, domain = ''): string => {
+    const candidates = nameCandidates(name);
+    const domainKey = companyKey(domainCompany(domain));
+    const chosen =
+      candidates.find((candidate) => aliasTargets.has(companyKey(candidate))) ||
+      candidates.find((candidate) => known.has(companyKey(candidate))) ||
+      candidates.find((candidate) => domainKey && companyKey(candidate) === domainKey) ||
+      candidates[0];
+    return aliasTargets.get(companyKey(chosen)) || cleanCompanyName(chosen);
+  };
+
+  const displayNames = new Map<string, string>();
+  for (const target of aliasTargets.values()) displayNames.set(companyKey(target), target);
+  for (const email of ordered) {
+    const name = companyNameFor(email);
+    if (!name) continue;
+    const chosen = pick(name, senderDomain(email.from));
+    const key = companyKey(chosen);
+    if (key && !displayNames.has(key)) displayNames.set(key, chosen);
+  }
+
+  const toResolved = (chosen: string): ResolvedCompany => {
+    const name = displayNames.get(companyKey(chosen)) || chosen;
+    return { name, slug: companySlug(name) };
+  };
+
+  return {
+    resolve(email) {
+      const name = companyNameFor(email);
+      if (!name) return null;
+      const chosen = pick(name, senderDomain(email.from));
+      return companyKey(chosen) ? toResolved(chosen) : null;
+    },
+    canonical(name) {
+      return toResolved(pick(name || ''));
+    },
+  };
+}
+
+/** Point every name in `companies` (and aliases that led to them) at `into`. */
+export function mergeAliases(
+  aliases: CompanyAliases,
+  companies: string[],
+  into: string
+): CompanyAliases {
+  const target = cleanCompanyName(into);
+  const targetKey = companyKey(target);
+  const merged = new Set(companies.map(companyKey).filter((key) => key && key !== targetKey));
+  const next: CompanyAliases = {};
+  for (const [alias, current] of Object.entries(aliases)) {
+    if (alias === targetKey) continue;
+    next[alias] = merged.has(companyKey(current)) ? target : current;
+  }
+  for (const key of merged) next[key] = target;
+  return next;
+}
+
+/** Drop the alias for a name so it shows as its own company again. */
+export function removeAlias(aliases: CompanyAliases, name: string): CompanyAliases {
+  const key = companyKey(name);
+  return Object.fromEntries(Object.entries(aliases).filter(([alias]) => alias !== key));
+}
+
+export async function loadCompanyAliases(
+  repos: Repositories,
+  ownerEmail: string
+): Promise<CompanyAliases> {
+  return (await repos.profiles.get(ownerEmail))?.companyAliases || {};
+}
+
+export async function saveCompanyAliases(
+  repos: Repositories,
+  ownerEmail: string,
+  ownerName: string,
+  aliases: CompanyAliases
+): Promise<CompanyAliases> {
+  const profile = (await repos.profiles.get(ownerEmail)) || {
+    id: ownerEmail,
+    email: ownerEmail,
+    name: ownerName,
+  };
+  await repos.profiles.upsert({ ...profile, companyAliases: aliases });
+  return aliases;
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert';
+import { createKeyedQueue, createLimiter, runPool } from './concurrency';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  // maxConcurrency caps requests in flight.
+  {
+    const limiter = createLimiter({ maxConcurrency: 2 });
+    let active = 0;
+    let peak = 0;
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((n) =>
+        limiter.run(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await sleep(5);
+          active--;
+          return n * 10;
+        })
+      )
+    );
+    assert.deepStrictEqual(results, [10, 20, 30, 40, 50]);
+    assert.strictEqual(peak, 2);
+  }
+
+  // rpm: the third request in a window waits for the oldest one to age out.
+  {
+    const limiter = createLimiter({ rpm: 2 }, { windowMs: 60 });
+    const started: number[] = [];
+    const t0 = Date.now();
+    await Promise.all(
+      [0, 1, 2].map(() => limiter.run(async () => started.push(Date.now() - t0)))
+    );
+    assert.ok(started[1] < 30);
+    assert.ok(started[2] >= 55, `third request started after ${started[2]}ms`);
+  }
+
+  // tpm uses the actual token count once it is known.
+  {
+    const limiter = createLimiter({ tpm: 100 }, { windowMs: 60 });
+    const t0 = Date.now();
+    await limiter.run(async () => 'big', { tokens: 90, usedTokens: () => 20 });
+    await limiter.run(async () => 'fits', { tokens: 70 });
+    assert.ok(Date.now() - t0 < 30);
+    await limiter.run(async () => 'waits', { tokens: 20 });
+    assert.ok(Date.now() - t0 >= 55);
+  }
+
+  // Errors reach the caller and free the slot.
+  {
+    const limiter = createLimiter({ maxConcurrency: 1 });
+    await assert.rejects(
+      limiter.run(async () => {
+        throw new Error('boom');
+      }),
+      /boom/
+    );
+    assert.strictEqual(await limiter.run(async () => 'ok'), 'ok');
+  }
+
+  // runPool: later items may finish first, but `completed` only counts the finished prefix.
+  {
+    const finished: number[] = [];
+    const delays = [30, 5, 5, 5];
+    let checks = 0;
+    const result = await runPool(
+      delays,
+      2,
+      async (delay, index) => {
+        await sleep(delay);
+        finished.push(index);
+      },
+      async () => ++checks > 3
+    );
+    assert.deepStrictEqual(finished, [1, 2, 0]);
+    assert.deepStrictEqual(result, { completed: 3, stopped: true });
+
+    const partial = await runPool([0, 1, 2, 3], 4, async (n) => {
+      if (n === 0) await sleep(20);
+    });
+    assert.deepStrictEqual(partial, { completed: 4, stopped: false });
+
+    let ran = 0;
+    await assert.rejects(
+      runPool([0, 1, 2, 3, 4], 1, async (n) => {
+        ran++;
+        if (n === 1) throw new Error('bad message');
+      }),
+      /bad message/
+    );
+    assert.strictEqual(ran, 2);
+  }
+
+  // Keyed queue: same key runs serially, even after a failure.
+  {
+    const runExclusive = createKeyedQueue();
+    const order: string[] = [];
+    await Promise.all([
+      runExclusive('a', async () => {
+        await sleep(10);
+        order.push('a1');
+      }),
+      runExclusive('a', async () => {
+        order.push('a2');
+        throw new Error('a2 failed');
+      }).catch(() => order.push('a2 caught')),
+      runExclusive('a', async () => order.push('a3')),
+      runExclusive('b', async () => order.push('b1')),
+    ]);
+    assert.deepStrictEqual(order, ['b1', 'a1', 'a2', 'a2 caught', 'a3']);
+  }
+
+  console.log('concurrency tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,168 @@
+export interface RateLimits {
+  // Requests in flight at once.
+  maxConcurrency?: number;
+  // Requests and (estimated) tokens started per window, normally a minute.
+  rpm?: number;
+  tpm?: number;
+}
+
+export interface LimiterRunOptions<T> {
+  // Token estimate reserved against `tpm` when the request starts.
+  tokens?: number;
+  // Actual token count once the request finishes (e.g. from the response `usage`).
+  usedTokens?: (result: T) => number | undefined;
+}
+
+export interface Limiter {
+  run<T>(operation: () => Promise<T>, options?: LimiterRunOptions<T>): Promise<T>;
+}
+
+interface Waiter {
+  tokens: number;
+  start: () => void;
+}
+
+/**
+ * A FIFO limiter that caps requests in flight and keeps a sliding window of recent requests so
+ * RPM/TPM ceilings are respected before a provider has to answer 429.
+ */
+export function createLimiter(limits: RateLimits, options: { windowMs?: number } = {}): Limiter {
+  const windowMs = options.windowMs ?? 60_000;
+  const maxConcurrency = Math.max(1, limits.maxConcurrency ?? Infinity);
+  const queue: Waiter[] = [];
+  const recent: Array<{ at: number; tokens: number }> = [];
+  let active = 0;
+  let timer: NodeJS.Timeout | null = null;
+
+  // Milliseconds until a request with this many tokens may start (0 = now).
+  const waitFor = (tokens: number, now: number): number => {
+    while (recent.length && recent[0].at <= now - windowMs) recent.shift();
+    if (!recent.length) return 0;
+    const untilOldestExpires = recent[0].at + windowMs - now;
+    if (limits.rpm && recent.length >= limits.rpm) return untilOldestExpires;
+    if (limits.tpm) {
+      const used = recent.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (used + tokens > limits.tpm) return untilOldestExpires;
+    }
+    return 0;
+  };
+
+  const pump = () => {
+    while (queue.length && active < maxConcurrency) {
+      const now = Date.now();
+      const wait = waitFor(queue[0].tokens, now);
+      if (wait > 0) {
+        if (!timer) {
+          timer = setTimeout(() => {
+            timer = null;
+            pump();
+          }, wait);
+        }
+        return;
+      }
+      const waiter = queue.shift()!;
+      active++;
+      waiter.start();
+    }
+  };
+
+  return {
+    run<T>(operation: () => Promise<T>, runOptions: LimiterRunOptions<T> = {}): Promise<T> {
+      const tokens = runOptions.tokens ?? 0;
+      return new Promise<T>((resolve, reject) => {
+        queue.push({
+          tokens,
+          start: () => {
+            const entry = { at: Date.now(), tokens };
+            recent.push(entry);
+            operation()
+              .then((result) => {
+                const used = runOptions.usedTokens?.(result);
+                if (typeof used === 'number' && used >= 0) entry.tokens = used;
+                resolve(result);
+              }, reject)
+              .finally(() => {
+                active--;
+                pump();
+              });
+          },
+        });
+        pump();
+      });
+    },
+  };
+}
+
+const sharedLimiters = new Map<string, Limiter>();
+
+/** One limiter per key for the life of the process, so every caller of a model shares its limits. */
+export function sharedLimiter(key: string, limits: RateLimits): Limiter {
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = createLimiter(limits);
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/** Run async operations one at a time per key (e.g. per owner); different keys run in parallel. */
+export function createKeyedQueue() {
+  const tails = new Map<string, Promise<unknown>>();
+  return function runExclusive<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const previous = tails.get(key) || Promise.resolve();
+    const result = previous.then(operation, operation);
+    const tail = result.catch(() => undefined);
+    tails.set(key, tail);
+    tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+    return result;
+  };
+}
+
+/**
+ * Process items with at most `concurrency` workers, starting them in order. `shouldStop` is checked
+ * before each item starts. The first error stops new work and is rethrown once in-flight items
+ * settle. `completed` is the length of the finished prefix: every item before it is done, so a
+ * cursor can safely advance to it even though later items may finish first.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop?: () => Promise<boolean>
+): Promise<{ completed: number; stopped: boolean }> {
+  const done = new Array<boolean>(items.length).fill(false);
+  let next = 0;
+  let stopped = false;
+  let failed = false;
+  let failure: unknown;
+
+  const lane = async () => {
+    for (;;) {
+      if (failed || stopped || next >= items.length) return;
+      if (shouldStop && (await shouldStop())) {
+        stopped = true;
+        return;
+      }
+      if (failed || stopped || next >= items.length) return;
+      const index = next++;
+      try {
+        await worker(items[index], index);
+        done[index] = true;
+      } catch (err) {
+        if (!failed) {
+          failed = true;
+          failure = err;
+        }
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  if (failed) throw failure;
+  let completed = 0;
+  while (completed < items.length && done[completed]) completed++;
+  return { completed, stopped };
+}
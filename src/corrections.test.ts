@@ -0,0 +1,143 @@
+import assert from 'node:assert';
+import {
+  applySenderRules,
+  buildFeedback,
+  clearOverride,
+  parseCorrection,
+  setOverride,
+} from './corrections';
+import { classifyEmail } from './emailClassifier';
+import { setClassification } from './gmailIngest';
+import { loadStageProviders } from './llmProviders';
+import { buildRollups } from './rollups';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails, type EmailFixture } from './testing/fixtures';
+import type { GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+
+function classifiedEmail(fixture: EmailFixture, overrides: Partial<GmailEmailDoc> = {}) {
+  const { message } = fixture;
+  const doc: GmailEmailDoc = {
+    id: message.id,
+    threadId: message.threadId,
+    owner,
+    from: message.from,
+    to: owner,
+    subject: message.subject,
+    date: '2024-03-01',
+    snippet: '',
+    body: message.body,
+    labelIds: ['INBOX'],
+    fetchedAt: '2024-03-01T12:00:00.000Z',
+    internalDate: Date.parse('2024-03-01T12:00:00Z'),
+    ...overrides,
+  };
+  setClassification(doc, { ...fixture.classification!, taxonomy_version: 2 });
+  return doc;
+}
+
+async function main() {
+  assert.deepStrictEqual(parseCorrection({ status: 'rejected', company_name: ' Initech ' }), {
+    status: 'rejected',
+    company_name: 'Initech',
+  });
+  assert.throws(() => parseCorrection({ status: 'ghosted' }), /Unknown status/);
+  assert.throws(() => parseCorrection({ company_name: '  ' }), /must not be empty/);
+  assert.throws(() => parseCorrection({}), /Provide a status/);
+
+  // A rejection the model called comment_only, from the wrong company.
+  const rejection = classifiedEmail(recruiterEmails.initechRejection);
+  rejection.classification = {
+    ...rejection.classification!,
+    status: 'comment_only',
+    company_name: 'Initech Talent',
+  };
+  setOverride(
+    rejection,
+    { status: 'rejected', company_name: 'Initech' },
+    new Date('2024-03-02T00:00:00Z')
+  );
+  assert.strictEqual(rejection.classification?.status, 'rejected');
+  assert.strictEqual(rejection.classification?.company_name, 'Initech');
+  assert.deepStrictEqual(rejection.classificationOverride?.original, {
+    status: 'comment_only',
+    company_name: 'Initech Talent',
+    summary: 'Initech rejected the SRE application.',
+  });
+
+  // Rollups count the corrected values.
+  const rollups = buildRollups(owner, [rejection], '2024-03-10');
+  assert.deepStrictEqual(
+    rollups.companies.map((company) => [company.company_name, company.rejected]),
+    [['Initech', 1]]
+  );
+
+  // Reclassifying keeps the correction on top and refreshes what the model said underneath.
+  setClassification(rejection, {
+    ...recruiterEmails.initechRejection.classification!,
+    status: 'on_hold',
+    summary: 'Role paused.',
+  });
+  assert.strictEqual(rejection.classification?.status, 'rejected');
+  assert.strictEqual(rejection.classification?.summary, 'Role paused.');
+  assert.strictEqual(rejection.classificationOverride?.original.status, 'on_hold');
+
+  // Undo restores the model's latest answer.
+  clearOverride(rejection);
+  assert.strictEqual(rejection.classificationOverride, undefined);
+  assert.strictEqual(rejection.classification?.status, 'on_hold');
+  assert.strictEqual(rejection.classification?.company_name, 'Initech');
+
+  // Marking an email as not job related takes it out of the rollups.
+  const outreach = classifiedEmail(recruiterEmails.globexOutreach);
+  setOverride(outreach, { status: 'not_job_related' });
+  assert.strictEqual(outreach.classification?.is_job_related, false);
+  assert.strictEqual(buildRollups(owner, [outreach]).companies.length, 0);
+
+  // Feedback: corrections become examples; company fixes on a company's own domain become
+  // sender rules, while shared ATS senders do not.
+  const acme = classifiedEmail(recruiterEmails.acmeApplied);
+  setOverride(acme, { company_name: 'Acme Corp' }, new Date('2024-03-03T00:00:00Z'));
+  const globex = classifiedEmail(recruiterEmails.globexNextSteps);
+  setOverride(globex, { company_name: 'Globex Corporation' }, new Date('2024-03-04T00:00:00Z'));
+  const feedback = buildFeedback([acme, globex, classifiedEmail(recruiterEmails.hooliAssessment)]);
+  assert.deepStrictEqual(
+    feedback.examples.map((example) => example.emailId),
+    ['globex-next-steps', 'acme-applied']
+  );
+  assert.deepStrictEqual(Array.from(feedback.senderCompanies), [
+    ['priya@globex.com', 'Globex Corporation'],
+  ]);
+  const fresh = classifiedEmail(recruiterEmails.globexOutreach);
+  assert.strictEqual(
+    applySenderRules(fresh, fresh.classification!, feedback).company_name,
+    'Globex Corporation'
+  );
+
+  // The classify prompt carries the examples (minus the email itself) and applies sender rules.
+  const chat = await startFakeChatServer(fixtureResponder());
+  try {
+    const providers = loadStageProviders({
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: chat.url,
+    });
+    const result = await classifyEmail(providers.classify, globex, feedback);
+    assert.strictEqual(result?.company_name, 'Globex Corporation');
+    const prompt = chat.requests[0].system;
+    assert.ok(prompt.includes('This user corrected earlier results'));
+    assert.ok(prompt.includes('"company_name":"Acme Corp"'));
+    assert.ok(!prompt.includes('Globex Corporation'));
+
+    await classifyEmail(providers.classify, fresh);
+    assert.ok(!chat.requests[1].system.includes('corrected earlier results'));
+  } finally {
+    await chat.close();
+  }
+  console.log('corrections tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,193 @@
+import { isJobStatus, JOB_STATUSES } from './classificationStatuses';
+import { isSharedSenderDomain } from './companyNames';
+import type {
+  ClassificationOverride,
+  ClassificationResult,
+  ClassificationStatus,
+  CorrectableFields,
+  GmailEmailDoc,
+} from './types';
+
+const STATUSES: ClassificationStatus[] = [...JOB_STATUSES, 'not_job_related'];
+
+// Few-shot examples added to the classify prompt, newest corrections first.
+const MAX_EXAMPLES = 5;
+
+export interface CorrectionExample {
+  emailId: string;
+  subject: string;
+  from: string;
+  excerpt: string;
+  corrected: CorrectableFields;
+}
+
+/** What a user's past corrections teach the classifier about their future emails. */
+export interface ClassifierFeedback {
+  examples: CorrectionExample[];
+  // Sender address → company the user said its emails belong to.
+  senderCompanies: Map<string, string>;
+}
+
+function correctionError(message: string): Error {
+  const err: any = new Error(message);
+  err.code = 'INVALID_CORRECTION';
+  return err;
+}
+
+/** Validate a PATCH body; at least one of status, company_name or summary must be given. */
+export function parseCorrection(body: any): Partial<CorrectableFields> {
+  const correction: Partial<CorrectableFields> = {};
+  if (body?.status !== undefined) {
+    if (!STATUSES.includes(body.status)) {
+      throw correctionError(`Unknown status: ${body.status}`);
+    }
+    correction.status = body.status;
+  }
+  if (body?.company_name !== undefined) {
+    const company = typeof body.company_name === 'string' ? body.company_name.trim() : '';
+    if (!company) throw correctionError('Company name must not be empty');
+    correction.company_name = company;
+  }
+  if (body?.summary !== undefined) {
+    if (typeof body.summary !== 'string') throw correctionError('Summary must be a string');
+    correction.summary = body.summary.trim();
+  }
+  if (!Object.keys(correction).length) {
+    throw correctionError('Provide a status, company_name or summary to correct');
+  }
+  return correction;
+}
+
+function correctableFields(classification: ClassificationResult): CorrectableFields {
+  return {
+    status: classification.status,
+    company_name: classification.company_name || '',
+    summary: classification.summary || '',
+  };
+}
+
+/** The classification with the user's corrections laid over it. */
+export function applyOverride(
+  classification: ClassificationResult,
+  override?: ClassificationOverride
+): ClassificationResult {
+  if (!override) return classification;
+  const next: ClassificationResult = { ...classification };
+  if (override.status) {
+    next.status = override.status;
+    next.is_job_related = isJobStatus(override.status);
+  }
+  if (override.company_name) next.company_name = override.company_name;
+  if (override.summary !== undefined) next.summary = override.summary;
+  return next;
+}
+
+/**
+ * Record a user correction on a classified email. The classifier's own values are kept on the
+ * override so removing it restores them, and later reclassification updates them underneath.
+ */
+export function setOverride(
+  email: GmailEmailDoc,
+  correction: Partial<CorrectableFields>,
+  now = new Date()
+): GmailEmailDoc {
+  if (!email.classification) {
+    throw correctionError('Only classified emails can be corrected');
+  }
+  const previous = email.classificationOverride;
+  const original = previous?.original || correctableFields(email.classification);
+  const override: ClassificationOverride = {
+    ...previous,
+    ...correction,
+    original,
+    updatedAt: now.toISOString(),
+  };
+  email.classificationOverride = override;
+  email.classification = applyOverride({ ...email.classification, ...original }, override);
+  return email;
+}
+
+/** Drop a user correction and go back to what the classifier said. */
+export function clearOverride(email: GmailEmailDoc): GmailEmailDoc {
+  const override = email.classificationOverride;
+  if (!override) return email;
+  if (email.classification) {
+    const { original } = override;
+    email.classification = {
+      ...email.classification,
+      ...original,
+      is_job_related: original.status !== 'not_job_related',
+    };
+  }
+  delete email.classificationOverride;
+  return email;
+}
+
+/** Keep a fresh classifier result underneath an existing correction. */
+export function withOverride(
+  classification: ClassificationResult,
+  override?: ClassificationOverride
+): ClassificationResult {
+  if (!override) return classification;
+  override.original = correctableFields(classification);
+  return applyOverride(classification, override);
+}
+
+export function senderAddress(from: string): string {
+  const match = /<([^>]+)>/.exec(from || '');
+  return (match ? match[1] : from || '').trim().toLowerCase();
+}
+
+/** Collect few-shot examples and sender rules from an owner's corrected emails. */
+export function buildFeedback(emails: GmailEmailDoc[]): ClassifierFeedback {
+  const corrected = emails
+    .filter((email) => email.classificationOverride && email.classification)
+    .sort((a, b) =>
+      b.classificationOverride!.updatedAt.localeCompare(a.classificationOverride!.updatedAt)
+    );
+  const examples = corrected.slice(0, MAX_EXAMPLES).map((email) => ({
+    emailId: email.id,
+    subject: email.subject || '',
+    from: email.from || '',
+    excerpt: (email.body || email.snippet || '').replace(/\s+/g, ' ').trim().slice(0, 400),
+    corrected: correctableFields(email.classification!),
+  }));
+  const senderCompanies = new Map<string, string>();
+  // Oldest first, so the newest correction for a sender wins.
+  for (const email of [...corrected].reverse()) {
+    const company = email.classificationOverride!.company_name;
+    const address = senderAddress(email.from);
+    if (company && address.includes('@') && !isSharedSenderDomain(address.split('@')[1])) {
+      senderCompanies.set(address, company);
+    }
+  }
+  return { examples, senderCompanies };
+}
+
+/** Apply the owner's sender rules to a fresh classification of a job-related email. */
+export function applySenderRules(
+  email: GmailEmailDoc,
+  classification: ClassificationResult,
+  feedback?: ClassifierFeedback
+): ClassificationResult {
+  const company = feedback?.senderCompanies.get(senderAddress(email.from));
+  if (!company || !classification.is_job_related || classification.company_name === company) {
+    return classification;
+  }
+  return { ...classification, company_name: company };
+}
+
+/** Prompt section listing the owner's corrections, skipping the email being classified. */
+export function feedbackPrompt(feedback: ClassifierFeedback | undefined, emailId: string): string {
+  const examples = (feedback?.examples || []).filter((example) => example.emailId !== emailId);
+  if (!examples.length) return '';
+  const lines = examples.map(
+    (example) =>
+      `- Subject: ${example.subject}\n  From: ${example.from}\n  Excerpt: ${
+        example.excerpt
+      }\n  Correct answer: ${JSON.stringify(example.corrected)}`
+  );
+  return `\n\nThis user corrected earlier results. Follow these for similar emails:\n${lines.join(
+    '\n'
+  )}`;
+}
@@ -0,0 +1,297 @@
+import { CosmosClient, type Container } from '@azure/cosmos';
+import type { JobSort, Repositories } from './repositories';
+import type {
+  ApplicationDoc,
+  FailedMessageDoc,
+  GmailEmailDoc,
+  JobDoc,
+  ProfileDoc,
+  UsageRecordDoc,
+} from './types';
+
+function requireEnv(name: string, value: string | undefined | null): string {
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+async function initContainer(
+  client: CosmosClient,
+  databaseId: string,
+  containerId: string,
+  partitionKey: string
+): Promise<Container> {
+  const { database } = await client.databases.createIfNotExists({ id: databaseId });
+  const { container } = await database.containers.createIfNotExists({
+    id: containerId,
+    partitionKey,
+  });
+  return container;
+}
+
+async function logGmailDiagnostics(
+  gmailContainer: Container,
+  ownerEmail: string,
+  companyName: string
+): Promise<void> {
+  const diagnostics: Array<{ label: string; query: string; parameters?: any[] }> = [
+    {
+      label: 'Non-string owner',
+      query: 'SELECT TOP 3 c.id, c.owner FROM c WHERE NOT IS_STRING(c.owner)',
+    },
+    {
+      label: 'Non-string company classification',
+      query:
+        'SELECT TOP 3 c.id, c.classification FROM c WHERE c.owner = @owner AND (NOT IS_DEFINED(c.classification) OR NOT IS_OBJECT(c.classification) OR NOT IS_DEFINED(c.classification.company_name) OR NOT IS_STRING(c.classification.company_name))',
+      parameters: [{ name: '@owner', value: ownerEmail }],
+    },
+    {
+      label: 'Missing internalDate',
+      query:
+        'SELECT TOP 3 c.id, c.internalDate FROM c WHERE c.owner = @owner AND (NOT IS_DEFINED(c.internalDate) OR NOT IS_NUMBER(c.internalDate))',
+      parameters: [{ name: '@owner', value: ownerEmail }],
+    },
+    {
+      label: 'Sample classified company',
+      query:
+        'SELECT TOP 3 c.id, c.classification FROM c WHERE c.owner = @owner AND IS_DEFINED(c.classification.company_name) AND c.classification.company_name = @company',
+      parameters: [
+        { name: '@owner', value: ownerEmail },
+        { name: '@company', value: companyName },
+      ],
+    },
+  ];
+
+  for (const diag of diagnostics) {
+    try {
+      const { resources } = await gmailContainer.items
+        .query(diag, { maxItemCount: 3 })
+        .fetchAll();
+      console.log(`[Diag:${diag.label}]`, resources);
+    } catch (err: any) {
+      console.error(`[Diag failed:${diag.label}]`, err.message || err);
+    }
+  }
+}
+
+function orderClause(sort: JobSort): string {
+  return sort === 'updated' ? 'ORDER BY c.last_updated DESC' : 'ORDER BY c.company_name ASC';
+}
+
+export async function createCosmosRepositories(env: NodeJS.ProcessEnv): Promise<Repositories> {
+  requireEnv('COSMOS_URI', env.COSMOS_URI);
+  requireEnv('COSMOS_KEY', env.COSMOS_KEY);
+  requireEnv('COSMOS_DATABASE', env.COSMOS_DATABASE);
+  requireEnv('COSMOS_CONTAINER', env.COSMOS_CONTAINER);
+
+  const client = new CosmosClient({
+    endpoint: env.COSMOS_URI!,
+    key: env.COSMOS_KEY!,
+    connectionPolicy: {
+      requestTimeout: 120000,
+    },
+  });
+  const profileContainer = await initContainer(
+    client,
+    env.COSMOS_DATABASE!,
+    env.COSMOS_CONTAINER!,
+    '/email'
+  );
+  const gmailContainer = await initContainer(
+    client,
+    env.COSMOS_GMAIL_DATABASE || 'gmaildb',
+    env.COSMOS_GMAIL_CONTAINER || 'emails',
+    '/owner'
+  );
+  const failuresContainer = await initContainer(
+    client,
+    env.COSMOS_GMAIL_DATABASE || 'gmaildb',
+    env.COSMOS_FAILURES_CONTAINER || 'failed_messages',
+    '/owner'
+  );
+  const usageContainer = await initContainer(
+    client,
+    env.COSMOS_GMAIL_DATABASE || 'gmaildb',
+    env.COSMOS_USAGE_CONTAINER || 'llm_usage',
+    '/owner'
+  );
+  const jobsContainer = await initContainer(
+    client,
+    env.COSMOS_JOBS_DATABASE || 'jobsdb',
+    env.COSMOS_JOBS_CONTAINER || 'applications',
+    '/owner'
+  );
+
+  return {
+    backend: 'cosmos',
+    emails: {
+      async get(owner, id) {
+        try {
+          const { resource } = await gmailContainer.item(id, owner).read<GmailEmailDoc>();
+          return resource || null;
+        } catch (err: any) {
+          if (err.code === 404) return null;
+          throw err;
+        }
+      },
+      async listByOwner(owner) {
+        // readAll on the partition avoids Cosmos errors from malformed docs on projection.
+        const { resources } = await gmailContainer.items
+          .readAll<GmailEmailDoc>({ partitionKey: owner })
+          .fetchAll();
+        return resources || [];
+      },
+      async listByThread(owner, threadId) {
+        const { resources } = await gmailContainer.items
+          .query<GmailEmailDoc>(
+            {
+              query: 'SELECT * FROM c WHERE c.owner = @owner AND c.threadId = @threadId',
+              parameters: [
+                { name: '@owner', value: owner },
+                { name: '@threadId', value: threadId },
+              ],
+            },
+            { partitionKey: owner }
+          )
+          .fetchAll();
+        return resources || [];
+      },
+      async upsert(doc) {
+        const { resource } = await gmailContainer.items.upsert<GmailEmailDoc>(doc);
+        return (resource as GmailEmailDoc | undefined) || doc;
+      },
+      diagnose: (owner, companyName) => logGmailDiagnostics(gmailContainer, owner, companyName),
+    },
+    jobs: {
+      async listCompanies(owner, sort) {
+        const { resources } = await jobsContainer.items
+          .query<JobDoc>({
+            query: `SELECT * FROM c WHERE c.owner = @owner AND (NOT IS_DEFINED(c.docType) OR c.docType = 'company') ${orderClause(sort)}`,
+            parameters: [{ name: '@owner', value: owner }],
+          })
+          .fetchAll();
+        return resources || [];
+      },
+      async listApplications(owner, sort) {
+        const { resources } = await jobsContainer.items
+          .query<ApplicationDoc>({
+            query: `SELECT * FROM c WHERE c.owner = @owner AND c.docType = 'application' ${orderClause(sort)}`,
+            parameters: [{ name: '@owner', value: owner }],
+          })
+          .fetchAll();
+        return resources || [];
+      },
+      async listApplicationsForCompany(owner, companySlug) {
+        const { resources } = await jobsContainer.items
+          .query<ApplicationDoc>({
+            query:
+              "SELECT * FROM c WHERE c.owner = @owner AND c.docType = 'application' AND c.company_slug = @company ORDER BY c.last_updated DESC",
+            parameters: [
+              { name: '@owner', value: owner },
+              { name: '@company', value: companySlug },
+            ],
+          })
+          .fetchAll();
+        return resources || [];
+      },
+      async listIds(owner, companySlug) {
+        const spec = companySlug
+          ? {
+              query:
+                "SELECT c.id FROM c WHERE c.owner = @owner AND (c.id = @companyId OR (c.docType = 'application' AND c.company_slug = @company))",
+              parameters: [
+                { name: '@owner', value: owner },
+                { name: '@companyId', value: `${owner}::${companySlug}` },
+                { name: '@company', value: companySlug },
+              ],
+            }
+          : {
+              query: 'SELECT c.id FROM c WHERE c.owner = @owner',
+              parameters: [{ name: '@owner', value: owner }],
+            };
+        const { resources } = await jobsContainer.items
+          .query<{ id: string }>(spec, { partitionKey: owner })
+          .fetchAll();
+        return (resources || []).map((doc) => doc.id);
+      },
+      async upsert(doc) {
+        await jobsContainer.items.upsert(doc);
+      },
+      async delete(owner, id) {
+        await jobsContainer.item(id, owner).delete();
+      },
+    },
+    profiles: {
+      async get(email) {
+        try {
+          const { resource } = await profileContainer.item(email, email).read<ProfileDoc>();
+          return resource || null;
+        } catch (err: any) {
+          if (err.code === 404) return null;
+          throw err;
+        }
+      },
+      async upsert(profile) {
+        const { resource } = await profileContainer.items.upsert<ProfileDoc>(profile);
+        return (resource as ProfileDoc | undefined) || profile;
+      },
+    },
+    failures: {
+      async get(owner, id) {
+        try {
+          const { resource } = await failuresContainer.item(id, owner).read<FailedMessageDoc>();
+          return resource || null;
+        } catch (err: any) {
+          if (err.code === 404) return null;
+          throw err;
+        }
+      },
+      async listByOwner(owner) {
+        const { resources } = await failuresContainer.items
+          .readAll<FailedMessageDoc>({ partitionKey: owner })
+          .fetchAll();
+        return resources || [];
+      },
+      async upsert(doc) {
+        await failuresContainer.items.upsert(doc);
+      },
+      async delete(owner, id) {
+        try {
+          await failuresContainer.item(id, owner).delete();
+        } catch (err: any) {
+          if (err.code !== 404) throw err;
+        }
+      },
+    },
+    usage: {
+      async record(doc) {
+        await usageContainer.items.create(doc);
+      },
+      async listByOwner(owner, sinceDay = '') {
+        const { resources } = await usageContainer.items
+          .query<UsageRecordDoc>(
+            {
+              query: 'SELECT * FROM c WHERE c.owner = @owner AND c.day >= @since',
+              parameters: [
+                { name: '@owner', value: owner },
+                { name: '@since', value: sinceDay },
+              ],
+            },
+            { partitionKey: owner }
+          )
+          .fetchAll();
+        return resources || [];
+      },
+      async listSince(sinceDay) {
+        const { resources } = await usageContainer.items
+          .query<UsageRecordDoc>({
+            query: 'SELECT * FROM c WHERE c.day >= @since',
+            parameters: [{ name: '@since', value: sinceDay }],
+          })
+          .fetchAll();
+        return resources || [];
+      },
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { FailedMessageRepository } from './repositories';
+import type { FailedMessageDoc, FailureStage } from './types';
+
+// Automatic retries on later runs: 15 min, 1 h, 4 h, 16 h, then stop.
+export const MAX_AUTO_ATTEMPTS = 5;
+const FIRST_RETRY_MS = 15 * 60 * 1000;
+const MAX_RETRY_MS = 24 * 60 * 60 * 1000;
+
+export interface FailureDetails {
+  owner: string;
+  messageId: string;
+  stage: FailureStage;
+  error: unknown;
+  gmailAccount?: string;
+  threadId?: string;
+  subject?: string;
+  from?: string;
+  internalDate?: number;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(FIRST_RETRY_MS * Math.pow(4, Math.max(0, attempts - 1)), MAX_RETRY_MS);
+}
+
+function describeError(err: unknown): string {
+  const anyErr = err as any;
+  const message = anyErr?.message || String(err || 'Unknown error');
+  const status = anyErr?.status ?? anyErr?.code;
+  return typeof status === 'number' ? `${status}: ${message}` : message;
+}
+
+/** Record (or bump) a failure for one message and schedule its next automatic retry. */
+export async function recordFailure(
+  repo: FailedMessageRepository,
+  details: FailureDetails,
+  now = new Date()
+): Promise<FailedMessageDoc> {
+  const previous = await repo.get(details.owner, details.messageId);
+  const attempts = (previous?.attempts || 0) + 1;
+  const exhausted = attempts >= MAX_AUTO_ATTEMPTS;
+  const doc: FailedMessageDoc = {
+    id: details.messageId,
+    owner: details.owner,
+    messageId: details.messageId,
+    gmailAccount: details.gmailAccount || previous?.gmailAccount,
+    threadId: details.threadId || previous?.threadId,
+    subject: details.subject || previous?.subject,
+    from: details.from || previous?.from,
+    internalDate: details.internalDate ?? previous?.internalDate,
+    stage: details.stage,
+    error: describeError(details.error),
+    attempts,
+    status: exhausted ? 'exhausted' : 'pending',
+    nextAttemptAt: exhausted
+      ? undefined
+      : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+    firstFailedAt: previous?.firstFailedAt || now.toISOString(),
+    lastFailedAt: now.toISOString(),
+  };
+  await repo.upsert(doc);
+  console.warn(
+    `[DeadLetter] ${details.stage} failed for ${details.messageId} (attempt ${attempts}): ${doc.error}`
+  );
+  return doc;
+}
+
+/** Failures whose automatic retry is due. */
+export function dueForRetry(failures: FailedMessageDoc[], now = new Date()): FailedMessageDoc[] {
+  return failures.filter(
+    (failure) =>
+      failure.status === 'pending' &&
+      (!failure.nextAttemptAt || Date.parse(failure.nextAttemptAt) <= now.getTime())
+  );
+}
+
+/** Make a failure due on the next run, including ones whose automatic retries ran out. */
+export async function requestRetry(
+  repo: FailedMessageRepository,
+  owner: string,
+  id: string,
+  now = new Date()
+): Promise<FailedMessageDoc | null> {
+  const failure = await repo.get(owner, id);
+  if (!failure) return null;
+  const next: FailedMessageDoc = { ...failure, status: 'pending', nextAttemptAt: now.toISOString() };
+  await repo.upsert(next);
+  return next;
+}
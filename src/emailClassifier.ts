@@ -0,0 +1,141 @@
+import { attachmentsPrompt } from './attachments';
+import type { LlmProvider } from './llmProviders';
+import { TAXONOMY_VERSION } from './classificationStatuses';
+import { applySenderRules, feedbackPrompt, type ClassifierFeedback } from './corrections';
+import { chatJson, classificationSchema, gateSchema } from './llmSchemas';
+import {
+  defaultRedactionOptions,
+  redactText,
+  restorePlaceholders,
+  selectRelevantText,
+  type Redacted,
+  type RedactionOptions,
+} from './redaction';
+import { inheritFromThread, threadPrompt, type ThreadContext } from './threads';
+import type { ClassificationResult, GmailEmailDoc } from './types';
+
+// Bump whenever the classify prompt changes so stored results can be found and re-run.
+export const CLASSIFY_PROMPT_VERSION = 4;
+// Bump whenever the gate prompt changes so cached gate answers are not reused.
+export const GATE_PROMPT_VERSION = 1;
+
+function emailContent(emailDoc: GmailEmailDoc): string {
+  return `Subject: ${emailDoc.subject || '(no subject)'}\nFrom: ${
+    emailDoc.from || 'unknown'
+  }\nDate: ${emailDoc.date || 'unknown'}\n\nBody:\n${emailDoc.body || emailDoc.snippet || ''}`;
+}
+
+// What the model sees of an email: long bodies cut to their most relevant paragraphs, then
+// personal data swapped for placeholders that are restored in the model's answer.
+function llmContent(
+  emailDoc: GmailEmailDoc,
+  redaction: RedactionOptions,
+  thread?: ThreadContext
+): Redacted {
+  const body = selectRelevantText(
+    (emailDoc.body || emailDoc.snippet || '') + attachmentsPrompt(emailDoc.attachments),
+    redaction.maxBodyChars
+  );
+  return redactText(emailContent({ ...emailDoc, body }) + threadPrompt(thread), redaction.kinds);
+}
+
+export async function classifyIsJobRelated(
+  provider: LlmProvider | null,
+  emailDoc: GmailEmailDoc,
+  redaction: RedactionOptions = defaultRedactionOptions()
+): Promise<boolean> {
+  if (!provider) {
+    throw new Error('No LLM provider configured for the job-related gate.');
+  }
+  const systemPrompt = `Decide if a single email is about a job application or job process. Reply with JSON: {"job_related": true|false}. Treat interview requests, application confirmations, rejections, and next steps as job_related true. Ignore newsletters, marketing, alerts, and general promotions (job_related false).`;
+  const { job_related } = await chatJson(provider, gateSchema, {
+    stage: 'gate',
+    promptVersion: GATE_PROMPT_VERSION,
+    owner: emailDoc.owner,
+    messageId: emailDoc.id,
+    temperature: 0,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: llmContent(emailDoc, redaction).text },
+    ],
+  });
+  return job_related;
+}
+
+export async function classifyEmail(
+  provider: LlmProvider | null,
+  emailDoc: GmailEmailDoc,
+  feedback?: ClassifierFeedback,
+  thread?: ThreadContext,
+  redaction: RedactionOptions = defaultRedactionOptions()
+): Promise<ClassificationResult | null> {
+  if (!provider) {
+    console.warn('No LLM provider configured for classification. Skipping.');
+    return null;
+  }
+
+  const systemPrompt = `You classify one email at a time.
+Output only JSON with this schema:
+{
+  "is_job_related": true | false,
+  "status": "applied" | "recruiter_outreach" | "next_steps" | "assessment" | "interview_scheduled" | "offer" | "on_hold" | "rejected" | "withdrawn" | "comment_only" | "not_job_related",
+  "summary": "short sentence",
+  "company_name": "Company extracted from the message",
+  "role_title": "Job title the email is about, or empty string",
+  "requisition_id": "Job/requisition id if mentioned (e.g. R-12345, JR004512), or empty string",
+  "source": "Where the application came from (e.g. LinkedIn, Greenhouse, referral, company site), or empty string",
+  "interview": null | {
+    "start": "Local date-time as YYYY-MM-DDTHH:mm, with a UTC offset only if the email states one",
+    "end": "Same format, or empty string if no end time or duration is given",
+    "timezone": "IANA zone for the quoted time (e.g. America/New_York), or empty string",
+    "meeting_link": "Video/phone meeting URL, or empty string",
+    "location": "Office address or dial-in details, or empty string",
+    "interviewers": ["Names of the people interviewing"],
+    "format": "phone" | "video" | "onsite" | "other"
+  }
+}
+
+Rules:
+- Ignore newsletters, job alerts, marketing blasts, and platform recommendations.
+- applied: acknowledges receipt or confirms application submission.
+- recruiter_outreach: a recruiter or hiring manager reaching out first, before any application.
+- next_steps: asks for availability or describes upcoming steps without a confirmed time.
+- assessment: take-home, coding challenge, online test or other assessment to complete.
+- interview_scheduled: confirms an interview at a specific date/time (invites, confirmations).
+- offer: an offer is extended or offer paperwork is sent.
+- on_hold: the process or role is paused, delayed, or frozen.
+- rejected: explicit rejection.
+- withdrawn: the candidate withdrew, or confirms the withdrawal of, the application.
+- comment_only: job-related but none of the above, including replies that only continue a conversation (thanks, "sounds good", confirming what was already arranged).
+- Earlier thread messages, when given, are context: classify only the latest email, but take company_name, role_title and requisition_id from the thread when the latest email does not restate them.
+- not_job_related: everything else.
+Always include a concise summary and company_name guess.
+Only fill role_title and requisition_id with values stated in the email; never invent them.
+- Placeholders such as [PHONE_1], [URL_2] or [EMAIL_1]@example.com stand for redacted personal data; copy them unchanged into any field that needs the value.
+- Attachment text (offer letters, schedules) and calendar invites follow the body and count as part of the email; an invite for an interview means interview_scheduled unless it is cancelled.
+- interview: only for interview_scheduled or next_steps emails that give a concrete date and time; otherwise null. Resolve relative dates ("tomorrow", "Tuesday") against the email Date header.`;
+
+  const { text, placeholders } = llmContent(emailDoc, redaction, thread);
+  // Correction examples quote other emails, so they are redacted too, with the same placeholders.
+  const examples = redactText(feedbackPrompt(feedback, emailDoc.id), redaction.kinds, placeholders);
+  // Validated against the schema (with one repair round), so a bad reply never reaches storage.
+  const reply = await chatJson(provider, classificationSchema, {
+    stage: 'classify',
+    promptVersion: CLASSIFY_PROMPT_VERSION,
+    owner: emailDoc.owner,
+    messageId: emailDoc.id,
+    temperature: 0,
+    messages: [
+      { role: 'system', content: systemPrompt + examples.text },
+      { role: 'user', content: text },
+    ],
+  });
+  const result = restorePlaceholders(reply, placeholders);
+  const parsed = applySenderRules(emailDoc, inheritFromThread(result, thread), feedback);
+  return {
+    ...parsed,
+    taxonomy_version: TAXONOMY_VERSION,
+    model: provider.model,
+    prompt_version: CLASSIFY_PROMPT_VERSION,
+  };
+}
@@ -6,6 +6,7 @@ declare namespace NodeJS {
     COSMOS_CONTAINER?: string;
     COSMOS_GMAIL_DATABASE?: string;
     COSMOS_GMAIL_CONTAINER?: string;
+    COSMOS_FAILURES_CONTAINER?: string;
     COSMOS_JOBS_DATABASE?: string;
     COSMOS_JOBS_CONTAINER?: string;
     PORT?: string;
@@ -13,11 +14,26 @@ declare namespace NodeJS {
     GOOGLE_CLIENT_SECRET?: string;
     GOOGLE_REDIRECT_URI?: string;
     GMAIL_CRON_SCHEDULE?: string;
+    BACKFILL_LLM_BUDGET?: string;
+    GMAIL_FETCH_CONCURRENCY?: string;
     OPENAI_API_KEY?: string;
+    OPENAI_BASE_URL?: string;
+    AZURE_OPENAI_ENDPOINT?: string;
+    AZURE_OPENAI_API_KEY?: string;
+    AZURE_OPENAI_API_VERSION?: string;
+    LLM_BASE_URL?: string;
+    LLM_API_KEY?: string;
+    EMAIL_GATE_PROVIDER?: string;
+    EMAIL_GATE_MODEL?: string;
+    EMAIL_CLASS_PROVIDER?: string;
     EMAIL_CLASS_MODEL?: string;
     SESSION_SECRET?: string;
     SESSION_DURATION_DAYS?: string;
     KEY_VAULT_URI?: string;
+    STORAGE_BACKEND?: string;
+    SECRET_BACKEND?: string;
+    LOCAL_DATA_DIR?: string;
+    LOCAL_SECRET_KEY?: string;
     NODE_ENV?: string;
   }
 }
@@ -0,0 +1,125 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  companyMatch,
+  compareToBaseline,
+  evaluate,
+  formatReport,
+  parseGoldenSet,
+  recordProviders,
+  replayProviders,
+  scoreResults,
+  type CaseResult,
+  type GoldenCase,
+} from './evaluate';
+import { loadStageProviders } from './llmProviders';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails } from './testing/fixtures';
+
+// The golden set turned into cases, plus a fixture the fake model gets wrong on purpose.
+const cases: GoldenCase[] = Object.values(recruiterEmails).map(({ message, classification }) => ({
+  id: message.id,
+  subject: message.subject,
+  from: message.from,
+  date: 'Mon, 4 Mar 2024 09:00:00 +0000',
+  body: message.body,
+  label: {
+    status: classification?.status || 'not_job_related',
+    company_name: classification?.company_name || '',
+  },
+}));
+cases[0] = { ...cases[0], label: { status: 'rejected', company_name: 'Acme Corp' } };
+
+async function main() {
+  // Parsing: one case per line; bad lines name their line number.
+  const golden = await fs.readFile(path.join(__dirname, '..', 'eval', 'golden.jsonl'), 'utf8');
+  assert.ok(parseGoldenSet(golden).length >= 20);
+  assert.throws(() => parseGoldenSet('\n{"id": "a", "body": ""}'), /line 2/);
+  assert.throws(
+    () => parseGoldenSet('{"id":"a","body":"","label":{"status":"ghosted"}}'),
+    (err: any) => err.code === 'INVALID_GOLDEN_SET'
+  );
+
+  assert.strictEqual(companyMatch('Globex', ' globex '), 'exact');
+  assert.strictEqual(companyMatch('Globex', 'Globex Corporation'), 'fuzzy');
+  assert.strictEqual(companyMatch('Globex', 'Initech'), 'none');
+  assert.strictEqual(companyMatch('Globex', ''), 'none');
+
+  // Scoring: per-status precision/recall, gate metrics and a confusion matrix; errors count
+  // against recall.
+  const result = (expected: string, status: string, jobRelated = true): CaseResult => ({
+    id: `${expected}-${status}`,
+    expected: { status: expected as any, company_name: 'Acme' },
+    jobRelated,
+    status: status as any,
+    company_name: status === 'error' ? '' : 'Acme',
+  });
+  const scored = scoreResults([
+    result('applied', 'applied'),
+    result('applied', 'next_steps'),
+    result('next_steps', 'next_steps'),
+    result('rejected', 'error'),
+    result('not_job_related', 'not_job_related', false),
+  ]);
+  assert.deepStrictEqual(
+    [scored.byStatus.applied.precision, scored.byStatus.applied.recall],
+    [1, 0.5]
+  );
+  assert.strictEqual(scored.byStatus.next_steps.precision, 0.5);
+  assert.strictEqual(scored.byStatus.rejected.recall, 0);
+  assert.strictEqual(scored.confusion.applied.next_steps, 1);
+  assert.strictEqual(scored.errors, 1);
+  assert.strictEqual(scored.metrics.statusAccuracy, 3 / 5);
+  assert.deepStrictEqual([scored.metrics.gatePrecision, scored.metrics.gateRecall], [1, 1]);
+  assert.deepStrictEqual([scored.metrics.companyExact, scored.metrics.companyFuzzy], [0.75, 0.75]);
+
+  // Baseline comparison only flags drops beyond the tolerance.
+  const baseline = { ...scored.metrics, statusAccuracy: 0.61, macroF1: 0.9 };
+  assert.deepStrictEqual(
+    compareToBaseline(scored.metrics, baseline).map((line) => line.split(' ')[0]),
+    ['macroF1']
+  );
+  assert.deepStrictEqual(compareToBaseline(scored.metrics, undefined), []);
+
+  // A full run against the fake model, recorded and replayed without a server.
+  const chat = await startFakeChatServer(fixtureResponder());
+  try {
+    const providers = loadStageProviders({
+      EMAIL_GATE_PROVIDER: 'openai-compatible',
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      EMAIL_GATE_MODEL: 'fake-gate',
+      EMAIL_CLASS_MODEL: 'fake-classify',
+      LLM_BASE_URL: chat.url,
+    });
+    const recorder = recordProviders(providers);
+    const prices = { 'fake-classify': { input: 1, output: 1 } };
+    const report = await evaluate(recorder.providers, cases, prices);
+    assert.strictEqual(report.cases, cases.length);
+    assert.strictEqual(report.metrics.statusAccuracy, (cases.length - 1) / cases.length);
+    assert.strictEqual(report.confusion.rejected.applied, 1);
+    assert.strictEqual(report.metrics.companyFuzzy, 1);
+    assert.ok(report.metrics.companyExact < 1);
+    assert.strictEqual(report.cost.calls, chat.requests.length);
+    assert.ok(report.cost.costUsd > 0 && report.cost.totalTokens > 0);
+    assert.ok(formatReport(report).includes('acme-applied: expected rejected, got applied'));
+
+    const requests = chat.requests.length;
+    const replayed = await evaluate(replayProviders(recorder.recording()), cases, prices);
+    assert.strictEqual(chat.requests.length, requests);
+    assert.deepStrictEqual(replayed.metrics, report.metrics);
+    assert.strictEqual(replayed.providers, report.providers);
+
+    const empty = replayProviders({ ...recorder.recording(), replies: {} });
+    const missing = await evaluate(empty, cases);
+    assert.strictEqual(missing.errors, cases.length);
+  } finally {
+    await chat.close();
+  }
+  console.log('evaluate tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,547 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isJobStatus, JOB_STATUSES } from './classificationStatuses';
+import { companyKey } from './companyNames';
+import { classifyEmail, classifyIsJobRelated } from './emailClassifier';
+import { llmCacheKey } from './llmCache';
+import {
+  describeProvider,
+  loadStageProviders,
+  type ChatResult,
+  type LlmProvider,
+  type LlmProviderKind,
+  type LlmStage,
+  type StageProviders,
+} from './llmProviders';
+import { DEFAULT_MODEL_PRICES, estimateCostUsd, parseModelPrices, type ModelPrice } from './usage';
+import type { ClassificationStatus, GmailEmailDoc, TokenUsage } from './types';
+
+/*
+ * Classifier evaluation: runs a labeled golden set through the gate and classifier and scores
+ * the answers. `npm run eval -- --help` lists the options.
+ */
+
+const STATUSES: ClassificationStatus[] = [...JOB_STATUSES, 'not_job_related'];
+
+// Metrics compared against the stored baseline; a drop larger than the tolerance fails the run.
+const REGRESSION_METRICS = [
+  'gatePrecision',
+  'gateRecall',
+  'statusAccuracy',
+  'macroF1',
+  'companyExact',
+  'companyFuzzy',
+] as const;
+
+export interface GoldenCase {
+  id: string;
+  subject: string;
+  from: string;
+  date: string;
+  body: string;
+  label: { status: ClassificationStatus; company_name: string };
+}
+
+export type PredictedStatus = ClassificationStatus | 'error';
+
+export interface CaseResult {
+  id: string;
+  expected: GoldenCase['label'];
+  // Gate answer; null when the gate call failed.
+  jobRelated: boolean | null;
+  status: PredictedStatus;
+  company_name: string;
+  error?: string;
+}
+
+export interface StatusMetrics {
+  support: number;
+  predicted: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export type EvaluationMetrics = Record<(typeof REGRESSION_METRICS)[number], number>;
+
+export interface CostSummary extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface EvaluationReport {
+  providers: string;
+  cases: number;
+  errors: number;
+  metrics: EvaluationMetrics;
+  byStatus: Record<ClassificationStatus, StatusMetrics>;
+  // confusion[expected][predicted] = count
+  confusion: Record<ClassificationStatus, Record<PredictedStatus, number>>;
+  cost: CostSummary;
+  results: CaseResult[];
+}
+
+export type Baselines = Record<string, EvaluationMetrics>;
+
+interface RecordedStage {
+  kind: LlmProviderKind;
+  model: string;
+  structuredOutput?: boolean;
+}
+
+/** Replies captured with --record, replayed offline with --replay. */
+export interface Recording {
+  providers: Partial<Record<LlmStage, RecordedStage>>;
+  replies: Record<string, Omit<ChatResult, 'cached'>>;
+}
+
+function evalError(message: string, code: string): Error {
+  const err: any = new Error(message);
+  err.code = code;
+  return err;
+}
+
+/** Parse a golden set: one JSON case per line, blank lines and `#` comments ignored. */
+export function parseGoldenSet(text: string): GoldenCase[] {
+  const cases: GoldenCase[] = [];
+  const ids = new Set<string>();
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch (err: any) {
+      throw evalError(`Golden set line ${index + 1}: ${err.message}`, 'INVALID_GOLDEN_SET');
+    }
+    const status = parsed?.label?.status;
+    if (!parsed?.id || typeof parsed.body !== 'string' || !STATUSES.includes(status)) {
+      throw evalError(
+        `Golden set line ${index + 1}: needs an id, a body and a label.status`,
+        'INVALID_GOLDEN_SET'
+      );
+    }
+    if (ids.has(parsed.id)) {
+      const message = `Golden set line ${index + 1}: duplicate id ${parsed.id}`;
+      throw evalError(message, 'INVALID_GOLDEN_SET');
+    }
+    ids.add(parsed.id);
+    cases.push({
+      id: String(parsed.id),
+      subject: String(parsed.subject || ''),
+      from: String(parsed.from || ''),
+      date: String(parsed.date || ''),
+      body: parsed.body,
+      label: { status, company_name: String(parsed.label.company_name || '') },
+    });
+  });
+  return cases;
+}
+
+function emailFor(testCase: GoldenCase): GmailEmailDoc {
+  return {
+    id: testCase.id,
+    owner: 'eval',
+    from: testCase.from,
+    to: 'eval',
+    subject: testCase.subject,
+    date: testCase.date,
+    snippet: '',
+    body: testCase.body,
+    labelIds: [],
+    fetchedAt: new Date(0).toISOString(),
+    internalDate: Date.parse(testCase.date) || 0,
+  };
+}
+
+/** Run each case through the gate and, when it passes, the classifier; failures are kept. */
+export async function runCases(
+  providers: StageProviders,
+  cases: GoldenCase[]
+): Promise<CaseResult[]> {
+  const results: CaseResult[] = [];
+  for (const testCase of cases) {
+    const email = emailFor(testCase);
+    const result: CaseResult = {
+      id: testCase.id,
+      expected: testCase.label,
+      jobRelated: null,
+      status: 'error',
+      company_name: '',
+    };
+    try {
+      result.jobRelated = await classifyIsJobRelated(providers.gate, email);
+      if (!result.jobRelated) {
+        result.status = 'not_job_related';
+      } else {
+        const classification = await classifyEmail(providers.classify, email);
+        if (!classification) throw new Error('No LLM provider configured for classification.');
+        result.status = classification.status;
+        result.company_name = classification.company_name || '';
+      }
+    } catch (err: any) {
+      result.error = err?.message || String(err);
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+function normalizeName(name: string): string {
+  return (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Exact: the same name ignoring case and spacing. Fuzzy: the same normalized company (legal
+ * suffixes dropped) or one name contained in the other ("Globex" / "Globex Corporation").
+ */
+export function companyMatch(expected: string, predicted: string): 'exact' | 'fuzzy' | 'none' {
+  if (!normalizeName(expected) || !normalizeName(predicted)) return 'none';
+  if (normalizeName(expected) === normalizeName(predicted)) return 'exact';
+  const a = companyKey(expected);
+  const b = companyKey(predicted);
+  if (a && b && (a === b || a.includes(b) || b.includes(a))) return 'fuzzy';
+  return 'none';
+}
+
+const ratio = (part: number, whole: number) => (whole ? part / whole : 0);
+
+/** Score case results: gate precision/recall, per-status metrics, confusion and company matches. */
+export function scoreResults(
+  results: CaseResult[]
+): Pick<EvaluationReport, 'cases' | 'errors' | 'metrics' | 'byStatus' | 'confusion'> {
+  const confusion = {} as EvaluationReport['confusion'];
+  for (const status of STATUSES) {
+    confusion[status] = {} as Record<PredictedStatus, number>;
+    for (const predicted of [...STATUSES, 'error' as const]) confusion[status][predicted] = 0;
+  }
+  let gateTp = 0;
+  let gatePositive = 0;
+  let gateExpected = 0;
+  let companyCases = 0;
+  let exact = 0;
+  let fuzzy = 0;
+  for (const result of results) {
+    confusion[result.expected.status][result.status]++;
+    const expectedJob = isJobStatus(result.expected.status);
+    if (expectedJob) gateExpected++;
+    if (result.jobRelated) gatePositive++;
+    if (expectedJob && result.jobRelated) gateTp++;
+    if (expectedJob && result.expected.company_name) {
+      companyCases++;
+      const match = companyMatch(result.expected.company_name, result.company_name);
+      if (match === 'exact') exact++;
+      if (match !== 'none') fuzzy++;
+    }
+  }
+
+  const byStatus = {} as Record<ClassificationStatus, StatusMetrics>;
+  for (const status of STATUSES) {
+    const tp = confusion[status][status];
+    // Support counts failed cases too, so errors lower recall.
+    const support = Object.values(confusion[status]).reduce((sum, count) => sum + count, 0);
+    const predicted = STATUSES.reduce((sum, expected) => sum + confusion[expected][status], 0);
+    const precision = ratio(tp, predicted);
+    const recall = ratio(tp, support);
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    byStatus[status] = { support, predicted, precision, recall, f1 };
+  }
+  const labelled = STATUSES.filter((status) => byStatus[status].support > 0);
+  const correct = results.filter((result) => result.status === result.expected.status).length;
+  return {
+    cases: results.length,
+    errors: results.filter((result) => result.status === 'error').length,
+    metrics: {
+      gatePrecision: ratio(gateTp, gatePositive),
+      gateRecall: ratio(gateTp, gateExpected),
+      statusAccuracy: ratio(correct, results.length),
+      macroF1: ratio(
+        labelled.reduce((sum, status) => sum + byStatus[status].f1, 0),
+        labelled.length
+      ),
+      companyExact: ratio(exact, companyCases),
+      companyFuzzy: ratio(fuzzy, companyCases),
+    },
+    byStatus,
+    confusion,
+  };
+}
+
+/** Metrics that dropped more than `tolerance` below the baseline, as readable lines. */
+export function compareToBaseline(
+  metrics: EvaluationMetrics,
+  baseline: Partial<EvaluationMetrics> | undefined,
+  tolerance = 0.02
+): string[] {
+  if (!baseline) return [];
+  return REGRESSION_METRICS.filter(
+    (name) => typeof baseline[name] === 'number' && metrics[name] < baseline[name]! - tolerance
+  ).map((name) => `${name} ${metrics[name].toFixed(3)} < baseline ${baseline[name]!.toFixed(3)}`);
+}
+
+/** Wrap providers to count calls, tokens and estimated cost. */
+export function meterProviders(
+  providers: StageProviders,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES
+): { providers: StageProviders; cost(): CostSummary } {
+  const cost: CostSummary = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+  const wrap = (provider: LlmProvider | null): LlmProvider | null =>
+    provider && {
+      ...provider,
+      async chat(request) {
+        const result = await provider.chat(request);
+        cost.calls++;
+        if (result.usage) {
+          cost.promptTokens += result.usage.promptTokens;
+          cost.completionTokens += result.usage.completionTokens;
+          cost.totalTokens += result.usage.totalTokens;
+          cost.costUsd += estimateCostUsd(result.model || provider.model, result.usage, prices);
+        }
+        return result;
+      },
+    };
+  return {
+    providers: { gate: wrap(providers.gate), classify: wrap(providers.classify) },
+    cost: () => ({ ...cost }),
+  };
+}
+
+/** Wrap providers so every reply is captured, keyed like the response cache. */
+export function recordProviders(providers: StageProviders): {
+  providers: StageProviders;
+  recording(): Recording;
+} {
+  const recording: Recording = { providers: {}, replies: {} };
+  const wrap = (stage: LlmStage, provider: LlmProvider | null): LlmProvider | null => {
+    if (!provider) return provider;
+    recording.providers[stage] = {
+      kind: provider.kind,
+      model: provider.model,
+      structuredOutput: provider.structuredOutput,
+    };
+    return {
+      ...provider,
+      async chat(request) {
+        const { cached, ...result } = await provider.chat(request);
+        recording.replies[llmCacheKey(provider.model, request)] = result;
+        return result;
+      },
+    };
+  };
+  return {
+    providers: {
+      gate: wrap('gate', providers.gate),
+      classify: wrap('classify', providers.classify),
+    },
+    recording: () => recording,
+  };
+}
+
+/**
+ * Providers that answer from a recording without any network access. Requests the recording
+ * does not have (the prompt or golden set changed since) fail with REPLAY_MISS.
+ */
+export function replayProviders(recording: Recording): StageProviders {
+  const create = (stage: LlmStage): LlmProvider | null => {
+    const recorded = recording.providers[stage];
+    if (!recorded) return null;
+    return {
+      ...recorded,
+      remote: false,
+      async chat(request) {
+        const reply = recording.replies[llmCacheKey(recorded.model, request)];
+        if (!reply) {
+          throw evalError(`No recorded ${stage} reply for this request`, 'REPLAY_MISS');
+        }
+        return reply;
+      },
+    };
+  };
+  return { gate: create('gate'), classify: create('classify') };
+}
+
+export function describeProviders(providers: StageProviders): string {
+  const { gate, classify } = providers;
+  return `gate: ${describeProvider(gate)}, classify: ${describeProvider(classify)}`;
+}
+
+/** Run and score a golden set against the given providers. */
+export async function evaluate(
+  providers: StageProviders,
+  cases: GoldenCase[],
+  prices?: Record<string, ModelPrice>
+): Promise<EvaluationReport> {
+  const metered = meterProviders(providers, prices);
+  const results = await runCases(metered.providers, cases);
+  return {
+    providers: describeProviders(providers),
+    ...scoreResults(results),
+    cost: metered.cost(),
+    results,
+  };
+}
+
+const ABBREVIATIONS: Record<PredictedStatus, string> = {
+  applied: 'app',
+  recruiter_outreach: 'out',
+  next_steps: 'nxt',
+  assessment: 'ass',
+  interview_scheduled: 'int',
+  offer: 'off',
+  on_hold: 'hld',
+  rejected: 'rej',
+  withdrawn: 'wdr',
+  comment_only: 'cmt',
+  not_job_related: 'not',
+  error: 'err',
+};
+
+export function formatReport(report: EvaluationReport, regressions: string[] = []): string {
+  const { metrics, cost } = report;
+  const num = (value: number) => value.toFixed(3);
+  const lines = [
+    `Providers: ${report.providers}`,
+    `Cases: ${report.cases} (${report.errors} errors)`,
+    `Gate: precision ${num(metrics.gatePrecision)}, recall ${num(metrics.gateRecall)}`,
+    `Status: accuracy ${num(metrics.statusAccuracy)}, macro F1 ${num(metrics.macroF1)}`,
+    `Company: exact ${num(metrics.companyExact)}, fuzzy ${num(metrics.companyFuzzy)}`,
+    `Cost: ${cost.calls} calls, ${cost.promptTokens} prompt + ${cost.completionTokens} ` +
+      `completion tokens, ~$${cost.costUsd.toFixed(4)}`,
+    '',
+    `${'status'.padEnd(20)} support  precision  recall  f1`,
+  ];
+  for (const status of STATUSES) {
+    const row = report.byStatus[status];
+    if (!row.support && !row.predicted) continue;
+    const cells = [
+      String(row.support).padStart(7),
+      num(row.precision).padStart(9),
+      num(row.recall).padStart(6),
+      num(row.f1),
+    ];
+    lines.push(`${status.padEnd(20)} ${cells.join('  ')}`);
+  }
+  const columns = [...STATUSES, 'error' as const];
+  lines.push('', 'Confusion matrix (rows: expected, columns: predicted)');
+  const header = columns.map((status) => ABBREVIATIONS[status].padStart(4)).join('');
+  lines.push(`${''.padEnd(20)}${header}`);
+  for (const status of STATUSES) {
+    if (!report.byStatus[status].support) continue;
+    const counts = columns.map((predicted) => String(report.confusion[status][predicted] || '.'));
+    lines.push(`${status.padEnd(20)}${counts.map((count) => count.padStart(4)).join('')}`);
+  }
+  const misses = report.results.filter((result) => result.status !== result.expected.status);
+  if (misses.length) {
+    lines.push('', 'Misclassified:');
+    for (const miss of misses) {
+      const detail = miss.error ? ` (${miss.error})` : '';
+      lines.push(`  ${miss.id}: expected ${miss.expected.status}, got ${miss.status}${detail}`);
+    }
+  }
+  if (regressions.length) {
+    lines.push('', 'Regressed below baseline:', ...regressions.map((line) => `  ${line}`));
+  }
+  return lines.join('\n');
+}
+
+const USAGE = `Usage: npm run eval -- [options]
+
+Runs eval/golden.jsonl through the gate and classifier configured in the environment
+(EMAIL_GATE_PROVIDER, EMAIL_CLASS_PROVIDER, ...) and fails when a metric drops below the
+baseline stored for those providers.
+
+  --golden <file>       Golden set (default eval/golden.jsonl)
+  --baseline <file>     Baselines per provider setup (default eval/baseline.json)
+  --update-baseline     Store this run's metrics as the baseline for these providers
+  --tolerance <n>       Allowed drop per metric before failing (default 0.02)
+  --record <file>       Save every reply so the run can be replayed offline
+  --replay <file>       Answer from a recording instead of calling any provider
+  --json <file>         Write the full report, including per-case results, as JSON`;
+
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) throw evalError(`Unexpected argument "${arg}"`, 'INVALID_ARGS');
+    const name = arg.slice(2);
+    if (name === 'update-baseline' || name === 'help') {
+      options[name] = true;
+    } else if (i + 1 < argv.length) {
+      options[name] = argv[++i];
+    } else {
+      throw evalError(`--${name} needs a value`, 'INVALID_ARGS');
+    }
+  }
+  return options;
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return fallback;
+    throw err;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const options = parseArgs(argv);
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const evalDir = path.join(__dirname, '..', 'eval');
+  const goldenFile = String(options.golden || path.join(evalDir, 'golden.jsonl'));
+  const baselineFile = String(options.baseline || path.join(evalDir, 'baseline.json'));
+  const tolerance = Number(options.tolerance ?? 0.02);
+
+  const cases = parseGoldenSet(await fs.readFile(goldenFile, 'utf8'));
+  let providers = options.replay
+    ? replayProviders(JSON.parse(await fs.readFile(String(options.replay), 'utf8')))
+    : loadStageProviders();
+  if (!providers.gate || !providers.classify) {
+    console.error('Both the gate and classify providers must be configured for an evaluation.');
+    return 2;
+  }
+  const recorder = options.record ? recordProviders(providers) : null;
+  if (recorder) providers = recorder.providers;
+
+  const prices = { ...DEFAULT_MODEL_PRICES, ...parseModelPrices(process.env.LLM_MODEL_PRICES) };
+  const report = await evaluate(providers, cases, prices);
+  // Recording wrappers keep the provider names, so a replay is compared with the same baseline.
+  const baselines = await readJson<Baselines>(baselineFile, {});
+  const baseline = baselines[report.providers];
+  const regressions = compareToBaseline(report.metrics, baseline, tolerance);
+  console.log(formatReport(report, regressions));
+
+  const writeJson = (file: string, value: unknown) =>
+    fs.writeFile(file, `${JSON.stringify(value, null, 2)}\n`);
+  if (recorder) await writeJson(String(options.record), recorder.recording());
+  if (options.json) await writeJson(String(options.json), report);
+  if (options['update-baseline']) {
+    baselines[report.providers] = Object.fromEntries(
+      REGRESSION_METRICS.map((name) => [name, Math.round(report.metrics[name] * 1e4) / 1e4])
+    ) as EvaluationMetrics;
+    await writeJson(baselineFile, baselines);
+    console.log(`\nBaseline updated for ${report.providers}.`);
+    return 0;
+  }
+  if (!baseline) {
+    console.log(`\nNo baseline for ${report.providers}; run with --update-baseline to store one.`);
+  }
+  return regressions.length ? 1 : 0;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((err) => {
+      console.error(err?.message || err);
+      process.exit(2);
+    });
+}
@@ -0,0 +1,169 @@
+import assert from 'node:assert';
+import {
+  cancelFetchJob,
+  createMemoryFetchJobStore,
+  enqueueFetchJob,
+  startFetchWorker,
+  type FetchJob,
+  type FetchJobStore,
+  type FetchRunner,
+} from './fetchJobs';
+
+function waitFor(store: ReturnType<typeof createMemoryFetchJobStore>, id: string, status: string) {
+  return new Promise<FetchJob>((resolve) => {
+    const check = (job: FetchJob) => {
+      if (job.status === status) resolve(job);
+    };
+    store.subscribe(id, check);
+    store.get(id).then((job) => job && check(job));
+  });
+}
+
+async function main() {
+  const store = createMemoryFetchJobStore();
+  let release: () => void = () => undefined;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+
+  const runner: FetchRunner = async (job, context) => {
+    context.report({ phase: 'listing' });
+    context.report({ phase: 'processing', listed: 3 });
+    let processed = 0;
+    for (let i = 0; i < 3; i++) {
+      if (await context.isCancelled()) return { fetched: processed, cancelled: true };
+      if (job.options.queryOverride === 'slow' && i === 1) await gate;
+      if (job.options.queryOverride === 'boom') {
+        throw Object.assign(new Error('tokens gone'), { code: 'NO_GMAIL_TOKENS' });
+      }
+      processed += 1;
+      context.report({ processed, classified: processed });
+    }
+    return { fetched: processed };
+  };
+
+  // A second request while the first is queued gets the same job back.
+  const first = await enqueueFetchJob(store, 'sam@example.com');
+  const again = await enqueueFetchJob(store, 'sam@example.com', { queryOverride: 'ignored' });
+  assert.strictEqual(first.created, true);
+  assert.strictEqual(again.created, false);
+  assert.strictEqual(again.job.id, first.job.id);
+
+  const updates: FetchJob[] = [];
+  await store.subscribe(first.job.id, (job) => updates.push(job));
+  const stop = startFetchWorker(store, runner, { idleMs: 5 });
+
+  const done = await waitFor(store, first.job.id, 'succeeded');
+  assert.deepStrictEqual(done.result, { fetched: 3 });
+  assert.strictEqual(done.progress.phase, 'done');
+  assert.strictEqual(done.progress.processed, 3);
+  assert.strictEqual(updates[0].status, 'running');
+  assert.deepStrictEqual(
+    updates.filter((job) => job.progress.phase === 'processing').map((j) => j.progress.processed),
+    [0, 1, 2, 3]
+  );
+
+  // Once finished, the owner can start a new fetch.
+  const slow = await enqueueFetchJob(store, 'sam@example.com', { queryOverride: 'slow' });
+  assert.strictEqual(slow.created, true);
+  await new Promise<void>((resolve) => {
+    store.subscribe(slow.job.id, (job) => {
+      if (job.progress.processed === 1) resolve();
+    });
+  });
+  const cancelling = await cancelFetchJob(store, slow.job.id);
+  assert.strictEqual(cancelling?.status, 'running');
+  assert.strictEqual(cancelling?.cancelRequested, true);
+  release();
+  const cancelled = await waitFor(store, slow.job.id, 'cancelled');
+  assert.strictEqual(cancelled.result?.fetched, 2);
+
+  // Runner errors fail the job with the error code.
+  const broken = await enqueueFetchJob(store, 'sam@example.com', { queryOverride: 'boom' });
+  const failed = await waitFor(store, broken.job.id, 'failed');
+  assert.strictEqual(failed.error, 'NO_GMAIL_TOKENS');
+
+  await stop();
+
+  // A cancel that lands between a progress save's read and its write is not lost.
+  const memory = createMemoryFetchJobStore();
+  let cancelDuringSave: ((job: FetchJob) => Promise<void>) | null = null;
+  const racy: FetchJobStore = {
+    ...memory,
+    async save(job) {
+      const cancel = cancelDuringSave;
+      if (cancel && job.progress.processed === 1) {
+        cancelDuringSave = null;
+        await cancel(job);
+      }
+      await memory.save(job);
+    },
+  };
+  let cancelLanded: () => void = () => undefined;
+  const landed = new Promise<void>((resolve) => (cancelLanded = resolve));
+  cancelDuringSave = async (job) => {
+    await cancelFetchJob(racy, job.id);
+    cancelLanded();
+  };
+  const stopRacy = startFetchWorker(
+    racy,
+    async (_job, context) => {
+      context.report({ processed: 1 });
+      await landed;
+      context.report({ processed: 2 });
+      return { fetched: 2, cancelled: await context.isCancelled() };
+    },
+    { idleMs: 5 }
+  );
+  const raced = await enqueueFetchJob(racy, 'lee@example.com');
+  const racedDone = await waitFor(racy, raced.job.id, 'cancelled');
+  assert.strictEqual(racedDone.cancelRequested, true);
+  await stopRacy();
+
+  // A progress save that fails is logged and does not fail the job.
+  let failProgressSave = true;
+  const flaky: FetchJobStore = {
+    ...memory,
+    async save(job) {
+      if (failProgressSave && job.progress.processed === 1) {
+        failProgressSave = false;
+        throw new Error('redis went away');
+      }
+      await memory.save(job);
+    },
+  };
+  const stopFlaky = startFetchWorker(
+    flaky,
+    async (_job, context) => {
+      context.report({ processed: 1 });
+      context.report({ processed: 2 });
+      return { fetched: 2, cancelled: false };
+    },
+    { idleMs: 5 }
+  );
+  const flakyJob = await enqueueFetchJob(flaky, 'kim@example.com');
+  const flakyDone = await waitFor(flaky, flakyJob.job.id, 'succeeded');
+  assert.strictEqual(failProgressSave, false);
+  assert.deepStrictEqual(flakyDone.result, { fetched: 2 });
+  assert.strictEqual(flakyDone.progress.processed, 2);
+  await stopFlaky();
+
+  // Queued jobs cancel immediately and free the owner's slot.
+  const queued = await enqueueFetchJob(store, 'alex@example.com');
+  const cancelledQueued = await cancelFetchJob(store, queued.job.id);
+  assert.strictEqual(cancelledQueued?.status, 'cancelled');
+  const next = await enqueueFetchJob(store, 'alex@example.com');
+  assert.strictEqual(next.created, true);
+
+  // A running job that stopped reporting is treated as abandoned.
+  const stale = await store.get(next.job.id);
+  await store.save({ ...stale!, status: 'running', updatedAt: '2020-01-01T00:00:00.000Z' });
+  const replacement = await enqueueFetchJob(store, 'alex@example.com');
+  assert.strictEqual(replacement.created, true);
+  assert.strictEqual((await store.get(next.job.id))?.status, 'failed');
+
+  console.log('fetchJobs tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
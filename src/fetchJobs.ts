@@ -0,0 +1,387 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import type { ReclassifyPreview, ReclassifyScope } from './reclassify';
+
+export type FetchJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface FetchProgress {
+  phase: 'queued' | 'listing' | 'processing' | 'done';
+  listed: number;
+  processed: number;
+  // Messages the gate let through, and the ones it dropped as not job related.
+  gated: number;
+  skipped: number;
+  classified: number;
+  // Messages moved to the dead-letter store.
+  failed: number;
+}
+
+export interface FetchJobOptions {
+  queryOverride?: string;
+  skipStateUpdate?: boolean;
+  // Fetch only this connected mailbox instead of all of the owner's.
+  gmailAccount?: string;
+  // Run the owner's historical backfill instead of a regular sync.
+  backfill?: boolean;
+  // Re-run the classifier over stored emails and keep the result as a preview to commit.
+  reclassify?: ReclassifyScope;
+}
+
+export interface FetchJobResult {
+  fetched: number;
+  preview?: ReclassifyPreview;
+  // The run stopped early because the owner's monthly LLM budget is spent.
+  monthlyBudgetExceeded?: boolean;
+}
+
+export interface FetchJob {
+  id: string;
+  owner: string;
+  status: FetchJobStatus;
+  options: FetchJobOptions;
+  progress: FetchProgress;
+  // For display; the request itself is kept by the store (requestCancel / cancelRequested).
+  cancelRequested?: boolean;
+  result?: FetchJobResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export type FetchJobListener = (job: FetchJob) => void;
+
+/** Persistence and fan-out for fetch jobs. Redis in production; the memory store is for tests. */
+export interface FetchJobStore {
+  save(job: FetchJob): Promise<void>;
+  get(id: string): Promise<FetchJob | null>;
+  push(id: string): Promise<void>;
+  pop(): Promise<string | null>;
+  // Atomically claim the owner's active slot; returns the id already holding it, if any.
+  claimActive(owner: string, id: string): Promise<string | null>;
+  releaseActive(owner: string, id: string): Promise<void>;
+  // Id of the job holding the owner's active slot, if any.
+  active(owner: string): Promise<string | null>;
+  // Cancel requests live apart from the job, so a progress save can never write one away.
+  requestCancel(id: string): Promise<void>;
+  cancelRequested(id: string): Promise<boolean>;
+  subscribe(id: string, listener: FetchJobListener): Promise<() => void>;
+}
+
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+// A running job that has not reported for this long is assumed to belong to a dead worker.
+const STALE_AFTER_MS = 10 * 60 * 1000;
+const TERMINAL: FetchJobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function isFinished(job: FetchJob): boolean {
+  return TERMINAL.includes(job.status);
+}
+
+export function emptyProgress(): FetchProgress {
+  return {
+    phase: 'queued',
+    listed: 0,
+    processed: 0,
+    gated: 0,
+    skipped: 0,
+    classified: 0,
+    failed: 0,
+  };
+}
+
+export function createRedisFetchJobStore(redis: Redis): FetchJobStore {
+  const jobKey = (id: string) => `gmail-fetch:job:${id}`;
+  const activeKey = (owner: string) => `gmail-fetch:active:${owner}`;
+  const cancelKey = (id: string) => `gmail-fetch:cancel:${id}`;
+  const channel = (id: string) => `gmail-fetch:events:${id}`;
+  const queueKey = 'gmail-fetch:queue';
+  // Subscriptions need their own connection; created on first use.
+  let subscriber: Redis | null = null;
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+
+  return {
+    async save(job) {
+      const payload = JSON.stringify(job);
+      await redis.set(jobKey(job.id), payload, 'EX', JOB_TTL_SECONDS);
+      await redis.publish(channel(job.id), payload);
+    },
+    async get(id) {
+      const payload = await redis.get(jobKey(id));
+      return payload ? JSON.parse(payload) : null;
+    },
+    async push(id) {
+      await redis.lpush(queueKey, id);
+    },
+    async pop() {
+      return redis.rpop(queueKey);
+    },
+    async claimActive(owner, id) {
+      const ok = await redis.set(activeKey(owner), id, 'EX', JOB_TTL_SECONDS, 'NX');
+      if (ok) return null;
+      return redis.get(activeKey(owner));
+    },
+    async releaseActive(owner, id) {
+      if ((await redis.get(activeKey(owner))) === id) {
+        await redis.del(activeKey(owner));
+      }
+    },
+    async active(owner) {
+      return redis.get(activeKey(owner));
+    },
+    async requestCancel(id) {
+      await redis.set(cancelKey(id), '1', 'EX', JOB_TTL_SECONDS);
+    },
+    async cancelRequested(id) {
+      return (await redis.exists(cancelKey(id))) > 0;
+    },
+    async subscribe(id, listener) {
+      if (!subscriber) {
+        subscriber = redis.duplicate();
+        subscriber.on('message', (name: string, message: string) => {
+          try {
+            emitter.emit(name, JSON.parse(message));
+          } catch (err: any) {
+            console.error('Bad fetch job event', err.message || err);
+          }
+        });
+      }
+      const name = channel(id);
+      if (!emitter.listenerCount(name)) await subscriber.subscribe(name);
+      emitter.on(name, listener);
+      return () => {
+        emitter.off(name, listener);
+        if (!emitter.listenerCount(name)) {
+          subscriber?.unsubscribe(name).catch(() => undefined);
+        }
+      };
+    },
+  };
+}
+
+export function createMemoryFetchJobStore(): FetchJobStore {
+  const jobs = new Map<string, string>();
+  const queue: string[] = [];
+  const active = new Map<string, string>();
+  const cancels = new Set<string>();
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  return {
+    async save(job) {
+      jobs.set(job.id, JSON.stringify(job));
+      emitter.emit(job.id, JSON.parse(JSON.stringify(job)));
+    },
+    async get(id) {
+      const payload = jobs.get(id);
+      return payload ? JSON.parse(payload) : null;
+    },
+    async push(id) {
+      queue.unshift(id);
+    },
+    async pop() {
+      return queue.pop() || null;
+    },
+    async claimActive(owner, id) {
+      const current = active.get(owner);
+      if (current) return current;
+      active.set(owner, id);
+      return null;
+    },
+    async releaseActive(owner, id) {
+      if (active.get(owner) === id) active.delete(owner);
+    },
+    async active(owner) {
+      return active.get(owner) || null;
+    },
+    async requestCancel(id) {
+      cancels.add(id);
+    },
+    async cancelRequested(id) {
+      return cancels.has(id);
+    },
+    async subscribe(id, listener) {
+      emitter.on(id, listener);
+      return () => {
+        emitter.off(id, listener);
+      };
+    },
+  };
+}
+
+export interface FetchRunContext {
+  report(progress: Partial<FetchProgress>): void;
+  isCancelled(): Promise<boolean>;
+}
+
+export type FetchRunner = (
+  job: FetchJob,
+  context: FetchRunContext
+) => Promise<FetchJobResult & { cancelled?: boolean }>;
+
+/**
+ * Enqueue a fetch for an owner. While a job for the same owner is queued or running, that job
+ * is returned instead of starting a second one.
+ */
+export async function enqueueFetchJob(
+  store: FetchJobStore,
+  owner: string,
+  options: FetchJobOptions = {}
+): Promise<{ job: FetchJob; created: boolean }> {
+  const now = new Date().toISOString();
+  const job: FetchJob = {
+    id: crypto.randomUUID(),
+    owner,
+    status: 'queued',
+    options,
+    progress: emptyProgress(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const holder = await store.claimActive(owner, job.id);
+    if (!holder) {
+      await store.save(job);
+      await store.push(job.id);
+      return { job, created: true };
+    }
+    const existing = await store.get(holder);
+    const stale =
+      existing && Date.now() - Date.parse(existing.updatedAt) > STALE_AFTER_MS;
+    if (existing && !isFinished(existing) && !stale) {
+      return { job: existing, created: false };
+    }
+    if (existing && !isFinished(existing)) {
+      await store.save({
+        ...existing,
+        status: 'failed',
+        error: 'Worker stopped before the fetch finished',
+        updatedAt: now,
+        finishedAt: now,
+      });
+    }
+    await store.releaseActive(owner, holder);
+  }
+  throw new Error(`Could not enqueue Gmail fetch for ${owner}`);
+}
+
+/** Ask a job to stop. Queued jobs are cancelled at once; running ones stop after the current message. */
+export async function cancelFetchJob(store: FetchJobStore, id: string): Promise<FetchJob | null> {
+  const job = await store.get(id);
+  if (!job || isFinished(job)) return job;
+  await store.requestCancel(id);
+  const now = new Date().toISOString();
+  const next: FetchJob =
+    job.status === 'queued'
+      ? { ...job, status: 'cancelled', cancelRequested: true, updatedAt: now, finishedAt: now }
+      : { ...job, cancelRequested: true, updatedAt: now };
+  await store.save(next);
+  if (next.status === 'cancelled') await store.releaseActive(job.owner, job.id);
+  return next;
+}
+
+async function runJob(store: FetchJobStore, id: string, runner: FetchRunner): Promise<void> {
+  let job = await store.get(id);
+  if (!job || job.status !== 'queued') return;
+  job = { ...job, status: 'running', updatedAt: new Date().toISOString() };
+  await store.save(job);
+
+  // Progress saves are chained so they land in order and never overwrite the final state.
+  let saving: Promise<void> = Promise.resolve();
+  const context: FetchRunContext = {
+    report(progress) {
+      job = {
+        ...job!,
+        progress: { ...job!.progress, ...progress },
+        updatedAt: new Date().toISOString(),
+      };
+      const snapshot = job;
+      // A failed progress save is only logged; the next one or the final save catches up.
+      saving = saving
+        .then(async () => {
+          // Show a cancel request that arrived while this run was going.
+          const cancelRequested = (await store.cancelRequested(id)) || undefined;
+          await store.save({ ...snapshot, cancelRequested });
+        })
+        .catch((err) => console.error('Failed to save fetch progress', err?.message || err));
+    },
+    isCancelled() {
+      return store.cancelRequested(id);
+    },
+  };
+
+  let final: FetchJob;
+  try {
+    const result = await runner(job, context);
+    await saving;
+    const finishedAt = new Date().toISOString();
+    final = {
+      ...job,
+      status: result.cancelled ? 'cancelled' : 'succeeded',
+      result: result.preview
+        ? { fetched: result.fetched, preview: result.preview }
+        : result.monthlyBudgetExceeded
+          ? { fetched: result.fetched, monthlyBudgetExceeded: true }
+          : { fetched: result.fetched },
+      progress: { ...job.progress, phase: 'done' },
+      updatedAt: finishedAt,
+      finishedAt,
+    };
+  } catch (err: any) {
+    await saving;
+    const finishedAt = new Date().toISOString();
+    final = {
+      ...job,
+      status: 'failed',
+      error: err?.code || err?.message || 'Gmail fetch failed',
+      updatedAt: finishedAt,
+      finishedAt,
+    };
+    console.error(`Gmail fetch job ${id} failed`, err?.message || err);
+  }
+  const cancelRequested = (await store.cancelRequested(id)) || undefined;
+  await store.save({ ...final, cancelRequested });
+  await store.releaseActive(final.owner, id);
+}
+
+/**
+ * Process queued jobs one at a time in this process. Returns a stop function that resolves once
+ * the job in progress (if any) is finished.
+ */
+export function startFetchWorker(
+  store: FetchJobStore,
+  runner: FetchRunner,
+  options: { idleMs?: number } = {}
+): () => Promise<void> {
+  const idleMs = options.idleMs ?? 1000;
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const loop = (async () => {
+    while (!stopped) {
+      let id: string | null = null;
+      try {
+        id = await store.pop();
+        if (id) await runJob(store, id, runner);
+      } catch (err: any) {
+        console.error('Gmail fetch worker error', err?.message || err);
+      }
+      if (!id && !stopped) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, idleMs);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = null;
+      }
+    }
+  })();
+
+  return async () => {
+    stopped = true;
+    (wake as (() => void) | null)?.();
+    await loop;
+  };
+}
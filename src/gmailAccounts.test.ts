@@ -0,0 +1,116 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ingestAccounts, type IngestDeps } from './gmailIngest';
+import * as gmailStateStore from './gmailStateStore';
+import * as tokenStore from './gmailTokenStore';
+import { loadStageProviders } from './llmProviders';
+import { createLocalRepositories } from './localRepositories';
+import { createFileSecretStore, setSecretStore } from './secretStore';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { createFakeGmail } from './testing/fakeGmail';
+import { fixtureResponder, recruiterEmails } from './testing/fixtures';
+
+const owner = 'sam@example.com';
+const school = 'sam.lee@university.example';
+const DAY = 86400000;
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-accounts-'));
+  const chat = await startFakeChatServer(fixtureResponder());
+  const secrets = createFileSecretStore(path.join(dir, 'secrets.json.enc'), 'test key');
+  setSecretStore(secrets);
+  try {
+    // Each mailbox has its own tokens; the owner's own keeps the name it had before.
+    await tokenStore.saveTokens(owner, { refresh_token: 'personal' });
+    await tokenStore.saveTokens(owner, { refresh_token: 'school' }, school);
+    assert.ok((await secrets.listNames('gmail-token-')).includes('gmail-token-sam-example-com'));
+    assert.deepStrictEqual(await tokenStore.loadTokens(owner, school), {
+      refresh_token: 'school',
+    });
+    assert.deepStrictEqual(await tokenStore.listAccounts(owner), [owner, school]);
+    assert.deepStrictEqual(await tokenStore.listOwners(), [owner]);
+
+    const repos = createLocalRepositories(dir);
+    const personalGmail = createFakeGmail({ emailAddress: owner });
+    const schoolGmail = createFakeGmail({ emailAddress: school });
+    const deps = (gmail: ReturnType<typeof createFakeGmail>, gmailAccount: string): IngestDeps => ({
+      repos,
+      gmail: gmail.client,
+      gmailAccount,
+      cache: { set: async () => undefined, del: async () => undefined },
+      state: gmailStateStore.accountState(gmailAccount),
+      providers: loadStageProviders({
+        EMAIL_GATE_PROVIDER: 'openai-compatible',
+        EMAIL_CLASS_PROVIDER: 'openai-compatible',
+        LLM_BASE_URL: chat.url,
+      }),
+      gmailRetryDelayMs: 5,
+    });
+    const accounts = [deps(personalGmail, owner), deps(schoolGmail, school)];
+    // Each company rollup rebuild lists the company's job docs once.
+    const listIds = repos.jobs.listIds;
+    let rollupRefreshes = 0;
+    repos.jobs.listIds = (...args) => {
+      rollupRefreshes++;
+      return listIds(...args);
+    };
+
+    // Both mailboxes are read into the owner's emails, each tagged with where it came from, and
+    // each company's rollup is rebuilt once for the run, not once per email.
+    personalGmail.add({
+      ...recruiterEmails.acmeApplied.message,
+      internalDate: Date.now() - 3 * DAY,
+    });
+    schoolGmail.add({
+      ...recruiterEmails.initechRejection.message,
+      internalDate: Date.now() - 2 * DAY,
+    });
+    schoolGmail.add({
+      ...recruiterEmails.acmeInterview.message,
+      internalDate: Date.now() - 2 * DAY + 1000,
+    });
+    const first = await ingestAccounts(accounts, owner);
+    assert.strictEqual(first.fetched, 3);
+    assert.strictEqual(rollupRefreshes, 2);
+    const [acmeApp] = await repos.jobs.listApplicationsForCompany(owner, 'acme');
+    assert.deepStrictEqual(acmeApp.email_ids, ['acme-applied', 'acme-interview']);
+    assert.strictEqual((await repos.emails.get(owner, 'acme-applied'))?.gmailAccount, owner);
+    assert.strictEqual((await repos.emails.get(owner, 'initech-rejection'))?.gmailAccount, school);
+
+    // Separate cursors: the school mailbox's newer message does not move the personal one.
+    const personalState = await gmailStateStore.loadState(owner);
+    const schoolState = await gmailStateStore.loadState(owner, school);
+    assert.ok(personalState?.lastInternalDateMs && schoolState?.lastInternalDateMs);
+    assert.ok(schoolState.lastInternalDateMs > personalState.lastInternalDateMs);
+
+    // A mailbox that fails does not stop the others; only all of them failing fails the run.
+    schoolGmail.failNext('getProfile', 401);
+    personalGmail.add({
+      ...recruiterEmails.globexOutreach.message,
+      internalDate: Date.now() - DAY,
+    });
+    const second = await ingestAccounts(accounts, owner);
+    assert.strictEqual(second.fetched, 1);
+    assert.strictEqual((await repos.emails.get(owner, 'globex-outreach'))?.gmailAccount, owner);
+    personalGmail.failNext('getProfile', 401);
+    schoolGmail.failNext('getProfile', 401);
+    await assert.rejects(ingestAccounts(accounts, owner), /401/);
+
+    // Disconnecting forgets the tokens; the emails stay.
+    await tokenStore.disconnect(owner, school);
+    assert.deepStrictEqual(await tokenStore.listAccounts(owner), [owner]);
+    assert.ok(await repos.emails.get(owner, 'initech-rejection'));
+  } finally {
+    setSecretStore(null);
+    await chat.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  console.log('gmailAccounts tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
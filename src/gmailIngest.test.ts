@@ -0,0 +1,224 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  dueForRetry,
+  MAX_AUTO_ATTEMPTS,
+  recordFailure,
+  requestRetry,
+  retryDelayMs,
+} from './deadLetters';
+import { ingestGmailMessages, type IngestDeps, type MessageCache } from './gmailIngest';
+import type { GmailState } from './gmailStateStore';
+import { loadStageProviders } from './llmProviders';
+import { createLocalRepositories } from './localRepositories';
+import { createFakeGmail } from './testing/fakeGmail';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails, type EmailFixture } from './testing/fixtures';
+
+const owner = 'sam@example.com';
+const DAY = 86400000;
+const base = Date.now() - 6 * DAY;
+
+function at(fixture: EmailFixture, daysAfterBase: number) {
+  return { ...fixture.message, internalDate: base + daysAfterBase * DAY };
+}
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-ingest-'));
+  const chat = await startFakeChatServer(fixtureResponder());
+  try {
+    const repos = createLocalRepositories(dir);
+    const gmail = createFakeGmail({ emailAddress: owner });
+    const cached = new Map<string, string>();
+    const cache: MessageCache = {
+      set: async (key, value) => cached.set(key, value),
+      del: async (key) => cached.delete(key),
+    };
+    const states = new Map<string, GmailState>();
+    const deps: IngestDeps = {
+      repos,
+      gmail: gmail.client,
+      cache,
+      state: {
+        loadState: async (email) => states.get(email) || null,
+        saveState: async (email, partial) => {
+          const next = { ...(states.get(email) || {}), ...partial };
+          states.set(email, next);
+          return next;
+        },
+      },
+      providers: loadStageProviders({
+        EMAIL_GATE_PROVIDER: 'openai-compatible',
+        EMAIL_CLASS_PROVIDER: 'openai-compatible',
+        EMAIL_GATE_MODEL: 'fake-gate',
+        EMAIL_CLASS_MODEL: 'fake-classify',
+        LLM_BASE_URL: chat.url,
+      }),
+      gmailRetryDelayMs: 5,
+    };
+
+    // 1. First sync: no cursor, so a time-window query. One Gmail 429 and one LLM 429 are retried.
+    gmail.add(
+      at(recruiterEmails.acmeApplied, 0),
+      at(recruiterEmails.globexOutreach, 1),
+      at(recruiterEmails.weeklyDigest, 2),
+      at(recruiterEmails.initechRejection, 3)
+    );
+    gmail.failNext('messages.get', 429);
+    chat.failNext(429);
+    const first = await ingestGmailMessages(deps, owner);
+    assert.strictEqual(first.fetched, 3);
+    assert.strictEqual(gmail.callCount('messages.list'), 1);
+    assert.strictEqual(gmail.callCount('messages.get'), 5);
+    const firstList = gmail.calls.find((c) => c.method === 'messages.list');
+    assert.strictEqual(firstList?.params.q, 'newer_than:7d');
+    // The Greenhouse confirmation matches its ATS template and skips the LLM: 3 gate calls +
+    // 2 classify calls + the rate-limited attempt.
+    assert.strictEqual(chat.requests.length, 6);
+    const acme = await repos.emails.get(owner, 'acme-applied');
+    assert.strictEqual(acme?.classification?.model, 'ats:greenhouse');
+    assert.strictEqual(acme?.classification?.requisition_id, 'R-10492');
+    assert.strictEqual(cached.size, 0);
+    assert.strictEqual(await repos.emails.get(owner, 'weekly-digest'), null);
+    assert.deepStrictEqual(states.get(owner), {
+      historyId: '1004',
+      lastInternalDateMs: base + 3 * DAY,
+    });
+
+    let companies = await repos.jobs.listCompanies(owner, 'company');
+    assert.deepStrictEqual(
+      companies.map((c) => [c.company_name, c.applied, c.recruiter_outreach, c.rejected]),
+      [
+        ['Acme', 1, 0, 0],
+        ['Globex', 0, 1, 0],
+        ['Initech', 0, 0, 1],
+      ]
+    );
+
+    // 2. Incremental sync through the history API picks up only the new interview email. It
+    // replies in the Acme thread, so it skips the gate and is classified with the thread in view.
+    gmail.add(at(recruiterEmails.acmeInterview, 4));
+    const requestsBeforeReply = chat.requests.length;
+    const phases: string[] = [];
+    let progress = {};
+    const second = await ingestGmailMessages(deps, owner, {
+      onProgress: (update) => {
+        const last = phases[phases.length - 1];
+        if (update.phase && update.phase !== last) phases.push(update.phase);
+        progress = { ...progress, ...update };
+      },
+    });
+    assert.strictEqual(second.fetched, 1);
+    assert.deepStrictEqual(phases, ['listing', 'processing', 'done']);
+    assert.deepStrictEqual(progress, {
+      phase: 'done',
+      listed: 1,
+      processed: 1,
+      gated: 1,
+      skipped: 0,
+      classified: 1,
+      failed: 0,
+    });
+    assert.strictEqual(gmail.callCount('history.list'), 1);
+    assert.strictEqual(gmail.callCount('messages.list'), 1);
+    assert.strictEqual(states.get(owner)?.historyId, '1005');
+    assert.strictEqual(chat.requests.length, requestsBeforeReply + 1);
+    assert.ok(chat.requests[requestsBeforeReply].user.includes('Earlier messages in this thread'));
+    assert.ok(chat.requests[requestsBeforeReply].user.includes('Senior Backend Engineer (R-10492)'));
+    const interviewEmail = await repos.emails.get(owner, 'acme-interview');
+    assert.strictEqual(interviewEmail?.classification?.status, 'interview_scheduled');
+    assert.strictEqual(interviewEmail?.interview?.start, '2024-03-12T18:00:00.000Z');
+    assert.deepStrictEqual(interviewEmail?.interview?.interviewers, ['Dana Ortiz', 'Wei Chen']);
+    const acmeApps = await repos.jobs.listApplicationsForCompany(owner, 'acme');
+    assert.strictEqual(acmeApps.length, 1);
+    assert.strictEqual(acmeApps[0].stage, 'interview');
+    assert.deepStrictEqual(acmeApps[0].email_ids, ['acme-applied', 'acme-interview']);
+
+    // 3. The stored history id expired: history.list 404s and the time-window query takes over.
+    gmail.expireHistory();
+    gmail.add(at(recruiterEmails.hooliAssessment, 5));
+    const third = await ingestGmailMessages(deps, owner);
+    assert.strictEqual(third.fetched, 1);
+    assert.strictEqual(gmail.callCount('history.list'), 2);
+    const fallbackList = gmail.calls.filter((c) => c.method === 'messages.list')[1];
+    assert.strictEqual(fallbackList.params.q, `after:${Math.floor((base + 4 * DAY) / 1000)}`);
+    assert.strictEqual(states.get(owner)?.historyId, '1006');
+    assert.strictEqual(states.get(owner)?.lastInternalDateMs, base + 5 * DAY);
+
+    // 4. Nothing new: a rerun stores nothing and the rollups stay the same.
+    const requestsBefore = chat.requests.length;
+    const fourth = await ingestGmailMessages(deps, owner);
+    assert.strictEqual(fourth.fetched, 0);
+    assert.strictEqual(chat.requests.length, requestsBefore);
+    companies = await repos.jobs.listCompanies(owner, 'company');
+    assert.deepStrictEqual(
+      companies.map((c) => [c.company_name, c.applied + c.interview_scheduled + c.assessment]),
+      [
+        ['Acme', 2],
+        ['Globex', 0],
+        ['Hooli', 1],
+        ['Initech', 0],
+      ]
+    );
+
+    // 5. A classify error moves the message to the dead-letter store; the cursor still advances.
+    // The reply continues the Globex thread, so no gate call comes first.
+    gmail.add(at(recruiterEmails.globexNextSteps, 5.5));
+    chat.failNext(500);
+    const fifth = await ingestGmailMessages(deps, owner);
+    // Stored before classification, so it counts as fetched.
+    assert.strictEqual(fifth.fetched, 1);
+    assert.strictEqual(states.get(owner)?.historyId, '1007');
+    let [failure] = await repos.failures.listByOwner(owner);
+    assert.strictEqual(failure.messageId, 'globex-next-steps');
+    assert.strictEqual(failure.stage, 'classify');
+    assert.strictEqual(failure.attempts, 1);
+    assert.strictEqual(failure.subject, 'Re: Platform Engineer opportunity at Globex');
+    assert.match(failure.error, /^500: /);
+    assert.strictEqual(cached.size, 0);
+
+    // Not retried before its backoff is due.
+    const requestsBeforeRetry = chat.requests.length;
+    assert.strictEqual((await ingestGmailMessages(deps, owner)).fetched, 0);
+    assert.strictEqual(chat.requests.length, requestsBeforeRetry);
+
+    // Once due, the next run retries it even though Gmail history no longer lists it.
+    await requestRetry(repos.failures, owner, failure.id);
+    const retried = await ingestGmailMessages(deps, owner);
+    assert.strictEqual(retried.fetched, 1);
+    assert.deepStrictEqual(await repos.failures.listByOwner(owner), []);
+    const nextSteps = await repos.emails.get(owner, 'globex-next-steps');
+    assert.strictEqual(nextSteps?.classification?.status, 'next_steps');
+
+    // Automatic retries back off and stop after MAX_AUTO_ATTEMPTS.
+    const now = new Date('2024-05-01T00:00:00Z');
+    for (let i = 1; i <= MAX_AUTO_ATTEMPTS; i++) {
+      failure = await recordFailure(
+        repos.failures,
+        { owner, messageId: 'broken', stage: 'fetch', error: new Error('boom') },
+        now
+      );
+    }
+    assert.strictEqual(retryDelayMs(1), 15 * 60 * 1000);
+    assert.strictEqual(retryDelayMs(2), 60 * 60 * 1000);
+    assert.strictEqual(failure.status, 'exhausted');
+    assert.strictEqual(failure.nextAttemptAt, undefined);
+    assert.deepStrictEqual(dueForRetry([failure], now), []);
+    await repos.failures.delete(owner, 'broken');
+
+    // A persistent Gmail outage still surfaces after the retries run out.
+    gmail.failNext('getProfile', 503, 4);
+    await assert.rejects(ingestGmailMessages(deps, owner), /503/);
+  } finally {
+    await chat.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  console.log('gmailIngest tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
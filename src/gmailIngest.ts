@@ -0,0 +1,827 @@
+import type { gmail_v1 } from 'googleapis';
+import { parseAtsEmail } from './atsParsers';
+import { inviteEvent, listAttachments, readAttachments } from './attachments';
+import { normalizeInterviewEvent } from './calendarFeed';
+import { filterEmailsByCompany } from './companyFilter';
+import { createCompanyResolver, loadCompanyAliases } from './companyNames';
+import { createKeyedQueue, runPool, sharedLimiter, type RateLimits } from './concurrency';
+import { buildFeedback, withOverride, type ClassifierFeedback } from './corrections';
+import { dueForRetry, recordFailure } from './deadLetters';
+import { classifyEmail, classifyIsJobRelated } from './emailClassifier';
+import type { FetchProgress } from './fetchJobs';
+import type { GmailState } from './gmailStateStore';
+import type { StageProviders } from './llmProviders';
+import { extractMessageBody } from './mimeBody';
+import type { Repositories } from './repositories';
+import { buildRollups, type RollupResult } from './rollups';
+import { isJobThread, threadContext, type ThreadContext } from './threads';
+import type { ClassificationResult, FailureStage, GmailEmailDoc } from './types';
+import type { UsageTracker } from './usage';
+
+/** The part of the googleapis Gmail client that ingestion uses; tests pass a fake. */
+export interface GmailClient {
+  users: {
+    getProfile(params: { userId: string }): Promise<{ data: gmail_v1.Schema$Profile }>;
+    history: {
+      list(
+        params: gmail_v1.Params$Resource$Users$History$List
+      ): Promise<{ data: gmail_v1.Schema$ListHistoryResponse }>;
+    };
+    messages: {
+      list(
+        params: gmail_v1.Params$Resource$Users$Messages$List
+      ): Promise<{ data: gmail_v1.Schema$ListMessagesResponse }>;
+      get(
+        params: gmail_v1.Params$Resource$Users$Messages$Get
+      ): Promise<{ data: gmail_v1.Schema$Message }>;
+      attachments: {
+        get(
+          params: gmail_v1.Params$Resource$Users$Messages$Attachments$Get
+        ): Promise<{ data: gmail_v1.Schema$MessagePartBody }>;
+      };
+    };
+  };
+}
+
+// Holds a fetched message while it is gated, so a crash mid-pipeline leaves a trace (Redis in prod).
+export interface MessageCache {
+  set(key: string, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+export interface IngestStateStore {
+  loadState(ownerEmail: string): Promise<GmailState | null>;
+  saveState(ownerEmail: string, partial: GmailState): Promise<GmailState>;
+}
+
+export interface IngestDeps {
+  repos: Repositories;
+  gmail: GmailClient;
+  // The connected mailbox `gmail` reads (default: the owner's own address).
+  gmailAccount?: string;
+  cache: MessageCache;
+  state: IngestStateStore;
+  providers: StageProviders;
+  // First delay when Gmail answers 429/5xx; doubles on each retry.
+  gmailRetryDelayMs?: number;
+  // Messages fetched, gated and classified at the same time (default 8).
+  messageConcurrency?: number;
+  // Stops the run once the owner's monthly LLM spend reaches their budget.
+  usage?: Pick<UsageTracker, 'overBudget'>;
+}
+
+// Gmail allows 15,000 quota units per user per minute; messages.get costs 5 of them.
+const GMAIL_LIMITS: RateLimits = { maxConcurrency: 10, rpm: 2400 };
+const DEFAULT_MESSAGE_CONCURRENCY = 8;
+
+export interface IngestOptions {
+  queryOverride?: string;
+  skipStateUpdate?: boolean;
+  onProgress?: (progress: Partial<FetchProgress>) => void;
+  // Checked before each message; a cancelled run stops early and leaves the cursor untouched.
+  isCancelled?: () => Promise<boolean>;
+  // Stop before the next message once this many gate/classify calls have been made.
+  llmBudget?: number;
+  // Companies whose rollups the caller refreshes once it is done; by default each run refreshes
+  // the companies it classified mail for when it ends.
+  rollupCompanies?: Set<string>;
+}
+
+export interface IngestResult {
+  fetched: number;
+  owner?: string;
+  llmCalls: number;
+  cancelled?: boolean;
+  budgetExhausted?: boolean;
+  monthlyBudgetExceeded?: boolean;
+  // Mailboxes that failed while others went on (ingestAccounts only).
+  failedAccounts?: Array<{ account: string; error: string }>;
+}
+
+export function extractHeader(
+  headers: Array<{ name?: string | null; value?: string | null }> = [],
+  name: string
+): string {
+  const header = headers.find((h) => h.name === name);
+  return header ? header.value || '' : '';
+}
+
+function redisEmailKey(ownerEmail: string, messageId: string): string {
+  const owner = (ownerEmail || '').toLowerCase();
+  return `gmail:${owner}:${messageId}`;
+}
+
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  attempts = 4,
+  baseDelayMs = 200,
+  shouldRetry: (err: any) => boolean = () => true
+): Promise<T> {
+  let lastErr: any;
+  for (let i = 0; i < attempts; i++) {
+    try {
+      return await operation();
+    } catch (err: any) {
+      lastErr = err;
+      const isLast = i === attempts - 1;
+      if (isLast || !shouldRetry(err)) break;
+      const delay = baseDelayMs * Math.pow(2, i);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  throw lastErr;
+}
+
+function isRetryableGmailError(err: any): boolean {
+  const status = Number(err?.code ?? err?.status ?? err?.response?.status);
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Rebuild the jobs rollups for an owner (or one company) from stored classified emails.
+ * Documents that no longer have any backing email are removed, so running this twice is a no-op.
+ */
+export function refreshRollups(
+  repos: Repositories,
+  ownerEmail: string,
+  companyName?: string
+): Promise<RollupResult> {
+  // Rollups read every stored email and rewrite the job docs, so concurrent refreshes for the
+  // same owner would overwrite each other; run them one at a time.
+  return rollupQueue(ownerEmail, () => rebuildRollups(repos, ownerEmail, companyName));
+}
+
+const rollupQueue = createKeyedQueue();
+
+/** Refresh the rollups of each company once, e.g. after a sync classified many of its emails. */
+export async function refreshCompanyRollups(
+  repos: Repositories,
+  ownerEmail: string,
+  companyNames: Iterable<string>
+): Promise<void> {
+  for (const companyName of companyNames) {
+    try {
+      await refreshRollups(repos, ownerEmail, companyName);
+    } catch (err: any) {
+      console.error('Failed to refresh job rollups', err.message || err);
+    }
+  }
+}
+
+async function rebuildRollups(
+  repos: Repositories,
+  ownerEmail: string,
+  companyName?: string
+): Promise<RollupResult> {
+  const [emails, aliases] = await Promise.all([
+    repos.emails.listByOwner(ownerEmail),
+    loadCompanyAliases(repos, ownerEmail),
+  ]);
+  const companies = createCompanyResolver(emails, aliases);
+  const scoped = companyName
+    ? filterEmailsByCompany(emails, companyName, undefined, companies)
+    : emails;
+  const result = buildRollups(ownerEmail, scoped, undefined, companies);
+  const existing = await repos.jobs.listIds(
+    ownerEmail,
+    companyName ? companies.canonical(companyName).slug : undefined
+  );
+
+  const keep = new Set<string>();
+  for (const doc of [...result.companies, ...result.applications]) {
+    keep.add(doc.id);
+    await retryWithBackoff(() => repos.jobs.upsert(doc));
+  }
+  for (const id of existing) {
+    if (keep.has(id)) continue;
+    await retryWithBackoff(() => repos.jobs.delete(ownerEmail, id));
+  }
+  for (const email of scoped) {
+    const applicationId = result.emailApplications.get(email.id);
+    if (applicationId && email.applicationId !== applicationId) {
+      email.applicationId = applicationId;
+      await retryWithBackoff(() => repos.emails.upsert(email));
+    }
+  }
+  return result;
+}
+
+/**
+ * Put a classifier result on an email doc; interview details are normalized separately and a
+ * user's correction stays on top of the new result.
+ */
+export function setClassification(
+  emailDoc: GmailEmailDoc,
+  classification: ClassificationResult
+): void {
+  const { interview, ...stored } = classification;
+  emailDoc.classification = withOverride(stored, emailDoc.classificationOverride);
+  // An attached invite states the time exactly; the model's reading of the text is the fallback.
+  const invite = inviteEvent(emailDoc);
+  const scheduled = interview || stored.status === 'interview_scheduled';
+  emailDoc.interview = invite && scheduled ? invite : normalizeInterviewEvent(interview);
+  emailDoc.classifiedAt = new Date().toISOString();
+}
+
+export async function classifyEmailAndUpsert(
+  emailDoc: GmailEmailDoc,
+  repos: Repositories,
+  providers: StageProviders,
+  feedback?: ClassifierFeedback,
+  thread?: ThreadContext,
+  rollupCompanies?: Set<string>
+): Promise<ClassificationResult | null> {
+  const ownerEmail = (emailDoc.owner || '').trim().toLowerCase();
+  if (!ownerEmail) {
+    console.warn('Email document missing owner, skipping classification upsert.');
+    return null;
+  }
+  const classification = await classifyEmail(providers.classify, emailDoc, feedback, thread);
+  if (!classification) return null;
+  return storeClassification(emailDoc, repos, classification, rollupCompanies);
+}
+
+/**
+ * Persist a classification (from the LLM or an ATS template) and refresh its company rollup, or
+ * add the company to `rollupCompanies` for the caller to refresh once for many emails.
+ */
+async function storeClassification(
+  emailDoc: GmailEmailDoc,
+  repos: Repositories,
+  classification: ClassificationResult,
+  rollupCompanies?: Set<string>
+): Promise<ClassificationResult> {
+  const ownerEmail = emailDoc.owner.trim().toLowerCase();
+  console.log(
+    `Classified email "${emailDoc.subject || '(no subject)'}" → ${
+      classification.status
+    } (${classification.company_name || 'unknown company'})`
+  );
+  // Persist the classification before touching rollups: rollups are derived from stored emails,
+  // so a crash after this point is repaired by the next refresh instead of double counting.
+  setClassification(emailDoc, classification);
+  await retryWithBackoff(() => repos.emails.upsert(emailDoc));
+  const companyName = (classification.company_name || '').trim();
+  if (companyName && rollupCompanies) {
+    rollupCompanies.add(companyName);
+  } else if (companyName) {
+    try {
+      const result = await refreshRollups(repos, ownerEmail, companyName);
+      emailDoc.applicationId = result.emailApplications.get(emailDoc.id) || emailDoc.applicationId;
+    } catch (err: any) {
+      console.error('Failed to refresh job rollups', err.message || err);
+    }
+  }
+  return classification;
+}
+
+/**
+ * Pull new Gmail messages for one owner, gate and classify them, and store the job-related ones.
+ * Uses the history API when a cursor exists and falls back to a time-window query when the
+ * history id has expired. Rollups are refreshed once per company at the end, not per email.
+ */
+export async function ingestGmailMessages(
+  deps: IngestDeps,
+  ownerEmail: string,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const rollupCompanies = options.rollupCompanies || new Set<string>();
+  try {
+    return await ingestMailbox(deps, ownerEmail, { ...options, rollupCompanies });
+  } finally {
+    if (!options.rollupCompanies) {
+      await refreshCompanyRollups(deps.repos, ownerEmail, rollupCompanies);
+    }
+  }
+}
+
+async function ingestMailbox(
+  deps: IngestDeps,
+  ownerEmail: string,
+  options: IngestOptions
+): Promise<IngestResult> {
+  const { repos, cache, providers } = deps;
+  const {
+    queryOverride = '',
+    skipStateUpdate = false,
+    onProgress,
+    isCancelled,
+    rollupCompanies,
+  } = options;
+  const llmBudget = options.llmBudget ?? Infinity;
+  let llmCalls = 0;
+  const progress = { listed: 0, processed: 0, gated: 0, skipped: 0, classified: 0, failed: 0 };
+  const report = (phase: FetchProgress['phase']) => onProgress?.({ phase, ...progress });
+  const useState = !queryOverride;
+  // Gmail quota is per mailbox, so each connected account gets its own limiter.
+  const gmailLimiter = sharedLimiter(`gmail#${deps.gmailAccount || ownerEmail}`, GMAIL_LIMITS);
+  const gmailCall = <T>(operation: () => Promise<T>) =>
+    retryWithBackoff(
+      () => gmailLimiter.run(operation),
+      4,
+      deps.gmailRetryDelayMs ?? 500,
+      isRetryableGmailError
+    );
+  const gmail = deps.gmail.users;
+
+  let state: GmailState = {};
+  let lastInternalDateMs: number | null = null;
+  let historyId: string | null = null;
+  if (useState) {
+    state = (await deps.state.loadState(ownerEmail)) || {};
+    lastInternalDateMs = state.lastInternalDateMs ? Number(state.lastInternalDateMs) : null;
+    historyId = state.historyId ? String(state.historyId) : null;
+  }
+
+  const profileResp = await gmailCall(() => gmail.getProfile({ userId: 'me' }));
+  const gmailAccountEmail = (profileResp.data.emailAddress || ownerEmail).toLowerCase();
+  const profileHistoryId = profileResp.data.historyId ? String(profileResp.data.historyId) : null;
+  // Emails are stored under the owner whichever mailbox they came from, tagged with the mailbox.
+  if (deps.gmailAccount && gmailAccountEmail !== deps.gmailAccount.toLowerCase()) {
+    console.warn(
+      `Gmail tokens for ${deps.gmailAccount} belong to ${gmailAccountEmail}; tagging emails with the latter.`
+    );
+  }
+
+  report('listing');
+  let usedHistorySync = false;
+  let historyMessageIds: string[] = [];
+  let historyThreadIds = new Map<string, string | undefined>();
+  let newHistoryId: string | null = null;
+  if (useState && historyId && !queryOverride) {
+    try {
+      // Message id → thread id, so messages of one thread can be processed in order.
+      const seen = new Map<string, string | undefined>();
+      let pageToken: string | undefined;
+      let latestHistoryId = historyId;
+      do {
+        const historyResp = await gmailCall(() =>
+          gmail.history.list({
+            userId: 'me',
+            startHistoryId: historyId!,
+            pageToken,
+            maxResults: 200,
+            historyTypes: ['messageAdded', 'labelAdded', 'labelRemoved'],
+          })
+        );
+        const history = historyResp.data.history || [];
+        pageToken = historyResp.data.nextPageToken || undefined;
+        for (const entry of history) {
+          if (entry.id && Number(entry.id) > Number(latestHistoryId)) {
+            latestHistoryId = String(entry.id);
+          }
+          const added = entry.messagesAdded || [];
+          for (const item of added) {
+            if (item.message?.id) {
+              seen.set(item.message.id, item.message.threadId || undefined);
+            }
+          }
+          const messages = entry.messages || [];
+          for (const msg of messages) {
+            if (msg.id && !seen.get(msg.id)) {
+              seen.set(msg.id, msg.threadId || undefined);
+            }
+          }
+        }
+      } while (pageToken);
+      historyMessageIds = Array.from(seen.keys());
+      historyThreadIds = seen;
+      usedHistorySync = true;
+      newHistoryId = latestHistoryId;
+      if (!historyMessageIds.length) {
+        console.log(`[Gmail] No new history events after ${historyId} for ${ownerEmail}`);
+      }
+    } catch (err: any) {
+      usedHistorySync = false;
+      historyMessageIds = [];
+      historyThreadIds = new Map();
+      console.warn(
+        `[Gmail] History sync failed; falling back to time-window query`,
+        err?.message || err
+      );
+    }
+  }
+
+  let gmailQuery = '';
+  if (!usedHistorySync) {
+    const queryParts: string[] = [];
+    if (queryOverride) {
+      queryParts.push(queryOverride);
+    } else if (lastInternalDateMs) {
+      const afterSeconds = Math.floor(lastInternalDateMs / 1000);
+      queryParts.push(`after:${afterSeconds}`);
+    } else {
+      queryParts.push('newer_than:7d');
+    }
+    gmailQuery = queryParts.join(' ').trim();
+  }
+
+  const storedDocs: GmailEmailDoc[] = [];
+  // The owner's corrections, read once on the first classification of the run.
+  let feedback: Promise<ClassifierFeedback> | null = null;
+  const loadFeedback = () => {
+    feedback ||= repos.emails
+      .listByOwner(ownerEmail)
+      .then(buildFeedback)
+      .catch((err: any) => {
+        console.error('Failed to load classification corrections', err?.message || err);
+        return buildFeedback([]);
+      });
+    return feedback;
+  };
+  // Failures of the owner's other mailboxes are left for their own runs.
+  const knownFailures = new Map(
+    (await repos.failures.listByOwner(ownerEmail))
+      .filter((failure) => !failure.gmailAccount || failure.gmailAccount === gmailAccountEmail)
+      .map((failure) => [failure.messageId, failure])
+  );
+  const fail = async (
+    stage: FailureStage,
+    err: unknown,
+    ref: { id: string; threadId?: string },
+    doc?: GmailEmailDoc
+  ) => {
+    progress.failed++;
+    try {
+      const failure = await recordFailure(repos.failures, {
+        owner: ownerEmail,
+        messageId: ref.id,
+        gmailAccount: gmailAccountEmail,
+        threadId: doc?.threadId || ref.threadId,
+        subject: doc?.subject,
+        from: doc?.from,
+        internalDate: doc?.internalDate,
+        stage,
+        error: err,
+      });
+      knownFailures.set(ref.id, failure);
+    } catch (recordErr: any) {
+      console.error('Failed to record failed Gmail message', recordErr?.message || recordErr);
+    }
+  };
+  const succeeded = async (messageId: string) => {
+    if (!knownFailures.delete(messageId)) return;
+    try {
+      await repos.failures.delete(ownerEmail, messageId);
+    } catch (err: any) {
+      console.error('Failed to clear failed Gmail message', err?.message || err);
+    }
+  };
+
+  // Returns the message's internal date so the cursor can follow the finished prefix; failures
+  // go to the dead-letter store instead of stopping the run.
+  const handleMessage = async (
+    messageId: string,
+    threadId?: string
+  ): Promise<number | undefined> => {
+    let data: gmail_v1.Schema$Message;
+    try {
+      ({ data } = await gmailCall(() =>
+        gmail.messages.get({
+          userId: 'me',
+          id: messageId,
+          format: 'full',
+        })
+      ));
+    } catch (err: any) {
+      await fail('fetch', err, { id: messageId, threadId });
+      return undefined;
+    }
+
+    const headers = data.payload ? data.payload.headers || [] : [];
+    const internalDateMs = Number(data.internalDate) || Date.now();
+    const doc: GmailEmailDoc = {
+      id: data.id || messageId,
+      threadId: data.threadId || threadId || '',
+      owner: ownerEmail,
+      gmailAccount: gmailAccountEmail,
+      from: extractHeader(headers, 'From') || 'unknown',
+      to: extractHeader(headers, 'To') || '',
+      subject: extractHeader(headers, 'Subject') || '(No subject)',
+      date: extractHeader(headers, 'Date') || '',
+      snippet: data.snippet || '',
+      body: extractMessageBody(data.payload) || data.snippet || '',
+      labelIds: data.labelIds || [],
+      fetchedAt: new Date().toISOString(),
+      internalDate: internalDateMs,
+    };
+    const attachments = listAttachments(data.payload);
+    if (attachments.length) doc.attachments = attachments;
+
+    // If we already have this message stored, skip reprocessing to avoid repeated gating/classification.
+    let existingDoc: GmailEmailDoc | null = null;
+    try {
+      existingDoc = await retryWithBackoff(() => repos.emails.get(ownerEmail, doc.id));
+      if (existingDoc?.classification?.status) {
+        progress.gated++;
+        await succeeded(messageId);
+        return internalDateMs;
+      }
+      if (existingDoc) {
+        doc.createdAt = existingDoc.createdAt || existingDoc.fetchedAt || doc.fetchedAt;
+      }
+    } catch (err: any) {
+      console.error('Failed to read existing Gmail doc', err);
+    }
+
+    if (doc.attachments) {
+      await readAttachments(
+        doc.attachments,
+        data.payload,
+        async (attachmentId) => {
+          const { data: body } = await gmailCall(() =>
+            gmail.messages.attachments.get({ userId: 'me', messageId, id: attachmentId })
+          );
+          return body.data;
+        },
+        gmailAccountEmail || ownerEmail
+      );
+    }
+
+    // Earlier messages of the thread were stored first (threads run in order), so a reply can be
+    // classified with them in view.
+    let thread: ThreadContext = { messages: [] };
+    if (doc.threadId) {
+      try {
+        thread = threadContext(
+          doc,
+          await retryWithBackoff(() => repos.emails.listByThread(ownerEmail, doc.threadId!))
+        );
+      } catch (err: any) {
+        console.error('Failed to read Gmail thread context', err?.message || err);
+      }
+    }
+
+    const cacheKey = redisEmailKey(ownerEmail, doc.id);
+    await cache.set(cacheKey, JSON.stringify(doc));
+    console.log(`[Cache] Cached Gmail message ${doc.id} for ${ownerEmail}`);
+    try {
+      // Known ATS templates are read directly; the LLM only sees mail they do not cover.
+      const parsed = parseAtsEmail(doc);
+      // Only job-related mail is stored, so a stored but unclassified message already passed, and
+      // a reply in a thread that already passed is job related too.
+      const skipGate = Boolean(existingDoc || parsed || isJobThread(thread));
+      if (!skipGate) {
+        llmCalls++;
+        let isJobRelated: boolean;
+        try {
+          isJobRelated = await classifyIsJobRelated(providers.gate, doc);
+        } catch (err: any) {
+          await fail('gate', err, { id: messageId, threadId }, doc);
+          return internalDateMs;
+        }
+        if (!isJobRelated) {
+          progress.skipped++;
+          console.log(`[Gate] Skipped non-job email ${doc.id} (${doc.subject})`);
+          await succeeded(messageId);
+          return internalDateMs;
+        }
+      }
+      progress.gated++;
+      console.log(`[Gate] Job-related email ${doc.id} (${doc.subject})`);
+
+      const stored = await retryWithBackoff(() => repos.emails.upsert(doc));
+      const alreadyClassified = Boolean(stored?.classification?.status);
+      storedDocs.push(doc);
+      console.log(
+        `[${repos.backend}] Upserted Gmail message ${doc.id} (classified=${alreadyClassified})`
+      );
+
+      if (!alreadyClassified && parsed) {
+        try {
+          await storeClassification(doc, repos, parsed, rollupCompanies);
+          progress.classified++;
+          console.log(`[ATS] Parsed ${doc.id} (${parsed.source}) → ${parsed.status}`);
+        } catch (err: any) {
+          await fail('classify', err, { id: messageId, threadId }, doc);
+          return internalDateMs;
+        }
+      } else if (!alreadyClassified && providers.classify) {
+        llmCalls++;
+        try {
+          const classification = await classifyEmailAndUpsert(
+            doc,
+            repos,
+            providers,
+            await loadFeedback(),
+            thread,
+            rollupCompanies
+          );
+          if (classification) {
+            progress.classified++;
+            console.log(`[LLM] Classified ${doc.id} → ${classification.status}`);
+          }
+        } catch (err: any) {
+          await fail('classify', err, { id: messageId, threadId }, doc);
+          return internalDateMs;
+        }
+      }
+      await succeeded(messageId);
+      return internalDateMs;
+    } finally {
+      try {
+        await cache.del(cacheKey);
+        console.log(`[Cache] Deleted cache for message ${doc.id}`);
+      } catch (err: any) {
+        console.error('Failed to delete cached Gmail message', err?.message || err);
+      }
+    }
+  };
+
+  const messageRefs: Array<{ id: string; threadId?: string }> = [];
+  if (usedHistorySync) {
+    messageRefs.push(
+      ...historyMessageIds.map((id) => ({ id, threadId: historyThreadIds.get(id) }))
+    );
+  } else {
+    let pageToken: string | undefined;
+    do {
+      const messageList = await gmailCall(() =>
+        gmail.messages.list({
+          userId: 'me',
+          q: gmailQuery || undefined,
+          maxResults: 100,
+          pageToken,
+        })
+      );
+      const messages = messageList.data.messages || [];
+      pageToken = messageList.data.nextPageToken || undefined;
+      for (const message of messages) {
+        if (!message.id) continue;
+        messageRefs.push({ id: message.id, threadId: message.threadId || undefined });
+      }
+    } while (pageToken);
+
+    // Gmail list returns newest-first; process oldest-first for deterministic history updates.
+    messageRefs.reverse();
+  }
+
+  // Earlier failures whose retry is due go first, unless this run lists them anyway.
+  const listedIds = new Set(messageRefs.map((ref) => ref.id));
+  const retries = dueForRetry([...knownFailures.values()]).filter(
+    (failure) => !listedIds.has(failure.messageId)
+  );
+  messageRefs.unshift(
+    ...retries.map((failure) => ({ id: failure.messageId, threadId: failure.threadId }))
+  );
+
+  progress.listed = messageRefs.length;
+  report('processing');
+  let cancelled = false;
+  let budgetExhausted = false;
+  let monthlyBudgetExceeded = false;
+  const internalDates: Array<number | undefined> = [];
+  // Messages run in parallel but start oldest-first; the budget can overshoot by the messages
+  // already in flight. Messages of one thread run one after another so replies see what came
+  // before them.
+  const threadQueue = createKeyedQueue();
+  const { completed } = await runPool(
+    messageRefs,
+    deps.messageConcurrency ?? DEFAULT_MESSAGE_CONCURRENCY,
+    async (ref, index) => {
+      try {
+        internalDates[index] = await threadQueue(ref.threadId || ref.id, () =>
+          handleMessage(ref.id, ref.threadId)
+        );
+      } finally {
+        progress.processed++;
+        report('processing');
+      }
+    },
+    async () => {
+      if (isCancelled && (await isCancelled())) {
+        cancelled = true;
+      } else if (llmCalls >= llmBudget) {
+        budgetExhausted = true;
+      } else if (deps.usage && (await deps.usage.overBudget(ownerEmail))) {
+        monthlyBudgetExceeded = true;
+      }
+      return cancelled || budgetExhausted || monthlyBudgetExceeded;
+    }
+  );
+  // The cursor may only move past messages that finished along with everything older.
+  const maxInternalDate = internalDates
+    .slice(0, completed)
+    .reduce<number>((max, date) => Math.max(max, date || 0), lastInternalDateMs || 0);
+  report('done');
+
+  if (cancelled) {
+    console.log(
+      `Gmail fetch for ${ownerEmail} cancelled after ${progress.processed}/${progress.listed} messages.`
+    );
+    return { fetched: storedDocs.length, owner: ownerEmail, llmCalls, cancelled: true };
+  }
+  if (budgetExhausted) {
+    console.log(
+      `Gmail fetch for ${ownerEmail} stopped at its LLM budget (${llmCalls} calls) after ${progress.processed}/${progress.listed} messages.`
+    );
+    return { fetched: storedDocs.length, owner: ownerEmail, llmCalls, budgetExhausted: true };
+  }
+  if (monthlyBudgetExceeded) {
+    console.log(
+      `Gmail fetch for ${ownerEmail} paused: monthly LLM budget reached after ${progress.processed}/${progress.listed} messages.`
+    );
+    return {
+      fetched: storedDocs.length,
+      owner: ownerEmail,
+      llmCalls,
+      monthlyBudgetExceeded: true,
+    };
+  }
+
+  if (!storedDocs.length) {
+    console.log('No job-related Gmail messages found for ingestion.');
+    const nextHistory = newHistoryId || profileHistoryId || historyId;
+    if (useState && !skipStateUpdate && nextHistory && nextHistory !== historyId) {
+      await deps.state.saveState(ownerEmail, { historyId: nextHistory });
+    }
+    return { fetched: 0, owner: ownerEmail, llmCalls };
+  }
+
+  if (useState && !skipStateUpdate) {
+    const nextHistory = newHistoryId || profileHistoryId || historyId;
+    const shouldUpdateCursor = maxInternalDate > (lastInternalDateMs || 0);
+    const shouldUpdateHistory = Boolean(nextHistory && nextHistory !== historyId);
+    if (shouldUpdateCursor || shouldUpdateHistory) {
+      const nextState: GmailState = {};
+      if (shouldUpdateCursor) {
+        nextState.lastInternalDateMs = maxInternalDate;
+      }
+      if (shouldUpdateHistory && nextHistory) {
+        nextState.historyId = nextHistory;
+      }
+      await deps.state.saveState(ownerEmail, nextState);
+    }
+  }
+
+  console.log(
+    `Stored or updated ${storedDocs.length} Gmail messages for ${ownerEmail}${
+      gmailQuery ? ` (query: "${gmailQuery}")` : ''
+    }`
+  );
+  return { fetched: storedDocs.length, owner: ownerEmail, llmCalls };
+}
+
+const PROGRESS_COUNTS = [
+  'listed',
+  'processed',
+  'gated',
+  'skipped',
+  'classified',
+  'failed',
+] as const;
+
+/**
+ * Ingest each of an owner's connected mailboxes in turn, each with its own client and cursor.
+ * Progress adds up across mailboxes, the LLM budget is shared, and a mailbox that fails does not
+ * stop the others: it is listed in `failedAccounts`, and the run only throws when every mailbox
+ * failed. Rollups are refreshed once at the end for every company any mailbox touched.
+ */
+export async function ingestAccounts(
+  accounts: IngestDeps[],
+  ownerEmail: string,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const total: IngestResult = { fetched: 0, owner: ownerEmail, llmCalls: 0 };
+  const done: Partial<FetchProgress> = {};
+  const failedAccounts: NonNullable<IngestResult['failedAccounts']> = [];
+  const rollupCompanies = options.rollupCompanies || new Set<string>();
+  let firstError: unknown = null;
+  for (const deps of accounts) {
+    let latest: Partial<FetchProgress> = {};
+    const onProgress = (progress: Partial<FetchProgress>) => {
+      latest = progress;
+      const merged: Partial<FetchProgress> = { ...progress };
+      for (const key of PROGRESS_COUNTS) merged[key] = (done[key] || 0) + (progress[key] || 0);
+      options.onProgress?.(merged);
+    };
+    try {
+      const result = await ingestGmailMessages(deps, ownerEmail, {
+        ...options,
+        onProgress,
+        llmBudget: (options.llmBudget ?? Infinity) - total.llmCalls,
+        rollupCompanies,
+      });
+      total.fetched += result.fetched;
+      total.llmCalls += result.llmCalls;
+      if (result.cancelled || result.budgetExhausted || result.monthlyBudgetExceeded) {
+        const { cancelled, budgetExhausted, monthlyBudgetExceeded } = result;
+        Object.assign(total, { cancelled, budgetExhausted, monthlyBudgetExceeded });
+        break;
+      }
+    } catch (err: any) {
+      firstError ||= err;
+      const account = deps.gmailAccount || ownerEmail;
+      failedAccounts.push({ account, error: String(err?.message || err) });
+      console.error(`Gmail fetch failed for ${account}`, err?.message || err);
+    } finally {
+      for (const key of PROGRESS_COUNTS) done[key] = (done[key] || 0) + (latest[key] || 0);
+    }
+  }
+  if (!options.rollupCompanies && accounts.length) {
+    await refreshCompanyRollups(accounts[0].repos, ownerEmail, rollupCompanies);
+  }
+  if (accounts.length && failedAccounts.length === accounts.length) throw firstError;
+  if (failedAccounts.length) total.failedAccounts = failedAccounts;
+  return total;
+}
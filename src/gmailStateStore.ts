@@ -1,4 +1,4 @@
-import secretClient from './keyVaultClient';
+import { getSecretStore } from './secretStore';
 
 const STATE_PREFIX = 'gmail-state-';
 
@@ -9,33 +9,65 @@ function slugify(ownerEmail: string): string {
   return ownerEmail.replace(/[^a-z0-9]/gi, '-').toLowerCase();
 }
 
-function secretName(ownerEmail: string): string {
-  return `${STATE_PREFIX}${slugify(ownerEmail)}`;
+// Like the token store: the owner's own mailbox (and the backfill checkpoint) keep the original
+// per-owner name, other mailboxes get their own cursor.
+function secretName(ownerEmail: string, gmailAccount = ownerEmail): string {
+  const owner = `${STATE_PREFIX}${slugify(ownerEmail)}`;
+  if (gmailAccount.toLowerCase() === ownerEmail.toLowerCase()) return owner;
+  return `${owner}--${slugify(gmailAccount)}`;
+}
+
+export type BackfillStatus = 'running' | 'paused' | 'done';
+
+/** Checkpoint for a historical backfill; windows are walked from `cursorMs` back to `startDate`. */
+export interface BackfillState {
+  status: BackfillStatus;
+  // Oldest day (YYYY-MM-DD, UTC) to backfill.
+  startDate: string;
+  // Everything from here up to when the backfill started has been ingested.
+  cursorMs: number;
+  windowDays: number;
+  llmBudget: number;
+  llmCalls: number;
+  fetched: number;
+  // budget = the backfill's own LLM call budget, spend = the owner's monthly spend limit.
+  pausedReason?: 'user' | 'budget' | 'spend' | 'error';
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
 }
 
 export interface GmailState {
   lastInternalDateMs?: number;
   historyId?: string;
+  backfill?: BackfillState;
 }
 
-export async function loadState(ownerEmail: string): Promise<GmailState | null> {
-  try {
-    const secret = await secretClient.getSecret(secretName(ownerEmail));
-    return JSON.parse(secret.value || '{}');
-  } catch (err: any) {
-    if (err.code === 'SecretNotFound') {
-      return null;
-    }
-    throw err;
-  }
+export async function loadState(
+  ownerEmail: string,
+  gmailAccount = ownerEmail
+): Promise<GmailState | null> {
+  const value = await getSecretStore().get(secretName(ownerEmail, gmailAccount));
+  return value === null ? null : JSON.parse(value || '{}');
 }
 
 export async function saveState(
   ownerEmail: string,
-  partial: GmailState = {}
+  partial: GmailState = {},
+  gmailAccount = ownerEmail
 ): Promise<GmailState> {
-  const current = (await loadState(ownerEmail)) || {};
+  const current = (await loadState(ownerEmail, gmailAccount)) || {};
   const next = { ...current, ...partial };
-  await secretClient.setSecret(secretName(ownerEmail), JSON.stringify(next));
+  await getSecretStore().set(secretName(ownerEmail, gmailAccount), JSON.stringify(next));
   return next;
 }
+
+/** The state of one connected mailbox, in the shape ingestion takes. */
+export function accountState(gmailAccount: string) {
+  return {
+    loadState: (ownerEmail: string) => loadState(ownerEmail, gmailAccount),
+    saveState: (ownerEmail: string, partial: GmailState) =>
+      saveState(ownerEmail, partial, gmailAccount),
+  };
+}
@@ -1,4 +1,4 @@
-import secretClient from './keyVaultClient';
+import { getSecretStore } from './secretStore';
 
 const TOKEN_PREFIX = 'gmail-token-';
 
@@ -9,64 +9,96 @@ function slugify(ownerEmail: string): string {
   return ownerEmail.replace(/[^a-z0-9]/gi, '-').toLowerCase();
 }
 
-function secretName(ownerEmail: string): string {
-  return `${TOKEN_PREFIX}${slugify(ownerEmail)}`;
+// The owner's own mailbox keeps the original per-owner name, so tokens saved before accounts
+// were added stay readable; other mailboxes get a name of their own.
+function secretName(ownerEmail: string, gmailAccount = ownerEmail): string {
+  const owner = `${TOKEN_PREFIX}${slugify(ownerEmail)}`;
+  if (gmailAccount.toLowerCase() === ownerEmail.toLowerCase()) return owner;
+  return `${owner}--${slugify(gmailAccount)}`;
 }
 
 export interface GmailTokensPayload {
   ownerEmail: string;
+  // The mailbox the tokens read; missing on payloads saved before multiple accounts.
+  gmailAccount?: string;
   tokens: Record<string, unknown>;
   savedAt: string;
 }
 
 export async function loadTokens(
-  ownerEmail: string
+  ownerEmail: string,
+  gmailAccount = ownerEmail
 ): Promise<Record<string, unknown> | null> {
-  try {
-    const secret = await secretClient.getSecret(secretName(ownerEmail));
-    const data = JSON.parse(secret.value || '{}');
-    if (data.tokens) return data.tokens;
-    return data;
-  } catch (err: any) {
-    if (err.code === 'SecretNotFound') {
-      return null;
-    }
-    throw err;
-  }
+  const value = await getSecretStore().get(secretName(ownerEmail, gmailAccount));
+  if (value === null) return null;
+  const data = JSON.parse(value || '{}');
+  if (data.tokens) return data.tokens;
+  return data;
 }
 
 export async function saveTokens(
   ownerEmail: string,
-  newTokens: Record<string, unknown> = {}
+  newTokens: Record<string, unknown> = {},
+  gmailAccount = ownerEmail
 ): Promise<Record<string, unknown>> {
-  const existing = (await loadTokens(ownerEmail)) || {};
+  const existing = (await loadTokens(ownerEmail, gmailAccount)) || {};
   const merged = { ...existing, ...newTokens };
   const payload: GmailTokensPayload = {
     ownerEmail,
+    gmailAccount: gmailAccount.toLowerCase(),
     tokens: merged,
     savedAt: new Date().toISOString(),
   };
-  await secretClient.setSecret(secretName(ownerEmail), JSON.stringify(payload));
+  await getSecretStore().set(secretName(ownerEmail, gmailAccount), JSON.stringify(payload));
   return merged;
 }
 
-export async function listOwners(): Promise<string[]> {
-  const owners = new Set<string>();
+/**
+ * Forget a mailbox's tokens. The secret is overwritten with empty tokens rather than deleted:
+ * Key Vault keeps deleted names reserved until they are purged, which would block reconnecting.
+ */
+export async function disconnect(ownerEmail: string, gmailAccount = ownerEmail): Promise<void> {
+  const payload: GmailTokensPayload = {
+    ownerEmail,
+    gmailAccount: gmailAccount.toLowerCase(),
+    tokens: {},
+    savedAt: new Date().toISOString(),
+  };
+  await getSecretStore().set(secretName(ownerEmail, gmailAccount), JSON.stringify(payload));
+}
+
+async function listPayloads(prefix: string): Promise<GmailTokensPayload[]> {
+  const payloads: GmailTokensPayload[] = [];
   try {
-    for await (const props of secretClient.listPropertiesOfSecrets()) {
-      if (!props.name || !props.name.startsWith(TOKEN_PREFIX)) continue;
+    const store = getSecretStore();
+    for (const name of await store.listNames(prefix)) {
       try {
-        const secret = await secretClient.getSecret(props.name);
-        const data = JSON.parse(secret.value || '{}');
-        if (data.ownerEmail) {
-          owners.add(String(data.ownerEmail).toLowerCase());
+        const data = JSON.parse((await store.get(name)) || '{}');
+        if (data.ownerEmail && Object.keys(data.tokens || {}).length) {
+          payloads.push(data);
         }
       } catch (err) {
         // ignore individual secret errors
       }
     }
   } catch (err: any) {
-    console.error('Failed to list Key Vault Gmail owners', err.message || err);
+    console.error('Failed to list Gmail owners from the secret store', err.message || err);
   }
-  return Array.from(owners);
+  return payloads;
+}
+
+export async function listOwners(): Promise<string[]> {
+  const payloads = await listPayloads(TOKEN_PREFIX);
+  return Array.from(new Set(payloads.map((data) => String(data.ownerEmail).toLowerCase())));
+}
+
+/** The Gmail accounts an owner has connected, their own mailbox first. */
+export async function listAccounts(ownerEmail: string): Promise<string[]> {
+  const owner = ownerEmail.toLowerCase();
+  const accounts = (await listPayloads(`${TOKEN_PREFIX}${slugify(ownerEmail)}`))
+    .filter((data) => String(data.ownerEmail).toLowerCase() === owner)
+    .map((data) => (data.gmailAccount || owner).toLowerCase());
+  return Array.from(new Set(accounts)).sort(
+    (a, b) => Number(b === owner) - Number(a === owner) || a.localeCompare(b)
+  );
 }
@@ -5,13 +5,16 @@ import { DefaultAzureCredential } from '@azure/identity';
 // Ensure env is loaded before reading KEY_VAULT_URI (server also calls dotenv.config()).
 dotenv.config();
 
-const KEY_VAULT_URI = process.env.KEY_VAULT_URI;
+let secretClient: SecretClient | null = null;
 
-if (!KEY_VAULT_URI) {
-  throw new Error('Missing KEY_VAULT_URI environment variable for Azure Key Vault.');
+// Created on first use so local mode can run without any Azure configuration.
+export function getSecretClient(): SecretClient {
+  if (secretClient) return secretClient;
+  const KEY_VAULT_URI = process.env.KEY_VAULT_URI;
+  if (!KEY_VAULT_URI) {
+    throw new Error('Missing KEY_VAULT_URI environment variable for Azure Key Vault.');
+  }
+  const credential = new DefaultAzureCredential();
+  secretClient = new SecretClient(KEY_VAULT_URI, credential);
+  return secretClient;
 }
-
-const credential = new DefaultAzureCredential();
-const secretClient = new SecretClient(KEY_VAULT_URI, credential);
-
-export default secretClient;
@@ -0,0 +1,130 @@
+import assert from 'node:assert';
+import { classifyEmail, classifyIsJobRelated } from './emailClassifier';
+import { createLlmCache, llmCacheKey, type LlmCacheStore } from './llmCache';
+import { createProvider, loadStageProviderConfig, loadStageProviders } from './llmProviders';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails } from './testing/fixtures';
+import type { GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+
+function emailDoc(fixture = recruiterEmails.initechRejection, body?: string): GmailEmailDoc {
+  const { message } = fixture;
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    owner,
+    from: message.from,
+    to: owner,
+    subject: message.subject,
+    date: '2024-03-01',
+    snippet: '',
+    body: body ?? message.body,
+    labelIds: ['INBOX'],
+    fetchedAt: '2024-03-01T12:00:00.000Z',
+    internalDate: Date.parse('2024-03-01T12:00:00Z'),
+  };
+}
+
+// Redis stand-in that records the TTL each entry was written with.
+function memoryStore() {
+  const entries = new Map<string, { value: string; ttl: number }>();
+  const store: LlmCacheStore = {
+    get: async (key) => entries.get(key)?.value ?? null,
+    set: async (key, value, _mode, seconds) => entries.set(key, { value, ttl: seconds }),
+  };
+  return { store, entries };
+}
+
+async function main() {
+  const chat = await startFakeChatServer(fixtureResponder());
+  try {
+    const env = {
+      EMAIL_GATE_PROVIDER: 'openai-compatible',
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      EMAIL_CLASS_MODEL: 'fake-classify',
+      LLM_BASE_URL: chat.url,
+    };
+    const { store, entries } = memoryStore();
+    const cache = createLlmCache(store, { ttlSeconds: 3600 });
+    const providers = cache.wrapProviders(loadStageProviders(env));
+
+    // The same email twice, once re-wrapped: one provider call, identical results.
+    const first = await classifyEmail(providers.classify, emailDoc());
+    const body = recruiterEmails.initechRejection.message.body;
+    const rewrapped = emailDoc(undefined, body.replace(/\n/g, '\n\n  '));
+    const second = await classifyEmail(providers.classify, rewrapped);
+    assert.strictEqual(chat.requests.length, 1);
+    assert.deepStrictEqual(second, first);
+    assert.strictEqual(first?.status, 'rejected');
+    assert.deepStrictEqual([...entries.values()].map((entry) => entry.ttl), [3600]);
+
+    // Gate and classify answers are kept apart.
+    assert.strictEqual(await classifyIsJobRelated(providers.gate, emailDoc()), true);
+    assert.strictEqual(await classifyIsJobRelated(providers.gate, emailDoc()), true);
+    assert.strictEqual(chat.requests.length, 2);
+
+    // A different email, model or prompt version misses.
+    await classifyEmail(providers.classify, emailDoc(recruiterEmails.hooliAssessment));
+    assert.strictEqual(chat.requests.length, 3);
+    const request = {
+      stage: 'classify' as const,
+      promptVersion: 2,
+      temperature: 0,
+      messages: [{ role: 'user' as const, content: 'Subject: Hi\n\nBody:\nHello  there' }],
+    };
+    const key = llmCacheKey('fake-classify', request);
+    assert.strictEqual(
+      llmCacheKey('fake-classify', {
+        ...request,
+        messages: [{ role: 'user', content: 'Subject: Hi \nBody: Hello there\n' }],
+      }),
+      key
+    );
+    assert.notStrictEqual(llmCacheKey('other-model', request), key);
+    assert.notStrictEqual(llmCacheKey('fake-classify', { ...request, promptVersion: 3 }), key);
+
+    const stats = cache.stats();
+    assert.deepStrictEqual(
+      [stats.hits, stats.misses, stats.errors, stats.byStage.gate],
+      [2, 3, 0, { hits: 1, misses: 1 }]
+    );
+
+    // A failing store falls through to the provider, and malformed answers are not kept.
+    const broken = createLlmCache({
+      get: async () => {
+        throw new Error('redis down');
+      },
+      set: async () => {
+        throw new Error('redis down');
+      },
+    });
+    const direct = broken.wrap(loadStageProviders(env).classify);
+    assert.strictEqual((await classifyEmail(direct, emailDoc()))?.status, 'rejected');
+    assert.strictEqual(broken.stats().errors, 2);
+
+    const bad = await startFakeChatServer(() => 'not json');
+    try {
+      const badCache = memoryStore();
+      const provider = createLlmCache(badCache.store).wrap(
+        createProvider(loadStageProviderConfig('classify', { ...env, LLM_BASE_URL: bad.url })!)
+      );
+      await assert.rejects(classifyEmail(provider, emailDoc()));
+      assert.strictEqual(badCache.entries.size, 0);
+    } finally {
+      await bad.close();
+    }
+
+    // The offline rules provider costs nothing and is not cached.
+    const rules = loadStageProviders({ EMAIL_CLASS_PROVIDER: 'rules' }).classify;
+    assert.strictEqual(cache.wrap(rules), rules);
+  } finally {
+    await chat.close();
+  }
+  console.log('llmCache tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import type {
+  ChatRequest,
+  ChatResult,
+  LlmProvider,
+  LlmStage,
+  StageProviders,
+} from './llmProviders';
+
+// Stage answers only change with the model, prompt or email, so a month-long TTL is safe.
+export const DEFAULT_LLM_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** The part of the Redis client the cache uses; tests pass an in-memory map. */
+export interface LlmCacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+}
+
+export interface LlmCacheCounts {
+  hits: number;
+  misses: number;
+}
+
+export interface LlmCacheStats extends LlmCacheCounts {
+  ttlSeconds: number;
+  // Store reads or writes that failed; the request then went to the provider as usual.
+  errors: number;
+  byStage: Record<LlmStage, LlmCacheCounts>;
+}
+
+export interface LlmCache {
+  wrap(provider: LlmProvider | null): LlmProvider | null;
+  wrapProviders(providers: StageProviders): StageProviders;
+  stats(): LlmCacheStats;
+}
+
+// Whitespace differences (re-wrapped bodies, trailing newlines) should not miss the cache.
+function normalizeContent(text: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/** Cache key for one request: model, stage, prompt version and the normalized messages. */
+export function llmCacheKey(model: string, request: ChatRequest): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([
+        model,
+        request.stage,
+        request.promptVersion ?? 0,
+        request.temperature ?? null,
+        request.response_format ?? null,
+        request.messages.map((message) => [message.role, normalizeContent(message.content)]),
+      ])
+    )
+    .digest('hex');
+  return `llm:${request.stage}:${hash}`;
+}
+
+// Only answers the caller could use are kept, so a malformed reply is retried next time.
+function cacheable(request: ChatRequest, content: string): boolean {
+  if (!content) return false;
+  if (request.accept) return request.accept(content);
+  if (!request.response_format) return true;
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wrap LLM providers so identical requests are answered from the store. Hits are returned with
+ * `cached: true` and never reach the provider; local rules providers are left unwrapped.
+ */
+export function createLlmCache(
+  store: LlmCacheStore,
+  options: { ttlSeconds?: number } = {}
+): LlmCache {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_LLM_CACHE_TTL_SECONDS;
+  const counts: LlmCacheStats = {
+    ttlSeconds,
+    hits: 0,
+    misses: 0,
+    errors: 0,
+    byStage: { gate: { hits: 0, misses: 0 }, classify: { hits: 0, misses: 0 } },
+  };
+  const count = (stage: LlmStage, outcome: keyof LlmCacheCounts) => {
+    counts[outcome]++;
+    counts.byStage[stage][outcome]++;
+  };
+
+  const wrap = (provider: LlmProvider | null): LlmProvider | null => {
+    if (!provider || provider.kind === 'rules') return provider;
+    return {
+      ...provider,
+      async chat(request: ChatRequest): Promise<ChatResult> {
+        const key = llmCacheKey(provider.model, request);
+        try {
+          const stored = await store.get(key);
+          if (stored) {
+            count(request.stage, 'hits');
+            return { ...(JSON.parse(stored) as ChatResult), cached: true };
+          }
+        } catch (err: any) {
+          counts.errors++;
+          console.error('LLM cache read failed', err?.message || err);
+        }
+        count(request.stage, 'misses');
+        const result = await provider.chat(request);
+        if (cacheable(request, result.content)) {
+          try {
+            await store.set(key, JSON.stringify(result), 'EX', ttlSeconds);
+          } catch (err: any) {
+            counts.errors++;
+            console.error('LLM cache write failed', err?.message || err);
+          }
+        }
+        return result;
+      },
+    };
+  };
+
+  return {
+    wrap,
+    wrapProviders: (providers) => ({
+      gate: wrap(providers.gate),
+      classify: wrap(providers.classify),
+    }),
+    stats: () => ({
+      ...counts,
+      byStage: { gate: { ...counts.byStage.gate }, classify: { ...counts.byStage.classify } },
+    }),
+  };
+}
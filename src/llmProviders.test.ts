@@ -0,0 +1,55 @@
+import assert from 'node:assert';
+import { createProvider, loadStageProviderConfig } from './llmProviders';
+
+async function main() {
+  assert.strictEqual(loadStageProviderConfig('gate', {}), null);
+
+  const openai = loadStageProviderConfig('classify', { OPENAI_API_KEY: 'sk-test' });
+  assert.strictEqual(openai?.kind, 'openai');
+  assert.strictEqual(openai?.model, 'gpt-5-mini');
+  assert.ok(openai?.modelPolicies['gpt-5-mini']);
+
+  const local = loadStageProviderConfig('gate', {
+    EMAIL_GATE_PROVIDER: 'openai-compatible',
+    EMAIL_GATE_MODEL: 'llama3.1:8b',
+    LLM_BASE_URL: 'http://localhost:11434/v1/',
+  });
+  assert.strictEqual(local?.baseUrl, 'http://localhost:11434/v1');
+  assert.strictEqual(createProvider(local!).remote, false);
+
+  assert.throws(() => loadStageProviderConfig('gate', { EMAIL_GATE_PROVIDER: 'bogus' }));
+
+  const rulesConfig = loadStageProviderConfig('classify', { EMAIL_CLASS_PROVIDER: 'rules' });
+  const rules = createProvider(rulesConfig!);
+  const content = 'Subject: Your application to Acme\nFrom: Acme Careers <jobs@acme.com>\n\nBody:\n';
+  const rejected = await rules.chat({
+    stage: 'classify',
+    messages: [
+      {
+        role: 'user',
+        content: `${content}Unfortunately, we have decided to move forward with other candidates.`,
+      },
+    ],
+  });
+  const parsed = JSON.parse(rejected.content);
+  assert.strictEqual(parsed.status, 'rejected');
+  assert.strictEqual(parsed.company_name, 'Acme');
+
+  const gate = await rules.chat({
+    stage: 'gate',
+    messages: [
+      {
+        role: 'user',
+        content: 'Subject: Weekly newsletter\nFrom: news@shop.com\n\nBody:\nSale! Unsubscribe here.',
+      },
+    ],
+  });
+  assert.deepStrictEqual(JSON.parse(gate.content), { job_related: false });
+
+  console.log('llmProviders tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+import dotenv from 'dotenv';
+import {
+  callChat,
+  openAiModelPolicies,
+  type ChatMessage,
+  type ModelPolicy,
+} from './openaiClient';
+import { answerWithRules } from './rulesProvider';
+import type { TokenUsage } from './types';
+
+dotenv.config();
+
+export type LlmStage = 'gate' | 'classify';
+
+export type LlmProviderKind = 'openai' | 'azure-openai' | 'openai-compatible' | 'rules';
+
+const PROVIDER_KINDS: LlmProviderKind[] = ['openai', 'azure-openai', 'openai-compatible', 'rules'];
+
+export interface LlmProviderConfig {
+  kind: LlmProviderKind;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  apiVersion?: string;
+  // Accepts `response_format: {type: 'json_schema'}`; otherwise only JSON mode is requested.
+  structuredOutput?: boolean;
+  modelPolicies: Record<string, ModelPolicy>;
+}
+
+export interface ChatRequest {
+  stage: LlmStage;
+  // Revision of the stage prompt; part of the response cache key.
+  promptVersion?: number;
+  // Who the call is for, recorded with its token usage.
+  owner?: string;
+  messageId?: string;
+  temperature?: number;
+  response_format?: any;
+  messages: ChatMessage[];
+  // Whether a reply is usable; the response cache only keeps replies that pass.
+  accept?: (content: string) => boolean;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  provider: LlmProviderKind;
+  // Answered from the response cache without calling the provider.
+  cached?: boolean;
+  // As reported by the provider; absent for the rules provider and servers that omit it.
+  usage?: TokenUsage;
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  model: string;
+  // True when email content leaves this machine (used for startup logging only).
+  remote: boolean;
+  structuredOutput?: boolean;
+  chat(request: ChatRequest): Promise<ChatResult>;
+}
+
+const STAGE_ENV: Record<LlmStage, { provider: string; model: string; defaultModel: string }> = {
+  gate: { provider: 'EMAIL_GATE_PROVIDER', model: 'EMAIL_GATE_MODEL', defaultModel: 'gpt-5-nano' },
+  classify: {
+    provider: 'EMAIL_CLASS_PROVIDER',
+    model: 'EMAIL_CLASS_MODEL',
+    defaultModel: 'gpt-5-mini',
+  },
+};
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// OpenAI and Azure OpenAI support structured outputs; local servers only in recent versions, so
+// they opt in with LLM_STRUCTURED_OUTPUT=true.
+function structuredOutputFor(kind: LlmProviderKind, env: NodeJS.ProcessEnv): boolean {
+  const raw = (env.LLM_STRUCTURED_OUTPUT || '').trim().toLowerCase();
+  if (raw) return raw === 'true' || raw === '1';
+  return kind === 'openai' || kind === 'azure-openai';
+}
+
+function parseKind(raw: string | undefined, stage: LlmStage): LlmProviderKind {
+  const kind = (raw || 'openai').trim().toLowerCase();
+  if (!PROVIDER_KINDS.includes(kind as LlmProviderKind)) {
+    throw new Error(
+      `Unknown LLM provider "${raw}" for ${stage} stage. Expected one of: ${PROVIDER_KINDS.join(', ')}.`
+    );
+  }
+  return kind as LlmProviderKind;
+}
+
+/**
+ * Read the provider for one pipeline stage from the environment.
+ * Returns null when the chosen provider is missing credentials, so the stage is disabled
+ * rather than failing at startup.
+ */
+export function loadStageProviderConfig(
+  stage: LlmStage,
+  env: NodeJS.ProcessEnv = process.env
+): LlmProviderConfig | null {
+  const keys = STAGE_ENV[stage];
+  const kind = parseKind(env[keys.provider], stage);
+  const model = env[keys.model] || keys.defaultModel;
+  const structuredOutput = structuredOutputFor(kind, env);
+
+  if (kind === 'openai') {
+    if (!env.OPENAI_API_KEY) return null;
+    return {
+      kind,
+      model,
+      baseUrl: trimTrailingSlash(env.OPENAI_BASE_URL || 'https://api.openai.com/v1'),
+      apiKey: env.OPENAI_API_KEY,
+      structuredOutput,
+      modelPolicies: openAiModelPolicies,
+    };
+  }
+  if (kind === 'azure-openai') {
+    if (!env.AZURE_OPENAI_ENDPOINT || !env.AZURE_OPENAI_API_KEY) return null;
+    return {
+      kind,
+      // Azure addresses models by deployment name; the stage model variable holds it.
+      model,
+      baseUrl: trimTrailingSlash(env.AZURE_OPENAI_ENDPOINT),
+      apiKey: env.AZURE_OPENAI_API_KEY,
+      apiVersion: env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      structuredOutput,
+      modelPolicies: {},
+    };
+  }
+  if (kind === 'openai-compatible') {
+    if (!env.LLM_BASE_URL) return null;
+    return {
+      kind,
+      model,
+      baseUrl: trimTrailingSlash(env.LLM_BASE_URL),
+      apiKey: env.LLM_API_KEY || undefined,
+      structuredOutput,
+      // Local servers queue requests themselves; one quick retry is enough, and a couple of
+      // requests in flight keeps the model busy without piling up its queue.
+      modelPolicies: { [model]: { backoffMs: [250], maxConcurrency: 2 } },
+    };
+  }
+  return { kind, model: 'rules', modelPolicies: {} };
+}
+
+function endpointFor(config: LlmProviderConfig) {
+  if (config.kind === 'azure-openai') {
+    const deployment = encodeURIComponent(config.model);
+    return {
+      url: `${config.baseUrl}/openai/deployments/${deployment}/chat/completions?api-version=${config.apiVersion}`,
+      headers: { 'api-key': config.apiKey || '' },
+      modelPolicies: config.modelPolicies,
+      omitModel: true,
+    };
+  }
+  const headers: Record<string, string> = {};
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  return {
+    url: `${config.baseUrl}/chat/completions`,
+    headers,
+    modelPolicies: config.modelPolicies,
+  };
+}
+
+export function createProvider(config: LlmProviderConfig): LlmProvider {
+  if (config.kind === 'rules') {
+    return {
+      kind: 'rules',
+      model: config.model,
+      remote: false,
+      async chat(request: ChatRequest): Promise<ChatResult> {
+        return { content: answerWithRules(request), model: config.model, provider: 'rules' };
+      },
+    };
+  }
+
+  const endpoint = endpointFor(config);
+  const remote = !/^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/i.test(
+    config.baseUrl || ''
+  );
+  return {
+    kind: config.kind,
+    model: config.model,
+    remote,
+    structuredOutput: Boolean(config.structuredOutput),
+    async chat(request: ChatRequest): Promise<ChatResult> {
+      const data = await callChat(endpoint, {
+        model: config.model,
+        temperature: request.temperature,
+        response_format: request.response_format,
+        messages: request.messages,
+      });
+      const content = data.choices?.[0]?.message?.content;
+      const usage = data.usage;
+      return {
+        content: content || '',
+        model: data.model || config.model,
+        provider: config.kind,
+        usage: usage && {
+          promptTokens: Number(usage.prompt_tokens) || 0,
+          completionTokens: Number(usage.completion_tokens) || 0,
+          totalTokens: Number(usage.total_tokens) || 0,
+        },
+      };
+    },
+  };
+}
+
+export interface StageProviders {
+  gate: LlmProvider | null;
+  classify: LlmProvider | null;
+}
+
+export function loadStageProviders(env: NodeJS.ProcessEnv = process.env): StageProviders {
+  const gateConfig = loadStageProviderConfig('gate', env);
+  const classifyConfig = loadStageProviderConfig('classify', env);
+  return {
+    gate: gateConfig ? createProvider(gateConfig) : null,
+    classify: classifyConfig ? createProvider(classifyConfig) : null,
+  };
+}
+
+export function describeProvider(provider: LlmProvider | null): string {
+  if (!provider) return 'disabled';
+  return `${provider.kind}/${provider.model}${provider.remote ? '' : ' (local)'}`;
+}
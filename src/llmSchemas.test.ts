@@ -0,0 +1,136 @@
+import assert from 'node:assert';
+import { classifyEmail, classifyIsJobRelated } from './emailClassifier';
+import { createLlmCache } from './llmCache';
+import { loadStageProviders } from './llmProviders';
+import { classificationSchema, gateSchema, parseOutput } from './llmSchemas';
+import { startFakeChatServer, type FakeChatRequest } from './testing/fakeChatServer';
+import { recruiterEmails } from './testing/fixtures';
+import type { GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+const { message } = recruiterEmails.initechRejection;
+const email: GmailEmailDoc = {
+  id: message.id,
+  threadId: message.threadId,
+  owner,
+  from: message.from,
+  to: owner,
+  subject: message.subject,
+  date: '2024-03-01',
+  snippet: '',
+  body: message.body,
+  labelIds: ['INBOX'],
+  fetchedAt: '2024-03-01T12:00:00.000Z',
+  internalDate: Date.parse('2024-03-01T12:00:00Z'),
+};
+
+const valid = {
+  is_job_related: true,
+  status: 'rejected',
+  summary: ' Initech declined. ',
+  company_name: 'Initech',
+};
+
+// Validation: required fields and the status union are enforced, optional text is defaulted,
+// unknown fields are dropped.
+const ok = classificationSchema.validate({ ...valid, extra: 'x', interview: null });
+assert.deepStrictEqual(ok, {
+  ok: true,
+  value: {
+    ...valid,
+    summary: 'Initech declined.',
+    role_title: '',
+    requisition_id: '',
+    source: '',
+  },
+});
+const bad = classificationSchema.validate({ is_job_related: 'yes', status: 'ghosted' });
+assert.ok(!bad.ok);
+assert.deepStrictEqual(
+  bad.errors.map((error) => error.split(' ')[0]),
+  ['is_job_related', 'status', 'summary', 'company_name']
+);
+const mismatch = classificationSchema.validate({ ...valid, status: 'not_job_related' });
+assert.ok(!mismatch.ok && /exactly when/.test(mismatch.errors[0]));
+assert.ok(!classificationSchema.validate({ ...valid, role_title: 7 }).ok);
+assert.ok(!classificationSchema.validate({ ...valid, interview: 'tomorrow' }).ok);
+assert.ok(!parseOutput(gateSchema, '{"job_related": "true"}').ok);
+assert.ok(!parseOutput(gateSchema, 'yes').ok);
+assert.deepStrictEqual(parseOutput(gateSchema, '{"job_related": false}'), {
+  ok: true,
+  value: { job_related: false },
+});
+
+async function main() {
+  // Replies are taken in order; the last one repeats.
+  let replies: unknown[] = [];
+  const chat = await startFakeChatServer((request: FakeChatRequest) => {
+    const index = chat.requests.indexOf(request);
+    return replies[Math.min(index, replies.length - 1)];
+  });
+  try {
+    const env = {
+      EMAIL_GATE_PROVIDER: 'openai-compatible',
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      EMAIL_CLASS_MODEL: 'fake-classify',
+      LLM_BASE_URL: chat.url,
+    };
+    const providers = loadStageProviders(env);
+
+    // Local servers only get JSON mode unless they opt in to structured outputs.
+    replies = [valid];
+    assert.strictEqual((await classifyEmail(providers.classify, email))?.status, 'rejected');
+    assert.deepStrictEqual(chat.requests[0].body.response_format, { type: 'json_object' });
+    const structured = loadStageProviders({ ...env, LLM_STRUCTURED_OUTPUT: 'true' });
+    await classifyEmail(structured.classify, email);
+    const format = chat.requests[1].body.response_format;
+    assert.strictEqual(format.type, 'json_schema');
+    assert.strictEqual(format.json_schema.strict, true);
+    assert.deepStrictEqual(format.json_schema.schema.required.slice(0, 2), [
+      'is_job_related',
+      'status',
+    ]);
+    const openai = loadStageProviders({ OPENAI_API_KEY: 'key' });
+    assert.strictEqual(openai.classify?.structuredOutput, true);
+
+    // A bad reply is sent back once with the errors, and the corrected one is used.
+    chat.requests.length = 0;
+    replies = [{ ...valid, status: 'ghosted' }, valid];
+    const repaired = await classifyEmail(providers.classify, email);
+    assert.strictEqual(repaired?.status, 'rejected');
+    assert.strictEqual(chat.requests.length, 2);
+    const retry = chat.requests[1].body.messages;
+    assert.strictEqual(retry[2].role, 'assistant');
+    assert.ok(retry[3].content.includes('status must be one of'));
+
+    // Two bad replies fail the message instead of storing garbage.
+    chat.requests.length = 0;
+    replies = ['not json'];
+    await assert.rejects(
+      classifyIsJobRelated(providers.gate, email),
+      (err: any) => err.code === 'INVALID_LLM_OUTPUT'
+    );
+    assert.strictEqual(chat.requests.length, 2);
+
+    // The cache keeps the repaired reply but never the invalid one.
+    const entries = new Map<string, string>();
+    const cached = createLlmCache({
+      get: async (key) => entries.get(key) ?? null,
+      set: async (key, value) => entries.set(key, value),
+    }).wrap(providers.classify);
+    replies = [{ ...valid, summary: 42 }, valid];
+    chat.requests.length = 0;
+    await classifyEmail(cached, email);
+    assert.strictEqual(entries.size, 1);
+    const [stored] = [...entries.values()].map((value) => JSON.parse(value));
+    assert.deepStrictEqual(JSON.parse(stored.content), valid);
+  } finally {
+    await chat.close();
+  }
+  console.log('llmSchemas tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
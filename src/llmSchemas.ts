@@ -0,0 +1,201 @@
+import { isJobStatus, JOB_STATUSES } from './classificationStatuses';
+import type { ChatRequest, LlmProvider } from './llmProviders';
+import type { ClassificationResult, ClassificationStatus, InterviewFormat } from './types';
+
+const STATUSES: ClassificationStatus[] = [...JOB_STATUSES, 'not_job_related'];
+
+const INTERVIEW_FORMATS: InterviewFormat[] = ['phone', 'video', 'onsite', 'other'];
+
+export interface GateOutput {
+  job_related: boolean;
+}
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+/** A JSON reply schema: the JSON Schema sent to providers and the validator run on replies. */
+export interface OutputSchema<T> {
+  name: string;
+  // OpenAI strict mode: every property required, no extra properties.
+  jsonSchema: Record<string, unknown>;
+  validate(value: unknown): Validation<T>;
+}
+
+const nullable = (schema: Record<string, unknown>) => ({ anyOf: [schema, { type: 'null' }] });
+
+function isObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Optional text fields may be missing or null; anything else must be a string.
+function optionalText(value: any, field: string, errors: string[]): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') errors.push(`${field} must be a string`);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export const gateSchema: OutputSchema<GateOutput> = {
+  name: 'job_gate',
+  jsonSchema: {
+    type: 'object',
+    properties: { job_related: { type: 'boolean' } },
+    required: ['job_related'],
+    additionalProperties: false,
+  },
+  validate(value) {
+    if (!isObject(value)) return { ok: false, errors: ['reply must be a JSON object'] };
+    if (typeof value.job_related !== 'boolean') {
+      return { ok: false, errors: ['job_related must be true or false'] };
+    }
+    return { ok: true, value: { job_related: value.job_related } };
+  },
+};
+
+const text = { type: 'string' };
+
+export const classificationSchema: OutputSchema<ClassificationResult> = {
+  name: 'email_classification',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      is_job_related: { type: 'boolean' },
+      status: { type: 'string', enum: STATUSES },
+      summary: text,
+      company_name: text,
+      role_title: text,
+      requisition_id: text,
+      source: text,
+      interview: nullable({
+        type: 'object',
+        properties: {
+          start: text,
+          end: text,
+          timezone: text,
+          meeting_link: text,
+          location: text,
+          interviewers: { type: 'array', items: text },
+          format: { type: 'string', enum: INTERVIEW_FORMATS },
+        },
+        required: [
+          'start',
+          'end',
+          'timezone',
+          'meeting_link',
+          'location',
+          'interviewers',
+          'format',
+        ],
+        additionalProperties: false,
+      }),
+    },
+    required: [
+      'is_job_related',
+      'status',
+      'summary',
+      'company_name',
+      'role_title',
+      'requisition_id',
+      'source',
+      'interview',
+    ],
+    additionalProperties: false,
+  },
+  // Strict about the fields everything downstream relies on, lenient about optional ones:
+  // interview details are normalized again before they are stored.
+  validate(value) {
+    if (!isObject(value)) return { ok: false, errors: ['reply must be a JSON object'] };
+    const errors: string[] = [];
+    if (typeof value.is_job_related !== 'boolean') {
+      errors.push('is_job_related must be true or false');
+    }
+    if (!STATUSES.includes(value.status)) {
+      errors.push(`status must be one of: ${STATUSES.join(', ')}`);
+    } else if (
+      typeof value.is_job_related === 'boolean' &&
+      value.is_job_related !== isJobStatus(value.status)
+    ) {
+      errors.push('is_job_related must be false exactly when status is not_job_related');
+    }
+    if (typeof value.summary !== 'string') errors.push('summary must be a string');
+    if (typeof value.company_name !== 'string') errors.push('company_name must be a string');
+    const result: ClassificationResult = {
+      is_job_related: value.is_job_related,
+      status: value.status,
+      summary: typeof value.summary === 'string' ? value.summary.trim() : '',
+      company_name: typeof value.company_name === 'string' ? value.company_name.trim() : '',
+      role_title: optionalText(value.role_title, 'role_title', errors),
+      requisition_id: optionalText(value.requisition_id, 'requisition_id', errors),
+      source: optionalText(value.source, 'source', errors),
+    };
+    if (value.interview !== undefined && value.interview !== null) {
+      if (!isObject(value.interview) || typeof value.interview.start !== 'string') {
+        errors.push('interview must be null or an object with a start date-time');
+      } else {
+        result.interview = value.interview;
+      }
+    }
+    return errors.length ? { ok: false, errors } : { ok: true, value: result };
+  },
+};
+
+/** Parse and validate one reply; JSON syntax errors are reported like schema errors. */
+export function parseOutput<T>(schema: OutputSchema<T>, content: string): Validation<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err: any) {
+    return { ok: false, errors: [`reply is not valid JSON (${err?.message || err})`] };
+  }
+  return schema.validate(parsed);
+}
+
+// Providers that support structured outputs get the schema itself; the rest only JSON mode.
+function responseFormat(provider: LlmProvider, schema: OutputSchema<unknown>) {
+  if (!provider.structuredOutput) return { type: 'json_object' };
+  return {
+    type: 'json_schema',
+    json_schema: { name: schema.name, strict: true, schema: schema.jsonSchema },
+  };
+}
+
+function invalidOutputError(stage: string, errors: string[]): Error {
+  const err: any = new Error(`Invalid ${stage} response: ${errors.join('; ')}`);
+  err.code = 'INVALID_LLM_OUTPUT';
+  return err;
+}
+
+/**
+ * Ask for a JSON reply matching `schema`. A reply that fails validation is sent back once with
+ * the validation errors so the model can correct it; a second bad reply throws
+ * INVALID_LLM_OUTPUT, so nothing malformed is ever stored.
+ */
+export async function chatJson<T>(
+  provider: LlmProvider,
+  schema: OutputSchema<T>,
+  request: Omit<ChatRequest, 'response_format' | 'accept'>
+): Promise<T> {
+  const accept = (content: string) => parseOutput(schema, content).ok;
+  const format = responseFormat(provider, schema as OutputSchema<unknown>);
+  const { content } = await provider.chat({ ...request, response_format: format, accept });
+  const first = parseOutput(schema, content);
+  if (first.ok) return first.value;
+
+  console.warn(`[LLM] Repairing ${request.stage} reply: ${first.errors.join('; ')}`);
+  const repair = await provider.chat({
+    ...request,
+    response_format: format,
+    accept,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `That reply does not match the required JSON schema: ${first.errors.join(
+          '; '
+        )}. Reply again with only the corrected JSON object.`,
+      },
+    ],
+  });
+  const second = parseOutput(schema, repair.content || '');
+  if (second.ok) return second.value;
+  throw invalidOutputError(request.stage, second.errors);
+}
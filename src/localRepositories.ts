@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Repositories } from './repositories';
+import { sortJobDocs } from './rollups';
+import type {
+  ApplicationDoc,
+  FailedMessageDoc,
+  GmailEmailDoc,
+  JobDoc,
+  ProfileDoc,
+  UsageRecordDoc,
+} from './types';
+
+/**
+ * A JSON file holding documents grouped by partition key, mirroring the Cosmos layout. The whole
+ * file is loaded on first use and rewritten atomically after every change.
+ */
+function createJsonCollection<T extends { id: string }>(filePath: string) {
+  let data: Record<string, Record<string, T>> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  async function load(): Promise<Record<string, Record<string, T>>> {
+    if (data) return data;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+      data = {};
+    }
+    return data!;
+  }
+
+  async function persist(): Promise<void> {
+    const snapshot = JSON.stringify(data, null, 2);
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.tmp`;
+        await fs.writeFile(tmp, snapshot);
+        await fs.rename(tmp, filePath);
+      });
+    await writing;
+  }
+
+  return {
+    async get(partition: string, id: string): Promise<T | null> {
+      const all = await load();
+      const doc = all[partition]?.[id];
+      return doc ? structuredClone(doc) : null;
+    },
+    async list(partition: string): Promise<T[]> {
+      const all = await load();
+      return Object.values(all[partition] || {}).map((doc) => structuredClone(doc));
+    },
+    async listAll(): Promise<T[]> {
+      const all = await load();
+      return Object.values(all).flatMap((docs) =>
+        Object.values(docs).map((doc) => structuredClone(doc))
+      );
+    },
+    async upsert(partition: string, doc: T): Promise<T> {
+      const all = await load();
+      all[partition] = all[partition] || {};
+      all[partition][doc.id] = structuredClone(doc);
+      await persist();
+      return structuredClone(doc);
+    },
+    async delete(partition: string, id: string): Promise<void> {
+      const all = await load();
+      if (!all[partition]?.[id]) return;
+      delete all[partition][id];
+      await persist();
+    },
+  };
+}
+
+function isApplication(doc: JobDoc | ApplicationDoc): doc is ApplicationDoc {
+  return doc.docType === 'application';
+}
+
+export function createLocalRepositories(dataDir: string): Repositories {
+  const emails = createJsonCollection<GmailEmailDoc>(path.join(dataDir, 'emails.json'));
+  const jobs = createJsonCollection<JobDoc | ApplicationDoc>(path.join(dataDir, 'jobs.json'));
+  const profiles = createJsonCollection<ProfileDoc>(path.join(dataDir, 'profiles.json'));
+  const failures = createJsonCollection<FailedMessageDoc>(path.join(dataDir, 'failures.json'));
+  const usage = createJsonCollection<UsageRecordDoc>(path.join(dataDir, 'usage.json'));
+
+  return {
+    backend: 'local',
+    emails: {
+      get: (owner, id) => emails.get(owner, id),
+      listByOwner: (owner) => emails.list(owner),
+      async listByThread(owner, threadId) {
+        const docs = await emails.list(owner);
+        return docs.filter((doc) => doc.threadId === threadId);
+      },
+      upsert: (doc) => emails.upsert(doc.owner, doc),
+    },
+    jobs: {
+      async listCompanies(owner, sort) {
+        const docs = await jobs.list(owner);
+        return sortJobDocs(
+          docs.filter((doc): doc is JobDoc => !isApplication(doc)),
+          sort
+        );
+      },
+      async listApplications(owner, sort) {
+        const docs = await jobs.list(owner);
+        return sortJobDocs(docs.filter(isApplication), sort);
+      },
+      async listApplicationsForCompany(owner, companySlug) {
+        const docs = await jobs.list(owner);
+        return sortJobDocs(
+          docs.filter(isApplication).filter((doc) => doc.company_slug === companySlug),
+          'updated'
+        );
+      },
+      async listIds(owner, companySlug) {
+        const docs = await jobs.list(owner);
+        return docs
+          .filter(
+            (doc) =>
+              !companySlug ||
+              doc.id === `${owner}::${companySlug}` ||
+              (isApplication(doc) && doc.company_slug === companySlug)
+          )
+          .map((doc) => doc.id);
+      },
+      async upsert(doc) {
+        await jobs.upsert(doc.owner, doc);
+      },
+      delete: (owner, id) => jobs.delete(owner, id),
+    },
+    profiles: {
+      get: (email) => profiles.get(email, email),
+      upsert: (profile) => profiles.upsert(profile.email, profile),
+    },
+    failures: {
+      get: (owner, id) => failures.get(owner, id),
+      listByOwner: (owner) => failures.list(owner),
+      async upsert(doc) {
+        await failures.upsert(doc.owner, doc);
+      },
+      delete: (owner, id) => failures.delete(owner, id),
+    },
+    usage: {
+      async record(doc) {
+        await usage.upsert(doc.owner, doc);
+      },
+      async listByOwner(owner, sinceDay = '') {
+        const docs = await usage.list(owner);
+        return docs.filter((doc) => doc.day >= sinceDay);
+      },
+      async listSince(sinceDay) {
+        const docs = await usage.listAll();
+        return docs.filter((doc) => doc.day >= sinceDay);
+      },
+    },
+  };
+}
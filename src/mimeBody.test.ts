@@ -0,0 +1,48 @@
+import assert from 'node:assert';
+import {
+  decodePartText,
+  decodeQuotedPrintable,
+  extractMessageBody,
+  stripQuotedText,
+} from './mimeBody';
+import { mimeEmails } from './testing/mimeFixtures';
+
+for (const [name, fixture] of Object.entries(mimeEmails)) {
+  assert.strictEqual(extractMessageBody(fixture.payload), fixture.expected, name);
+}
+
+// Quoted-printable: soft breaks (with trailing spaces), lowercase escapes, multi-byte UTF-8.
+assert.strictEqual(
+  decodeQuotedPrintable('caf=c3=a9 =  \r\nau lait =3D 3=E2=82=AC').toString('utf8'),
+  'café au lait = 3€'
+);
+// Already-decoded text that merely contains "=" is left alone.
+const plain = (text: string) => ({
+  mimeType: 'text/plain',
+  body: { data: Buffer.from(text).toString('base64url') },
+});
+assert.strictEqual(decodePartText(plain('a=b and x =FF')), 'a=b and x =FF');
+assert.strictEqual(decodePartText({ mimeType: 'text/plain', body: {} }), '');
+// An unknown charset label falls back to UTF-8.
+assert.strictEqual(
+  decodePartText({
+    ...plain('Zürich'),
+    headers: [{ name: 'content-type', value: 'text/plain; charset=x-unknown' }],
+  }),
+  'Zürich'
+);
+
+// Reply headers in other languages and the classic Outlook separator.
+assert.strictEqual(stripQuotedText('Oui.\n\nLe lun. 4 mars 2024, Dana a écrit :\n> Ok?'), 'Oui.');
+assert.strictEqual(
+  stripQuotedText('Confirmed.\n-----Original Message-----\nFrom: Dana\nSent: Monday'),
+  'Confirmed.'
+);
+// A "From:" line without a "Sent:" line is content, not a reply header.
+assert.strictEqual(
+  stripQuotedText('From: the hiring team\n\nWelcome aboard!'),
+  'From: the hiring team\n\nWelcome aboard!'
+);
+assert.strictEqual(extractMessageBody({}), '');
+
+console.log('mimeBody tests passed');
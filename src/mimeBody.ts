@@ -0,0 +1,179 @@
+import type { gmail_v1 } from 'googleapis';
+import { htmlToText } from 'html-to-text';
+import { isAttachmentPart } from './attachments';
+
+/*
+ * The readable text of a Gmail message payload. multipart/alternative bodies are read from their
+ * text/plain part, with the HTML part as fallback; bytes are decoded with the part's declared
+ * charset; quoted reply history and signatures are cut so only what the sender wrote is kept.
+ */
+
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+const HTML_OPTIONS: Parameters<typeof htmlToText>[1] = {
+  wordwrap: 100,
+  selectors: [
+    { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+    { selector: 'img', format: 'skip' },
+    { selector: 'style', format: 'skip' },
+    { selector: 'script', format: 'skip' },
+    // Quoted history as Gmail, Apple Mail, Outlook and Yahoo mark it.
+    { selector: '.gmail_quote', format: 'skip' },
+    { selector: '.gmail_signature', format: 'skip' },
+    { selector: 'blockquote[type=cite]', format: 'skip' },
+    { selector: '#divRplyFwdMsg', format: 'skip' },
+    { selector: '#appendonsend', format: 'skip' },
+    { selector: '.yahoo_quoted', format: 'skip' },
+  ],
+};
+
+export function partHeader(part: MessagePart, name: string): string {
+  const lower = name.toLowerCase();
+  const header = (part.headers || []).find((h) => (h.name || '').toLowerCase() === lower);
+  return header?.value || '';
+}
+
+function charsetOf(part: MessagePart): string {
+  const match = partHeader(part, 'Content-Type').match(/charset\s*=\s*"?([^";\s]+)"?/i);
+  return (match?.[1] || 'utf-8').toLowerCase();
+}
+
+/** Decode quoted-printable text (soft line breaks and =XX escapes, in either case) to bytes. */
+export function decodeQuotedPrintable(text: string): Buffer {
+  const unwrapped = text.replace(/=[ \t]*\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (unwrapped[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Gmail decodes the transfer encoding, but parts that were encoded twice, or encoded without
+// saying so, still arrive with soft line breaks and =XX escapes.
+function stillQuotedPrintable(part: MessagePart, raw: string): boolean {
+  const escapes = raw.match(/=[0-9A-F]{2}/g)?.length || 0;
+  if (!escapes && !/=\r?\n/.test(raw)) return false;
+  const declared = /quoted-printable/i.test(partHeader(part, 'Content-Transfer-Encoding'));
+  return declared || (escapes > 0 && /=\r?\n/.test(raw));
+}
+
+// windows-1252 characters in 0x80-0x9F (curly quotes, dashes, €), which Node's TextDecoder
+// leaves as Latin-1 control codes. Mail labelled Latin-1 or ASCII means windows-1252 in practice.
+const CP1252_HIGH =
+  '€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ';
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  if (/^(?:us-ascii|ascii|iso-8859-1|latin1|windows-1252|cp1252)$/.test(charset)) {
+    // Senders often declare ASCII or Latin-1 and send UTF-8; valid UTF-8 is taken at its word.
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return Array.from(bytes, (byte) =>
+        byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte)
+      ).join('');
+    }
+  }
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/** The text of one leaf part, decoded from base64url, leftover quoted-printable and its charset. */
+export function decodePartText(part: MessagePart): string {
+  if (!part.body?.data) return '';
+  let bytes: Buffer = Buffer.from(part.body.data, 'base64url');
+  const raw = bytes.toString('latin1');
+  if (stillQuotedPrintable(part, raw)) bytes = decodeQuotedPrintable(raw);
+  return decodeCharset(bytes, charsetOf(part));
+}
+
+interface TextParts {
+  plain: MessagePart[];
+  html: MessagePart[];
+}
+
+function collectTextParts(part: MessagePart, found: TextParts): TextParts {
+  if (part.parts?.length) {
+    for (const subpart of part.parts) collectTextParts(subpart, found);
+    return found;
+  }
+  const inline = !/^\s*attachment/i.test(partHeader(part, 'Content-Disposition'));
+  if (isAttachmentPart(part) || !inline || !part.body?.data) return found;
+  const mimeType = (part.mimeType || 'text/plain').toLowerCase();
+  if (mimeType === 'text/plain') found.plain.push(part);
+  else if (mimeType === 'text/html') found.html.push(part);
+  return found;
+}
+
+const REPLY_HEADER = [
+  /^On\s.{1,300}\swrote:\s*$/,
+  /^Le\s.{1,300}\sa écrit\s?:\s*$/,
+  /^Am\s.{1,300}\sschrieb\s.{0,100}:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+];
+const FORWARD_HEADER = /^-{2,}\s*Forwarded message\s*-{2,}\s*$|^Begin forwarded message:\s*$/i;
+const MOBILE_FOOTER =
+  /^(?:Sent from my \w+|Sent from (?:Outlook|Mail) for \w+|Get Outlook for \w+)/i;
+
+/**
+ * Cut quoted reply history ("On … wrote:", Outlook "From:/Sent:" blocks, ">" lines) and the
+ * signature after a "-- " delimiter. Forwarded messages are kept: there the quoted part is the
+ * content.
+ */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let end = lines.length;
+  let forwarded = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (FORWARD_HEADER.test(line)) forwarded = true;
+    if (forwarded) continue;
+    // Gmail wraps long "On … wrote:" lines, so the header can span two lines.
+    const withNext = `${line} ${(lines[i + 1] || '').trim()}`;
+    const outlook =
+      /^From:\s/.test(line) &&
+      lines.slice(i + 1, i + 5).some((next) => /^(?:Sent|Date):\s/.test(next.trim()));
+    if (REPLY_HEADER.some((pattern) => pattern.test(line) || pattern.test(withNext)) || outlook) {
+      end = i;
+      break;
+    }
+    if (i > 0 && (lines[i] === '-- ' || line === '--')) {
+      end = i;
+      break;
+    }
+  }
+  const kept = lines
+    .slice(0, end)
+    .filter((line) => forwarded || !line.trimStart().startsWith('>'))
+    .filter((line) => !MOBILE_FOOTER.test(line.trim()));
+  // Drop the separator rules Outlook leaves above its reply header.
+  while (kept.length && /^\s*(?:_{5,}|-{5,})?\s*$/.test(kept[kept.length - 1])) kept.pop();
+  return kept
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * The body of a message: the text/plain part when it has real content, otherwise its HTML as
+ * text, with quoted history and signatures removed.
+ */
+export function extractMessageBody(payload: MessagePart = {}): string {
+  const { plain, html } = collectTextParts(payload, { plain: [], html: [] });
+  const plainText = stripQuotedText(plain.map(decodePartText).join('\n\n'));
+  const htmlText = stripQuotedText(
+    html.map((part) => htmlToText(decodePartText(part), HTML_OPTIONS)).join('\n\n')
+  );
+  // Some templates ship a stub plain part ("view this email in your browser") next to the
+  // real HTML; a much shorter plain part loses to the HTML.
+  const stub = plainText.length < 200 && plainText.length * 5 < htmlText.length;
+  return plainText && !stub ? plainText : htmlText;
+}
@@ -1,36 +1,62 @@
-import dotenv from 'dotenv';
+import { sharedLimiter, type RateLimits } from './concurrency';
 
-dotenv.config();
-
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-export interface ModelPolicy {
+// Rate limits are enforced per endpoint and model, shared by every stage that uses the model.
+export interface ModelPolicy extends RateLimits {
   backoffMs: number[];
 }
 
-const defaultPolicy: ModelPolicy = { backoffMs: [500, 1000, 2000] };
+export const defaultPolicy: ModelPolicy = { backoffMs: [500, 1000, 2000], maxConcurrency: 4 };
 
-// Per-model rate-limit aware backoff plans (tunable).
-const modelPolicies: Record<string, ModelPolicy> = {
+// Per-model rate-limit aware backoff plans for api.openai.com (tunable).
+export const openAiModelPolicies: Record<string, ModelPolicy> = {
   'gpt-4o-mini': {
     // 2M TPM / 12k RPM — short backoff should absorb brief spikes.
     backoffMs: [400, 800, 1600, 3200],
+    maxConcurrency: 16,
+    rpm: 12_000,
+    tpm: 2_000_000,
   },
   'gpt-5-mini': {
     // 500k TPM / ~60 RPM
     backoffMs: [400, 800, 1600, 3200],
+    maxConcurrency: 4,
+    rpm: 60,
+    tpm: 500_000,
   },
   'gpt-5-nano': {
     // 200–300k TPM / ~60 RPM
     backoffMs: [300, 600, 1200, 2400],
+    maxConcurrency: 4,
+    rpm: 60,
+    tpm: 200_000,
   },
 };
 
-interface ChatOptions {
+// Rough prompt size plus room for a short JSON answer; corrected from `usage` afterwards.
+function estimateTokens(messages: ChatMessage[]): number {
+  const chars = messages.reduce((sum, message) => sum + message.content.length, 0);
+  return Math.ceil(chars / 4) + 256;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
   model: string;
   temperature?: number;
   response_format?: any;
-  messages: Array<{ role: 'system' | 'user'; content: string }>;
+  messages: ChatMessage[];
+}
+
+// Where and how to send an OpenAI-style chat completion request.
+export interface ChatEndpoint {
+  url: string;
+  headers: Record<string, string>;
+  modelPolicies: Record<string, ModelPolicy>;
+  // Azure puts the deployment in the URL and rejects a `model` field it does not expect.
+  omitModel?: boolean;
 }
 
 async function sleep(ms: number): Promise<void> {
@@ -44,19 +70,20 @@ function isRateLimit(err: any): boolean {
   return typeof message === 'string' && message.toLowerCase().includes('rate limit');
 }
 
-export async function callChat(options: ChatOptions): Promise<any> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not set; cannot call OpenAI.');
-  }
-  const policy = modelPolicies[options.model] || defaultPolicy;
+export async function callChat(endpoint: ChatEndpoint, options: ChatOptions): Promise<any> {
+  const policy = endpoint.modelPolicies[options.model] || defaultPolicy;
+  const limiter = sharedLimiter(`${endpoint.url}#${options.model}`, policy);
+  const tokens = estimateTokens(options.messages);
   let lastError: any;
   const attempts = policy.backoffMs.length + 1;
   const includeTemperature =
     typeof options.temperature === 'number' && !options.model.startsWith('gpt-5');
   const payload: any = {
-    model: options.model,
     messages: options.messages,
   };
+  if (!endpoint.omitModel) {
+    payload.model = options.model;
+  }
   if (includeTemperature) {
     payload.temperature = options.temperature;
   }
@@ -66,24 +93,29 @@ export async function callChat(options: ChatOptions): Promise<any> {
 
   for (let i = 0; i < attempts; i++) {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify(payload),
-      });
+      return await limiter.run(
+        async () => {
+          const response = await fetch(endpoint.url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...endpoint.headers,
+            },
+            body: JSON.stringify(payload),
+          });
 
-      const data = await response.json();
-      if (!response.ok) {
-        const errorMessage = data?.error?.message || 'OpenAI request failed';
-        const err: any = new Error(errorMessage);
-        err.status = response.status;
-        err.code = data?.error?.code;
-        throw err;
-      }
-      return data;
+          const data = await response.json();
+          if (!response.ok) {
+            const errorMessage = data?.error?.message || 'Chat completion request failed';
+            const err: any = new Error(errorMessage);
+            err.status = response.status;
+            err.code = data?.error?.code;
+            throw err;
+          }
+          return data;
+        },
+        { tokens, usedTokens: (data) => data?.usage?.total_tokens }
+      );
     } catch (err: any) {
       lastError = err;
       const shouldRetry = isRateLimit(err) || err?.status === 503;
@@ -0,0 +1,156 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CLASSIFY_PROMPT_VERSION } from './emailClassifier';
+import { refreshRollups, setClassification } from './gmailIngest';
+import { loadStageProviders } from './llmProviders';
+import { createLocalRepositories } from './localRepositories';
+import {
+  applyReclassification,
+  isStale,
+  parseReclassifyScope,
+  previewReclassification,
+  selectEmails,
+} from './reclassify';
+import { startFakeChatServer, type FakeChatRequest } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails, type EmailFixture } from './testing/fixtures';
+import type { GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+
+function storedEmail(fixture: EmailFixture, day: string): GmailEmailDoc {
+  const { message } = fixture;
+  const doc: GmailEmailDoc = {
+    id: message.id,
+    threadId: message.threadId,
+    owner,
+    from: message.from,
+    to: owner,
+    subject: message.subject,
+    date: day,
+    snippet: '',
+    body: message.body,
+    labelIds: ['INBOX'],
+    fetchedAt: `${day}T12:00:00.000Z`,
+    internalDate: Date.parse(`${day}T12:00:00Z`),
+  };
+  setClassification(doc, {
+    ...fixture.classification!,
+    taxonomy_version: 2,
+    model: 'old-model',
+    prompt_version: 0,
+  });
+  return doc;
+}
+
+async function main() {
+  assert.deepStrictEqual(parseReclassifyScope({ company: ' Acme ', after: '2024-03-01' }), {
+    company: 'Acme',
+    after: '2024-03-01',
+  });
+  assert.deepStrictEqual(parseReclassifyScope(undefined), {});
+  assert.throws(() => parseReclassifyScope({ after: 'March' }), /YYYY-MM-DD/);
+  assert.throws(
+    () => parseReclassifyScope({ after: '2024-03-05', before: '2024-03-01' }),
+    /not be later/
+  );
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-reclassify-'));
+  // The "new prompt" reads the Globex follow-up as an interview invite.
+  const fixtures = fixtureResponder();
+  const chat = await startFakeChatServer((request: FakeChatRequest) =>
+    request.user.includes('Subject: Re: Platform Engineer')
+      ? { ...recruiterEmails.globexNextSteps.classification, status: 'interview_scheduled' }
+      : fixtures(request)
+  );
+  try {
+    const repos = createLocalRepositories(dir);
+    const providers = loadStageProviders({
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: chat.url,
+      EMAIL_CLASS_MODEL: 'new-model',
+    });
+    const emails = [
+      storedEmail(recruiterEmails.acmeApplied, '2024-03-01'),
+      storedEmail(recruiterEmails.globexOutreach, '2024-03-02'),
+      storedEmail(recruiterEmails.globexNextSteps, '2024-03-04'),
+      storedEmail(recruiterEmails.initechRejection, '2024-03-06'),
+    ];
+    for (const email of emails) await repos.emails.upsert(email);
+    await refreshRollups(repos, owner);
+
+    // Scope: company match and inclusive day bounds.
+    const scoped = selectEmails(emails, { company: 'globex', before: '2024-03-04' });
+    assert.deepStrictEqual(
+      scoped.map((email) => email.id),
+      ['globex-outreach', 'globex-next-steps']
+    );
+    assert.ok(isStale(emails[0], 'new-model'));
+
+    // Preview runs the classifier but writes nothing.
+    const phases: string[] = [];
+    const { preview } = await previewReclassification(
+      repos,
+      providers,
+      owner,
+      { company: 'Globex' },
+      { onProgress: (progress) => progress.phase && phases.push(progress.phase) }
+    );
+    assert.ok(preview);
+    assert.strictEqual(phases[0], 'listing');
+    assert.strictEqual(preview.model, 'new-model');
+    assert.strictEqual(preview.promptVersion, CLASSIFY_PROMPT_VERSION);
+    assert.deepStrictEqual([preview.total, preview.changed, preview.failed], [2, 1, 0]);
+    const changed = preview.changes.find((change) => change.changed);
+    assert.strictEqual(changed?.emailId, 'globex-next-steps');
+    assert.strictEqual(changed?.before.status, 'next_steps');
+    assert.strictEqual(changed?.after.status, 'interview_scheduled');
+    const untouched = await repos.emails.get(owner, 'globex-next-steps');
+    assert.strictEqual(untouched?.classification?.status, 'next_steps');
+
+    // The preview stops, like ingest, once the monthly LLM budget is spent.
+    let budgetChecks = 0;
+    const overBudget = await previewReclassification(
+      repos,
+      providers,
+      owner,
+      { company: 'Globex' },
+      { concurrency: 1, usage: { overBudget: async () => ++budgetChecks > 1 } }
+    );
+    assert.deepStrictEqual(overBudget, { fetched: 1, monthlyBudgetExceeded: true });
+
+    // An email reclassified after the preview is left alone on commit.
+    const outreach = (await repos.emails.get(owner, 'globex-outreach'))!;
+    outreach.classifiedAt = new Date(Date.now() + 1000).toISOString();
+    await repos.emails.upsert(outreach);
+
+    const applied = await applyReclassification(repos, owner, preview);
+    assert.deepStrictEqual(applied, { updated: 1, skipped: 1 });
+    const updated = await repos.emails.get(owner, 'globex-next-steps');
+    assert.strictEqual(updated?.classification?.status, 'interview_scheduled');
+    assert.strictEqual(updated?.classification?.model, 'new-model');
+    assert.ok(!isStale(updated!, 'new-model'));
+    assert.ok(isStale((await repos.emails.get(owner, 'globex-outreach'))!, 'new-model'));
+
+    // Rollups are rebuilt from the new classification.
+    const companies = await repos.jobs.listCompanies(owner, 'company');
+    const globex = companies.find((company) => company.company_name === 'Globex');
+    assert.strictEqual(globex?.interview_scheduled, 1);
+    assert.strictEqual(globex?.next_steps, 0);
+
+    await assert.rejects(
+      previewReclassification(repos, loadStageProviders({}), owner, {}),
+      /No LLM provider/
+    );
+  } finally {
+    await chat.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  console.log('reclassify tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,263 @@
+import { ATS_PARSER_VERSION, isAtsClassification, parseAtsEmail } from './atsParsers';
+import { filterEmailsByCompany } from './companyFilter';
+import { createCompanyResolver, loadCompanyAliases, type CompanyResolver } from './companyNames';
+import { runPool } from './concurrency';
+import { applyOverride, buildFeedback } from './corrections';
+import { CLASSIFY_PROMPT_VERSION, classifyEmail } from './emailClassifier';
+import type { FetchProgress } from './fetchJobs';
+import { refreshRollups, retryWithBackoff, setClassification } from './gmailIngest';
+import type { StageProviders } from './llmProviders';
+import type { Repositories } from './repositories';
+import { threadContext } from './threads';
+import type { ClassificationResult, ClassificationStatus, GmailEmailDoc } from './types';
+import type { UsageTracker } from './usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Which stored emails to re-run. Dates are YYYY-MM-DD (UTC) and both ends are inclusive. */
+export interface ReclassifyScope {
+  company?: string;
+  after?: string;
+  before?: string;
+}
+
+export interface ClassificationSnapshot {
+  status: ClassificationStatus;
+  company_name: string;
+  role_title?: string;
+}
+
+export interface ReclassifyChange {
+  emailId: string;
+  subject: string;
+  internalDate: number;
+  // The stored classification this result replaces; commit skips emails changed since.
+  classifiedAt?: string;
+  before: ClassificationSnapshot;
+  after: ClassificationSnapshot;
+  changed: boolean;
+  classification: ClassificationResult;
+}
+
+export interface ReclassifyPreview {
+  scope: ReclassifyScope;
+  model: string;
+  promptVersion: number;
+  total: number;
+  changed: number;
+  failed: number;
+  changes: ReclassifyChange[];
+  committedAt?: string;
+}
+
+function scopeError(message: string): Error {
+  const err: any = new Error(message);
+  err.code = 'INVALID_SCOPE';
+  return err;
+}
+
+function parseDay(value: unknown, label: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const text = String(value).trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(`${text}T00:00:00Z`))) {
+    throw scopeError(`${label} must be a YYYY-MM-DD date`);
+  }
+  return text;
+}
+
+export function parseReclassifyScope(body: any): ReclassifyScope {
+  const scope: ReclassifyScope = {};
+  const company = typeof body?.company === 'string' ? body.company.trim() : '';
+  if (company) scope.company = company;
+  const after = parseDay(body?.after, 'After');
+  const before = parseDay(body?.before, 'Before');
+  if (after) scope.after = after;
+  if (before) scope.before = before;
+  if (after && before && after > before) {
+    throw scopeError('After must not be later than before');
+  }
+  return scope;
+}
+
+/** Classified emails inside the scope, oldest first. */
+export function selectEmails(
+  emails: GmailEmailDoc[],
+  scope: ReclassifyScope,
+  companies: CompanyResolver = createCompanyResolver(emails)
+): GmailEmailDoc[] {
+  const classified = emails.filter((email) => email.classification?.status);
+  const scoped = scope.company
+    ? filterEmailsByCompany(classified, scope.company, undefined, companies)
+    : classified;
+  const fromMs = scope.after ? Date.parse(`${scope.after}T00:00:00Z`) : -Infinity;
+  const toMs = scope.before ? Date.parse(`${scope.before}T00:00:00Z`) + DAY_MS : Infinity;
+  return scoped
+    .filter((email) => email.internalDate >= fromMs && email.internalDate < toMs)
+    .sort((a, b) => a.internalDate - b.internalDate);
+}
+
+/**
+ * True when a stored classification came from another model or an older prompt, or from an
+ * older revision of the ATS templates.
+ */
+export function isStale(email: GmailEmailDoc, model: string): boolean {
+  const classification = email.classification;
+  if (!classification?.status) return false;
+  if (isAtsClassification(classification)) {
+    return classification.prompt_version !== ATS_PARSER_VERSION;
+  }
+  return (
+    classification.model !== model || classification.prompt_version !== CLASSIFY_PROMPT_VERSION
+  );
+}
+
+function snapshot(classification: ClassificationResult): ClassificationSnapshot {
+  return {
+    status: classification.status,
+    company_name: classification.company_name || '',
+    role_title: classification.role_title || '',
+  };
+}
+
+function sameSnapshot(a: ClassificationSnapshot, b: ClassificationSnapshot): boolean {
+  return (
+    a.status === b.status &&
+    a.company_name.trim().toLowerCase() === b.company_name.trim().toLowerCase() &&
+    (a.role_title || '').trim().toLowerCase() === (b.role_title || '').trim().toLowerCase()
+  );
+}
+
+/**
+ * Re-run the classifier over stored emails without writing anything; the preview lists every
+ * result and flags the ones whose status, company or role would change. Replies are classified
+ * with the earlier messages of their thread, as during ingest. Like ingest, it stops once the
+ * owner's monthly LLM budget is spent.
+ */
+export async function previewReclassification(
+  repos: Repositories,
+  providers: StageProviders,
+  ownerEmail: string,
+  scope: ReclassifyScope,
+  options: {
+    concurrency?: number;
+    onProgress?: (progress: Partial<FetchProgress>) => void;
+    isCancelled?: () => Promise<boolean>;
+    usage?: Pick<UsageTracker, 'overBudget'>;
+  } = {}
+): Promise<{
+  fetched: number;
+  cancelled?: boolean;
+  monthlyBudgetExceeded?: boolean;
+  preview?: ReclassifyPreview;
+}> {
+  const provider = providers.classify;
+  if (!provider) {
+    const err: any = new Error('No LLM provider configured for classification');
+    err.code = 'NO_CLASSIFIER';
+    throw err;
+  }
+  options.onProgress?.({ phase: 'listing' });
+  const stored = await repos.emails.listByOwner(ownerEmail);
+  const feedback = buildFeedback(stored);
+  const companies = createCompanyResolver(stored, await loadCompanyAliases(repos, ownerEmail));
+  const emails = selectEmails(stored, scope, companies);
+  const threads = new Map<string, GmailEmailDoc[]>();
+  for (const email of stored) {
+    if (!email.threadId) continue;
+    const thread = threads.get(email.threadId) || [];
+    thread.push(email);
+    threads.set(email.threadId, thread);
+  }
+  const progress = { listed: emails.length, processed: 0, classified: 0, failed: 0 };
+  options.onProgress?.({ phase: 'processing', ...progress });
+
+  const results: Array<ReclassifyChange | undefined> = [];
+  let monthlyBudgetExceeded = false;
+  const { stopped } = await runPool(
+    emails,
+    options.concurrency ?? 8,
+    async (email, index) => {
+      try {
+        const thread = threadContext(email, threads.get(email.threadId || '') || []);
+        const classification =
+          parseAtsEmail(email) || (await classifyEmail(provider, email, feedback, thread));
+        if (!classification) return;
+        // User corrections survive reclassification, so compare what the user will see.
+        const before = snapshot(email.classification!);
+        const after = snapshot(applyOverride(classification, email.classificationOverride));
+        results[index] = {
+          emailId: email.id,
+          subject: email.subject,
+          internalDate: email.internalDate,
+          classifiedAt: email.classifiedAt,
+          before,
+          after,
+          changed: !sameSnapshot(before, after),
+          classification,
+        };
+        progress.classified++;
+      } catch (err: any) {
+        progress.failed++;
+        console.error(`[Reclassify] Failed for ${email.id}`, err?.message || err);
+      } finally {
+        progress.processed++;
+        options.onProgress?.({ phase: 'processing', ...progress });
+      }
+    },
+    async () => {
+      if (options.isCancelled && (await options.isCancelled())) return true;
+      if (options.usage && (await options.usage.overBudget(ownerEmail))) {
+        monthlyBudgetExceeded = true;
+      }
+      return monthlyBudgetExceeded;
+    }
+  );
+  if (monthlyBudgetExceeded) {
+    return { fetched: progress.classified, monthlyBudgetExceeded: true };
+  }
+  if (stopped) {
+    return { fetched: progress.classified, cancelled: true };
+  }
+
+  const changes = results.filter((change): change is ReclassifyChange => Boolean(change));
+  return {
+    fetched: changes.length,
+    preview: {
+      scope,
+      model: provider.model,
+      promptVersion: CLASSIFY_PROMPT_VERSION,
+      total: emails.length,
+      changed: changes.filter((change) => change.changed).length,
+      failed: progress.failed,
+      changes,
+    },
+  };
+}
+
+/**
+ * Write previewed results and rebuild the owner's rollups. Emails reclassified or removed since
+ * the preview ran are left alone.
+ */
+export async function applyReclassification(
+  repos: Repositories,
+  ownerEmail: string,
+  preview: ReclassifyPreview
+): Promise<{ updated: number; skipped: number }> {
+  let updated = 0;
+  let skipped = 0;
+  for (const change of preview.changes) {
+    const email = await repos.emails.get(ownerEmail, change.emailId);
+    if (!email?.classification || email.classifiedAt !== change.classifiedAt) {
+      skipped++;
+      continue;
+    }
+    setClassification(email, change.classification);
+    await retryWithBackoff(() => repos.emails.upsert(email));
+    updated++;
+  }
+  if (updated) {
+    await refreshRollups(repos, ownerEmail);
+  }
+  console.log(`[Reclassify] ${ownerEmail}: ${updated} updated, ${skipped} skipped.`);
+  return { updated, skipped };
+}
@@ -0,0 +1,164 @@
+import assert from 'node:assert';
+import { buildFeedback } from './corrections';
+import { classifyEmail } from './emailClassifier';
+import { loadStageProviders } from './llmProviders';
+import {
+  loadRedactionOptions,
+  REDACTION_KINDS,
+  redactText,
+  restorePlaceholders,
+  selectRelevantText,
+} from './redaction';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import type { GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+
+// Each kind is replaced, repeats share a placeholder, and plain links, dates and short ids stay.
+const text = [
+  'Call Dana at (555) 123-4567 or +44 20 7946 0958, or write to dana.ortiz@umbrella.example.',
+  'SSN 123-45-6789, employee id 12345678, card 4111 1111 1111 1111.',
+  'Onsite on 2024-03-12 at 200 Spinner Way, Suite 4. Again: (555) 123-4567.',
+  'Join https://zoom.example/j/5551234 or sign https://sign.example/doc?token=abcdef.',
+  'Requisition R-10492 (JR004512), order #55120.',
+].join('\n');
+const { text: redacted, placeholders } = redactText(text, REDACTION_KINDS);
+for (const secret of ['123-4567', '7946', 'dana.ortiz', '6789', '12345678', '4111', 'Spinner']) {
+  assert.ok(!redacted.includes(secret), `${secret} should be redacted`);
+}
+for (const kept of ['@umbrella.example', '2024-03-12', 'zoom.example/j/5551234', 'R-10492']) {
+  assert.ok(redacted.includes(kept), `${kept} should be kept`);
+}
+assert.ok(redacted.includes('JR004512') && redacted.includes('#55120'));
+assert.strictEqual(redacted.match(/\[PHONE_1\]/g)?.length, 2);
+assert.ok(redacted.includes('[URL_1].'));
+assert.strictEqual(restorePlaceholders(redacted, placeholders), text);
+assert.deepStrictEqual(
+  restorePlaceholders(
+    { where: '[ADDRESS_1]', who: ['[EMAIL_1]@umbrella.example'], n: 1 },
+    placeholders
+  ),
+  { where: '200 Spinner Way, Suite 4', who: ['dana.ortiz@umbrella.example'], n: 1 }
+);
+assert.strictEqual(redactText(text, []).text, text);
+assert.ok(redactText(text, ['phones']).text.includes('123-45-6789'));
+
+assert.deepStrictEqual(loadRedactionOptions({}), { kinds: REDACTION_KINDS, maxBodyChars: 6000 });
+assert.deepStrictEqual(loadRedactionOptions({ LLM_REDACT: 'none', LLM_MAX_BODY_CHARS: '0' }), {
+  kinds: [],
+  maxBodyChars: 0,
+});
+assert.deepStrictEqual(loadRedactionOptions({ LLM_REDACT: 'phones, urls' }).kinds, [
+  'phones',
+  'urls',
+]);
+assert.throws(() => loadRedactionOptions({ LLM_REDACT: 'names' }), /names/);
+
+// Truncation keeps the opening and the job-related paragraphs, drops quotes and footers.
+const filler = 'Lorem ipsum dolor sit amet. '.repeat(12).trim();
+const long = [
+  'Hi Sam,',
+  filler,
+  'We would like to schedule your interview for the Backend Engineer role next week.',
+  filler,
+  '> On Monday you wrote: thanks for the application',
+  'To unsubscribe or manage preferences, visit our privacy policy.',
+].join('\n\n');
+const selected = selectRelevantText(long, 200);
+assert.ok(selected.length <= 200);
+assert.ok(selected.startsWith('Hi Sam,'));
+assert.ok(selected.includes('schedule your interview'));
+assert.ok(selected.includes('[…]'));
+assert.ok(!selected.includes('unsubscribe') && !selected.includes('On Monday'));
+assert.strictEqual(selectRelevantText('short', 200), 'short');
+assert.strictEqual(selectRelevantText(long, 0), long);
+
+async function main() {
+  // The model only ever sees placeholders; what it extracts comes back with the real values.
+  const chat = await startFakeChatServer(() => ({
+    is_job_related: true,
+    status: 'interview_scheduled',
+    summary: 'Onsite interview; questions to [PHONE_1].',
+    company_name: 'Tyrell',
+    interview: {
+      start: '2024-03-21T10:00',
+      end: '',
+      timezone: '',
+      meeting_link: '[URL_1]',
+      location: '[ADDRESS_1]',
+      interviewers: [],
+      format: 'onsite',
+    },
+  }));
+  try {
+    const { classify } = loadStageProviders({
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: chat.url,
+    });
+    const email: GmailEmailDoc = {
+      id: 'tyrell-onsite',
+      owner,
+      from: 'Eldon Hart <ehart@tyrell.example>',
+      to: owner,
+      subject: 'Onsite interview',
+      date: 'Mon, 18 Mar 2024 13:30:00 -0800',
+      snippet: '',
+      body:
+        'Your onsite is Thursday at 10 AM at 200 Spinner Way. Questions: 555-010-2200. ' +
+        'Check in at https://visit.example/badge?code=XK29FQ. ' +
+        'Offer paperwork needs SSN 123-45-6789.',
+      labelIds: [],
+      fetchedAt: '2024-03-18T22:00:00.000Z',
+      internalDate: Date.parse('2024-03-18T21:30:00Z'),
+    };
+    const result = await classifyEmail(classify, email, undefined, undefined, {
+      kinds: REDACTION_KINDS,
+      maxBodyChars: 6000,
+    });
+    const sent = chat.requests[0].user;
+    for (const secret of ['Spinner', '010-2200', 'XK29FQ', '6789', 'ehart@']) {
+      assert.ok(!sent.includes(secret), `${secret} was sent to the model`);
+    }
+    assert.ok(sent.includes('@tyrell.example'));
+    assert.strictEqual(result?.summary, 'Onsite interview; questions to 555-010-2200.');
+    const interview = result?.interview as any;
+    assert.strictEqual(interview.location, '200 Spinner Way');
+    assert.strictEqual(interview.meeting_link, 'https://visit.example/badge?code=XK29FQ');
+
+    // Correction examples quote other emails; they are redacted before reaching the model too.
+    const corrected: GmailEmailDoc = {
+      ...email,
+      id: 'tyrell-recruiter',
+      from: 'Rachael Rosen <rrosen@tyrell.example>',
+      body: 'Call me on 555-010-7788 or write to rachael.personal@mail.example.',
+      classification: {
+        is_job_related: true,
+        status: 'next_steps',
+        summary: '',
+        company_name: 'Tyrell',
+      },
+      classificationOverride: {
+        company_name: 'Tyrell Corp',
+        original: { status: 'next_steps', summary: '', company_name: 'Tyrell' },
+        updatedAt: '2024-03-19T00:00:00Z',
+      },
+    };
+    await classifyEmail(classify, email, buildFeedback([corrected]), undefined, {
+      kinds: REDACTION_KINDS,
+      maxBodyChars: 6000,
+    });
+    const { system, user } = chat.requests[1];
+    assert.ok(system.includes('This user corrected earlier results'));
+    for (const secret of ['010-7788', 'rachael.personal@', 'rrosen@', '010-2200']) {
+      assert.ok(!`${system}\n${user}`.includes(secret), `${secret} was sent to the model`);
+    }
+  } finally {
+    await chat.close();
+  }
+  console.log('redaction tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+/*
+ * Redaction of personal data before email text is sent to an LLM. Values are swapped for
+ * numbered placeholders ("[PHONE_1]"); the same value always gets the same placeholder, and
+ * `restorePlaceholders` puts the originals back into whatever the model extracted.
+ */
+
+export type RedactionKind = 'emails' | 'phones' | 'urls' | 'addresses' | 'numbers';
+
+export const REDACTION_KINDS: RedactionKind[] = [
+  'emails',
+  'phones',
+  'urls',
+  'addresses',
+  'numbers',
+];
+
+export interface RedactionOptions {
+  kinds: RedactionKind[];
+  // Longest body sent to the model; longer bodies keep their most relevant paragraphs (0 = all).
+  maxBodyChars: number;
+}
+
+export const DEFAULT_MAX_BODY_CHARS = 6000;
+
+export interface Redacted {
+  text: string;
+  // Placeholder -> original value.
+  placeholders: Map<string, string>;
+}
+
+const PLACEHOLDER_LABELS: Record<RedactionKind, string> = {
+  emails: 'EMAIL',
+  phones: 'PHONE',
+  urls: 'URL',
+  addresses: 'ADDRESS',
+  numbers: 'NUMBER',
+};
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"')\]]+/gi;
+const EMAIL_PATTERN = /\b([A-Za-z0-9._%+-]+)@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)\b/g;
+// North American numbers with separators, or any international "+" number.
+const PHONE_PATTERN = new RegExp(
+  [
+    String.raw`(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b`,
+    String.raw`\+\d{1,3}(?:[\s.-]?\d{2,4}){3,5}\b`,
+  ].join('|'),
+  'g'
+);
+const STREET_SUFFIX = [
+  'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct',
+  'Place|Pl|Parkway|Pkwy|Square|Sq|Terrace|Highway|Hwy',
+].join('|');
+const ADDRESS_PATTERN = new RegExp(
+  String.raw`\b\d{1,5}\s+(?:[A-Z][A-Za-z]*\.?\s+){1,4}(?:${STREET_SUFFIX})\b` +
+    String.raw`(?:,?\s+(?:Suite|Ste|Apt|Unit|Floor|#)\.?\s*[\w-]+)?`,
+  'g'
+);
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+// Account and ID numbers of seven digits or more, and card numbers written in groups of four.
+const NUMBER_PATTERN = /\b\d{7,}\b|\b\d{4}(?:[ -]\d{4}){2,3}\b/g;
+// Query parameters worth hiding: anything named like a credential, or a long opaque value.
+const SENSITIVE_QUERY = new RegExp(
+  String.raw`[?&#](?:[^=&#]*(?:token|key|sig|auth|code|session|secret|pwd|pass)[^=&#]*=` +
+    String.raw`|[^=&#]+=[^&#]{16,})`,
+  'i'
+);
+
+/** Read LLM_REDACT (`all`, `none` or a comma-separated list of kinds) and LLM_MAX_BODY_CHARS. */
+export function loadRedactionOptions(env: NodeJS.ProcessEnv = process.env): RedactionOptions {
+  const raw = (env.LLM_REDACT ?? 'all').trim().toLowerCase();
+  let kinds: RedactionKind[];
+  if (raw === 'all' || raw === '') {
+    kinds = [...REDACTION_KINDS];
+  } else if (raw === 'none') {
+    kinds = [];
+  } else {
+    kinds = raw.split(',').map((kind) => kind.trim()) as RedactionKind[];
+    const unknown = kinds.filter((kind) => !REDACTION_KINDS.includes(kind));
+    if (unknown.length) {
+      const expected = `all, none or ${REDACTION_KINDS.join(', ')}`;
+      throw new Error(`Unknown LLM_REDACT kind "${unknown[0]}". Expected ${expected}.`);
+    }
+  }
+  const max = Number(env.LLM_MAX_BODY_CHARS ?? DEFAULT_MAX_BODY_CHARS);
+  return { kinds, maxBodyChars: Number.isFinite(max) && max > 0 ? Math.floor(max) : 0 };
+}
+
+let envOptions: RedactionOptions | null = null;
+
+/** Options from the environment, read once. */
+export function defaultRedactionOptions(): RedactionOptions {
+  envOptions ||= loadRedactionOptions();
+  return envOptions;
+}
+
+/**
+ * Replace personal data in `text` with placeholders. Pass the same `placeholders` map for every
+ * part of one prompt so a value repeated in the thread keeps its placeholder.
+ */
+export function redactText(
+  text: string,
+  kinds: RedactionKind[],
+  placeholders: Map<string, string> = new Map()
+): Redacted {
+  if (!kinds.length || !text) return { text: text || '', placeholders };
+  const byValue = new Map<string, string>();
+  for (const [placeholder, value] of placeholders) byValue.set(value, placeholder);
+  const counts: Partial<Record<RedactionKind, number>> = {};
+  for (const placeholder of placeholders.keys()) {
+    const label = placeholder.slice(1, placeholder.lastIndexOf('_'));
+    const kind = REDACTION_KINDS.find((k) => PLACEHOLDER_LABELS[k] === label);
+    if (kind) counts[kind] = (counts[kind] || 0) + 1;
+  }
+  const placeholderFor = (kind: RedactionKind, value: string) => {
+    let placeholder = byValue.get(value);
+    if (!placeholder) {
+      counts[kind] = (counts[kind] || 0) + 1;
+      placeholder = `[${PLACEHOLDER_LABELS[kind]}_${counts[kind]}]`;
+      placeholders.set(placeholder, value);
+      byValue.set(value, placeholder);
+    }
+    return placeholder;
+  };
+  const has = (kind: RedactionKind) => kinds.includes(kind);
+
+  // URLs are handled whole so the digit and email patterns never cut into them; only links that
+  // carry tokens are hidden, plain links (careers pages, meeting rooms) stay readable.
+  const redactPlain = (segment: string) => {
+    let out = segment;
+    if (has('emails')) {
+      // The domain stays: it is what tells the model which company wrote.
+      out = out.replace(
+        EMAIL_PATTERN,
+        (_match, local, domain) => `${placeholderFor('emails', local)}@${domain}`
+      );
+    }
+    if (has('addresses')) out = out.replace(ADDRESS_PATTERN, (m) => placeholderFor('addresses', m));
+    // SSNs before phones, which would otherwise take their last seven digits.
+    if (has('numbers')) out = out.replace(SSN_PATTERN, (m) => placeholderFor('numbers', m));
+    if (has('phones')) out = out.replace(PHONE_PATTERN, (m) => placeholderFor('phones', m));
+    if (has('numbers')) out = out.replace(NUMBER_PATTERN, (m) => placeholderFor('numbers', m));
+    return out;
+  };
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const index = match.index ?? 0;
+    result += redactPlain(text.slice(last, index));
+    // Sentence punctuation after a link is not part of it.
+    const url = match[0].replace(/[.,;:!?]+$/, '');
+    result += has('urls') && SENSITIVE_QUERY.test(url) ? placeholderFor('urls', url) : url;
+    last = index + url.length;
+  }
+  result += redactPlain(text.slice(last));
+  return { text: result, placeholders };
+}
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|URL|ADDRESS|NUMBER)_\d+\]/g;
+
+/** Put original values back into the strings of a model reply (objects and arrays included). */
+export function restorePlaceholders<T>(value: T, placeholders: Map<string, string>): T {
+  if (!placeholders.size) return value;
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (m) => placeholders.get(m) ?? m) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restorePlaceholders(item, placeholders)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restorePlaceholders(item, placeholders)])
+    ) as T;
+  }
+  return value;
+}
+
+const RELEVANT_TERMS = new RegExp(
+  String.raw`\b(?:appl(?:y|ied|ication)|interview|offer|position|role|candidate|recruit\w*|hiring` +
+    String.raw`|assessment|challenge|schedule|availability|next steps?|unfortunately|regret` +
+    String.raw`|moving forward|withdr[ae]w\w*|on hold|requisition|job)\b`,
+  'gi'
+);
+const BOILERPLATE = new RegExp(
+  String.raw`unsubscribe|privacy (?:policy|notice)|all rights reserved` +
+    String.raw`|confidential(?:ity)? notice|manage (?:your )?preferences` +
+    String.raw`|this (?:e-?mail|message) (?:is|was) (?:intended|sent)`,
+  'i'
+);
+
+/**
+ * Cut a long body down to `maxChars`, keeping the opening paragraph and then the paragraphs that
+ * mention the most job terms, in their original order. Quoted lines and footers are dropped.
+ */
+export function selectRelevantText(body: string, maxChars: number): string {
+  if (!maxChars || body.length <= maxChars) return body;
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      paragraph
+        .split('\n')
+        .filter((line) => !line.trimStart().startsWith('>'))
+        .join('\n')
+        .trim()
+    )
+    .filter(Boolean);
+  const scored = paragraphs.map((paragraph, index) => ({
+    index,
+    paragraph,
+    score:
+      (index === 0 ? 100 : 0) +
+      (paragraph.match(RELEVANT_TERMS)?.length || 0) * 10 -
+      index * 0.1,
+  }));
+  const chosen = new Set<number>();
+  let used = 0;
+  for (const { index, paragraph } of [...scored].sort((a, b) => b.score - a.score)) {
+    // Room for the paragraph, its separator and a "[…]" marker after it.
+    const size = paragraph.length + 7;
+    if (BOILERPLATE.test(paragraph) || used + size > maxChars) continue;
+    chosen.add(index);
+    used += size;
+  }
+  if (!chosen.size) return `${paragraphs[0]?.slice(0, maxChars - 1) || ''}…`;
+  const parts: string[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    if (chosen.has(index)) parts.push(paragraph);
+    else if (parts[parts.length - 1] !== '[…]') parts.push('[…]');
+  });
+  return parts.join('\n\n');
+}
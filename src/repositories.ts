@@ -0,0 +1,81 @@
+import path from 'path';
+import { createCosmosRepositories } from './cosmosRepositories';
+import { createLocalRepositories } from './localRepositories';
+import type {
+  ApplicationDoc,
+  FailedMessageDoc,
+  GmailEmailDoc,
+  JobDoc,
+  ProfileDoc,
+  UsageRecordDoc,
+} from './types';
+
+export type StorageBackend = 'cosmos' | 'local';
+export type JobSort = 'company' | 'updated';
+
+export interface EmailRepository {
+  get(owner: string, id: string): Promise<GmailEmailDoc | null>;
+  listByOwner(owner: string): Promise<GmailEmailDoc[]>;
+  listByThread(owner: string, threadId: string): Promise<GmailEmailDoc[]>;
+  upsert(doc: GmailEmailDoc): Promise<GmailEmailDoc>;
+  // Optional backend-specific logging when a read for a company fails.
+  diagnose?(owner: string, companyName: string): Promise<void>;
+}
+
+export interface JobRepository {
+  listCompanies(owner: string, sort: JobSort): Promise<JobDoc[]>;
+  listApplications(owner: string, sort: JobSort): Promise<ApplicationDoc[]>;
+  listApplicationsForCompany(owner: string, companySlug: string): Promise<ApplicationDoc[]>;
+  // Ids of every rollup doc for the owner, or only the company doc and applications for one slug.
+  listIds(owner: string, companySlug?: string): Promise<string[]>;
+  upsert(doc: JobDoc | ApplicationDoc): Promise<void>;
+  delete(owner: string, id: string): Promise<void>;
+}
+
+export interface ProfileRepository {
+  get(email: string): Promise<ProfileDoc | null>;
+  upsert(profile: ProfileDoc): Promise<ProfileDoc>;
+}
+
+// Dead-letter store for messages that failed to fetch, gate or classify.
+export interface FailedMessageRepository {
+  get(owner: string, id: string): Promise<FailedMessageDoc | null>;
+  listByOwner(owner: string): Promise<FailedMessageDoc[]>;
+  upsert(doc: FailedMessageDoc): Promise<void>;
+  delete(owner: string, id: string): Promise<void>;
+}
+
+// Token usage per LLM call; days are UTC YYYY-MM-DD and both filters are inclusive.
+export interface UsageRepository {
+  record(doc: UsageRecordDoc): Promise<void>;
+  listByOwner(owner: string, sinceDay?: string): Promise<UsageRecordDoc[]>;
+  // Every owner's records, for the admin view.
+  listSince(sinceDay: string): Promise<UsageRecordDoc[]>;
+}
+
+export interface Repositories {
+  backend: StorageBackend;
+  emails: EmailRepository;
+  jobs: JobRepository;
+  profiles: ProfileRepository;
+  failures: FailedMessageRepository;
+  usage: UsageRepository;
+}
+
+export function storageBackendFromEnv(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const configured = (env.STORAGE_BACKEND || 'cosmos').trim().toLowerCase();
+  if (configured !== 'cosmos' && configured !== 'local') {
+    throw new Error(`Unknown STORAGE_BACKEND "${configured}" (expected cosmos or local).`);
+  }
+  return configured;
+}
+
+/** Open the configured storage backend. Cosmos containers are created if missing. */
+export async function createRepositories(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Repositories> {
+  if (storageBackendFromEnv(env) === 'local') {
+    return createLocalRepositories(path.resolve(env.LOCAL_DATA_DIR || '.data'));
+  }
+  return createCosmosRepositories(env);
+}
@@ -0,0 +1,145 @@
+import assert from 'node:assert';
+import { migrateClassification, migrateOverride } from './classificationStatuses';
+import { buildRollups } from './rollups';
+import type { ClassificationResult, GmailEmailDoc } from './types';
+
+const owner = 'user@example.com';
+
+function email(
+  id: string,
+  day: number,
+  classification: Partial<ClassificationResult>,
+  extra: Partial<GmailEmailDoc> = {}
+): GmailEmailDoc {
+  return {
+    id,
+    owner,
+    from: 'jobs@acme.com',
+    to: owner,
+    subject: id,
+    date: '',
+    snippet: '',
+    body: '',
+    labelIds: [],
+    fetchedAt: '2024-05-01T00:00:00Z',
+    internalDate: Date.UTC(2024, 4, day),
+    classification: {
+      is_job_related: true,
+      status: 'applied',
+      summary: '',
+      company_name: 'Acme',
+      ...classification,
+    },
+    ...extra,
+  };
+}
+
+const emails = [
+  email('a1', 1, { role_title: 'Backend Engineer' }),
+  email('a2', 3, { status: 'next_steps' }),
+  email('a3', 5, { status: 'comment_only', summary: 'Recruiter shared the team overview' }),
+  email('b1', 2, { company_name: 'beta  ', status: 'rejected' }),
+  email('n1', 2, { is_job_related: false, status: 'not_job_related' }),
+];
+
+const today = '2024-05-10';
+const first = buildRollups(owner, emails, today);
+// The same message stored twice (e.g. reprocessed after a crash) must not double count.
+const again = buildRollups(owner, [...emails, { ...emails[0] }, { ...emails[1] }], today);
+assert.deepStrictEqual(again.companies, first.companies);
+assert.deepStrictEqual(again.applications, first.applications);
+
+const acme = first.companies.find((c) => c.company_name === 'Acme')!;
+assert.strictEqual(acme.id, 'user@example.com::acme');
+assert.strictEqual(acme.applied, 1);
+assert.strictEqual(acme.next_steps, 1);
+assert.deepStrictEqual(acme.comments, [
+  { date: '2024-05-05', note: 'Recruiter shared the team overview' },
+]);
+assert.strictEqual(acme.last_updated, '2024-05-05');
+assert.strictEqual(first.companies.find((c) => c.company_name === 'beta')?.rejected, 1);
+
+const acmeApps = first.applications.filter((app) => app.company_slug === 'acme');
+assert.strictEqual(acmeApps.length, 1);
+assert.deepStrictEqual(acmeApps[0].email_ids, ['a1', 'a2', 'a3']);
+assert.strictEqual(acmeApps[0].stage, 'screen');
+assert.deepStrictEqual(
+  acmeApps[0].timeline.map((event) => event.stage),
+  ['applied', 'screen', 'note']
+);
+assert.strictEqual(first.emailApplications.get('a2'), acmeApps[0].id);
+assert.strictEqual(first.emailApplications.has('n1'), false);
+
+// Previously assigned application ids survive a rebuild.
+const withHint = buildRollups(
+  owner,
+  [email('c1', 1, { company_name: 'Gamma' }, { applicationId: 'user@example.com::gamma::legacy' })],
+  today
+);
+assert.strictEqual(withHint.applications[0].id, 'user@example.com::gamma::legacy');
+
+// Quiet applications turn ghosted once enough time has passed.
+const later = buildRollups(owner, emails, '2024-07-01');
+const ghosted = later.applications.find((app) => app.company_slug === 'acme')!;
+assert.strictEqual(ghosted.stage, 'ghosted');
+assert.strictEqual(ghosted.timeline[ghosted.timeline.length - 1].date, '2024-06-04');
+// Rejected applications are finished, not ghosted.
+assert.strictEqual(later.applications.find((app) => app.company_slug === 'beta')?.stage, 'rejected');
+
+// Expanded statuses get their own counters and stages.
+const expanded = buildRollups(
+  owner,
+  [
+    email('o1', 1, { company_name: 'Omega', status: 'recruiter_outreach' }),
+    email('o2', 2, { company_name: 'Omega', status: 'interview_scheduled' }),
+    email('o3', 3, { company_name: 'Omega', status: 'offer' }),
+  ],
+  today
+);
+assert.strictEqual(expanded.companies[0].recruiter_outreach, 1);
+assert.strictEqual(expanded.companies[0].interview_scheduled, 1);
+assert.strictEqual(expanded.companies[0].offer, 1);
+assert.strictEqual(expanded.companies[0].withdrawn, 0);
+assert.deepStrictEqual(
+  expanded.applications[0].timeline.map((event) => event.stage),
+  ['screen', 'interview', 'offer']
+);
+
+// Legacy classifications are remapped once, using their summaries.
+const legacy = {
+  is_job_related: true,
+  status: 'next_steps' as const,
+  summary: 'Complete the CodeSignal assessment by Friday',
+  company_name: 'Acme',
+};
+assert.strictEqual(migrateClassification(legacy)?.status, 'assessment');
+assert.strictEqual(
+  migrateClassification({ ...legacy, summary: 'We are pleased to extend an offer' })?.status,
+  'offer'
+);
+assert.strictEqual(
+  migrateClassification({ ...legacy, summary: 'Share your availability' })?.status,
+  'next_steps'
+);
+assert.strictEqual(migrateClassification(migrateClassification(legacy)), null);
+// Corrections stored with a legacy classification go through the same mapping.
+assert.deepStrictEqual(
+  migrateOverride({
+    status: 'comment_only',
+    summary: 'Candidate withdrew',
+    original: { status: 'next_steps', summary: legacy.summary, company_name: 'Acme' },
+    updatedAt: '2024-03-01T00:00:00Z',
+  }),
+  {
+    status: 'withdrawn',
+    summary: 'Candidate withdrew',
+    original: { status: 'assessment', summary: legacy.summary, company_name: 'Acme' },
+    updatedAt: '2024-03-01T00:00:00Z',
+  }
+);
+assert.strictEqual(
+  migrateOverride({ company_name: 'Acme Corp', original: legacy, updatedAt: '' }).status,
+  undefined
+);
+
+console.log('rollups tests passed');
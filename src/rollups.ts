@@ -0,0 +1,154 @@
+import {
+  applicationId,
+  attachEmail,
+  newApplication,
+  resolveApplication,
+} from './applications';
+import { applyGhosting } from './applicationStages';
+import { createCompanyResolver, type CompanyResolver, type ResolvedCompany } from './companyNames';
+import { emptyCounters, isJobStatus } from './classificationStatuses';
+import type { JobSort } from './repositories';
+import { THREAD_REPEAT_STATUSES } from './threads';
+import type { ApplicationDoc, ClassificationResult, GmailEmailDoc, JobDoc } from './types';
+
+export interface RollupResult {
+  companies: JobDoc[];
+  applications: ApplicationDoc[];
+  // message id → application id, for writing GmailEmailDoc.applicationId back.
+  emailApplications: Map<string, string>;
+}
+
+function emailDay(email: GmailEmailDoc): string {
+  const ms =
+    typeof email.internalDate === 'number' ? email.internalDate : Date.parse(email.fetchedAt);
+  return new Date(Number.isFinite(ms) ? ms : Date.now()).toISOString().slice(0, 10);
+}
+
+function rollupClassification(email: GmailEmailDoc): ClassificationResult | null {
+  const classification = email?.classification;
+  if (!classification || classification.is_job_related !== true) return null;
+  if (!isJobStatus(classification.status)) return null;
+  return classification;
+}
+
+function uniqueId(id: string, taken: Set<string>): string {
+  if (!taken.has(id)) return id;
+  let n = 2;
+  while (taken.has(`${id}-${n}`)) n++;
+  return `${id}-${n}`;
+}
+
+/** Order company or application docs the way the job listing endpoints return them. */
+export function sortJobDocs<T extends { company_name: string; last_updated: string }>(
+  docs: T[],
+  sort: JobSort
+): T[] {
+  return docs.sort((a, b) =>
+    sort === 'updated'
+      ? (b.last_updated || '').localeCompare(a.last_updated || '')
+      : (a.company_name || '').localeCompare(b.company_name || '')
+  );
+}
+
+/**
+ * Derive company rollups and applications from classified emails alone. Each message id counts
+ * once no matter how often it was stored or classified, so rebuilding is always safe. Replies in
+ * a Gmail thread stay on the thread's application, and a status the thread already reported
+ * (another "next steps" in the same back-and-forth) is kept as a note instead of counted again.
+ * `today` (YYYY-MM-DD) decides which quiet applications count as ghosted; `companies` decides
+ * which company each email counts towards.
+ */
+export function buildRollups(
+  ownerEmail: string,
+  emails: GmailEmailDoc[],
+  today = new Date().toISOString().slice(0, 10),
+  companies: CompanyResolver = createCompanyResolver(emails)
+): RollupResult {
+  const byId = new Map<string, GmailEmailDoc>();
+  const resolved = new Map<string, ResolvedCompany>();
+  for (const email of emails) {
+    const company = email?.id && rollupClassification(email) ? companies.resolve(email) : null;
+    if (!company) continue;
+    byId.set(email.id, email);
+    resolved.set(email.id, company);
+  }
+  const ordered = Array.from(byId.values()).sort(
+    (a, b) => (a.internalDate || 0) - (b.internalDate || 0) || a.id.localeCompare(b.id)
+  );
+
+  const companyDocs = new Map<string, JobDoc>();
+  const applicationsBySlug = new Map<string, ApplicationDoc[]>();
+  const applicationIds = new Set<string>();
+  const emailApplications = new Map<string, string>();
+  // `${slug}::${threadId}` → the thread's application and the statuses it has counted.
+  const threads = new Map<string, { application: ApplicationDoc; statuses: Set<string> }>();
+
+  for (const email of ordered) {
+    const classification = rollupClassification(email)!;
+    const { name: companyName, slug } = resolved.get(email.id)!;
+    const day = emailDay(email);
+
+    let company = companyDocs.get(slug);
+    if (!company) {
+      company = {
+        id: `${ownerEmail}::${slug}`,
+        docType: 'company',
+        owner: ownerEmail,
+        company_name: companyName,
+        ...emptyCounters(),
+        comments: [],
+        last_updated: day,
+      };
+      companyDocs.set(slug, company);
+    }
+    const status = classification.status;
+    const threadKey = email.threadId ? `${slug}::${email.threadId}` : '';
+    const thread = threadKey ? threads.get(threadKey) : undefined;
+    const repeat = Boolean(thread?.statuses.has(status) && THREAD_REPEAT_STATUSES.includes(status));
+    if (status === 'comment_only') {
+      company.comments.push({ date: day, note: (classification.summary || '').slice(0, 280) });
+    } else if (status !== 'not_job_related' && !repeat) {
+      company[status] += 1;
+    }
+    if (day > company.last_updated) company.last_updated = day;
+
+    const candidates = applicationsBySlug.get(slug) || [];
+    // Keep previously assigned ids stable as long as the email still belongs to that company.
+    const hint = email.applicationId?.startsWith(`${ownerEmail}::${slug}::`)
+      ? email.applicationId
+      : '';
+    const namesApplication = Boolean(classification.requisition_id || classification.role_title);
+    let application =
+      candidates.find((app) => hint && app.id === hint) ||
+      (!namesApplication ? thread?.application : undefined) ||
+      resolveApplication(candidates, classification);
+    if (!application) {
+      application = newApplication(ownerEmail, companyName, classification, day);
+      application.id = uniqueId(
+        hint && !applicationIds.has(hint)
+          ? hint
+          : applicationId(ownerEmail, companyName, classification),
+        applicationIds
+      );
+      applicationIds.add(application.id);
+      candidates.push(application);
+      applicationsBySlug.set(slug, candidates);
+    }
+    attachEmail(application, email.id, classification, day, repeat);
+    emailApplications.set(email.id, application.id);
+    if (threadKey) {
+      const statuses = thread?.application === application ? thread.statuses : new Set<string>();
+      statuses.add(status);
+      threads.set(threadKey, { application, statuses });
+    }
+  }
+
+  const applications: ApplicationDoc[] = [];
+  applicationsBySlug.forEach((list) => applications.push(...list));
+  for (const application of applications) {
+    if (applyGhosting(application.timeline, application.stage, today)) {
+      application.stage = 'ghosted';
+    }
+  }
+  return { companies: Array.from(companyDocs.values()), applications, emailApplications };
+}
@@ -0,0 +1,172 @@
+import type { ChatRequest } from './llmProviders';
+import type { ClassificationResult, ClassificationStatus } from './types';
+
+// Deterministic keyword rules that stand in for a model. Nothing leaves the process, and the
+// same email always gets the same answer, which also makes it handy for tests.
+
+interface ParsedEmail {
+  subject: string;
+  from: string;
+  body: string;
+}
+
+const REJECTED_PATTERNS = [
+  /unfortunately/i,
+  /not (?:be )?moving forward/i,
+  /decided to (?:move forward|proceed|pursue) with other/i,
+  /will not be (?:moving|proceeding)/i,
+  /position has been filled/i,
+  /not selected/i,
+];
+
+const WITHDRAWN_PATTERNS = [
+  /withdr(?:awn|ew) (?:your|my) application/i,
+  /application (?:has been )?withdrawn/i,
+];
+
+const OFFER_PATTERNS = [
+  /pleased to (?:extend|offer)/i,
+  /offer letter/i,
+  /extend(?:ed|ing)? (?:you )?an offer/i,
+];
+
+const ASSESSMENT_PATTERNS = [
+  /(?:coding|technical|online) (?:assessment|challenge|test)/i,
+  /take[- ]home/i,
+  /hackerrank|codesignal|codility/i,
+];
+
+const INTERVIEW_SCHEDULED_PATTERNS = [
+  /interview (?:is )?(?:scheduled|confirmed|booked)/i,
+  /(?:invitation|invite): .*interview/i,
+  /your interview (?:on|at) /i,
+];
+
+const ON_HOLD_PATTERNS = [
+  /(?:role|position|search|process) (?:is|has been|is currently) (?:on hold|paused)/i,
+  /hiring freeze/i,
+];
+
+const OUTREACH_PATTERNS = [
+  /came across your (?:profile|background|resume)/i,
+  /(?:would you|are you) (?:be )?(?:open|interested) (?:to|in) (?:a chat|chatting|exploring|learning more)/i,
+];
+
+const NEXT_STEPS_PATTERNS = [
+  /\binterview\b/i,
+  /\bavailability\b/i,
+  /schedule (?:a|some) time/i,
+  /phone screen/i,
+];
+
+const APPLIED_PATTERNS = [
+  /thank you for (?:applying|your application)/i,
+  /(?:we(?:'ve| have)?|has been) received your application/i,
+  /application (?:has been )?(?:received|submitted)/i,
+  /thanks for applying/i,
+];
+
+const JOB_PATTERNS = [
+  /\bapplication\b/i,
+  /\bcandida(?:te|cy)\b/i,
+  /\brecruit(?:er|ing)\b/i,
+  /\bposition\b/i,
+  /\brole\b/i,
+  /\bhiring\b/i,
+];
+
+const NOISE_PATTERNS = [/job alert/i, /unsubscribe/i, /newsletter/i, /jobs you may be interested/i];
+
+const COMPANY_PATTERNS = [
+  /(?:applying|application|interest) (?:to|at|with|in) ([A-Z][\w&.\- ]{1,40}?)(?:[.,!\n]| for | and |$)/,
+  /(?:the|our) team at ([A-Z][\w&.\- ]{1,40}?)(?:[.,!\n]| |$)/,
+  /(?:^|\n)(?:the )?([A-Z][\w&.\- ]{1,40}?) (?:talent|recruiting|hiring) team/i,
+];
+
+const ROLE_PATTERNS = [
+  /(?:for|to) the (?:position of |role of )?([A-Z][\w/&,.\- ]{2,60}?) (?:position|role|opening)/,
+  /(?:position|role) of ([A-Z][\w/&,.\- ]{2,60}?)(?:[.,!\n]| at |$)/,
+];
+
+const REQUISITION_PATTERN = /\b(?:req(?:uisition)?|job)(?: id| #| number)?[:#]?\s*([A-Z]{0,4}-?\d{3,})/i;
+
+function parseUserContent(request: ChatRequest): ParsedEmail {
+  const user = [...request.messages].reverse().find((m) => m.role === 'user');
+  const content = user?.content || '';
+  const subject = /^Subject: (.*)$/m.exec(content)?.[1] || '';
+  const from = /^From: (.*)$/m.exec(content)?.[1] || '';
+  const bodyIndex = content.indexOf('Body:\n');
+  const body = bodyIndex >= 0 ? content.slice(bodyIndex + 'Body:\n'.length) : content;
+  return { subject, from, body };
+}
+
+function matchesAny(patterns: RegExp[], text: string): boolean {
+  return patterns.some((pattern) => pattern.test(text));
+}
+
+function firstMatch(patterns: RegExp[], text: string): string {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match?.[1]) return match[1].trim();
+  }
+  return '';
+}
+
+function guessCompany(email: ParsedEmail): string {
+  const fromText = firstMatch(COMPANY_PATTERNS, `${email.subject}\n${email.body}`);
+  if (fromText) return fromText;
+  const displayName = /^"?([^"<@]+?)"?\s*</.exec(email.from)?.[1]?.trim();
+  if (displayName && !/no-?reply|notifications?/i.test(displayName)) {
+    return displayName.replace(/\s+(?:careers|recruiting|talent|jobs|hr)$/i, '');
+  }
+  const domain = /@([\w.-]+)/.exec(email.from)?.[1] || '';
+  const parts = domain.split('.');
+  const label = parts.length >= 2 ? parts[parts.length - 2] : '';
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : '';
+}
+
+export function classifyWithRules(email: ParsedEmail): ClassificationResult {
+  const text = `${email.subject}\n${email.body}`;
+  let status: ClassificationStatus = 'not_job_related';
+  if (!matchesAny(NOISE_PATTERNS, text)) {
+    if (matchesAny(WITHDRAWN_PATTERNS, text)) {
+      status = 'withdrawn';
+    } else if (matchesAny(REJECTED_PATTERNS, text)) {
+      status = 'rejected';
+    } else if (matchesAny(OFFER_PATTERNS, text)) {
+      status = 'offer';
+    } else if (matchesAny(ON_HOLD_PATTERNS, text)) {
+      status = 'on_hold';
+    } else if (matchesAny(ASSESSMENT_PATTERNS, text)) {
+      status = 'assessment';
+    } else if (matchesAny(INTERVIEW_SCHEDULED_PATTERNS, text)) {
+      status = 'interview_scheduled';
+    } else if (matchesAny(OUTREACH_PATTERNS, text)) {
+      status = 'recruiter_outreach';
+    } else if (matchesAny(NEXT_STEPS_PATTERNS, text)) {
+      status = 'next_steps';
+    } else if (matchesAny(APPLIED_PATTERNS, text)) {
+      status = 'applied';
+    } else if (matchesAny(JOB_PATTERNS, text)) {
+      status = 'comment_only';
+    }
+  }
+  const isJob = status !== 'not_job_related';
+  return {
+    is_job_related: isJob,
+    status,
+    summary: isJob ? (email.subject || 'Job-related email').slice(0, 140) : '',
+    company_name: isJob ? guessCompany(email) : '',
+    role_title: isJob ? firstMatch(ROLE_PATTERNS, text) : '',
+    requisition_id: isJob ? REQUISITION_PATTERN.exec(text)?.[1] || '' : '',
+  };
+}
+
+export function answerWithRules(request: ChatRequest): string {
+  const email = parseUserContent(request);
+  const result = classifyWithRules(email);
+  if (request.stage === 'gate') {
+    return JSON.stringify({ job_related: result.is_job_related });
+  }
+  return JSON.stringify(result);
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createFileSecretStore, secretBackendFromEnv } from './secretStore';
+import { createLocalRepositories } from './localRepositories';
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-secrets-'));
+  const filePath = path.join(dir, 'secrets.json.enc');
+
+  const store = createFileSecretStore(filePath, 'correct horse');
+  assert.strictEqual(await store.get('gmail-token-a'), null);
+  await store.set('gmail-token-a', '{"refresh_token":"r1"}');
+  await store.set('gmail-state-a', '{"historyId":"5"}');
+  assert.deepStrictEqual(await store.listNames('gmail-token-'), ['gmail-token-a']);
+
+  // Nothing readable on disk, and a fresh instance decrypts with the same passphrase.
+  const raw = await fs.readFile(filePath, 'utf8');
+  assert.ok(!raw.includes('refresh_token'));
+  const reopened = createFileSecretStore(filePath, 'correct horse');
+  assert.strictEqual(await reopened.get('gmail-token-a'), '{"refresh_token":"r1"}');
+  await assert.rejects(createFileSecretStore(filePath, 'wrong').get('gmail-token-a'), /decrypt/);
+  assert.throws(() => createFileSecretStore(filePath, ''), /LOCAL_SECRET_KEY/);
+
+  assert.strictEqual(secretBackendFromEnv({}), 'keyvault');
+  assert.strictEqual(secretBackendFromEnv({ STORAGE_BACKEND: 'local' }), 'file');
+  assert.strictEqual(secretBackendFromEnv({ STORAGE_BACKEND: ' Local ' }), 'file');
+  assert.throws(
+    () => secretBackendFromEnv({ STORAGE_BACKEND: 'locale' }),
+    /Unknown STORAGE_BACKEND/
+  );
+  assert.strictEqual(
+    secretBackendFromEnv({ STORAGE_BACKEND: 'local', SECRET_BACKEND: 'keyvault' }),
+    'keyvault'
+  );
+  assert.throws(() => secretBackendFromEnv({ SECRET_BACKEND: 'vault' }), /Unknown SECRET_BACKEND/);
+
+  const repos = createLocalRepositories(dir);
+  await repos.jobs.upsert({
+    id: 'a@x.com::acme',
+    docType: 'company',
+    owner: 'a@x.com',
+    company_name: 'Acme',
+    applied: 1,
+    recruiter_outreach: 0,
+    next_steps: 0,
+    assessment: 0,
+    interview_scheduled: 0,
+    offer: 0,
+    on_hold: 0,
+    rejected: 0,
+    withdrawn: 0,
+    comments: [],
+    last_updated: '2024-03-01',
+  });
+  const reloaded = createLocalRepositories(dir);
+  assert.deepStrictEqual(await reloaded.jobs.listIds('a@x.com', 'acme'), ['a@x.com::acme']);
+  assert.deepStrictEqual(await reloaded.jobs.listIds('b@x.com'), []);
+  await reloaded.jobs.delete('a@x.com', 'a@x.com::acme');
+  assert.deepStrictEqual(await reloaded.jobs.listCompanies('a@x.com', 'company'), []);
+
+  await fs.rm(dir, { recursive: true, force: true });
+  console.log('secretStore tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getSecretClient } from './keyVaultClient';
+import { storageBackendFromEnv } from './repositories';
+
+export type SecretBackend = 'keyvault' | 'file';
+
+/** Where Gmail tokens, ingest cursors and other per-user secrets live. */
+export interface SecretStore {
+  backend: SecretBackend;
+  get(name: string): Promise<string | null>;
+  set(name: string, value: string): Promise<void>;
+  listNames(prefix: string): Promise<string[]>;
+}
+
+export function createKeyVaultSecretStore(): SecretStore {
+  return {
+    backend: 'keyvault',
+    async get(name) {
+      try {
+        const secret = await getSecretClient().getSecret(name);
+        return secret.value ?? null;
+      } catch (err: any) {
+        if (err.code === 'SecretNotFound') {
+          return null;
+        }
+        throw err;
+      }
+    },
+    async set(name, value) {
+      await getSecretClient().setSecret(name, value);
+    },
+    async listNames(prefix) {
+      const names: string[] = [];
+      for await (const props of getSecretClient().listPropertiesOfSecrets()) {
+        if (props.name && props.name.startsWith(prefix)) names.push(props.name);
+      }
+      return names;
+    },
+  };
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * All secrets in one AES-256-GCM encrypted JSON file, keyed by a passphrase. Meant for local
+ * development; every write re-encrypts the whole file.
+ */
+export function createFileSecretStore(filePath: string, passphrase: string): SecretStore {
+  if (!passphrase) {
+    throw new Error('LOCAL_SECRET_KEY is required for the file secret store.');
+  }
+  let cache: Record<string, string> | null = null;
+  let salt: Buffer | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const deriveKey = (fileSalt: Buffer) => crypto.scryptSync(passphrase, fileSalt, 32);
+
+  async function load(): Promise<Record<string, string>> {
+    if (cache) return cache;
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf8');
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+      salt = crypto.randomBytes(16);
+      cache = {};
+      return cache;
+    }
+    const file = JSON.parse(raw) as EncryptedFile;
+    salt = Buffer.from(file.salt, 'base64');
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(salt),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    try {
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]);
+      cache = JSON.parse(plain.toString('utf8'));
+    } catch {
+      throw new Error(`Cannot decrypt ${filePath}; check LOCAL_SECRET_KEY.`);
+    }
+    return cache!;
+  }
+
+  async function persist(secrets: Record<string, string>): Promise<void> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(salt!), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      salt: salt!.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(file), { mode: 0o600 });
+    await fs.rename(tmp, filePath);
+  }
+
+  return {
+    backend: 'file',
+    async get(name) {
+      const secrets = await load();
+      return Object.prototype.hasOwnProperty.call(secrets, name) ? secrets[name] : null;
+    },
+    async set(name, value) {
+      const secrets = await load();
+      secrets[name] = value;
+      // Serialize writes so concurrent sets never interleave on disk.
+      writing = writing.catch(() => undefined).then(() => persist(secrets));
+      await writing;
+    },
+    async listNames(prefix) {
+      const secrets = await load();
+      return Object.keys(secrets).filter((name) => name.startsWith(prefix));
+    },
+  };
+}
+
+let store: SecretStore | null = null;
+
+export function secretBackendFromEnv(env: NodeJS.ProcessEnv = process.env): SecretBackend {
+  const configured = (env.SECRET_BACKEND || '').trim().toLowerCase();
+  // Follows STORAGE_BACKEND, parsed (and rejected when unknown) as the repositories parse it.
+  if (!configured) return storageBackendFromEnv(env) === 'local' ? 'file' : 'keyvault';
+  if (configured !== 'keyvault' && configured !== 'file') {
+    throw new Error(`Unknown SECRET_BACKEND "${configured}" (expected keyvault or file).`);
+  }
+  return configured;
+}
+
+export function getSecretStore(): SecretStore {
+  if (store) return store;
+  if (secretBackendFromEnv() === 'file') {
+    const dir = process.env.LOCAL_DATA_DIR || '.data';
+    store = createFileSecretStore(
+      path.resolve(dir, 'secrets.json.enc'),
+      process.env.LOCAL_SECRET_KEY || ''
+    );
+  } else {
+    store = createKeyVaultSecretStore();
+  }
+  return store;
+}
+
+/** Swap the process-wide store, e.g. for tests. */
+export function setSecretStore(next: SecretStore | null): void {
+  store = next;
+}
@@ -2,16 +2,15 @@ import path from 'path';
 import crypto from 'crypto';
 import express, { type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
-import { CosmosClient, type Container } from '@azure/cosmos';
 import { google } from 'googleapis';
 import type { OAuth2Client } from 'google-auth-library';
 import cron from 'node-cron';
-import { htmlToText } from 'html-to-text';
 import Redis from 'ioredis';
 import dotenv from 'dotenv';
 import type {
+  ApplicationDoc,
   AuthedRequest,
-  ClassificationResult,
+  CompanyAliases,
   GmailEmailDoc,
   JobDoc,
   SessionPayload,
@@ -19,63 +18,76 @@ import type {
 import * as tokenStore from './gmailTokenStore';
 import * as gmailStateStore from './gmailStateStore';
 import { filterEmailsByCompany } from './companyFilter';
-import { callChat } from './openaiClient';
-
-async function logGmailDiagnostics(
-  gmailContainer: Container,
-  ownerEmail: string,
-  companyName: string
-): Promise<void> {
-  const diagnostics: Array<{ label: string; query: string; parameters?: any[] }> = [
-    {
-      label: 'Non-string owner',
-      query: 'SELECT TOP 3 c.id, c.owner FROM c WHERE NOT IS_STRING(c.owner)',
-    },
-    {
-      label: 'Non-string company classification',
-      query:
-        'SELECT TOP 3 c.id, c.classification FROM c WHERE c.owner = @owner AND (NOT IS_DEFINED(c.classification) OR NOT IS_OBJECT(c.classification) OR NOT IS_DEFINED(c.classification.company_name) OR NOT IS_STRING(c.classification.company_name))',
-      parameters: [{ name: '@owner', value: ownerEmail }],
-    },
-    {
-      label: 'Missing internalDate',
-      query:
-        'SELECT TOP 3 c.id, c.internalDate FROM c WHERE c.owner = @owner AND (NOT IS_DEFINED(c.internalDate) OR NOT IS_NUMBER(c.internalDate))',
-      parameters: [{ name: '@owner', value: ownerEmail }],
-    },
-    {
-      label: 'Sample classified company',
-      query:
-        'SELECT TOP 3 c.id, c.classification FROM c WHERE c.owner = @owner AND IS_DEFINED(c.classification.company_name) AND c.classification.company_name = @company',
-      parameters: [
-        { name: '@owner', value: ownerEmail },
-        { name: '@company', value: companyName },
-      ],
-    },
-  ];
-
-  for (const diag of diagnostics) {
-    try {
-      const { resources } = await gmailContainer.items
-        .query(diag, { maxItemCount: 3 })
-        .fetchAll();
-      console.log(`[Diag:${diag.label}]`, resources);
-    } catch (err: any) {
-      console.error(`[Diag failed:${diag.label}]`, err.message || err);
-    }
-  }
-}
+import { companySlug } from './applications';
+import {
+  createCompanyResolver,
+  loadCompanyAliases,
+  mergeAliases,
+  removeAlias,
+  saveCompanyAliases,
+} from './companyNames';
+import { buildRollups, sortJobDocs } from './rollups';
+import {
+  emptyCounters,
+  isJobStatus,
+  migrateClassification,
+  migrateOverride,
+} from './classificationStatuses';
+import {
+  ingestAccounts,
+  refreshRollups,
+  retryWithBackoff,
+  type IngestDeps,
+  type IngestOptions,
+  type IngestResult,
+} from './gmailIngest';
+import {
+  getBackfill,
+  pauseBackfill,
+  resumeBackfill,
+  runBackfill,
+  startBackfill,
+} from './backfill';
+import {
+  cancelFetchJob,
+  createRedisFetchJobStore,
+  enqueueFetchJob,
+  isFinished,
+  startFetchWorker,
+  type FetchJob,
+  type FetchJobStore,
+} from './fetchJobs';
+import { createLlmCache, DEFAULT_LLM_CACHE_TTL_SECONDS, type LlmCache } from './llmCache';
+import { describeProvider, loadStageProviders } from './llmProviders';
+import { buildIcsFeed, collectInterviews, findInterviewConflicts } from './calendarFeed';
+import * as calendarTokenStore from './calendarTokenStore';
+import { clearOverride, parseCorrection, setOverride } from './corrections';
+import { requestRetry } from './deadLetters';
+import { findPart } from './attachments';
+import { CLASSIFY_PROMPT_VERSION } from './emailClassifier';
+import {
+  applyReclassification,
+  isStale,
+  parseReclassifyScope,
+  previewReclassification,
+} from './reclassify';
+import {
+  createRepositories,
+  storageBackendFromEnv,
+  type JobSort,
+  type Repositories,
+} from './repositories';
+import {
+  createUsageTracker,
+  monthStart,
+  parseBudget,
+  parseModelPrices,
+  summarizeUsage,
+  type UsageTracker,
+} from './usage';
 
 dotenv.config();
 
-const COSMOS_URI = process.env.COSMOS_URI;
-const COSMOS_KEY = process.env.COSMOS_KEY;
-const COSMOS_DATABASE = process.env.COSMOS_DATABASE;
-const COSMOS_CONTAINER = process.env.COSMOS_CONTAINER;
-const COSMOS_GMAIL_DATABASE = process.env.COSMOS_GMAIL_DATABASE || 'gmaildb';
-const COSMOS_GMAIL_CONTAINER = process.env.COSMOS_GMAIL_CONTAINER || 'emails';
-const COSMOS_JOBS_DATABASE = process.env.COSMOS_JOBS_DATABASE || 'jobsdb';
-const COSMOS_JOBS_CONTAINER = process.env.COSMOS_JOBS_CONTAINER || 'applications';
 const PORT = Number(process.env.PORT || '3000');
 const REDIS_URL = process.env.REDIS_URL;
 const REDIS_PASSWORD = process.env.REDIS_PASSWORD;
@@ -84,9 +96,18 @@ const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
 const GOOGLE_REDIRECT_URI =
   process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback';
 const GMAIL_CRON = process.env.GMAIL_CRON_SCHEDULE || '45 0 * * *';
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const EMAIL_CLASS_MODEL = process.env.EMAIL_CLASS_MODEL || 'gpt-5-mini';
-const EMAIL_GATE_MODEL = process.env.EMAIL_GATE_MODEL || 'gpt-5-nano';
+const BACKFILL_LLM_BUDGET = Number(process.env.BACKFILL_LLM_BUDGET || '500');
+const GMAIL_FETCH_CONCURRENCY = Number(process.env.GMAIL_FETCH_CONCURRENCY || '8');
+// Estimated LLM spend per user and month before classification pauses (0 = no limit).
+const LLM_MONTHLY_BUDGET_USD = Number(process.env.LLM_MONTHLY_BUDGET_USD || '0');
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+// 0 turns the LLM response cache off.
+const LLM_CACHE_TTL_SECONDS = Number(
+  process.env.LLM_CACHE_TTL_SECONDS ?? String(DEFAULT_LLM_CACHE_TTL_SECONDS)
+);
 const SESSION_SECRET = process.env.SESSION_SECRET;
 const SESSION_DURATION_DAYS = Number(process.env.SESSION_DURATION_DAYS || '10');
 const SESSION_DURATION_MS = SESSION_DURATION_DAYS * 24 * 60 * 60 * 1000;
@@ -99,7 +120,12 @@ const SESSION_COOKIE_OPTIONS = {
 };
 const EASTERN_TIMEZONE = 'America/New_York';
 const STATIC_DIR = path.join(__dirname, '..', 'client', 'dist');
+// Replaced with cache-backed providers once Redis is connected.
+let llmProviders = loadStageProviders();
+let llmCache: LlmCache | null = null;
+let usageTracker: UsageTracker | null = null;
 let redisClient: Redis | null = null;
+let fetchJobStore: FetchJobStore | null = null;
 
 declare global {
   namespace Express {
@@ -110,12 +136,16 @@ declare global {
 }
 
 requireEnv('SESSION_SECRET', SESSION_SECRET);
-if (OPENAI_API_KEY) {
+const gateDescription = describeProvider(llmProviders.gate);
+const classifyDescription = describeProvider(llmProviders.classify);
+if (llmProviders.gate && llmProviders.classify) {
   console.log(
-    `Email classification enabled (gate model: ${EMAIL_GATE_MODEL}, detail model: ${EMAIL_CLASS_MODEL}).`
+    `Email classification enabled (gate: ${gateDescription}, detail: ${classifyDescription}).`
   );
 } else {
-  console.warn('OPENAI_API_KEY not set. Job email classification is disabled.');
+  console.warn(
+    `LLM provider not configured (gate: ${gateDescription}, detail: ${classifyDescription}). Job email classification is disabled.`
+  );
 }
 
 function requireEnv(name: string, value: string | undefined | null): string {
@@ -144,92 +174,12 @@ async function initRedis(): Promise<Redis> {
   return client;
 }
 
-async function initCosmos(): Promise<{ client: CosmosClient; container: Container }> {
-  requireEnv('COSMOS_URI', COSMOS_URI);
-  requireEnv('COSMOS_KEY', COSMOS_KEY);
-  requireEnv('COSMOS_DATABASE', COSMOS_DATABASE);
-  requireEnv('COSMOS_CONTAINER', COSMOS_CONTAINER);
-
-  const client = new CosmosClient({
-    endpoint: COSMOS_URI!,
-    key: COSMOS_KEY!,
-    connectionPolicy: {
-      requestTimeout: 120000,
-    },
-  });
-
-  const { database } = await client.databases.createIfNotExists({
-    id: COSMOS_DATABASE!,
-  });
-
-  const { container } = await database.containers.createIfNotExists({
-    id: COSMOS_CONTAINER!,
-    partitionKey: '/email',
-  });
-
-  return { client, container };
-}
-
-async function initGmailCosmos(): Promise<{ client: CosmosClient; container: Container }> {
-  requireEnv('COSMOS_URI', COSMOS_URI);
-  requireEnv('COSMOS_KEY', COSMOS_KEY);
-
-  const client = new CosmosClient({
-    endpoint: COSMOS_URI!,
-    key: COSMOS_KEY!,
-    connectionPolicy: {
-      requestTimeout: 120000,
-    },
-  });
-  const { database } = await client.databases.createIfNotExists({
-    id: COSMOS_GMAIL_DATABASE,
-  });
-
-  const { container } = await database.containers.createIfNotExists({
-    id: COSMOS_GMAIL_CONTAINER,
-    partitionKey: '/owner',
-  });
-
-  return { client, container };
-}
-
-async function initJobsCosmos(): Promise<{ client: CosmosClient; container: Container }> {
-  requireEnv('COSMOS_URI', COSMOS_URI);
-  requireEnv('COSMOS_KEY', COSMOS_KEY);
-
-  const client = new CosmosClient({
-    endpoint: COSMOS_URI!,
-    key: COSMOS_KEY!,
-    connectionPolicy: {
-      requestTimeout: 120000,
-    },
-  });
-  const { database } = await client.databases.createIfNotExists({
-    id: COSMOS_JOBS_DATABASE,
-  });
-
-  const { container } = await database.containers.createIfNotExists({
-    id: COSMOS_JOBS_CONTAINER,
-    partitionKey: '/owner',
-  });
-
-  return { client, container };
-}
-
 function createOAuthClient(): OAuth2Client {
   requireEnv('GOOGLE_CLIENT_ID', GOOGLE_CLIENT_ID);
   requireEnv('GOOGLE_CLIENT_SECRET', GOOGLE_CLIENT_SECRET);
   return new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI);
 }
 
-function extractHeader(
-  headers: Array<{ name?: string | null; value?: string | null }> = [],
-  name: string
-): string {
-  const header = headers.find((h) => h.name === name);
-  return header ? header.value || '' : '';
-}
-
 function escapeHtml(str = ''): string {
   return String(str)
     .replace(/&/g, '&amp;')
@@ -327,6 +277,24 @@ function getSessionFromRequest(req: Request): SessionPayload | null {
   return verifySessionToken(token);
 }
 
+function isAdmin(req: AuthedRequest): boolean {
+  const email = (req.userSession?.email || '').toLowerCase();
+  return Boolean(email) && ADMIN_EMAILS.includes(email);
+}
+
+// Sends the error response and returns false unless the signed-in user is listed in ADMIN_EMAILS.
+function requireAdmin(req: AuthedRequest, res: Response): boolean {
+  if (!req.userSession) {
+    res.status(401).json({ error: 'Not signed in' });
+    return false;
+  }
+  if (!isAdmin(req)) {
+    res.status(403).json({ error: 'Admins only' });
+    return false;
+  }
+  return true;
+}
+
 function pad2(value: string | number): string {
   return String(value).padStart(2, '0');
 }
@@ -366,246 +334,6 @@ function getPreviousEasternDayRangeSeconds(): { after: number; before: number }
   return { after: startYesterdaySeconds, before: startTodaySeconds };
 }
 
-function decodeBodyData(data = ''): string {
-  const normalized = data.replace(/-/g, '+').replace(/_/g, '/');
-  return Buffer.from(normalized, 'base64').toString('utf-8');
-}
-
-function extractMessageBody(part: any = {}): string {
-  if (part.parts && part.parts.length) {
-    for (const subpart of part.parts) {
-      const text = extractMessageBody(subpart);
-      if (text) return text;
-    }
-  }
-
-  const body = part.body || {};
-  if (body.data) {
-    const text = decodeBodyData(body.data);
-    if ((part.mimeType || '').includes('html')) {
-      return htmlToText(text, { wordwrap: 100 });
-    }
-    return text;
-  }
-
-  return '';
-}
-
-function redisEmailKey(ownerEmail: string, messageId: string): string {
-  const owner = (ownerEmail || '').toLowerCase();
-  return `gmail:${owner}:${messageId}`;
-}
-
-async function retryWithBackoff<T>(
-  operation: () => Promise<T>,
-  attempts = 4,
-  baseDelayMs = 200
-): Promise<T> {
-  let lastErr: any;
-  for (let i = 0; i < attempts; i++) {
-    try {
-      return await operation();
-    } catch (err: any) {
-      lastErr = err;
-      const isLast = i === attempts - 1;
-      if (isLast) break;
-      const delay = baseDelayMs * Math.pow(2, i);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-  }
-  throw lastErr;
-}
-
-async function classifyIsJobRelated(emailDoc: GmailEmailDoc): Promise<boolean> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not set; cannot run job-related gate.');
-  }
-  const systemPrompt = `Decide if a single email is about a job application or job process. Reply with JSON: {"job_related": true|false}. Treat interview requests, application confirmations, rejections, and next steps as job_related true. Ignore newsletters, marketing, alerts, and general promotions (job_related false).`;
-  const content = `Subject: ${emailDoc.subject || '(no subject)'}\nFrom: ${
-    emailDoc.from || 'unknown'
-  }\n\nBody:\n${emailDoc.body || emailDoc.snippet || ''}`;
-  const data = await callChat({
-    model: EMAIL_GATE_MODEL,
-    temperature: 0,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content },
-    ],
-  });
-  const message = data.choices?.[0]?.message?.content;
-  if (!message) {
-    throw new Error('Empty job gate response');
-  }
-  const parsed = JSON.parse(message);
-  return Boolean(parsed.job_related);
-}
-
-async function classifyEmail(emailDoc: GmailEmailDoc): Promise<ClassificationResult | null> {
-  if (!OPENAI_API_KEY) {
-    console.warn('OPENAI_API_KEY not set. Skipping classification.');
-    return null;
-  }
-
-  const systemPrompt = `You classify one email at a time.
-Output only JSON with this schema:
-{
-  "is_job_related": true | false,
-  "status": "applied" | "rejected" | "next_steps" | "comment_only" | "not_job_related",
-  "summary": "short sentence",
-  "company_name": "Company extracted from the message"
-}
-
-Rules:
-- Ignore newsletters, job alerts, marketing blasts, and platform recommendations.
-- applied: acknowledges receipt or confirms application submission.
-- rejected: explicit rejection.
-- next_steps: interviews, assessments, or availability requests.
-- comment_only: job-related but not applied/rejected/next_steps.
-- not_job_related: everything else.
-Always include a concise summary and company_name guess.`;
-
-  const content = `Subject: ${emailDoc.subject || '(no subject)'}\nFrom: ${
-    emailDoc.from || 'unknown'
-  }\n\nBody:\n${emailDoc.body || emailDoc.snippet || ''}`;
-
-  try {
-    const data = await callChat({
-      model: EMAIL_CLASS_MODEL,
-      temperature: 0,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content },
-      ],
-    });
-
-    const message = data.choices?.[0]?.message?.content;
-    if (!message) {
-      throw new Error('Empty classification response');
-    }
-    return JSON.parse(message) as ClassificationResult;
-  } catch (err: any) {
-    console.error('Email classification failed', err.message || err);
-    return null;
-  }
-}
-
-async function upsertJobStatus(
-  jobsContainer: Container | null,
-  ownerRaw: string,
-  classification: ClassificationResult | null
-): Promise<JobDoc | null> {
-  if (!jobsContainer) {
-    console.warn('Jobs container missing. Skipping status upsert.');
-    return null;
-  }
-  if (!classification) return null;
-
-  const companyName = (classification.company_name || '').trim();
-  const ownerEmail = (ownerRaw || '').trim().toLowerCase();
-  if (!companyName) {
-    console.warn('Classification missing company_name. Skipping.');
-    return null;
-  }
-  if (!ownerEmail) {
-    console.warn('Missing owner for job status update. Skipping.');
-    return null;
-  }
-
-  const status = classification.status;
-  if (
-    !classification.is_job_related ||
-    status === 'not_job_related' ||
-    !['applied', 'rejected', 'next_steps', 'comment_only'].includes(status)
-  ) {
-    return null;
-  }
-
-  const pk = ownerEmail;
-  const companySlug = companyName.toLowerCase().replace(/\s+/g, '_');
-  const docId = `${ownerEmail}::${companySlug}`;
-  const today = new Date().toISOString().slice(0, 10);
-  let doc: JobDoc | null;
-  try {
-    const { resource } = await jobsContainer.item(docId, pk).read<JobDoc>();
-    doc = resource || null;
-  } catch (err: any) {
-    if (err.code === 404) {
-      doc = {
-        id: docId,
-        owner: ownerEmail,
-        company_name: companyName,
-        applied: 0,
-        rejected: 0,
-        next_steps: 0,
-        comments: [],
-        last_updated: today,
-      };
-    } else {
-      throw err;
-    }
-  }
-  if (!doc) {
-    doc = {
-      id: docId,
-      owner: ownerEmail,
-      company_name: companyName,
-      applied: 0,
-      rejected: 0,
-      next_steps: 0,
-      comments: [],
-      last_updated: today,
-    };
-  }
-
-  if (!Array.isArray(doc.comments)) {
-    doc.comments = [];
-  } else if (doc.comments.length && typeof doc.comments[0] === 'string') {
-    doc.comments = doc.comments.map((note: any) => ({ date: today, note: String(note) }));
-  }
-
-  if (status === 'applied') {
-    doc.applied = (doc.applied || 0) + 1;
-  } else if (status === 'rejected') {
-    doc.rejected = (doc.rejected || 0) + 1;
-  } else if (status === 'next_steps') {
-    doc.next_steps = (doc.next_steps || 0) + 1;
-  } else if (status === 'comment_only') {
-    const note = (classification.summary || '').slice(0, 280);
-    doc.comments.push({ date: today, note });
-  }
-
-  doc.last_updated = today;
-  await jobsContainer.items.upsert(doc);
-  return doc;
-}
-
-async function classifyEmailAndUpsert(
-  emailDoc: GmailEmailDoc,
-  jobsContainer: Container | null
-): Promise<ClassificationResult | null> {
-  if (!jobsContainer) return null;
-  const ownerEmail = (emailDoc.owner || '').trim().toLowerCase();
-  if (!ownerEmail) {
-    console.warn('Email document missing owner, skipping classification upsert.');
-    return null;
-  }
-  const classification = await classifyEmail(emailDoc);
-  if (!classification) return null;
-  console.log(
-    `Classified email "${emailDoc.subject || '(no subject)'}" → ${
-      classification.status
-    } (${classification.company_name || 'unknown company'})`
-  );
-  try {
-    await upsertJobStatus(jobsContainer, ownerEmail, classification);
-  } catch (err: any) {
-    console.error('Failed to upsert job status', err.message || err);
-  }
-  return classification;
-}
-
 async function verifyGoogleIdCredential(idToken?: string): Promise<any> {
   if (!idToken) {
     throw new Error('Missing Google credential');
@@ -618,288 +346,102 @@ async function verifyGoogleIdCredential(idToken?: string): Promise<any> {
   return ticket.getPayload();
 }
 
-async function fetchAndStoreGmailEmails(
-  emailContainer: Container | null,
-  oauthClient: OAuth2Client | null,
-  jobsContainer: Container | null,
-  ownerRaw: string,
-  options: { queryOverride?: string; skipStateUpdate?: boolean } = {}
-): Promise<{ fetched: number; owner?: string }> {
-  const ownerEmail = (ownerRaw || '').trim().toLowerCase();
-  if (!ownerEmail) {
-    throw new Error('Owner email required for Gmail fetch');
-  }
-  if (!redisClient) {
-    const err: any = new Error('Redis not available for Gmail fetch');
-    err.code = 'REDIS_UNAVAILABLE';
+// Gmail client for one of an owner's mailboxes, using its stored tokens.
+async function createGmailClient(ownerEmail: string, gmailAccount = ownerEmail) {
+  const savedTokens = await tokenStore.loadTokens(ownerEmail, gmailAccount);
+  if (!savedTokens || !Object.keys(savedTokens).length) {
+    const err: any = new Error('Gmail access not configured');
+    err.code = 'NO_GMAIL_TOKENS';
     throw err;
   }
-  if (!emailContainer) {
-    console.warn('Gmail container not ready, skipping fetch.');
-    return { fetched: 0 };
-  }
-
-  const { queryOverride = '', skipStateUpdate = false } = options;
-  const useState = !queryOverride;
-
-  let client = oauthClient;
-  if (!client) {
-    const savedTokens = await tokenStore.loadTokens(ownerEmail);
-    if (!savedTokens) {
-      const err: any = new Error('Gmail access not configured');
-      err.code = 'NO_GMAIL_TOKENS';
-      throw err;
-    }
-    client = createOAuthClient();
-    client.setCredentials(savedTokens);
-  }
+  const client = createOAuthClient();
+  client.setCredentials(savedTokens);
 
   client.on('tokens', (tokens) => {
-    tokenStore.saveTokens(ownerEmail, tokens as Record<string, unknown>).catch((err) => {
-      console.error('Failed to persist updated Gmail tokens', err);
-    });
+    tokenStore
+      .saveTokens(ownerEmail, tokens as Record<string, unknown>, gmailAccount)
+      .catch((err) => {
+        console.error('Failed to persist updated Gmail tokens', err);
+      });
   });
 
-  const gmail = google.gmail({ version: 'v1', auth: client });
+  return google.gmail({ version: 'v1', auth: client });
+}
 
-  let state: gmailStateStore.GmailState = {};
-  let lastInternalDateMs: number | null = null;
-  let historyId: string | null = null;
-  if (useState) {
-    state = (await gmailStateStore.loadState(ownerEmail)) || {};
-    lastInternalDateMs = state.lastInternalDateMs ? Number(state.lastInternalDateMs) : null;
-    historyId = state.historyId ? String(state.historyId) : null;
+// Gmail client and ingestion dependencies for one mailbox of an owner.
+async function createIngestDeps(
+  repos: Repositories,
+  ownerEmail: string,
+  gmailAccount = ownerEmail
+): Promise<IngestDeps> {
+  if (!redisClient) {
+    const err: any = new Error('Redis not available for Gmail fetch');
+    err.code = 'REDIS_UNAVAILABLE';
+    throw err;
   }
 
-  const profileResp = await gmail.users.getProfile({ userId: 'me' });
-  const gmailAccountEmail = (profileResp.data.emailAddress || ownerEmail).toLowerCase();
-  const profileHistoryId = profileResp.data.historyId ? String(profileResp.data.historyId) : null;
-  if (gmailAccountEmail !== ownerEmail) {
-    console.warn(
-      `Gmail account (${gmailAccountEmail}) differs from session owner (${ownerEmail}). Using session owner for storage.`
-    );
-  }
+  const gmail = await createGmailClient(ownerEmail, gmailAccount);
+  return {
+    repos,
+    gmail,
+    gmailAccount,
+    cache: redisClient,
+    state: gmailStateStore.accountState(gmailAccount),
+    providers: llmProviders,
+    messageConcurrency: GMAIL_FETCH_CONCURRENCY,
+    usage: usageTracker || undefined,
+  };
+}
 
-  let usedHistorySync = false;
-  let historyMessageIds: string[] = [];
-  let newHistoryId: string | null = null;
-  if (useState && historyId && !queryOverride) {
-    try {
-      const seen = new Set<string>();
-      let pageToken: string | undefined;
-      let latestHistoryId = historyId;
-      do {
-        const historyResp = await gmail.users.history.list({
-          userId: 'me',
-          startHistoryId: historyId,
-          pageToken,
-          maxResults: 200,
-          historyTypes: ['messageAdded', 'labelAdded', 'labelRemoved'],
-        });
-        const history = historyResp.data.history || [];
-        pageToken = historyResp.data.nextPageToken || undefined;
-        for (const entry of history) {
-          if (entry.id && String(entry.id) > String(latestHistoryId)) {
-            latestHistoryId = String(entry.id);
-          }
-          const added = entry.messagesAdded || [];
-          for (const item of added) {
-            if (item.message?.id) {
-              seen.add(item.message.id);
-            }
-          }
-          const messages = entry.messages || [];
-          for (const msg of messages) {
-            if (msg.id) {
-              seen.add(msg.id);
-            }
-          }
-        }
-      } while (pageToken);
-      historyMessageIds = Array.from(seen);
-      usedHistorySync = true;
-      newHistoryId = latestHistoryId;
-      if (!historyMessageIds.length) {
-        console.log(`[Gmail] No new history events after ${historyId} for ${ownerEmail}`);
-      }
-    } catch (err: any) {
-      usedHistorySync = false;
-      historyMessageIds = [];
-      console.warn(`[Gmail] History sync failed; falling back to time-window query`, err?.message || err);
-    }
+// Ingestion dependencies for each connected mailbox of an owner, or just `only`.
+async function createAccountIngestDeps(
+  repos: Repositories,
+  ownerEmail: string,
+  only?: string
+): Promise<IngestDeps[]> {
+  const accounts = (await tokenStore.listAccounts(ownerEmail)).filter(
+    (account) => !only || account === only.toLowerCase()
+  );
+  if (!accounts.length) {
+    const err: any = new Error('Gmail access not configured');
+    err.code = 'NO_GMAIL_TOKENS';
+    throw err;
   }
+  return Promise.all(accounts.map((account) => createIngestDeps(repos, ownerEmail, account)));
+}
 
-  let gmailQuery = '';
-  if (!usedHistorySync) {
-    const queryParts: string[] = [];
-    if (queryOverride) {
-      queryParts.push(queryOverride);
-    } else if (lastInternalDateMs) {
-      const afterSeconds = Math.floor(lastInternalDateMs / 1000);
-      queryParts.push(`after:${afterSeconds}`);
-    } else {
-      queryParts.push('newer_than:7d');
-    }
-    gmailQuery = queryParts.join(' ').trim();
+async function fetchAndStoreGmailEmails(
+  repos: Repositories | null,
+  ownerRaw: string,
+  options: IngestOptions & { gmailAccount?: string } = {}
+): Promise<IngestResult> {
+  const ownerEmail = (ownerRaw || '').trim().toLowerCase();
+  if (!ownerEmail) {
+    throw new Error('Owner email required for Gmail fetch');
   }
+  if (!repos) {
+    console.warn('Email storage not ready, skipping fetch.');
+    return { fetched: 0, llmCalls: 0 };
+  }
+  const accounts = await createAccountIngestDeps(repos, ownerEmail, options.gmailAccount);
+  return ingestAccounts(accounts, ownerEmail, options);
+}
 
-  const storedDocs: GmailEmailDoc[] = [];
-  let maxInternalDate = lastInternalDateMs || 0;
-  const handleMessage = async (messageId: string, threadId?: string) => {
-    const { data } = await gmail.users.messages.get({
-      userId: 'me',
-      id: messageId,
-      format: 'full',
-    });
-
-    const headers = data.payload ? data.payload.headers || [] : [];
-    const internalDateMs = Number(data.internalDate) || Date.now();
-    const doc: GmailEmailDoc = {
-      id: data.id || '',
-      threadId: data.threadId || threadId || '',
-      owner: ownerEmail,
-      gmailAccount: gmailAccountEmail,
-      from: extractHeader(headers, 'From') || 'unknown',
-      to: extractHeader(headers, 'To') || '',
-      subject: extractHeader(headers, 'Subject') || '(No subject)',
-      date: extractHeader(headers, 'Date') || '',
-      snippet: data.snippet || '',
-      body: extractMessageBody(data.payload) || data.snippet || '',
-      labelIds: data.labelIds || [],
-      fetchedAt: new Date().toISOString(),
-      internalDate: internalDateMs,
-    };
-
-    if (internalDateMs > maxInternalDate) {
-      maxInternalDate = internalDateMs;
-    }
-
-    // If we already have this message stored, skip reprocessing to avoid repeated gating/classification.
-    let existingDoc: GmailEmailDoc | null = null;
+// Re-queue backfills that were running when the server last stopped.
+async function resumeRunningBackfills(store: FetchJobStore): Promise<void> {
+  for (const owner of await tokenStore.listOwners()) {
     try {
-      const { resource } = await retryWithBackoff(() =>
-        emailContainer.item(doc.id, ownerEmail).read<GmailEmailDoc>()
-      );
-      existingDoc = resource || null;
-      if (existingDoc?.classification?.status) {
-        return;
-      }
-      if (existingDoc) {
-        doc.createdAt = existingDoc.createdAt || existingDoc.fetchedAt || doc.fetchedAt;
-      }
+      const backfill = await getBackfill(gmailStateStore, owner);
+      if (backfill?.status !== 'running') continue;
+      const { job, created } = await enqueueFetchJob(store, owner, { backfill: true });
+      if (created) console.log(`[Backfill] Resumed for ${owner} as job ${job.id}.`);
     } catch (err: any) {
-      if (err.code !== 404) {
-        console.error('Failed to read existing Gmail doc', err);
-      }
-    }
-
-    const cacheKey = redisEmailKey(ownerEmail, doc.id);
-    await redisClient.set(cacheKey, JSON.stringify(doc));
-    console.log(`[Redis] Cached Gmail message ${doc.id} for ${ownerEmail}`);
-    let deleteFromRedis = false;
-    try {
-      const isJobRelated = await classifyIsJobRelated(doc);
-      deleteFromRedis = true;
-      if (!isJobRelated) {
-        console.log(`[Gate] Skipped non-job email ${doc.id} (${doc.subject})`);
-        return;
-      }
-      console.log(`[Gate] Job-related email ${doc.id} (${doc.subject})`);
-
-      const { resource } = await retryWithBackoff(() =>
-        emailContainer.items.upsert(doc)
-      );
-      const alreadyClassified = Boolean(resource?.classification?.status);
-      storedDocs.push(doc);
-      console.log(`[Cosmos] Upserted Gmail message ${doc.id} (classified=${alreadyClassified})`);
-
-      if (!alreadyClassified && jobsContainer && OPENAI_API_KEY) {
-        try {
-          const classification = await classifyEmailAndUpsert(doc, jobsContainer);
-          if (classification) {
-            doc.classification = classification;
-            doc.classifiedAt = new Date().toISOString();
-            await emailContainer.items.upsert(doc);
-            console.log(`[LLM] Classified ${doc.id} → ${classification.status}`);
-          }
-        } catch (err: any) {
-          console.error('Failed to classify Gmail message', err);
-        }
-      }
-    } finally {
-      if (deleteFromRedis) {
-        try {
-          await redisClient.del(cacheKey);
-          console.log(`[Redis] Deleted cache for message ${doc.id}`);
-        } catch (err: any) {
-          console.error('Failed to delete Redis Gmail cache', err?.message || err);
-        }
-      }
-    }
-  };
-
-  if (usedHistorySync) {
-    for (const messageId of historyMessageIds) {
-      await handleMessage(messageId);
-    }
-  } else {
-    const messageRefs: Array<{ id: string; threadId?: string }> = [];
-    let pageToken: string | undefined;
-    do {
-      const messageList = await gmail.users.messages.list({
-        userId: 'me',
-        q: gmailQuery || undefined,
-        maxResults: 100,
-        pageToken,
-      });
-      const messages = messageList.data.messages || [];
-      pageToken = messageList.data.nextPageToken || undefined;
-      for (const message of messages) {
-        if (!message.id) continue;
-        messageRefs.push({ id: message.id, threadId: message.threadId || undefined });
-      }
-    } while (pageToken);
-
-    // Gmail list returns newest-first; process oldest-first for deterministic history updates.
-    for (const ref of messageRefs.reverse()) {
-      await handleMessage(ref.id, ref.threadId);
-    }
-  }
-
-  if (!storedDocs.length) {
-    console.log('No job-related Gmail messages found for ingestion.');
-    const nextHistory = newHistoryId || profileHistoryId || historyId;
-    if (useState && !skipStateUpdate && nextHistory && nextHistory !== historyId) {
-      await gmailStateStore.saveState(ownerEmail, { historyId: nextHistory });
-    }
-    return { fetched: 0, owner: ownerEmail };
-  }
-
-  if (useState && !skipStateUpdate) {
-    const nextHistory = newHistoryId || profileHistoryId || historyId;
-    const shouldUpdateCursor = maxInternalDate > (lastInternalDateMs || 0);
-    const shouldUpdateHistory = Boolean(nextHistory && nextHistory !== historyId);
-    if (shouldUpdateCursor || shouldUpdateHistory) {
-      const nextState: gmailStateStore.GmailState = {};
-      if (shouldUpdateCursor) {
-        nextState.lastInternalDateMs = maxInternalDate;
-      }
-      if (shouldUpdateHistory && nextHistory) {
-        nextState.historyId = nextHistory;
-      }
-      await gmailStateStore.saveState(ownerEmail, nextState);
+      console.error(`Failed to resume backfill for ${owner}`, err?.message || err);
     }
   }
-
-  console.log(
-    `Stored or updated ${storedDocs.length} Gmail messages for ${ownerEmail}${
-      gmailQuery ? ` (query: "${gmailQuery}")` : ''
-    }`
-  );
-  return { fetched: storedDocs.length, owner: ownerEmail };
 }
 
-function scheduleGmailJob(emailContainer: Container | null, jobsContainer: Container | null): void {
+function scheduleGmailJob(store: FetchJobStore | null): void {
   cron.schedule(
     GMAIL_CRON,
     async () => {
@@ -919,19 +461,23 @@ function scheduleGmailJob(emailContainer: Container | null, jobsContainer: Conta
           timeZone: EASTERN_TIMEZONE,
         })} ET – starting scheduled Gmail fetch for ${owners.length} account(s), range "${rangeQuery}".`
       );
+      if (!store) {
+        console.warn('[Cron] Skipped: Gmail fetch queue unavailable (Redis not configured).');
+        return;
+      }
       for (const owner of owners) {
         try {
-          await fetchAndStoreGmailEmails(emailContainer, null, jobsContainer, owner, {
+          const { job, created } = await enqueueFetchJob(store, owner, {
             queryOverride: rangeQuery,
             skipStateUpdate: true,
           });
-          console.log(`[Cron] Completed scheduled fetch for ${owner}.`);
+          console.log(
+            created
+              ? `[Cron] Queued scheduled fetch ${job.id} for ${owner}.`
+              : `[Cron] Skipped ${owner}: fetch ${job.id} already ${job.status}.`
+          );
         } catch (err: any) {
-          if (err.code === 'NO_GMAIL_TOKENS') {
-            console.warn(`Scheduled fetch skipped for ${owner}: Gmail tokens missing.`);
-          } else {
-            console.error(`Scheduled Gmail fetch failed for ${owner}`, err);
-          }
+          console.error(`Failed to queue scheduled Gmail fetch for ${owner}`, err);
         }
       }
     },
@@ -951,11 +497,68 @@ async function start(): Promise<void> {
     next();
   });
 
-  redisClient = await initRedis();
-  const { container: profileContainer } = await initCosmos();
-  const { container: gmailContainer } = await initGmailCosmos();
-  const { container: jobsContainer } = await initJobsCosmos();
-  scheduleGmailJob(gmailContainer, jobsContainer);
+  // Local mode can run without Redis; Gmail fetches then answer 503 until REDIS_URL is set.
+  if (REDIS_URL || storageBackendFromEnv() !== 'local') {
+    redisClient = await initRedis();
+  } else {
+    console.warn('REDIS_URL not set; Gmail fetch is disabled in local mode.');
+  }
+  if (redisClient && LLM_CACHE_TTL_SECONDS > 0) {
+    llmCache = createLlmCache(redisClient, { ttlSeconds: LLM_CACHE_TTL_SECONDS });
+    llmProviders = llmCache.wrapProviders(llmProviders);
+    console.log(`LLM response cache enabled (TTL ${LLM_CACHE_TTL_SECONDS}s).`);
+  }
+  const repos = await createRepositories();
+  console.log(`Using ${repos.backend} storage.`);
+  // Wraps the cached providers, so only calls that reach a provider are counted.
+  usageTracker = createUsageTracker(repos, {
+    prices: parseModelPrices(process.env.LLM_MODEL_PRICES),
+    defaultMonthlyBudgetUsd: LLM_MONTHLY_BUDGET_USD,
+  });
+  llmProviders = usageTracker.wrapProviders(llmProviders);
+  if (redisClient) {
+    fetchJobStore = createRedisFetchJobStore(redisClient);
+    startFetchWorker(fetchJobStore, async (job, context) => {
+      const hooks = { onProgress: context.report, isCancelled: context.isCancelled };
+      if (job.options.reclassify) {
+        return previewReclassification(repos, llmProviders, job.owner, job.options.reclassify, {
+          concurrency: GMAIL_FETCH_CONCURRENCY,
+          usage: usageTracker || undefined,
+          ...hooks,
+        });
+      }
+      if (job.options.backfill) {
+        // The checkpoint is the owner's; every connected mailbox is read for each window.
+        const accounts = await createAccountIngestDeps(repos, job.owner);
+        const deps = { ...accounts[0], state: gmailStateStore };
+        return runBackfill(deps, job.owner, hooks, accounts);
+      }
+      return fetchAndStoreGmailEmails(repos, job.owner, { ...job.options, ...hooks });
+    });
+    resumeRunningBackfills(fetchJobStore).catch((err) =>
+      console.error('Failed to resume backfills', err?.message || err)
+    );
+  }
+  scheduleGmailJob(fetchJobStore);
+
+  // Loads a fetch job and checks it belongs to the signed-in user.
+  const ownedFetchJob = async (req: AuthedRequest, res: Response): Promise<FetchJob | null> => {
+    if (!req.userSession) {
+      res.status(401).json({ error: 'Not signed in' });
+      return null;
+    }
+    if (!fetchJobStore) {
+      res.status(503).json({ error: 'Redis unavailable for Gmail fetch' });
+      return null;
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    const job = await fetchJobStore.get(String(req.params.id || ''));
+    if (!job || job.owner !== ownerEmail) {
+      res.status(404).json({ error: 'Fetch job not found' });
+      return null;
+    }
+    return job;
+  };
 
   // Expose minimal public config for the frontend
   app.get('/api/config', (_req: Request, res: Response) => {
@@ -1006,7 +609,8 @@ async function start(): Promise<void> {
       const oauth2Client = createOAuthClient();
       const authUrl = oauth2Client.generateAuthUrl({
         access_type: 'offline',
-        prompt: 'consent',
+        // Let the user pick which mailbox to connect: each one they add is fetched.
+        prompt: 'consent select_account',
         scope: [
           'openid',
           'email',
@@ -1048,7 +652,10 @@ async function start(): Promise<void> {
     try {
       const { tokens } = await oauth2Client.getToken(code);
       oauth2Client.setCredentials(tokens);
-      await tokenStore.saveTokens(ownerEmail, tokens as Record<string, unknown>);
+      const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+      const { data: profile } = await gmail.users.getProfile({ userId: 'me' });
+      const gmailAccount = (profile.emailAddress || ownerEmail).toLowerCase();
+      await tokenStore.saveTokens(ownerEmail, tokens as Record<string, unknown>, gmailAccount);
 
       // Redirect straight back to the app once Gmail is connected.
       return res.redirect('/profile');
@@ -1065,15 +672,12 @@ async function start(): Promise<void> {
     }
 
     try {
-      const { resource } = await profileContainer.item(email, email).read();
-      if (!resource) {
+      const profile = await repos.profiles.get(email);
+      if (!profile) {
         return res.status(404).json({ error: 'Profile not found' });
       }
-      return res.json({ profile: resource });
+      return res.json({ profile });
     } catch (err: any) {
-      if (err.code === 404) {
-        return res.status(404).json({ error: 'Profile not found' });
-      }
       console.error('Error reading profile', err);
       return res.status(500).json({ error: 'Failed to fetch profile' });
     }
@@ -1089,8 +693,8 @@ async function start(): Promise<void> {
 
     try {
       const doc = { id: email, email, name };
-      const { resource } = await profileContainer.items.upsert(doc);
-      return res.status(201).json({ profile: resource });
+      const profile = await repos.profiles.upsert(doc);
+      return res.status(201).json({ profile });
     } catch (err) {
       console.error('Error saving profile', err);
       return res.status(500).json({ error: 'Failed to save profile' });
@@ -1105,74 +709,603 @@ async function start(): Promise<void> {
     if (!ownerEmail) {
       return res.status(400).json({ error: 'Missing user email' });
     }
+    if (!fetchJobStore) {
+      return res.status(503).json({ error: 'Redis unavailable for Gmail fetch' });
+    }
+    const account = String((req.body as any)?.account || '').toLowerCase();
     try {
-      const result = await fetchAndStoreGmailEmails(gmailContainer, null, jobsContainer, ownerEmail);
-      return res.json({ ok: true, result });
-    } catch (err: any) {
-      if (err.code === 'NO_GMAIL_TOKENS') {
+      const accounts = await tokenStore.listAccounts(ownerEmail);
+      if (!accounts.length) {
         return res.status(409).json({
           error: 'Gmail access not configured. Please connect your Google account.',
           code: 'NO_GMAIL_TOKENS',
         });
       }
-      if (err.code === 'REDIS_UNAVAILABLE') {
-        return res.status(503).json({ error: 'Redis unavailable for Gmail fetch' });
+      if (account && !accounts.includes(account)) {
+        return res.status(404).json({ error: 'Gmail account not connected' });
       }
-      console.error('Manual Gmail fetch failed', err);
+      const { job, created } = await enqueueFetchJob(
+        fetchJobStore,
+        ownerEmail,
+        account ? { gmailAccount: account } : {}
+      );
+      return res.status(created ? 202 : 200).json({ ok: true, job });
+    } catch (err: any) {
+      console.error('Failed to queue Gmail fetch', err);
       return res.status(500).json({ error: 'Failed to fetch Gmail' });
     }
   });
 
-  app.get('/api/gmail/status', async (req: AuthedRequest, res: Response) => {
-    if (!req.userSession) {
-      return res.status(401).json({ error: 'Not signed in' });
-    }
-    const ownerEmail = (req.userSession.email || '').toLowerCase();
-    if (!ownerEmail) {
-      return res.status(400).json({ error: 'Missing user email' });
-    }
+  app.get('/api/gmail/fetch/:id', async (req: AuthedRequest, res: Response) => {
     try {
-      const tokens = (await tokenStore.loadTokens(ownerEmail)) || {};
-      const connected = Object.keys(tokens).length > 0;
-      return res.json({ connected });
+      const job = await ownedFetchJob(req, res);
+      if (!job) return;
+      return res.json({ job });
     } catch (err: any) {
-      console.error('Failed to check Gmail status', err.message || err);
-      return res.status(500).json({ error: 'Failed to check Gmail connection' });
+      console.error('Failed to read Gmail fetch job', err);
+      return res.status(500).json({ error: 'Failed to read fetch job' });
     }
   });
 
-  app.get('/api/jobs', async (req: AuthedRequest, res: Response) => {
+  app.post('/api/gmail/fetch/:id/cancel', async (req: AuthedRequest, res: Response) => {
+    try {
+      const job = await ownedFetchJob(req, res);
+      if (!job) return;
+      const next = await cancelFetchJob(fetchJobStore!, job.id);
+      return res.json({ ok: true, job: next });
+    } catch (err: any) {
+      console.error('Failed to cancel Gmail fetch job', err);
+      return res.status(500).json({ error: 'Failed to cancel fetch job' });
+    }
+  });
+
+  // Server-Sent Events: one `progress` event per job update, closing once the job finishes.
+  app.get('/api/gmail/fetch/:id/events', async (req: AuthedRequest, res: Response) => {
+    let job: FetchJob | null;
+    try {
+      job = await ownedFetchJob(req, res);
+    } catch (err: any) {
+      console.error('Failed to read Gmail fetch job', err);
+      return res.status(500).json({ error: 'Failed to read fetch job' });
+    }
+    if (!job) return;
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let unsubscribe: (() => void) | null = null;
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+    const send = (update: FetchJob) => {
+      if (closed) return;
+      res.write(`event: progress\ndata: ${JSON.stringify(update)}\n\n`);
+      if (isFinished(update)) close();
+    };
+    req.on('close', close);
+
+    try {
+      unsubscribe = await fetchJobStore!.subscribe(job.id, send);
+      // Re-read after subscribing so an update between the two reads is not lost.
+      send((await fetchJobStore!.get(job.id)) || job);
+    } catch (err: any) {
+      console.error('Failed to stream Gmail fetch progress', err);
+      close();
+    }
+  });
+
+  app.get('/api/gmail/failures', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    try {
+      const failures = await repos.failures.listByOwner(ownerEmail);
+      failures.sort((a, b) => b.lastFailedAt.localeCompare(a.lastFailedAt));
+      return res.json({ failures });
+    } catch (err: any) {
+      console.error('Failed to list failed Gmail messages', err);
+      return res.status(500).json({ error: 'Failed to load failed messages' });
+    }
+  });
+
+  // Retry now: mark the message due and queue a regular fetch, which picks up due failures.
+  app.post('/api/gmail/failures/:id/retry', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!fetchJobStore) {
+      return res.status(503).json({ error: 'Redis unavailable for Gmail fetch' });
+    }
+    try {
+      const failure = await requestRetry(repos.failures, ownerEmail, String(req.params.id));
+      if (!failure) {
+        return res.status(404).json({ error: 'Failed message not found' });
+      }
+      const { job } = await enqueueFetchJob(fetchJobStore, ownerEmail);
+      return res.status(202).json({ ok: true, failure, job });
+    } catch (err: any) {
+      console.error('Failed to retry Gmail message', err);
+      return res.status(500).json({ error: 'Failed to retry message' });
+    }
+  });
+
+  app.delete('/api/gmail/failures/:id', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    try {
+      await repos.failures.delete(ownerEmail, String(req.params.id));
+      return res.json({ ok: true });
+    } catch (err: any) {
+      console.error('Failed to dismiss Gmail message', err);
+      return res.status(500).json({ error: 'Failed to dismiss message' });
+    }
+  });
+
+  app.get('/api/reclassify/status', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    const model = llmProviders.classify?.model || '';
+    try {
+      const emails = await repos.emails.listByOwner(ownerEmail);
+      const classified = emails.filter((email) => email.classification?.status);
+      return res.json({
+        model,
+        promptVersion: CLASSIFY_PROMPT_VERSION,
+        classified: classified.length,
+        stale: model ? classified.filter((email) => isStale(email, model)).length : 0,
+      });
+    } catch (err: any) {
+      console.error('Failed to read reclassification status', err);
+      return res.status(500).json({ error: 'Failed to read reclassification status' });
+    }
+  });
+
+  // Hit/miss counts of the LLM response cache since the server started.
+  app.get('/api/llm/cache', (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    if (!llmCache) {
+      return res.json({ enabled: false });
+    }
+    const stats = llmCache.stats();
+    const lookups = stats.hits + stats.misses;
+    return res.json({ enabled: true, ...stats, hitRate: lookups ? stats.hits / lookups : 0 });
+  });
+
+  // This month's LLM usage by day, recent months and the budget for the signed-in user.
+  app.get('/api/usage', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!usageTracker) {
+      return res.status(503).json({ error: 'Usage tracking unavailable' });
+    }
+    try {
+      const since = new Date();
+      since.setUTCMonth(since.getUTCMonth() - 5, 1);
+      const records = await repos.usage.listByOwner(ownerEmail, monthStart(since));
+      const month = monthStart();
+      const summary = summarizeUsage(records);
+      return res.json({
+        month: month.slice(0, 7),
+        current: summarizeUsage(records.filter((record) => record.day >= month)),
+        byMonth: summary.byMonth,
+        monthSpendUsd: await usageTracker.monthSpend(ownerEmail),
+        monthlyBudgetUsd: await usageTracker.monthlyBudget(ownerEmail),
+        overBudget: await usageTracker.overBudget(ownerEmail),
+        isAdmin: isAdmin(req),
+      });
+    } catch (err: any) {
+      console.error('Failed to load LLM usage', err);
+      return res.status(500).json({ error: 'Failed to load usage' });
+    }
+  });
+
+  // Every user's spend for one month (default: this one) with their budgets.
+  app.get('/api/admin/usage', async (req: AuthedRequest, res: Response) => {
+    if (!requireAdmin(req, res) || !usageTracker) return;
+    const month = /^\d{4}-\d{2}$/.test(String(req.query.month || ''))
+      ? String(req.query.month)
+      : monthStart().slice(0, 7);
+    try {
+      const records = (await repos.usage.listSince(`${month}-01`)).filter((record) =>
+        record.day.startsWith(month)
+      );
+      const owners = new Set([
+        ...(await tokenStore.listOwners()),
+        ...records.map((record) => record.owner),
+      ]);
+      const users = [];
+      for (const owner of owners) {
+        const { totals, byStage } = summarizeUsage(
+          records.filter((record) => record.owner === owner)
+        );
+        users.push({
+          owner,
+          ...totals,
+          byStage,
+          monthlyBudgetUsd: await usageTracker.monthlyBudget(owner),
+        });
+      }
+      users.sort((a, b) => b.costUsd - a.costUsd || a.owner.localeCompare(b.owner));
+      return res.json({ month, defaultMonthlyBudgetUsd: LLM_MONTHLY_BUDGET_USD, users });
+    } catch (err: any) {
+      console.error('Failed to load usage for admin', err);
+      return res.status(500).json({ error: 'Failed to load usage' });
+    }
+  });
+
+  // Set (or with null, reset to the default) one user's monthly budget.
+  app.put('/api/admin/usage/:owner/budget', async (req: AuthedRequest, res: Response) => {
+    if (!requireAdmin(req, res) || !usageTracker) return;
+    const owner = String(req.params.owner || '').trim().toLowerCase();
+    let budget;
+    try {
+      budget = parseBudget(req.body?.monthlyBudgetUsd);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message, code: err.code });
+    }
+    try {
+      const monthlyBudgetUsd = await usageTracker.setMonthlyBudget(owner, budget);
+      return res.json({ ok: true, owner, monthlyBudgetUsd });
+    } catch (err: any) {
+      console.error('Failed to save LLM budget', err);
+      return res.status(500).json({ error: 'Failed to save budget' });
+    }
+  });
+
+  // Starts a preview run; nothing is written until the preview is committed.
+  app.post('/api/reclassify', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!fetchJobStore) {
+      return res.status(503).json({ error: 'Redis unavailable for background jobs' });
+    }
+    if (!llmProviders.classify) {
+      return res.status(409).json({ error: 'No LLM provider configured for classification' });
+    }
+    if (await usageTracker?.overBudget(ownerEmail)) {
+      return res.status(409).json({ error: 'Your monthly LLM budget is used up' });
+    }
+    let scope;
+    try {
+      scope = parseReclassifyScope(req.body);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message, code: err.code });
+    }
+    try {
+      const { job, created } = await enqueueFetchJob(fetchJobStore, ownerEmail, {
+        reclassify: scope,
+      });
+      if (!created && !job.options.reclassify) {
+        return res.status(409).json({ error: 'A Gmail fetch is running; try again when it ends.' });
+      }
+      return res.status(202).json({ ok: true, job });
+    } catch (err: any) {
+      console.error('Failed to queue reclassification', err);
+      return res.status(500).json({ error: 'Failed to start reclassification' });
+    }
+  });
+
+  app.post('/api/reclassify/:id/commit', async (req: AuthedRequest, res: Response) => {
+    try {
+      const job = await ownedFetchJob(req, res);
+      if (!job) return;
+      const preview = job.result?.preview;
+      if (!job.options.reclassify || job.status !== 'succeeded' || !preview) {
+        return res.status(409).json({ error: 'This job has no finished preview to commit' });
+      }
+      if (preview.committedAt) {
+        return res.status(409).json({ error: 'This preview was already committed' });
+      }
+      const result = await applyReclassification(repos, job.owner, preview);
+      const committedAt = new Date().toISOString();
+      await fetchJobStore!.save({
+        ...job,
+        result: { ...job.result!, preview: { ...preview, committedAt } },
+        updatedAt: committedAt,
+      });
+      return res.json({ ok: true, ...result });
+    } catch (err: any) {
+      console.error('Failed to commit reclassification', err);
+      return res.status(500).json({ error: 'Failed to commit reclassification' });
+    }
+  });
+
+  const backfillErrorStatus: Record<string, number> = {
+    INVALID_BACKFILL: 400,
+    NO_BACKFILL: 404,
+    BACKFILL_RUNNING: 409,
+    BACKFILL_DONE: 409,
+    BACKFILL_BUDGET_EXHAUSTED: 409,
+  };
+
+  // Shared by start and resume: refuse while a regular fetch holds the queue slot, else enqueue.
+  const queueBackfill = async (
+    req: AuthedRequest,
+    res: Response,
+    update: (ownerEmail: string) => Promise<unknown>
+  ) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!fetchJobStore) {
+      return res.status(503).json({ error: 'Redis unavailable for Gmail fetch' });
+    }
+    try {
+      if (!(await tokenStore.listAccounts(ownerEmail)).length) {
+        return res.status(409).json({
+          error: 'Gmail access not configured. Please connect your Google account.',
+          code: 'NO_GMAIL_TOKENS',
+        });
+      }
+      const activeId = await fetchJobStore.active(ownerEmail);
+      const activeJob = activeId ? await fetchJobStore.get(activeId) : null;
+      if (activeJob && !isFinished(activeJob) && !activeJob.options.backfill) {
+        return res.status(409).json({ error: 'A Gmail fetch is running; try again when it ends.' });
+      }
+      const backfill = await update(ownerEmail);
+      const { job } = await enqueueFetchJob(fetchJobStore, ownerEmail, { backfill: true });
+      return res.status(202).json({ ok: true, backfill, job });
+    } catch (err: any) {
+      const status = backfillErrorStatus[err.code];
+      if (status) {
+        return res.status(status).json({ error: err.message, code: err.code });
+      }
+      console.error('Failed to queue Gmail backfill', err);
+      return res.status(500).json({ error: 'Failed to start backfill' });
+    }
+  };
+
+  app.get('/api/gmail/backfill', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    try {
+      const backfill = await getBackfill(gmailStateStore, ownerEmail);
+      const activeId = fetchJobStore ? await fetchJobStore.active(ownerEmail) : null;
+      const activeJob = activeId ? await fetchJobStore!.get(activeId) : null;
+      return res.json({
+        backfill,
+        job: activeJob && activeJob.options.backfill && !isFinished(activeJob) ? activeJob : null,
+        defaultLlmBudget: BACKFILL_LLM_BUDGET,
+      });
+    } catch (err: any) {
+      console.error('Failed to read Gmail backfill', err);
+      return res.status(500).json({ error: 'Failed to read backfill' });
+    }
+  });
+
+  app.post('/api/gmail/backfill', (req: AuthedRequest, res: Response) =>
+    queueBackfill(req, res, (ownerEmail) =>
+      startBackfill(gmailStateStore, ownerEmail, {
+        startDate: req.body?.startDate,
+        llmBudget: req.body?.llmBudget ?? BACKFILL_LLM_BUDGET,
+        windowDays: req.body?.windowDays,
+      })
+    )
+  );
+
+  app.post('/api/gmail/backfill/resume', (req: AuthedRequest, res: Response) =>
+    queueBackfill(req, res, (ownerEmail) =>
+      resumeBackfill(gmailStateStore, ownerEmail, { llmBudget: req.body?.llmBudget })
+    )
+  );
+
+  app.post('/api/gmail/backfill/pause', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    try {
+      const backfill = await pauseBackfill(gmailStateStore, ownerEmail);
+      // The checkpoint is already paused; cancelling just stops the current window early.
+      const activeId = fetchJobStore ? await fetchJobStore.active(ownerEmail) : null;
+      const activeJob = activeId ? await fetchJobStore!.get(activeId) : null;
+      if (activeJob?.options.backfill) {
+        await cancelFetchJob(fetchJobStore!, activeJob.id);
+      }
+      return res.json({ ok: true, backfill });
+    } catch (err: any) {
+      const status = backfillErrorStatus[err.code];
+      if (status) {
+        return res.status(status).json({ error: err.message, code: err.code });
+      }
+      console.error('Failed to pause Gmail backfill', err);
+      return res.status(500).json({ error: 'Failed to pause backfill' });
+    }
+  });
+
+  app.get('/api/gmail/status', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!ownerEmail) {
+      return res.status(400).json({ error: 'Missing user email' });
+    }
+    try {
+      const accounts = await Promise.all(
+        (await tokenStore.listAccounts(ownerEmail)).map(async (email) => {
+          const state = await gmailStateStore.loadState(ownerEmail, email);
+          const syncedMs = state?.lastInternalDateMs;
+          return { email, lastSyncedAt: syncedMs ? new Date(syncedMs).toISOString() : null };
+        })
+      );
+      return res.json({ connected: accounts.length > 0, accounts });
+    } catch (err: any) {
+      console.error('Failed to check Gmail status', err.message || err);
+      return res.status(500).json({ error: 'Failed to check Gmail connection' });
+    }
+  });
+
+  app.delete('/api/gmail/accounts/:account', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    const account = String(req.params.account).toLowerCase();
+    try {
+      if (!(await tokenStore.listAccounts(ownerEmail)).includes(account)) {
+        return res.status(404).json({ error: 'Gmail account not connected' });
+      }
+      // Emails already fetched from the mailbox are kept; only its tokens are forgotten.
+      await tokenStore.disconnect(ownerEmail, account);
+      return res.json({ ok: true });
+    } catch (err: any) {
+      console.error('Failed to disconnect Gmail account', err.message || err);
+      return res.status(500).json({ error: 'Failed to disconnect Gmail account' });
+    }
+  });
+
+  // Stored rollups cover every mailbox; one mailbox's view is rolled up from its emails on read.
+  const accountJobs = async (
+    ownerEmail: string,
+    account: string,
+    sort: JobSort
+  ): Promise<[JobDoc[], ApplicationDoc[]]> => {
+    const [emails, aliases] = await Promise.all([
+      repos.emails.listByOwner(ownerEmail),
+      loadCompanyAliases(repos, ownerEmail),
+    ]);
+    const { companies, applications } = buildRollups(
+      ownerEmail,
+      emails.filter((email) => (email.gmailAccount || ownerEmail) === account),
+      undefined,
+      createCompanyResolver(emails, aliases)
+    );
+    return [sortJobDocs(companies, sort), sortJobDocs(applications, sort)];
+  };
+
+  app.get('/api/jobs', async (req: AuthedRequest, res: Response) => {
     if (!req.userSession) {
       return res.status(401).json({ error: 'Not signed in' });
     }
     const sortParam = ((req.query.sort as string) || '').toLowerCase();
-    const sortByUpdated = sortParam === 'updated';
-    const orderClause = sortByUpdated
-      ? 'ORDER BY c.last_updated DESC'
-      : 'ORDER BY c.company_name ASC';
+    const sort = sortParam === 'updated' ? 'updated' : 'company';
+    const account = ((req.query.account as string) || '').toLowerCase();
     try {
       const ownerEmail = (req.userSession.email || '').toLowerCase();
-      const querySpec = {
-        query: `SELECT c.id, c.company_name, c.applied, c.rejected, c.next_steps, c.comments, c.last_updated FROM c WHERE c.owner = @owner ${orderClause}`,
-        parameters: [{ name: '@owner', value: ownerEmail }],
-      };
-      const { resources } = await jobsContainer.items.query<JobDoc>(querySpec).fetchAll();
-      return res.json({ jobs: resources || [] });
+      const [companies, applications] = account
+        ? await accountJobs(ownerEmail, account, sort)
+        : await Promise.all([
+            repos.jobs.listCompanies(ownerEmail, sort),
+            repos.jobs.listApplications(ownerEmail, sort),
+          ]);
+      const bySlug = new Map<string, ApplicationDoc[]>();
+      for (const app of applications || []) {
+        const list = bySlug.get(app.company_slug) || [];
+        list.push(app);
+        bySlug.set(app.company_slug, list);
+      }
+      const grouped = (companies || []).map((company) => ({
+        ...emptyCounters(),
+        ...company,
+        applications: bySlug.get(companySlug(company.company_name)) || [],
+      }));
+      return res.json({ applications: applications || [], companies: grouped });
     } catch (err: any) {
       console.error('Failed to fetch job summaries', err);
       return res.status(500).json({ error: 'Failed to load job summaries' });
     }
   });
 
-  app.get('/api/gmail/company', async (req: AuthedRequest, res: Response) => {
+  app.post('/api/jobs/recompute', async (req: AuthedRequest, res: Response) => {
     if (!req.userSession) {
       return res.status(401).json({ error: 'Not signed in' });
     }
-    if (!gmailContainer) {
-      return res.status(503).json({ error: 'Gmail storage not ready' });
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!ownerEmail) {
+      return res.status(400).json({ error: 'Missing user email' });
+    }
+    try {
+      const result = await refreshRollups(repos, ownerEmail);
+      return res.json({
+        ok: true,
+        companies: result.companies.length,
+        applications: result.applications.length,
+        emails: result.emailApplications.size,
+      });
+    } catch (err: any) {
+      console.error('Failed to recompute job rollups', err);
+      return res.status(500).json({ error: 'Failed to recompute job rollups' });
+    }
+  });
+
+  app.post('/api/jobs/migrate-statuses', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!ownerEmail) {
+      return res.status(400).json({ error: 'Missing user email' });
+    }
+    try {
+      const emails = await repos.emails.listByOwner(ownerEmail);
+      let migrated = 0;
+      let changed = 0;
+      for (const email of emails) {
+        const next = migrateClassification(email.classification);
+        if (!next) continue;
+        const override =
+          email.classificationOverride && migrateOverride(email.classificationOverride);
+        if (
+          next.status !== email.classification?.status ||
+          override?.status !== email.classificationOverride?.status
+        ) {
+          changed++;
+        }
+        email.classification = next;
+        if (override) email.classificationOverride = override;
+        await retryWithBackoff(() => repos.emails.upsert(email));
+        migrated++;
+      }
+      const result = await refreshRollups(repos, ownerEmail);
+      return res.json({
+        ok: true,
+        migrated,
+        changed,
+        companies: result.companies.length,
+        applications: result.applications.length,
+      });
+    } catch (err: any) {
+      console.error('Failed to migrate classification statuses', err);
+      return res.status(500).json({ error: 'Failed to migrate classification statuses' });
+    }
+  });
+
+  app.get('/api/gmail/company', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
     }
     const ownerEmail = (req.userSession.email || '').toLowerCase();
     const companyName = ((req.query.name as string) || '').trim();
+    const statuses = ((req.query.status as string) || '')
+      .split(',')
+      .map((status) => status.trim())
+      .filter(isJobStatus);
     if (!ownerEmail) {
       return res.status(400).json({ error: 'Missing user email' });
     }
@@ -1180,16 +1313,22 @@ async function start(): Promise<void> {
       return res.status(400).json({ error: 'Company name is required' });
     }
     try {
-      // Use readAll on the partition to avoid Cosmos errors from malformed docs on projection.
-      const { resources } = await gmailContainer.items
-        .readAll<GmailEmailDoc>({ partitionKey: ownerEmail })
-        .fetchAll();
-      const filtered = filterEmailsByCompany(resources || [], companyName).sort((a, b) => {
+      const [emails, aliases] = await Promise.all([
+        repos.emails.listByOwner(ownerEmail),
+        loadCompanyAliases(repos, ownerEmail),
+      ]);
+      const companies = createCompanyResolver(emails, aliases);
+      const filtered = filterEmailsByCompany(emails, companyName, statuses, companies);
+      filtered.sort((a, b) => {
         const aDate = typeof a.internalDate === 'number' ? a.internalDate : 0;
         const bDate = typeof b.internalDate === 'number' ? b.internalDate : 0;
         return bDate - aDate;
       });
-      return res.json({ emails: filtered });
+      const applications = await repos.jobs.listApplicationsForCompany(
+        ownerEmail,
+        companies.canonical(companyName).slug
+      );
+      return res.json({ emails: filtered, applications });
     } catch (err: any) {
       const errorInfo = {
         message: err.message || String(err),
@@ -1201,7 +1340,7 @@ async function start(): Promise<void> {
       };
       console.error('Failed to fetch company emails', errorInfo);
       try {
-        await logGmailDiagnostics(gmailContainer, ownerEmail, companyName);
+        await repos.emails.diagnose?.(ownerEmail, companyName);
       } catch (diagErr: any) {
         console.error('Diagnostics failed', diagErr.message || diagErr);
       }
@@ -1211,6 +1350,268 @@ async function start(): Promise<void> {
     }
   });
 
+  // User corrections to one email's classification; rollups are rebuilt so counts follow them.
+  const updateCorrection = async (
+    req: AuthedRequest,
+    res: Response,
+    update: (email: GmailEmailDoc) => void
+  ) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    try {
+      const email = await repos.emails.get(ownerEmail, String(req.params.id));
+      if (!email?.classification) {
+        return res.status(404).json({ error: 'Classified email not found' });
+      }
+      update(email);
+      await retryWithBackoff(() => repos.emails.upsert(email));
+      await refreshRollups(repos, ownerEmail);
+      return res.json({ ok: true, email });
+    } catch (err: any) {
+      if (err.code === 'INVALID_CORRECTION') {
+        return res.status(400).json({ error: err.message, code: err.code });
+      }
+      console.error('Failed to update classification correction', err);
+      return res.status(500).json({ error: 'Failed to update classification' });
+    }
+  };
+
+  app.patch('/api/emails/:id/classification', (req: AuthedRequest, res: Response) =>
+    updateCorrection(req, res, (email) => setOverride(email, parseCorrection(req.body)))
+  );
+
+  app.delete('/api/emails/:id/classification', (req: AuthedRequest, res: Response) =>
+    updateCorrection(req, res, clearOverride)
+  );
+
+  app.get(
+    '/api/gmail/emails/:id/attachments/:partId',
+    async (req: AuthedRequest, res: Response) => {
+      if (!req.userSession) {
+        return res.status(401).json({ error: 'Not signed in' });
+      }
+      const ownerEmail = (req.userSession.email || '').toLowerCase();
+      const messageId = String(req.params.id);
+      const partId = String(req.params.partId);
+      try {
+        const email = await repos.emails.get(ownerEmail, messageId);
+        const attachment = email?.attachments?.find((candidate) => candidate.partId === partId);
+        if (!attachment) {
+          return res.status(404).json({ error: 'Attachment not found' });
+        }
+        // Attachment ids change between fetches, so the part is looked up on a fresh copy, read
+        // through the mailbox the email came from while it is still connected.
+        const accounts = await tokenStore.listAccounts(ownerEmail);
+        const account = accounts.find((candidate) => candidate === email?.gmailAccount);
+        const gmail = await createGmailClient(ownerEmail, account || ownerEmail);
+        const { data: message } = await gmail.users.messages.get({
+          userId: 'me',
+          id: messageId,
+          format: 'full',
+        });
+        const part = findPart(message.payload, partId);
+        let encoded = part?.body?.data;
+        if (!encoded && part?.body?.attachmentId) {
+          const { data } = await gmail.users.messages.attachments.get({
+            userId: 'me',
+            messageId,
+            id: part.body.attachmentId,
+          });
+          encoded = data.data;
+        }
+        if (!encoded) {
+          return res.status(404).json({ error: 'Attachment is no longer in Gmail' });
+        }
+        // Always a download, never rendered: the content comes from whoever sent the email.
+        res.attachment(attachment.filename);
+        res.type(attachment.mimeType);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        return res.send(Buffer.from(encoded, 'base64url'));
+      } catch (err: any) {
+        if (err.code === 'NO_GMAIL_TOKENS') {
+          return res.status(409).json({ error: 'Connect Gmail to download attachments' });
+        }
+        console.error('Failed to download attachment', err?.message || err);
+        return res.status(500).json({ error: 'Failed to download attachment' });
+      }
+    }
+  );
+
+  app.get('/api/companies/aliases', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    try {
+      const ownerEmail = (req.userSession.email || '').toLowerCase();
+      return res.json({ aliases: await loadCompanyAliases(repos, ownerEmail) });
+    } catch (err: any) {
+      console.error('Failed to load company aliases', err);
+      return res.status(500).json({ error: 'Failed to load company aliases' });
+    }
+  });
+
+  // Alias changes regroup emails across companies, so the owner's rollups are rebuilt in full.
+  const updateAliases = async (
+    req: AuthedRequest,
+    res: Response,
+    update: (aliases: CompanyAliases) => CompanyAliases
+  ) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    try {
+      const aliases = update(await loadCompanyAliases(repos, ownerEmail));
+      await saveCompanyAliases(repos, ownerEmail, req.userSession.name, aliases);
+      const result = await refreshRollups(repos, ownerEmail);
+      return res.json({ ok: true, aliases, companies: result.companies.length });
+    } catch (err: any) {
+      console.error('Failed to update company aliases', err);
+      return res.status(500).json({ error: 'Failed to update company aliases' });
+    }
+  };
+
+  // Merge: every listed company is shown and counted as `into` from now on.
+  app.post('/api/companies/merge', (req: AuthedRequest, res: Response) => {
+    const into = typeof req.body?.into === 'string' ? req.body.into.trim() : '';
+    const companies: string[] = Array.isArray(req.body?.companies)
+      ? req.body.companies.filter((name: unknown) => typeof name === 'string' && name.trim())
+      : [];
+    if (!into || !companies.length) {
+      return res
+        .status(400)
+        .json({ error: 'Pick the companies to merge and a name to merge into' });
+    }
+    return updateAliases(req, res, (aliases) => mergeAliases(aliases, companies, into));
+  });
+
+  app.delete('/api/companies/aliases/:alias', (req: AuthedRequest, res: Response) =>
+    updateAliases(req, res, (aliases) => removeAlias(aliases, String(req.params.alias)))
+  );
+
+  // Split: move some of a company's emails to another company by correcting each one.
+  app.post('/api/companies/split', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    const into = typeof req.body?.into === 'string' ? req.body.into.trim() : '';
+    const emailIds: string[] = Array.isArray(req.body?.emailIds)
+      ? req.body.emailIds.filter((id: unknown) => typeof id === 'string')
+      : [];
+    if (!into || !emailIds.length) {
+      return res
+        .status(400)
+        .json({ error: 'Pick the emails to move and a company to move them to' });
+    }
+    try {
+      // A name merged into another company earlier would pull the emails straight back.
+      const aliases = removeAlias(await loadCompanyAliases(repos, ownerEmail), into);
+      await saveCompanyAliases(repos, ownerEmail, req.userSession.name, aliases);
+      let moved = 0;
+      for (const id of emailIds) {
+        const email = await repos.emails.get(ownerEmail, id);
+        if (!email?.classification) continue;
+        setOverride(email, { company_name: into });
+        await retryWithBackoff(() => repos.emails.upsert(email));
+        moved++;
+      }
+      const result = await refreshRollups(repos, ownerEmail);
+      return res.json({ ok: true, moved, companies: result.companies.length });
+    } catch (err: any) {
+      console.error('Failed to split company', err);
+      return res.status(500).json({ error: 'Failed to move emails' });
+    }
+  });
+
+  app.get('/api/calendar/interviews', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!ownerEmail) {
+      return res.status(400).json({ error: 'Missing user email' });
+    }
+    try {
+      const [emails, applications] = await Promise.all([
+        repos.emails.listByOwner(ownerEmail),
+        repos.jobs.listApplications(ownerEmail, 'updated'),
+      ]);
+      const now = new Date().toISOString();
+      const upcoming = collectInterviews(emails, applications).filter((event) => event.end >= now);
+      const feed = await calendarTokenStore.getFeedStatus(ownerEmail);
+      return res.json({
+        interviews: upcoming,
+        conflicts: findInterviewConflicts(upcoming),
+        feed,
+      });
+    } catch (err: any) {
+      console.error('Failed to load interviews', err);
+      return res.status(500).json({ error: 'Failed to load interviews' });
+    }
+  });
+
+  app.post('/api/calendar/token', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!ownerEmail) {
+      return res.status(400).json({ error: 'Missing user email' });
+    }
+    try {
+      const token = await calendarTokenStore.createFeedToken(ownerEmail);
+      const url = `${req.protocol}://${req.get('host')}/api/calendar.ics?token=${token}`;
+      return res.json({ ok: true, url });
+    } catch (err: any) {
+      console.error('Failed to create calendar feed token', err);
+      return res.status(500).json({ error: 'Failed to create calendar link' });
+    }
+  });
+
+  app.delete('/api/calendar/token', async (req: AuthedRequest, res: Response) => {
+    if (!req.userSession) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    const ownerEmail = (req.userSession.email || '').toLowerCase();
+    if (!ownerEmail) {
+      return res.status(400).json({ error: 'Missing user email' });
+    }
+    try {
+      await calendarTokenStore.revokeFeedToken(ownerEmail);
+      return res.json({ ok: true });
+    } catch (err: any) {
+      console.error('Failed to revoke calendar feed token', err);
+      return res.status(500).json({ error: 'Failed to revoke calendar link' });
+    }
+  });
+
+  // Calendar apps cannot send the session cookie, so the feed is authorized by its secret token.
+  app.get('/api/calendar.ics', async (req: AuthedRequest, res: Response) => {
+    try {
+      const token = ((req.query.token as string) || '').trim();
+      const ownerEmail = token
+        ? await calendarTokenStore.verifyFeedToken(token)
+        : (req.userSession?.email || '').toLowerCase() || null;
+      if (!ownerEmail) {
+        return res.status(401).json({ error: 'Invalid or revoked calendar link' });
+      }
+      const [emails, applications] = await Promise.all([
+        repos.emails.listByOwner(ownerEmail),
+        repos.jobs.listApplications(ownerEmail, 'updated'),
+      ]);
+      const ics = buildIcsFeed(collectInterviews(emails, applications));
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Cache-Control', 'private, max-age=300');
+      return res.send(ics);
+    } catch (err: any) {
+      console.error('Failed to build calendar feed', err);
+      return res.status(500).json({ error: 'Failed to build calendar feed' });
+    }
+  });
+
   // Serve static client (Vite build)
   app.use(express.static(STATIC_DIR));
   // Catch-all for SPA routes (regex to avoid path-to-regexp wildcard parsing issues)
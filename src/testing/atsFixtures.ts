@@ -0,0 +1,231 @@
+import type { ClassificationResult } from '../types';
+import type { FakeMessage } from './fakeGmail';
+
+export interface AtsFixture {
+  message: Omit<FakeMessage, 'internalDate'>;
+  // What parseAtsEmail should read from it; null means the LLM has to handle it.
+  expected: Pick<
+    ClassificationResult,
+    'status' | 'company_name' | 'role_title' | 'requisition_id' | 'model'
+  > | null;
+}
+
+// Trimmed copies of real ATS notification templates, one or more per system.
+export const atsEmails: Record<string, AtsFixture> = {
+  greenhouseApplied: {
+    message: {
+      id: 'gh-applied',
+      from: 'Stripe Recruiting <no-reply@us.greenhouse-mail.io>',
+      subject: 'Thank you for applying to Stripe',
+      body: `Hi Sam,
+
+Thanks for applying to Stripe. Your application has been received and we will review it
+right away. We're excited you're interested in the Backend Engineer, Payments role.
+
+If your qualifications are a match for the position, a recruiter will be in touch.
+
+Best,
+Stripe Recruiting`,
+    },
+    expected: {
+      status: 'applied',
+      company_name: 'Stripe',
+      role_title: 'Backend Engineer, Payments',
+      requisition_id: '',
+      model: 'ats:greenhouse',
+    },
+  },
+  greenhouseRejected: {
+    message: {
+      id: 'gh-rejected',
+      from: 'Acme Talent <no-reply@greenhouse.io>',
+      subject: 'Your application to Acme Corp',
+      body: `Hi Sam,
+
+Thank you for your interest in Acme Corp and for taking the time to apply for the
+Staff Engineer position. After careful review, we have decided not to move forward with
+your application at this time.
+
+We wish you the best of luck.
+Acme Talent Team`,
+    },
+    expected: {
+      status: 'rejected',
+      company_name: 'Acme',
+      role_title: 'Staff Engineer',
+      requisition_id: '',
+      model: 'ats:greenhouse',
+    },
+  },
+  greenhouseScheduling: {
+    message: {
+      id: 'gh-schedule',
+      from: 'Globex Recruiting <no-reply@greenhouse.io>',
+      subject: 'Next steps with Globex',
+      body: `Hi Sam,
+
+We'd love to move forward with your application to Globex for the Platform Engineer role.
+Please schedule your interview using the link below. Select a time that works for you.
+
+https://app.greenhouse.io/scheduling/abc123`,
+    },
+    expected: {
+      status: 'next_steps',
+      company_name: 'Globex',
+      role_title: 'Platform Engineer',
+      requisition_id: '',
+      model: 'ats:greenhouse',
+    },
+  },
+  leverApplied: {
+    message: {
+      id: 'lever-applied',
+      from: 'Hooli <no-reply@hire.lever.co>',
+      subject: 'Thank you for your application to Hooli',
+      body: `Hi Sam,
+
+Thank you for your interest in Hooli's Site Reliability Engineer position. We've received
+your application and our team is reviewing it.
+
+Regards,
+The Hooli Team`,
+    },
+    expected: {
+      status: 'applied',
+      company_name: 'Hooli',
+      role_title: 'Site Reliability Engineer',
+      requisition_id: '',
+      model: 'ats:lever',
+    },
+  },
+  leverAssessment: {
+    message: {
+      id: 'lever-assessment',
+      from: 'Pied Piper Hiring <no-reply@hire.lever.co>',
+      subject: 'Pied Piper: next step for your application',
+      body: `Hi Sam,
+
+Thanks again for your application to Pied Piper. As a next step we'd like you to complete
+a 60 minute online assessment on HackerRank within the next 5 days.
+
+Pied Piper Hiring`,
+    },
+    expected: {
+      status: 'assessment',
+      company_name: 'Pied Piper',
+      role_title: '',
+      requisition_id: '',
+      model: 'ats:lever',
+    },
+  },
+  workdayApplied: {
+    message: {
+      id: 'workday-applied',
+      from: 'initech@myworkday.com',
+      subject: 'Thank you for applying!',
+      body: `Dear Sam,
+
+Thank you for applying to the Senior Data Analyst (R12345) position at Initech Corporation.
+Your application has been submitted and will be reviewed by our recruiting team.
+
+Job Requisition ID: R12345
+
+Initech Talent Acquisition`,
+    },
+    expected: {
+      status: 'applied',
+      company_name: 'Initech',
+      role_title: 'Senior Data Analyst',
+      requisition_id: 'R12345',
+      model: 'ats:workday',
+    },
+  },
+  workdayRejected: {
+    message: {
+      id: 'workday-rejected',
+      from: 'Umbrella Careers <umbrella@myworkday.com>',
+      subject: 'Update on your application',
+      body: `Dear Sam,
+
+Thank you for your interest in the Cloud Architect position at Umbrella Inc. We have
+reviewed your background and have decided to move forward with other candidates whose
+experience more closely aligns with our needs.
+
+Umbrella Careers`,
+    },
+    expected: {
+      status: 'rejected',
+      company_name: 'Umbrella',
+      role_title: 'Cloud Architect',
+      requisition_id: '',
+      model: 'ats:workday',
+    },
+  },
+  ashbyApplied: {
+    message: {
+      id: 'ashby-applied',
+      from: 'Vandelay Industries <no-reply@ashbyhq.com>',
+      subject: 'Thanks for applying to Vandelay Industries!',
+      body: `Hi Sam,
+
+Thanks for applying for the Product Designer role at Vandelay Industries. We have received
+your application and will get back to you soon.
+
+The Vandelay Industries Hiring Team`,
+    },
+    expected: {
+      status: 'applied',
+      company_name: 'Vandelay Industries',
+      role_title: 'Product Designer',
+      requisition_id: '',
+      model: 'ats:ashby',
+    },
+  },
+  ashbyInterview: {
+    message: {
+      id: 'ashby-interview',
+      from: 'Vandelay Industries <no-reply@ashbyhq.com>',
+      subject: 'Interview confirmed: Product Designer at Vandelay Industries',
+      body: `Hi Sam,
+
+Your interview is confirmed for Thursday, May 9 at 11:00 AM PT with Art Vandelay.
+Video link: https://meet.example.com/vandelay`,
+    },
+    expected: {
+      status: 'interview_scheduled',
+      company_name: 'Vandelay Industries',
+      role_title: '',
+      requisition_id: '',
+      model: 'ats:ashby',
+    },
+  },
+  icimsApplied: {
+    message: {
+      id: 'icims-applied',
+      from: 'Wayne Enterprises Careers <careers-wayne@talent.icims.com>',
+      subject: 'Thank you for applying: Security Engineer (Req ID 2024-1187)',
+      body: `Dear Sam,
+
+Thank you for your interest in the Security Engineer position at Wayne Enterprises. We have
+received your application and will contact you if your skills match our needs.
+
+Requisition ID: 2024-1187`,
+    },
+    expected: {
+      status: 'applied',
+      company_name: 'Wayne Enterprises',
+      role_title: 'Security Engineer',
+      requisition_id: '2024-1187',
+      model: 'ats:icims',
+    },
+  },
+  greenhouseNewsletter: {
+    message: {
+      id: 'gh-newsletter',
+      from: 'Greenhouse <news@greenhouse.io>',
+      subject: 'Hiring trends for 2024',
+      body: `Read our latest report on how top companies are hiring this year.`,
+    },
+    expected: null,
+  },
+};
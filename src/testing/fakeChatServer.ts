@@ -0,0 +1,94 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface FakeChatRequest {
+  model: string;
+  system: string;
+  user: string;
+  body: any;
+}
+
+// Whatever the responder returns becomes the assistant message (objects are JSON encoded).
+export type FakeChatResponder = (request: FakeChatRequest) => unknown;
+
+export interface FakeChatServer {
+  // Base URL to use as LLM_BASE_URL / OPENAI_BASE_URL.
+  url: string;
+  requests: FakeChatRequest[];
+  failNext(status: number, times?: number): void;
+  close(): Promise<void>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/** A scripted OpenAI-style chat-completions server on a random local port. */
+export async function startFakeChatServer(respond: FakeChatResponder): Promise<FakeChatServer> {
+  const requests: FakeChatRequest[] = [];
+  const failures: number[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      return send(404, { error: { message: 'Not found' } });
+    }
+    const body = JSON.parse((await readBody(req)) || '{}');
+    const messages: Array<{ role: string; content: string }> = body.messages || [];
+    const request: FakeChatRequest = {
+      model: body.model || '',
+      system: messages.find((message) => message.role === 'system')?.content || '',
+      user: messages.find((message) => message.role === 'user')?.content || '',
+      body,
+    };
+    requests.push(request);
+    const failure = failures.shift();
+    if (failure) {
+      return send(failure, {
+        error: { message: failure === 429 ? 'Rate limit reached' : 'Fake failure', code: failure },
+      });
+    }
+    try {
+      const reply = respond(request);
+      const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+      const promptTokens = Math.ceil((request.system.length + request.user.length) / 4);
+      const completionTokens = Math.ceil(content.length / 4);
+      return send(200, {
+        id: `chatcmpl-${requests.length}`,
+        object: 'chat.completion',
+        model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      });
+    } catch (err: any) {
+      return send(500, { error: { message: err.message || 'Responder failed' } });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    failNext(status: number, times = 1) {
+      for (let i = 0; i < times; i++) failures.push(status);
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,219 @@
+import type { gmail_v1 } from 'googleapis';
+import type { GmailClient } from '../gmailIngest';
+
+export interface FakeMessage {
+  id: string;
+  threadId?: string;
+  from: string;
+  to?: string;
+  subject: string;
+  body: string;
+  html?: boolean;
+  internalDate: number;
+  labelIds?: string[];
+  attachments?: FakeAttachment[];
+}
+
+export interface FakeAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer | string;
+  // Inline parts carry their data in the message, as Gmail does for small invites.
+  inline?: boolean;
+}
+
+type FakeMethod =
+  | 'getProfile'
+  | 'history.list'
+  | 'messages.list'
+  | 'messages.get'
+  | 'messages.attachments.get';
+
+interface StoredMessage extends FakeMessage {
+  historyId: number;
+}
+
+function gmailError(status: number, message: string): Error {
+  // googleapis surfaces the HTTP status as both `code` and `status`.
+  return Object.assign(new Error(message), { code: status, status });
+}
+
+function base64Url(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64url');
+}
+
+/**
+ * In-memory stand-in for the Gmail endpoints ingestion calls. Adding a message bumps the mailbox
+ * history id the way Gmail does; `expireHistory` makes older history ids return 404, and
+ * `failNext` scripts transient errors such as 429 rate limits.
+ */
+export function createFakeGmail(options: { emailAddress: string; now?: () => number }) {
+  const now = options.now || (() => Date.now());
+  const messages: StoredMessage[] = [];
+  const failures: Array<{ method: FakeMethod; status: number }> = [];
+  const calls: Array<{ method: FakeMethod; params: any }> = [];
+  let historyId = 1000;
+  let oldestHistoryId = 1;
+
+  function record(method: FakeMethod, params: any): void {
+    calls.push({ method, params });
+    const index = failures.findIndex((failure) => failure.method === method);
+    if (index >= 0) {
+      const [failure] = failures.splice(index, 1);
+      throw gmailError(failure.status, `Fake ${method} failure (${failure.status})`);
+    }
+  }
+
+  function matchesQuery(message: StoredMessage, q = ''): boolean {
+    const seconds = Math.floor(message.internalDate / 1000);
+    for (const term of q.split(/\s+/).filter(Boolean)) {
+      const [key, value] = term.split(':');
+      if (key === 'after' && !(seconds > Number(value))) return false;
+      if (key === 'before' && !(seconds < Number(value))) return false;
+      if (key === 'newer_than') {
+        const days = Number(value.replace(/d$/, ''));
+        if (message.internalDate < now() - days * 86400000) return false;
+      }
+    }
+    return true;
+  }
+
+  function page<T>(items: T[], pageToken?: string | null, maxResults?: number | null) {
+    const start = Number(pageToken || 0);
+    const size = maxResults || 100;
+    const slice = items.slice(start, start + size);
+    const next = start + size < items.length ? String(start + size) : undefined;
+    return { slice, next };
+  }
+
+  function attachmentParts(message: StoredMessage): gmail_v1.Schema$MessagePart[] {
+    return (message.attachments || []).map((attachment, index) => {
+      const data = Buffer.from(attachment.data);
+      return {
+        partId: String(index + 1),
+        mimeType: attachment.mimeType,
+        filename: attachment.inline ? '' : attachment.filename,
+        body: attachment.inline
+          ? { data: data.toString('base64url'), size: data.length }
+          : { attachmentId: `${message.id}-att-${index + 1}`, size: data.length },
+      };
+    });
+  }
+
+  function toGmailMessage(message: StoredMessage): gmail_v1.Schema$Message {
+    const textPart: gmail_v1.Schema$MessagePart = {
+      partId: message.attachments?.length ? '0' : undefined,
+      mimeType: message.html ? 'text/html' : 'text/plain',
+      body: { data: base64Url(message.body), size: message.body.length },
+    };
+    return {
+      id: message.id,
+      threadId: message.threadId || message.id,
+      labelIds: message.labelIds || ['INBOX'],
+      snippet: message.body.slice(0, 100),
+      internalDate: String(message.internalDate),
+      historyId: String(message.historyId),
+      payload: {
+        mimeType: message.attachments?.length ? 'multipart/mixed' : 'multipart/alternative',
+        headers: [
+          { name: 'From', value: message.from },
+          { name: 'To', value: message.to || options.emailAddress },
+          { name: 'Subject', value: message.subject },
+          { name: 'Date', value: new Date(message.internalDate).toUTCString() },
+        ],
+        parts: [textPart, ...attachmentParts(message)],
+      },
+    };
+  }
+
+  const client: GmailClient = {
+    users: {
+      async getProfile(params) {
+        record('getProfile', params);
+        return {
+          data: {
+            emailAddress: options.emailAddress,
+            historyId: String(historyId),
+            messagesTotal: messages.length,
+          },
+        };
+      },
+      history: {
+        async list(params) {
+          record('history.list', params);
+          const start = Number(params.startHistoryId);
+          if (!Number.isFinite(start) || start < oldestHistoryId) {
+            throw gmailError(404, 'Requested entity was not found.');
+          }
+          const entries = messages
+            .filter((message) => message.historyId > start)
+            .map((message) => ({
+              id: String(message.historyId),
+              messages: [{ id: message.id, threadId: message.threadId || message.id }],
+              messagesAdded: [
+                { message: { id: message.id, threadId: message.threadId || message.id } },
+              ],
+            }));
+          const { slice, next } = page(entries, params.pageToken, params.maxResults);
+          return { data: { history: slice, historyId: String(historyId), nextPageToken: next } };
+        },
+      },
+      messages: {
+        async list(params) {
+          record('messages.list', params);
+          const matching = messages
+            .filter((message) => matchesQuery(message, params.q || ''))
+            .sort((a, b) => b.internalDate - a.internalDate)
+            .map((message) => ({ id: message.id, threadId: message.threadId || message.id }));
+          const { slice, next } = page(matching, params.pageToken, params.maxResults);
+          return {
+            data: { messages: slice, nextPageToken: next, resultSizeEstimate: matching.length },
+          };
+        },
+        async get(params) {
+          record('messages.get', params);
+          const message = messages.find((candidate) => candidate.id === params.id);
+          if (!message) {
+            throw gmailError(404, 'Requested entity was not found.');
+          }
+          return { data: toGmailMessage(message) };
+        },
+        attachments: {
+          async get(params) {
+            record('messages.attachments.get', params);
+            const message = messages.find((candidate) => candidate.id === params.messageId);
+            const index = (message?.attachments || []).findIndex(
+              (_attachment, i) => `${params.messageId}-att-${i + 1}` === params.id
+            );
+            if (!message || index < 0) {
+              throw gmailError(404, 'Requested entity was not found.');
+            }
+            const data = Buffer.from(message.attachments![index].data);
+            return { data: { data: data.toString('base64url'), size: data.length } };
+          },
+        },
+      },
+    },
+  };
+
+  return {
+    client,
+    calls,
+    add(...added: FakeMessage[]): void {
+      for (const message of added) {
+        historyId += 1;
+        messages.push({ ...message, historyId });
+      }
+    },
+    /** Pretend Gmail dropped all history up to now, as it does after about a week. */
+    expireHistory(): void {
+      oldestHistoryId = historyId + 1;
+    },
+    failNext(method: FakeMethod, status: number, times = 1): void {
+      for (let i = 0; i < times; i++) failures.push({ method, status });
+    },
+    callCount(method: FakeMethod): number {
+      return calls.filter((call) => call.method === method).length;
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import type { ClassificationResult } from '../types';
+import type { FakeMessage } from './fakeGmail';
+import type { FakeChatRequest } from './fakeChatServer';
+
+export interface EmailFixture {
+  message: Omit<FakeMessage, 'internalDate'>;
+  // What a well-behaved model answers for this email.
+  jobRelated: boolean;
+  classification?: Omit<ClassificationResult, 'taxonomy_version'> & { interview?: unknown };
+}
+
+export const recruiterEmails: Record<string, EmailFixture> = {
+  acmeApplied: {
+    message: {
+      id: 'acme-applied',
+      threadId: 'thread-acme-1',
+      from: 'Acme Talent <no-reply@greenhouse.io>',
+      subject: 'Thank you for applying to Acme',
+      body: `Hi Sam,
+
+Thank you for your interest in Acme! We have received your application for the
+Senior Backend Engineer (R-10492) role and our team is reviewing it now.
+
+If your experience is a match we will reach out about next steps.
+
+Best,
+Acme Recruiting`,
+    },
+    jobRelated: true,
+    classification: {
+      is_job_related: true,
+      status: 'applied',
+      summary: 'Application received for Senior Backend Engineer.',
+      company_name: 'Acme',
+      role_title: 'Senior Backend Engineer',
+      requisition_id: 'R-10492',
+      source: 'Greenhouse',
+    },
+  },
+  globexOutreach: {
+    message: {
+      id: 'globex-outreach',
+      threadId: 'thread-globex-1',
+      from: 'Priya Natarajan <priya@globex.com>',
+      subject: 'Platform Engineer opportunity at Globex',
+      body: `Hi Sam,
+
+I came across your profile and think you'd be a strong fit for our Platform Engineer
+team at Globex. Would you be open to a 20 minute intro call this week?
+
+Thanks,
+Priya
+Technical Recruiter, Globex`,
+    },
+    jobRelated: true,
+    classification: {
+      is_job_related: true,
+      status: 'recruiter_outreach',
+      summary: 'Recruiter reached out about a Platform Engineer role.',
+      company_name: 'Globex',
+      role_title: 'Platform Engineer',
+    },
+  },
+  weeklyDigest: {
+    message: {
+      id: 'weekly-digest',
+      threadId: 'thread-digest',
+      from: 'JobBoard Alerts <alerts@jobboard.example>',
+      subject: '25 new jobs matching "backend engineer"',
+      html: true,
+      body: `<html><body><h1>Your weekly job digest</h1>
+<p>Here are new roles we think you'll like.</p>
+<ul><li>Backend Engineer at Hooli</li><li>SRE at Initech</li></ul>
+<p><a href="https://jobboard.example/unsubscribe">Unsubscribe</a></p></body></html>`,
+    },
+    jobRelated: false,
+  },
+  acmeInterview: {
+    message: {
+      id: 'acme-interview',
+      threadId: 'thread-acme-1',
+      from: 'Jordan Lee <jordan.lee@acme.com>',
+      subject: 'Interview confirmed: Acme Senior Backend Engineer',
+      body: `Hi Sam,
+
+You're confirmed for a 45 minute technical interview with Dana Ortiz and Wei Chen
+on Tuesday, March 12 at 2:00 PM Eastern.
+
+Join via Zoom: https://acme.zoom.us/j/5551234
+
+Best of luck!
+Jordan, Acme Recruiting`,
+    },
+    jobRelated: true,
+    classification: {
+      is_job_related: true,
+      status: 'interview_scheduled',
+      summary: 'Technical interview confirmed for March 12 at 2pm ET.',
+      company_name: 'Acme',
+      role_title: 'Senior Backend Engineer',
+      requisition_id: 'R-10492',
+      interview: {
+        start: '2024-03-12T14:00',
+        end: '2024-03-12T14:45',
+        timezone: 'America/New_York',
+        meeting_link: 'https://acme.zoom.us/j/5551234',
+        interviewers: ['Dana Ortiz', 'Wei Chen'],
+        format: 'video',
+      },
+    },
+  },
+  initechRejection: {
+    message: {
+      id: 'initech-rejection',
+      threadId: 'thread-initech-1',
+      from: 'Initech Careers <careers@initech.com>',
+      subject: 'Your application to Initech',
+      body: `Dear Sam,
+
+Thank you for taking the time to apply for the Site Reliability Engineer position.
+After careful consideration, we have decided to move forward with other candidates
+whose experience more closely matches our needs.
+
+We wish you the best in your search.
+Initech Talent Acquisition`,
+    },
+    jobRelated: true,
+    classification: {
+      is_job_related: true,
+      status: 'rejected',
+      summary: 'Initech rejected the SRE application.',
+      company_name: 'Initech',
+      role_title: 'Site Reliability Engineer',
+    },
+  },
+  hooliAssessment: {
+    message: {
+      id: 'hooli-assessment',
+      threadId: 'thread-hooli-1',
+      from: 'Hooli Hiring <hiring@hooli.com>',
+      subject: 'Next step: Hooli coding assessment',
+      body: `Hi Sam,
+
+Thanks for applying to the Backend Engineer role. The next step is a 90 minute
+online coding assessment on CodeSignal. Please complete it within 5 days.
+
+Hooli Recruiting`,
+    },
+    jobRelated: true,
+    classification: {
+      is_job_related: true,
+      status: 'assessment',
+      summary: 'Hooli sent a CodeSignal coding assessment.',
+      company_name: 'Hooli',
+      role_title: 'Backend Engineer',
+    },
+  },
+  globexNextSteps: {
+    message: {
+      id: 'globex-next-steps',
+      threadId: 'thread-globex-1',
+      from: 'Priya Natarajan <priya@globex.com>',
+      subject: 'Re: Platform Engineer opportunity at Globex',
+      body: `Hi Sam,
+
+Great speaking with you! The team would like to move you forward to a technical screen.
+Could you send over a few times that work for you next week?
+
+Thanks,
+Priya`,
+    },
+    jobRelated: true,
+    classification: {
+      is_job_related: true,
+      status: 'next_steps',
+      summary: 'Globex wants availability for a technical screen.',
+      company_name: 'Globex',
+      role_title: 'Platform Engineer',
+    },
+  },
+};
+
+/**
+ * Answer gate and classify prompts from the fixture table, keyed by the Subject line.
+ * Unknown subjects are treated as not job related.
+ */
+export function fixtureResponder(fixtures: Record<string, EmailFixture> = recruiterEmails) {
+  const bySubject = new Map(
+    Object.values(fixtures).map((fixture) => [fixture.message.subject, fixture])
+  );
+  return (request: FakeChatRequest): unknown => {
+    const subject = /^Subject: (.*)$/m.exec(request.user)?.[1] || '';
+    const fixture = bySubject.get(subject);
+    if (request.system.includes('"job_related"')) {
+      return { job_related: Boolean(fixture?.jobRelated) };
+    }
+    return (
+      fixture?.classification || {
+        is_job_related: false,
+        status: 'not_job_related',
+        summary: 'Not about a job.',
+        company_name: '',
+      }
+    );
+  };
+}
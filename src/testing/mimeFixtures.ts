@@ -0,0 +1,219 @@
+import type { gmail_v1 } from 'googleapis';
+
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+export interface MimeFixture {
+  payload: MessagePart;
+  // What extractMessageBody should return.
+  expected: string;
+}
+
+function leaf(
+  mimeType: string,
+  content: string | Buffer,
+  headers: Record<string, string> = {}
+): MessagePart {
+  const data = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+  return {
+    mimeType,
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+    body: { data: data.toString('base64url'), size: data.length },
+  };
+}
+
+function multipart(mimeType: string, ...parts: MessagePart[]): MessagePart {
+  return { mimeType, parts: parts.map((part, i) => ({ partId: String(i), ...part })) };
+}
+
+// Structures seen in real recruiter mail (trimmed), one per quirk the body extractor handles.
+export const mimeEmails: Record<string, MimeFixture> = {
+  // Greenhouse sends the HTML alternative first; the plain part is still the one to read.
+  htmlFirstAlternative: {
+    payload: multipart(
+      'multipart/alternative',
+      leaf(
+        'text/html',
+        '<html><body><p>Hi Sam,</p><p>Thanks for applying to <b>Stripe</b>!</p></body></html>'
+      ),
+      leaf('text/plain', 'Hi Sam,\n\nThanks for applying to Stripe!', {
+        'Content-Type': 'text/plain; charset="UTF-8"',
+      })
+    ),
+    expected: 'Hi Sam,\n\nThanks for applying to Stripe!',
+  },
+  // Lever-style HTML only: styles and tracking images are dropped, links keep their target.
+  htmlOnly: {
+    payload: leaf(
+      'text/html',
+      [
+        '<html><head><style>p { font-family: Arial; }</style></head><body>',
+        '<img src="https://track.example/open.gif" alt="">',
+        '<p>Hi Sam,</p>',
+        '<p>Please pick a time for your <a href="https://cal.example/sam">phone screen</a>.</p>',
+        '</body></html>',
+      ].join('')
+    ),
+    expected: 'Hi Sam,\n\nPlease pick a time for your phone screen [https://cal.example/sam].',
+  },
+  // Outlook reply, still quoted-printable, in windows-1252, with the history below a rule.
+  outlookQuotedPrintableReply: {
+    payload: leaf(
+      'text/plain',
+      Buffer.from(
+        [
+          'Hi Sam,',
+          '',
+          'We=92d like to move you to the onsite round. Does Thursday work for you=',
+          ' and the team?',
+          '',
+          'Dana',
+          '',
+          '________________________________',
+          'From: Sam Lee <sam@example.com>',
+          'Sent: Monday, March 4, 2024 9:00 AM',
+          'To: Dana Ortiz <dana@umbrella.example>',
+          'Subject: Re: Next steps',
+          '',
+          'Thanks for the update!',
+        ].join('\r\n'),
+        'latin1'
+      ),
+      {
+        'Content-Type': 'text/plain; charset="Windows-1252"',
+        'Content-Transfer-Encoding': 'quoted-printable',
+      }
+    ),
+    expected:
+      'Hi Sam,\n\nWe’d like to move you to the onsite round. ' +
+      'Does Thursday work for you and the team?\n\nDana',
+  },
+  // Gmail reply: a wrapped "On … wrote:" header and ">" history; the HTML marks it gmail_quote.
+  gmailReply: {
+    payload: multipart(
+      'multipart/alternative',
+      leaf(
+        'text/plain',
+        [
+          'Sounds good, talk Thursday at 2pm.',
+          '',
+          'On Mon, Mar 4, 2024 at 9:00 AM Dana Ortiz <dana@umbrella.example>',
+          'wrote:',
+          '',
+          '> Would Thursday at 2pm work for a call?',
+          '>',
+        ].join('\n')
+      ),
+      leaf(
+        'text/html',
+        '<div dir="ltr">Sounds good, talk Thursday at 2pm.</div><br><div class="gmail_quote">' +
+          '<div class="gmail_attr">On Mon, Mar 4, 2024 Dana wrote:</div>' +
+          '<blockquote class="gmail_quote">Would Thursday at 2pm work?</blockquote></div>'
+      )
+    ),
+    expected: 'Sounds good, talk Thursday at 2pm.',
+  },
+  // Workday in ISO-8859-1.
+  latin1: {
+    payload: leaf(
+      'text/plain',
+      Buffer.from('Merci pour votre candidature chez Société Générale.', 'latin1'),
+      { 'Content-Type': 'text/plain; charset=ISO-8859-1' }
+    ),
+    expected: 'Merci pour votre candidature chez Société Générale.',
+  },
+  // Declared ASCII, sent as UTF-8.
+  mislabeledUtf8: {
+    payload: leaf('text/plain', 'José from Initech – your interview is confirmed.', {
+      'Content-Type': 'text/plain; charset=us-ascii',
+    }),
+    expected: 'José from Initech – your interview is confirmed.',
+  },
+  // Signature after the "-- " delimiter and a mobile footer.
+  signature: {
+    payload: leaf(
+      'text/plain',
+      [
+        'Hi Sam, the offer letter is attached.',
+        '',
+        'Sent from my iPhone',
+        '-- ',
+        'Dana Ortiz | Senior Recruiter',
+        'Umbrella Corp | +1 555 010 2200',
+      ].join('\n')
+    ),
+    expected: 'Hi Sam, the offer letter is attached.',
+  },
+  // A stub plain part next to the real HTML.
+  stubPlain: {
+    payload: multipart(
+      'multipart/alternative',
+      leaf('text/plain', 'View this email in your browser.'),
+      leaf(
+        'text/html',
+        '<p>Hi Sam,</p><p>Unfortunately we have decided to move forward with other candidates ' +
+          'for the Data Engineer role. We appreciate the time you spent with our team and ' +
+          'encourage you to apply again in the future.</p>'
+      )
+    ),
+    expected:
+      'Hi Sam,\n\nUnfortunately we have decided to move forward with other candidates for the ' +
+      'Data Engineer role. We\nappreciate the time you spent with our team and encourage you ' +
+      'to apply again in the future.',
+  },
+  // A forward keeps the forwarded message: that is what the user wants tracked.
+  forwarded: {
+    payload: leaf(
+      'text/plain',
+      [
+        'FYI',
+        '',
+        '---------- Forwarded message ---------',
+        'From: Hooli Talent <talent@hooli.example>',
+        'Date: Mon, Mar 4, 2024 at 9:00 AM',
+        'Subject: Your Hooli assessment',
+        '',
+        'Please complete the coding assessment within 5 days.',
+      ].join('\n')
+    ),
+    expected: [
+      'FYI',
+      '',
+      '---------- Forwarded message ---------',
+      'From: Hooli Talent <talent@hooli.example>',
+      'Date: Mon, Mar 4, 2024 at 9:00 AM',
+      'Subject: Your Hooli assessment',
+      '',
+      'Please complete the coding assessment within 5 days.',
+    ].join('\n'),
+  },
+  // Calendar invite from Google Calendar: the invite and the attached .ics are not the body.
+  inviteWithAttachments: {
+    payload: multipart(
+      'multipart/mixed',
+      multipart(
+        'multipart/alternative',
+        leaf('text/plain', 'Invitation: Globex phone screen @ Thu Mar 7, 2024 10am'),
+        leaf('text/html', '<p>Invitation: Globex phone screen @ Thu Mar 7, 2024 10am</p>'),
+        leaf('text/calendar', 'BEGIN:VCALENDAR\nMETHOD:REQUEST\nEND:VCALENDAR', {
+          'Content-Type': 'text/calendar; charset="UTF-8"; method=REQUEST',
+        })
+      ),
+      {
+        ...leaf('text/plain', 'attached notes', {
+          'Content-Disposition': 'attachment; filename="notes.txt"',
+        }),
+        filename: 'notes.txt',
+      }
+    ),
+    expected: 'Invitation: Globex phone screen @ Thu Mar 7, 2024 10am',
+  },
+  // HTML with inline images (multipart/related) and no plain part.
+  relatedHtml: {
+    payload: multipart(
+      'multipart/related',
+      leaf('text/html', '<p>Congratulations, Sam! Your offer from Initech is ready.</p>'),
+      { ...leaf('image/png', 'png'), filename: 'logo.png' }
+    ),
+    expected: 'Congratulations, Sam! Your offer from Initech is ready.',
+  },
+};
@@ -0,0 +1,105 @@
+import assert from 'node:assert';
+import { buildRollups } from './rollups';
+import { inheritFromThread, isJobThread, threadContext, threadPrompt } from './threads';
+import type { ClassificationResult, GmailEmailDoc } from './types';
+
+const owner = 'sam@example.com';
+
+function email(
+  id: string,
+  day: number,
+  threadId: string,
+  classification?: Partial<ClassificationResult>,
+  body = ''
+): GmailEmailDoc {
+  return {
+    id,
+    threadId,
+    owner,
+    from: 'Priya <priya@acme.com>',
+    to: owner,
+    subject: `Re: ${threadId}`,
+    date: `May ${day}, 2024`,
+    snippet: '',
+    body,
+    labelIds: [],
+    fetchedAt: '2024-05-01T00:00:00Z',
+    internalDate: Date.UTC(2024, 4, day),
+    classification: classification && {
+      is_job_related: true,
+      status: 'applied',
+      summary: '',
+      company_name: 'Acme',
+      ...classification,
+    },
+  };
+}
+
+// Context: earlier messages of the same thread only, oldest first, quotes stripped and cut short.
+const opener = email(
+  'm1',
+  1,
+  'th-1',
+  { role_title: 'Backend Engineer', requisition_id: 'R-1' },
+  'We received your application for Backend Engineer (R-1).'
+);
+const followUp = email(
+  'm2',
+  2,
+  'th-1',
+  { status: 'next_steps' },
+  `Could you share times for a call?\n\nOn May 1, 2024, Acme wrote:\n> We received your application`
+);
+const reply = email('m3', 3, 'th-1', undefined, 'Sounds good, see you Tuesday.');
+const elsewhere = email('x1', 1, 'th-2', { company_name: 'Globex' });
+const context = threadContext(reply, [reply, followUp, elsewhere, opener]);
+assert.deepStrictEqual(context.messages.map((doc) => doc.id), ['m1', 'm2']);
+assert.strictEqual(context.latest, followUp.classification);
+assert.ok(isJobThread(context));
+assert.ok(!isJobThread(threadContext(opener, [opener, followUp])));
+assert.deepStrictEqual(threadContext({ ...reply, threadId: undefined }, [opener]).messages, []);
+
+const prompt = threadPrompt(context);
+assert.ok(prompt.includes('Earlier messages in this thread'));
+assert.ok(prompt.indexOf('Backend Engineer (R-1)') < prompt.indexOf('share times'));
+assert.ok(!prompt.includes('> We received'));
+assert.ok(!prompt.includes('wrote:'));
+const long = email('m0', 0, 'th-1', {}, 'x'.repeat(5000));
+assert.ok(threadPrompt(threadContext(reply, [long])).length < 1000);
+assert.strictEqual(threadPrompt({ messages: [] }), '');
+
+// A reply that names no company or role inherits them; one from another company does not.
+const confirmation: ClassificationResult = {
+  is_job_related: true,
+  status: 'comment_only',
+  summary: 'Candidate confirmed the call.',
+  company_name: '',
+};
+const inherited = inheritFromThread(confirmation, threadContext(reply, [opener]));
+assert.deepStrictEqual(
+  [inherited.company_name, inherited.role_title, inherited.requisition_id],
+  ['Acme', 'Backend Engineer', 'R-1']
+);
+const other = { ...confirmation, company_name: 'Globex' };
+assert.strictEqual(inheritFromThread(other, threadContext(reply, [opener])), other);
+assert.strictEqual(inheritFromThread(confirmation, { messages: [] }), confirmation);
+
+// Rollups: replies stay on their thread's application, and a repeated "next steps" in one
+// thread is a timeline note rather than another counted event.
+const emails = [
+  email('a1', 1, 'th-a', { role_title: 'Backend Engineer' }),
+  email('d1', 2, 'th-d', { role_title: 'Data Engineer' }),
+  email('a2', 3, 'th-a', { status: 'next_steps' }),
+  email('a3', 4, 'th-a', { status: 'next_steps' }),
+  email('d2', 5, 'th-d', { status: 'next_steps' }),
+];
+const rollups = buildRollups(owner, emails, '2024-05-10');
+assert.strictEqual(rollups.companies[0].next_steps, 2);
+const [backend, data] = rollups.applications;
+assert.strictEqual(backend.role_title, 'Backend Engineer');
+assert.deepStrictEqual(backend.email_ids, ['a1', 'a2', 'a3']);
+assert.deepStrictEqual(backend.timeline.map((event) => event.stage), ['applied', 'screen', 'note']);
+assert.deepStrictEqual(data.email_ids, ['d1', 'd2']);
+assert.strictEqual(data.stage, 'screen');
+
+console.log('threads tests passed');
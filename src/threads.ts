@@ -0,0 +1,90 @@
+import { companyKey } from './companyNames';
+import type { ClassificationResult, ClassificationStatus, GmailEmailDoc } from './types';
+
+// How much of a thread the classifier sees: the latest few earlier messages, each cut short.
+const MAX_CONTEXT_MESSAGES = 4;
+const MAX_CONTEXT_CHARS = 800;
+
+// Statuses a back-and-forth repeats ("Sounds good, see you Tuesday"); within one thread only the
+// first counts, later replies go on the timeline as notes.
+export const THREAD_REPEAT_STATUSES: ClassificationStatus[] = ['recruiter_outreach', 'next_steps'];
+
+export interface ThreadContext {
+  // Earlier messages in the thread, oldest first.
+  messages: GmailEmailDoc[];
+  // The latest earlier job-related classification, which replies inherit missing fields from.
+  latest?: ClassificationResult;
+}
+
+function isBefore(a: GmailEmailDoc, b: GmailEmailDoc): boolean {
+  const at = a.internalDate || 0;
+  const bt = b.internalDate || 0;
+  return at < bt || (at === bt && a.id < b.id);
+}
+
+/** Collect the messages stored before `email` in its Gmail thread. */
+export function threadContext(email: GmailEmailDoc, threadEmails: GmailEmailDoc[]): ThreadContext {
+  if (!email.threadId) return { messages: [] };
+  const earlier = threadEmails
+    .filter((doc) => doc.threadId === email.threadId && doc.id !== email.id && isBefore(doc, email))
+    .sort((a, b) => (isBefore(a, b) ? -1 : 1));
+  const latest = [...earlier]
+    .reverse()
+    .find((doc) => doc.classification?.is_job_related && doc.classification.company_name)
+    ?.classification;
+  return { messages: earlier.slice(-MAX_CONTEXT_MESSAGES), latest };
+}
+
+/**
+ * True when an earlier message in the thread already passed the gate. Only job-related mail is
+ * stored, so any stored message the classifier did not reject counts.
+ */
+export function isJobThread(context: ThreadContext): boolean {
+  return context.messages.some((doc) => doc.classification?.is_job_related !== false);
+}
+
+// Quoted history repeats the earlier messages we already include, so drop it.
+function stripQuoted(body: string): string {
+  const lines = (body || '').split('\n');
+  const cut = lines.findIndex((line) => /^On .+ wrote:\s*$/.test(line.trim()));
+  return (cut >= 0 ? lines.slice(0, cut) : lines)
+    .filter((line) => !line.startsWith('>'))
+    .join('\n')
+    .trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max).trimEnd()}…` : text;
+}
+
+/** Earlier thread messages for the classify prompt, or '' when the email starts its thread. */
+export function threadPrompt(context?: ThreadContext): string {
+  if (!context?.messages.length) return '';
+  const entries = context.messages.map((doc) => {
+    const body = truncate(stripQuoted(doc.body || doc.snippet || ''), MAX_CONTEXT_CHARS);
+    return `--- From ${doc.from || 'unknown'} on ${doc.date || 'unknown date'}:\n${body}`;
+  });
+  const header = 'Earlier messages in this thread (oldest first, truncated; context only):';
+  return `\n\n${header}\n${entries.join('\n\n')}`;
+}
+
+/**
+ * Fill the company, role and requisition a reply left out from the thread's earlier
+ * classification. Role and requisition only carry over while the company stays the same.
+ */
+export function inheritFromThread(
+  classification: ClassificationResult,
+  context?: ThreadContext
+): ClassificationResult {
+  const earlier = context?.latest;
+  if (!earlier || !classification.is_job_related) return classification;
+  const company = (classification.company_name || '').trim();
+  if (company && companyKey(company) !== companyKey(earlier.company_name)) return classification;
+  return {
+    ...classification,
+    company_name: company || earlier.company_name,
+    role_title: classification.role_title || earlier.role_title || '',
+    requisition_id: classification.requisition_id || earlier.requisition_id || '',
+    source: classification.source || earlier.source || '',
+  };
+}
@@ -1,17 +1,77 @@
 import type { Request } from 'express';
+import type { ApplicationStage, TimelineEvent } from './applicationStages';
 
 export type ClassificationStatus =
   | 'applied'
   | 'rejected'
   | 'next_steps'
+  | 'interview_scheduled'
+  | 'assessment'
+  | 'offer'
+  | 'recruiter_outreach'
+  | 'withdrawn'
+  | 'on_hold'
   | 'comment_only'
   | 'not_job_related';
 
+// Job-related statuses that get their own counter on the company rollup.
+export type CountedStatus = Exclude<ClassificationStatus, 'comment_only' | 'not_job_related'>;
+
 export interface ClassificationResult {
   is_job_related: boolean;
   status: ClassificationStatus;
   summary: string;
   company_name: string;
+  role_title?: string;
+  requisition_id?: string;
+  source?: string;
+  // 2 = the expanded status set; absent on classifications stored before it existed.
+  taxonomy_version?: number;
+  // Classify model and prompt revision that produced this result; absent on older classifications.
+  model?: string;
+  prompt_version?: number;
+  // Raw interview details as extracted; normalized onto GmailEmailDoc.interview before storage.
+  interview?: unknown;
+}
+
+export type CorrectableFields = Pick<ClassificationResult, 'status' | 'company_name' | 'summary'>;
+
+// A user's correction to one email's classification. `classification` holds the corrected values;
+// `original` is what the classifier said, kept up to date when the email is reclassified.
+export interface ClassificationOverride extends Partial<CorrectableFields> {
+  original: CorrectableFields;
+  updatedAt: string;
+}
+
+export type InterviewFormat = 'phone' | 'video' | 'onsite' | 'other';
+
+// An interview extracted from an email. start/end are UTC ISO timestamps.
+export interface InterviewEvent {
+  start: string;
+  end?: string;
+  // IANA zone the email quoted the time in, when it said.
+  timezone?: string;
+  meeting_link?: string;
+  location?: string;
+  interviewers: string[];
+  format?: InterviewFormat;
+}
+
+export type AttachmentKind = 'calendar' | 'pdf' | 'docx' | 'other';
+
+export interface EmailAttachment {
+  // Gmail part id; unlike the attachment id it stays the same each time the message is fetched.
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+  // Text read from a PDF or DOCX attachment, shown to the classifier after the body.
+  text?: string;
+  // The event of a calendar invite; `cancelled` invites keep it but never set the interview.
+  event?: InterviewEvent | null;
+  title?: string;
+  cancelled?: boolean;
 }
 
 export interface GmailEmailDoc {
@@ -30,25 +90,104 @@ export interface GmailEmailDoc {
   internalDate: number;
   classification?: ClassificationResult;
   classifiedAt?: string;
+  classificationOverride?: ClassificationOverride;
+  applicationId?: string;
+  interview?: InterviewEvent | null;
+  attachments?: EmailAttachment[];
   createdAt?: string;
 }
 
+export type FailureStage = 'fetch' | 'gate' | 'classify';
+
+// A message the ingest pipeline could not process, kept so it can be retried or dismissed.
+export interface FailedMessageDoc {
+  id: string;
+  owner: string;
+  messageId: string;
+  // The mailbox the message is in; only runs for that mailbox retry it.
+  gmailAccount?: string;
+  threadId?: string;
+  subject?: string;
+  from?: string;
+  internalDate?: number;
+  stage: FailureStage;
+  error: string;
+  attempts: number;
+  // Automatic retries stop once attempts run out; the user can still retry by hand.
+  status: 'pending' | 'exhausted';
+  nextAttemptAt?: string;
+  firstFailedAt: string;
+  lastFailedAt: string;
+}
+
 export interface CommentEntry {
   date: string;
   note: string;
 }
 
-export interface JobDoc {
+// Company-level rollup. Documents written before applications existed have no docType.
+export interface JobDoc extends Record<CountedStatus, number> {
   id: string;
+  docType?: 'company';
   owner: string;
   company_name: string;
-  applied: number;
-  rejected: number;
-  next_steps: number;
   comments: CommentEntry[];
   last_updated: string;
 }
 
+// One application to one role at one company; emails attach to it via GmailEmailDoc.applicationId.
+export interface ApplicationDoc {
+  id: string;
+  docType: 'application';
+  owner: string;
+  company_name: string;
+  company_slug: string;
+  role_title: string;
+  requisition_id?: string;
+  source?: string;
+  stage: ApplicationStage;
+  applied_at?: string;
+  created_at: string;
+  last_updated: string;
+  email_ids: string[];
+  timeline: TimelineEvent[];
+  // True when any timeline event was an illogical transition that a person should check.
+  needs_review: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// One LLM call that reached a provider (cache hits are free and not recorded).
+export interface UsageRecordDoc extends TokenUsage {
+  id: string;
+  owner: string;
+  stage: 'gate' | 'classify';
+  model: string;
+  messageId?: string;
+  // Estimated from the model's price list; 0 for local or unpriced models.
+  costUsd: number;
+  at: string;
+  // UTC YYYY-MM-DD, for daily and monthly totals.
+  day: string;
+}
+
+// Company key (see companyKey) → the company it should be shown and counted as.
+export type CompanyAliases = Record<string, string>;
+
+export interface ProfileDoc {
+  id: string;
+  email: string;
+  name: string;
+  companyAliases?: CompanyAliases;
+  // Estimated LLM spend per calendar month (UTC) after which classification pauses; unset uses
+  // LLM_MONTHLY_BUDGET_USD and 0 means no limit.
+  monthlyBudgetUsd?: number;
+}
+
 export interface SessionPayload {
   name: string;
   email: string;
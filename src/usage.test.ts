@@ -0,0 +1,184 @@
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { classifyEmail } from './emailClassifier';
+import { ingestGmailMessages } from './gmailIngest';
+import { createLlmCache, type LlmCacheStore } from './llmCache';
+import { loadStageProviders } from './llmProviders';
+import { createLocalRepositories } from './localRepositories';
+import { createFakeGmail } from './testing/fakeGmail';
+import { startFakeChatServer } from './testing/fakeChatServer';
+import { fixtureResponder, recruiterEmails, type EmailFixture } from './testing/fixtures';
+import type { GmailEmailDoc, UsageRecordDoc } from './types';
+import {
+  createUsageTracker,
+  estimateCostUsd,
+  parseBudget,
+  parseModelPrices,
+  summarizeUsage,
+} from './usage';
+
+const owner = 'sam@example.com';
+
+function emailDoc(fixture: EmailFixture, to = owner): GmailEmailDoc {
+  const { message } = fixture;
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    owner: to,
+    from: message.from,
+    to,
+    subject: message.subject,
+    date: '2024-03-01',
+    snippet: '',
+    body: message.body,
+    labelIds: ['INBOX'],
+    fetchedAt: '2024-03-01T12:00:00.000Z',
+    internalDate: Date.parse('2024-03-01T12:00:00Z'),
+  };
+}
+
+function memoryStore(): LlmCacheStore {
+  const entries = new Map<string, string>();
+  return {
+    get: async (key) => entries.get(key) ?? null,
+    set: async (key, value) => entries.set(key, value),
+  };
+}
+
+async function main() {
+  // Prices: dated snapshots fall back to their base model; unknown models cost nothing.
+  const million = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+  assert.strictEqual(estimateCostUsd('gpt-4o-mini-2024-07-18', million), 0.75);
+  assert.strictEqual(estimateCostUsd('gpt-4o', million), 12.5);
+  assert.strictEqual(estimateCostUsd('llama3', million), 0);
+  assert.deepStrictEqual(parseModelPrices('{"llama3": {"input": 1, "output": "2"}}'), {
+    llama3: { input: 1, output: 2 },
+  });
+  assert.throws(() => parseModelPrices('{"llama3": {"input": 1}}'), /numeric/);
+  assert.strictEqual(parseBudget('12.345'), 12.35);
+  assert.strictEqual(parseBudget(null), null);
+  assert.throws(() => parseBudget(-1), (err: any) => err.code === 'INVALID_BUDGET');
+  assert.throws(() => parseBudget('lots'), (err: any) => err.code === 'INVALID_BUDGET');
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobapp-usage-'));
+  const chat = await startFakeChatServer(fixtureResponder());
+  try {
+    const repos = createLocalRepositories(dir);
+    let now = new Date('2024-03-01T12:00:00Z');
+    // $1 per thousand tokens, so a single fake call is easily measurable.
+    const fakePrice = { input: 1000, output: 1000 };
+    const tracker = createUsageTracker(repos, {
+      prices: { 'fake-gate': fakePrice, 'fake-classify': fakePrice },
+      now: () => now,
+    });
+    const env = {
+      EMAIL_GATE_PROVIDER: 'openai-compatible',
+      EMAIL_CLASS_PROVIDER: 'openai-compatible',
+      EMAIL_GATE_MODEL: 'fake-gate',
+      EMAIL_CLASS_MODEL: 'fake-classify',
+      LLM_BASE_URL: chat.url,
+    };
+    const providers = tracker.wrapProviders(
+      createLlmCache(memoryStore()).wrapProviders(loadStageProviders(env))
+    );
+
+    // Each provider call is recorded with its tokens and cost; cache hits are free.
+    const initech = emailDoc(recruiterEmails.initechRejection);
+    await classifyEmail(providers.classify, initech);
+    await classifyEmail(providers.classify, initech);
+    assert.strictEqual(chat.requests.length, 1);
+    const [record] = await repos.usage.listByOwner(owner);
+    assert.deepStrictEqual(
+      [record.stage, record.model, record.messageId, record.day],
+      ['classify', 'fake-classify', initech.id, '2024-03-01']
+    );
+    assert.ok(record.promptTokens > 0 && record.completionTokens > 0);
+    assert.strictEqual(record.totalTokens, record.promptTokens + record.completionTokens);
+    assert.strictEqual(record.costUsd, record.totalTokens / 1000);
+    assert.strictEqual(await tracker.monthSpend(owner), record.costUsd);
+
+    // Calls made on nobody's behalf are not recorded.
+    await classifyEmail(providers.classify, emailDoc(recruiterEmails.hooliAssessment, ''));
+    assert.strictEqual(chat.requests.length, 2);
+    assert.strictEqual((await repos.usage.listSince('2024-01-01')).length, 1);
+
+    // Summaries group by day, month, stage and model.
+    const records: UsageRecordDoc[] = [
+      { ...record, id: 'a' },
+      { ...record, id: 'b', stage: 'gate', day: '2024-03-02' },
+      { ...record, id: 'c', day: '2024-02-20' },
+    ];
+    const summary = summarizeUsage(records);
+    assert.strictEqual(summary.totals.calls, 3);
+    assert.deepStrictEqual(
+      summary.byDay.map((day) => [day.day, day.calls]),
+      [
+        ['2024-02-20', 1],
+        ['2024-03-01', 1],
+        ['2024-03-02', 1],
+      ]
+    );
+    assert.deepStrictEqual(
+      summary.byMonth.map((month) => [month.month, month.calls]),
+      [
+        ['2024-02', 1],
+        ['2024-03', 2],
+      ]
+    );
+    assert.deepStrictEqual([summary.byStage.classify.calls, summary.byStage.gate.calls], [2, 1]);
+
+    // Budgets: none by default, then per user; null goes back to the default.
+    assert.strictEqual(await tracker.overBudget(owner), false);
+    assert.strictEqual(await tracker.setMonthlyBudget(owner, 0.01), 0.01);
+    assert.strictEqual((await repos.profiles.get(owner))?.monthlyBudgetUsd, 0.01);
+    assert.strictEqual(await tracker.overBudget(owner), true);
+    // A new month starts from zero.
+    now = new Date('2024-04-01T00:00:00Z');
+    assert.strictEqual(await tracker.monthSpend(owner), 0);
+    assert.strictEqual(await tracker.overBudget(owner), false);
+    assert.strictEqual(await tracker.setMonthlyBudget(owner, null), 0);
+    assert.strictEqual((await repos.profiles.get(owner))?.monthlyBudgetUsd, undefined);
+    // A budget set elsewhere (another server instance) is picked up once the cached one expires.
+    await repos.profiles.upsert({ id: owner, email: owner, name: owner, monthlyBudgetUsd: 5 });
+    assert.strictEqual(await tracker.monthlyBudget(owner), 0);
+    now = new Date('2024-04-01T00:10:00Z');
+    assert.strictEqual(await tracker.monthlyBudget(owner), 5);
+    assert.strictEqual(await tracker.setMonthlyBudget(owner, null), 0);
+
+    // Ingest stops once the first message pushes the owner over budget.
+    const alex = 'alex@example.com';
+    await tracker.setMonthlyBudget(alex, 0.01);
+    const gmail = createFakeGmail({ emailAddress: alex });
+    const internalDate = Date.now() - 86400000;
+    gmail.add(
+      { ...recruiterEmails.globexOutreach.message, internalDate },
+      { ...recruiterEmails.initechRejection.message, internalDate: internalDate + 1000 }
+    );
+    const result = await ingestGmailMessages(
+      {
+        repos,
+        gmail: gmail.client,
+        cache: { set: async () => undefined, del: async () => undefined },
+        state: { loadState: async () => null, saveState: async (_email, partial) => partial },
+        providers,
+        messageConcurrency: 1,
+        usage: tracker,
+      },
+      alex
+    );
+    assert.strictEqual(result.monthlyBudgetExceeded, true);
+    assert.strictEqual(result.fetched, 1);
+    assert.ok((await tracker.monthSpend(alex)) >= 0.01);
+  } finally {
+    await chat.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  console.log('usage tests passed');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import type { ChatRequest, ChatResult, LlmProvider, StageProviders } from './llmProviders';
+import type { Repositories } from './repositories';
+import type { TokenUsage, UsageRecordDoc } from './types';
+
+// USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// api.openai.com list prices; other models (Azure deployments, local servers) cost nothing unless
+// LLM_MODEL_PRICES names them.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5': { input: 1.25, output: 10 },
+};
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  // Sorted oldest first.
+  byDay: Array<UsageTotals & { day: string }>;
+  byMonth: Array<UsageTotals & { month: string }>;
+  byStage: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface UsageTracker {
+  wrapProviders(providers: StageProviders): StageProviders;
+  // Estimated spend so far this month (UTC).
+  monthSpend(ownerEmail: string): Promise<number>;
+  monthlyBudget(ownerEmail: string): Promise<number>;
+  setMonthlyBudget(ownerEmail: string, budgetUsd: number | null): Promise<number>;
+  // True once this month's spend has reached a non-zero budget.
+  overBudget(ownerEmail: string): Promise<boolean>;
+}
+
+function usageError(message: string, code: string): Error {
+  const err: any = new Error(message);
+  err.code = code;
+  return err;
+}
+
+/** Parse LLM_MODEL_PRICES (`{"my-deployment": {"input": 0.15, "output": 0.6}}`). */
+export function parseModelPrices(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) return {};
+  const parsed = JSON.parse(raw);
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries<any>(parsed || {})) {
+    const input = Number(price?.input);
+    const output = Number(price?.output);
+    if (!Number.isFinite(input) || !Number.isFinite(output)) {
+      throw new Error(`LLM_MODEL_PRICES: "${model}" needs numeric input and output prices.`);
+    }
+    prices[model] = { input, output };
+  }
+  return prices;
+}
+
+// Providers report dated snapshots ("gpt-4o-mini-2024-07-18"); fall back to the longest prefix.
+function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((known) => model.startsWith(`${known}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function estimateCostUsd(
+  model: string,
+  usage: TokenUsage,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES
+): number {
+  const price = priceFor(model, prices);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/** Validate a monthly budget from a request body; null clears it back to the default. */
+export function parseBudget(value: unknown): number | null {
+  if (value === null || value === '') return null;
+  const budget = Number(value);
+  if (!Number.isFinite(budget) || budget < 0) {
+    throw usageError('Monthly budget must be a non-negative number of dollars', 'INVALID_BUDGET');
+  }
+  return Math.round(budget * 100) / 100;
+}
+
+// Budgets can be changed by another server instance; re-read them after this long.
+const BUDGET_CACHE_MS = 5 * 60 * 1000;
+
+export function monthStart(now = new Date()): string {
+  return `${now.toISOString().slice(0, 7)}-01`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function add(totals: UsageTotals, record: UsageRecordDoc): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+}
+
+/** Daily, monthly, per-stage and per-model totals of usage records. */
+export function summarizeUsage(records: UsageRecordDoc[]): UsageSummary {
+  const totals = emptyTotals();
+  const days = new Map<string, UsageTotals>();
+  const months = new Map<string, UsageTotals>();
+  const byStage: Record<string, UsageTotals> = {};
+  const byModel: Record<string, UsageTotals> = {};
+  const bucket = (map: Map<string, UsageTotals>, key: string) => {
+    if (!map.has(key)) map.set(key, emptyTotals());
+    return map.get(key)!;
+  };
+  for (const record of records) {
+    add(totals, record);
+    add(bucket(days, record.day), record);
+    add(bucket(months, record.day.slice(0, 7)), record);
+    add((byStage[record.stage] ||= emptyTotals()), record);
+    add((byModel[record.model] ||= emptyTotals()), record);
+  }
+  const sorted = (map: Map<string, UsageTotals>) =>
+    Array.from(map.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return {
+    totals,
+    byDay: sorted(days).map(([day, dayTotals]) => ({ day, ...dayTotals })),
+    byMonth: sorted(months).map(([month, monthTotals]) => ({ month, ...monthTotals })),
+    byStage,
+    byModel,
+  };
+}
+
+/**
+ * Record token usage for every provider call and keep per-owner monthly spend for budget
+ * checks. Spend is read from storage once per owner and month, then kept up to date in memory;
+ * budgets are cached for BUDGET_CACHE_MS.
+ */
+export function createUsageTracker(
+  repos: Repositories,
+  options: {
+    prices?: Record<string, ModelPrice>;
+    // Budget for owners who have not set their own; 0 means no limit.
+    defaultMonthlyBudgetUsd?: number;
+    now?: () => Date;
+  } = {}
+): UsageTracker {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...options.prices };
+  const defaultBudget = options.defaultMonthlyBudgetUsd ?? 0;
+  const now = options.now || (() => new Date());
+  const spend = new Map<string, { month: string; total: Promise<number> }>();
+  const budgets = new Map<string, { readAt: number; budget: Promise<number> }>();
+
+  const spendEntry = (owner: string) => {
+    const month = monthStart(now());
+    let entry = spend.get(owner);
+    if (!entry || entry.month !== month) {
+      const total = repos.usage
+        .listByOwner(owner, month)
+        .then((records) => records.reduce((sum, record) => sum + record.costUsd, 0));
+      entry = { month, total };
+      spend.set(owner, entry);
+      // A failed read is retried on the next check instead of being cached.
+      total.catch(() => spend.get(owner) === entry && spend.delete(owner));
+    }
+    return entry;
+  };
+
+  const record = async (request: ChatRequest, provider: LlmProvider, result: ChatResult) => {
+    const owner = (request.owner || '').trim().toLowerCase();
+    if (!owner || result.cached || !result.usage) return;
+    const at = now();
+    const model = result.model || provider.model;
+    const doc: UsageRecordDoc = {
+      id: crypto.randomUUID(),
+      owner,
+      stage: request.stage,
+      model,
+      messageId: request.messageId,
+      ...result.usage,
+      costUsd: estimateCostUsd(model, result.usage, prices),
+      at: at.toISOString(),
+      day: at.toISOString().slice(0, 10),
+    };
+    try {
+      const entry = spendEntry(owner);
+      await entry.total.catch(() => 0);
+      await repos.usage.record(doc);
+      entry.total = entry.total.then((total) => total + doc.costUsd);
+    } catch (err: any) {
+      console.error('Failed to record LLM usage', err?.message || err);
+    }
+  };
+
+  const wrap = (provider: LlmProvider | null): LlmProvider | null => {
+    if (!provider) return provider;
+    return {
+      ...provider,
+      async chat(request: ChatRequest): Promise<ChatResult> {
+        const result = await provider.chat(request);
+        await record(request, provider, result);
+        return result;
+      },
+    };
+  };
+
+  const monthlyBudget = (owner: string): Promise<number> => {
+    const readAt = now().getTime();
+    let entry = budgets.get(owner);
+    if (!entry || readAt - entry.readAt >= BUDGET_CACHE_MS) {
+      const budget = repos.profiles
+        .get(owner)
+        .then((profile) => profile?.monthlyBudgetUsd ?? defaultBudget);
+      entry = { readAt, budget };
+      budgets.set(owner, entry);
+      budget.catch(() => budgets.get(owner) === entry && budgets.delete(owner));
+    }
+    return entry.budget;
+  };
+
+  return {
+    wrapProviders: (providers) => ({
+      gate: wrap(providers.gate),
+      classify: wrap(providers.classify),
+    }),
+    monthSpend: (owner) => spendEntry(owner).total,
+    monthlyBudget,
+    async setMonthlyBudget(owner, budgetUsd) {
+      const profile = (await repos.profiles.get(owner)) || { id: owner, email: owner, name: owner };
+      const next = { ...profile };
+      if (budgetUsd === null) delete next.monthlyBudgetUsd;
+      else next.monthlyBudgetUsd = budgetUsd;
+      await repos.profiles.upsert(next);
+      const effective = budgetUsd ?? defaultBudget;
+      budgets.set(owner, { readAt: now().getTime(), budget: Promise.resolve(effective) });
+      return effective;
+    },
+    async overBudget(owner) {
+      try {
+        const budget = await monthlyBudget(owner);
+        return budget > 0 && (await spendEntry(owner).total) >= budget;
+      } catch (err: any) {
+        // Budgets are a safety net; an unreadable profile or usage store must not stop ingest.
+        console.error('Failed to check LLM budget', err?.message || err);
+        return false;
+      }
+    },
+  };
+}